@@ -10,6 +10,9 @@ declare namespace Cloudflare {
 		NEXTJS_ENV: string;
 		AUTH_SECRET: string;
 		PHOTOS_BUCKET_URL: string;
+		STORAGE_DRIVER: string;
+		STORAGE_QUOTA_BYTES: string;
+		TRASH_RETENTION_DAYS: string;
 		WORKER_SELF_REFERENCE: Fetcher /* love-you */;
 	}
 }
@@ -18,7 +21,7 @@ type StringifyValues<EnvType extends Record<string, unknown>> = {
 	[Binding in keyof EnvType]: EnvType[Binding] extends string ? EnvType[Binding] : string;
 };
 declare namespace NodeJS {
-	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "NEXTJS_ENV" | "AUTH_SECRET" | "PHOTOS_BUCKET_URL">> {}
+	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "NEXTJS_ENV" | "AUTH_SECRET" | "PHOTOS_BUCKET_URL" | "STORAGE_DRIVER" | "STORAGE_QUOTA_BYTES" | "TRASH_RETENTION_DAYS">> {}
 }
 
 // Begin runtime types
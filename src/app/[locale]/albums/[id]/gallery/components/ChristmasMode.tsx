@@ -38,6 +38,7 @@ import {
   LogOut,
 } from "lucide-react";
 import { Photo } from "./types";
+import { getPhotoUrl } from "@/lib/photoVariants";
 import { EffectType, EffectLogic } from "./effects/types";
 import { HeartLogic, HeartScene } from "./effects/HeartEffect";
 import { GestureHandler } from "./effects/GestureHandler";
@@ -309,6 +310,49 @@ const ParticleSystem = ({
   );
 };
 
+// Remote images go through the proxy so textures are CORS-safe
+const toProxiedUrl = (url: string) => {
+  if (!url) return "";
+  return url.startsWith("http")
+    ? `/api/image-proxy?url=${encodeURIComponent(url)}`
+    : url;
+};
+
+// Plays a clip as a texture while `url` is set. Clips are not proxied (the
+// proxy buffers whole responses), so the bucket must allow cross-origin
+// GETs. Returns null until the first frame is ready.
+const useClipTexture = (url: string | null) => {
+  const [clip, setClip] = useState<{
+    url: string;
+    texture: THREE.VideoTexture;
+  } | null>(null);
+
+  useEffect(() => {
+    if (!url) return;
+    const video = document.createElement("video");
+    video.crossOrigin = "anonymous";
+    video.muted = true;
+    video.loop = true;
+    video.playsInline = true;
+    video.src = url;
+
+    const texture = new THREE.VideoTexture(video);
+    texture.colorSpace = THREE.SRGBColorSpace;
+    video.onplaying = () => setClip({ url, texture });
+    video.play().catch(() => undefined);
+
+    return () => {
+      video.onplaying = null;
+      video.pause();
+      video.removeAttribute("src");
+      video.load();
+      texture.dispose();
+    };
+  }, [url]);
+
+  return clip && clip.url === url ? clip.texture : null;
+};
+
 // --- Photo Gallery Component ---
 const PhotoGallery = ({
   photos,
@@ -333,7 +377,8 @@ const PhotoGallery = ({
       {displayPhotos.map((photo, i) => (
         <PhotoItem
           key={photo.id}
-          url={photo.url}
+          url={getPhotoUrl(photo, "medium")}
+          motionUrl={photo.motionUrl}
           index={i}
           total={displayPhotos.length}
           mode={mode}
@@ -349,6 +394,7 @@ const PhotoGallery = ({
 
 const PhotoItem = ({
   url,
+  motionUrl,
   index,
   total,
   mode,
@@ -358,6 +404,7 @@ const PhotoItem = ({
   onScatter,
 }: {
   url: string;
+  motionUrl?: string | null;
   index: number;
   total: number;
   mode: EffectType;
@@ -371,14 +418,11 @@ const PhotoItem = ({
   const [hovered, setHovered] = useState(false);
 
   // Proxy URL
-  const proxiedUrl = useMemo(() => {
-    if (!url) return "";
-    return url.startsWith("http")
-      ? `/api/image-proxy?url=${encodeURIComponent(url)}`
-      : url;
-  }, [url]);
+  const proxiedUrl = useMemo(() => toProxiedUrl(url), [url]);
 
   const tex = useTexture(proxiedUrl);
+  // The clip replaces the still only while the item is focused
+  const clipTex = useClipTexture(focused && motionUrl ? motionUrl : null);
   const targetPos = useRef(new THREE.Vector3());
 
   // Calculate aspect ratio from texture
@@ -497,7 +541,7 @@ const PhotoItem = ({
     >
       <planeGeometry args={[1, 1]} />
       <meshBasicMaterial
-        map={tex}
+        map={clipTex ?? tex}
         side={THREE.DoubleSide}
         transparent
         opacity={0.98}
@@ -1320,11 +1364,7 @@ export const ChristmasMode = ({
                         }`}
                       >
                         <img
-                          src={
-                            photo.url.startsWith("http")
-                              ? `/api/image-proxy?url=${encodeURIComponent(photo.url)}`
-                              : photo.url
-                          }
+                          src={toProxiedUrl(getPhotoUrl(photo, "thumbnail"))}
                           className='w-full h-full object-cover'
                           alt=''
                           loading='lazy'
@@ -1,19 +1,129 @@
 "use client";
 
+import { useState } from "react";
 import { motion } from "framer-motion";
+import { Heart, MessageCircle, Tag, X } from "lucide-react";
 import { Photo } from "./types";
+import { getPhotoUrl } from "@/lib/photoVariants";
+import { HoverClip, MediaBadge } from "./MotionClip";
+import { useDragReorder } from "@/hooks/useDragReorder";
+import { useLoadMore } from "@/hooks/useLoadMore";
 
 interface GalleryGridProps {
   photos: Photo[];
   onPhotoClick: (index: number) => void;
+  // Enables drag-and-drop reordering (long press on touch screens)
+  onReorder?: (photos: Photo[]) => void;
+  // Photos are loaded a page at a time as the grid scrolls
+  hasMore?: boolean;
+  loadingMore?: boolean;
+  onLoadMore?: () => void;
+  // Tag the photos are filtered by; tag chips change it when set
+  activeTag?: string | null;
+  onTagFilter?: (tag: string | null) => void;
+  // Shows a heart on each photo that toggles a reaction, filled for the
+  // photos in `reactedIds`
+  onReact?: (photo: Photo) => void;
+  reactedIds?: Set<string>;
 }
 
-export const GalleryGrid = ({ photos, onPhotoClick }: GalleryGridProps) => {
+// Numbers of comments and reactions in the corner of a grid tile. With
+// `onReact` the reactions become a heart button.
+const FeedbackBadges = ({
+  photo,
+  onReact,
+  reacted,
+}: {
+  photo: Photo;
+  onReact?: (photo: Photo) => void;
+  reacted: boolean;
+}) => {
+  const comments = photo.commentCount ?? 0;
+  const reactions = photo.reactionCount ?? 0;
+  if (!onReact && comments === 0 && reactions === 0) return null;
+
+  const badge =
+    "flex items-center gap-1 px-1.5 py-0.5 rounded-full bg-black/50 backdrop-blur-sm text-[9px] font-bold text-white";
+
+  return (
+    <div className='absolute top-2 right-2 flex items-center gap-1'>
+      {comments > 0 && (
+        <span className={`${badge} pointer-events-none`}>
+          <MessageCircle className='w-2.5 h-2.5' />
+          {comments}
+        </span>
+      )}
+      {onReact ? (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onReact(photo);
+          }}
+          onPointerDown={(e) => e.stopPropagation()}
+          className={`${badge} hover:bg-rose-500/70 transition-colors`}
+          title={reacted ? "Take your heart back" : "Send a heart"}
+        >
+          <Heart
+            className={`w-2.5 h-2.5 ${reacted ? "fill-rose-400 text-rose-400" : ""}`}
+          />
+          {reactions > 0 && reactions}
+        </button>
+      ) : (
+        reactions > 0 && (
+          <span className={`${badge} pointer-events-none`}>
+            <Heart className='w-2.5 h-2.5 fill-white' />
+            {reactions}
+          </span>
+        )
+      )}
+    </div>
+  );
+};
+
+export const GalleryGrid = ({
+  photos,
+  onPhotoClick,
+  onReorder,
+  hasMore = false,
+  loadingMore = false,
+  onLoadMore,
+  activeTag = null,
+  onTagFilter,
+  onReact,
+  reactedIds,
+}: GalleryGridProps) => {
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+  const {
+    items: orderedPhotos,
+    draggingId,
+    getItemProps,
+  } = useDragReorder(photos, (photo) => photo.id, onReorder);
+  const loadMoreRef = useLoadMore({
+    hasMore: hasMore && !!onLoadMore,
+    loading: loadingMore,
+    onLoadMore: () => onLoadMore?.(),
+  });
+
+  const tagFilterBar = activeTag && onTagFilter && (
+    <div className='flex justify-center mb-6'>
+      <button
+        onClick={() => onTagFilter(null)}
+        className='flex items-center gap-1.5 px-4 py-2 bg-rose-500/20 hover:bg-rose-500/30 text-rose-200 rounded-full text-xs font-bold backdrop-blur-md border border-rose-500/30 transition-all'
+        title='Show all photos'
+      >
+        <Tag className='w-3.5 h-3.5' />
+        {activeTag}
+        <X className='w-3.5 h-3.5' />
+      </button>
+    </div>
+  );
+
   if (photos.length === 0) {
     return (
-      <div className='text-center py-20'>
+      <div className='text-center pt-20 sm:pt-32 py-20'>
+        {tagFilterBar}
         <p className='text-rose-500/50 font-bold uppercase tracking-widest'>
-          No photos yet
+          {activeTag ? "No photos with this tag" : "No photos yet"}
         </p>
       </div>
     );
@@ -26,30 +136,81 @@ export const GalleryGrid = ({ photos, onPhotoClick }: GalleryGridProps) => {
       exit={{ opacity: 0 }}
       className='pt-20 sm:pt-32 px-3 sm:px-4 pb-8 sm:pb-12 max-w-7xl mx-auto'
     >
+      {tagFilterBar}
       <div className='grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3 sm:gap-6'>
-        {photos.map((photo, index) => (
+        {orderedPhotos.map((photo, index) => (
           <motion.div
             key={photo.id}
+            layout={onReorder ? "position" : false}
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
-            transition={{ delay: index * 0.05 }}
-            className='group relative aspect-square rounded-xl sm:rounded-2xl overflow-hidden cursor-pointer border border-white/10 bg-white/5'
-            onClick={() => onPhotoClick(index)}
+            transition={{
+              // Later pages fade in without waiting for the whole list
+              delay: Math.min(index * 0.05, 0.5),
+              layout: { duration: 0.2 },
+            }}
+            className={`group relative aspect-square rounded-xl sm:rounded-2xl overflow-hidden cursor-pointer border bg-white/5 ${
+              draggingId === photo.id
+                ? "z-10 border-rose-400 opacity-80 scale-105 shadow-2xl"
+                : "border-white/10"
+            } ${onReorder ? "select-none" : ""}`}
+            {...getItemProps(photo.id)}
+            onClick={() => onPhotoClick(photos.indexOf(photo))}
+            onPointerEnter={() => setHoveredId(photo.id)}
+            onPointerLeave={() => setHoveredId(null)}
           >
             <img
-              src={photo.url}
-              alt={photo.caption || "Photo"}
+              src={getPhotoUrl(photo, "thumbnail")}
+              alt={photo.altText || photo.caption || "Photo"}
               className='w-full h-full object-cover group-hover:scale-110 transition-transform duration-700'
               loading='lazy'
+              draggable={false}
+            />
+            <HoverClip
+              photo={photo}
+              active={hoveredId === photo.id && !draggingId}
+            />
+            <MediaBadge photo={photo} />
+            <FeedbackBadges
+              photo={photo}
+              onReact={onReact}
+              reacted={reactedIds?.has(photo.id) ?? false}
             />
-            <div className='absolute inset-0 bg-gradient-to-t from-black/80 to-transparent opacity-0 group-hover:opacity-100 transition-opacity flex items-end p-3 sm:p-4'>
+            <div className='absolute inset-0 bg-gradient-to-t from-black/80 to-transparent opacity-0 group-hover:opacity-100 transition-opacity flex flex-col justify-end gap-1.5 p-3 sm:p-4'>
               <p className='text-[10px] sm:text-xs font-bold text-white truncate w-full'>
                 {photo.caption}
               </p>
+              {onTagFilter && photo.tags && photo.tags.length > 0 && (
+                <div className='flex flex-wrap gap-1'>
+                  {photo.tags.map((tag) => (
+                    <button
+                      key={tag.id}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onTagFilter(tag.name);
+                      }}
+                      onPointerDown={(e) => e.stopPropagation()}
+                      className='px-2 py-0.5 bg-white/15 hover:bg-rose-500/60 text-white rounded-full text-[9px] font-bold backdrop-blur-sm transition-colors'
+                    >
+                      #{tag.name}
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
           </motion.div>
         ))}
       </div>
+      {hasMore && (
+        <div
+          ref={loadMoreRef}
+          className='flex justify-center py-8'
+        >
+          {loadingMore && (
+            <div className='w-6 h-6 border-2 border-rose-900 border-t-rose-500 rounded-full animate-spin' />
+          )}
+        </div>
+      )}
     </motion.div>
   );
 };
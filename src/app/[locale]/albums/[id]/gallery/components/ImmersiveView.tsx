@@ -14,8 +14,15 @@ import TWEEN from "@tweenjs/tween.js";
 import { Stars, useProgress } from "@react-three/drei";
 import { Photo } from "./types";
 import { ParticleGallery } from "./ParticleGallery";
-import { SHARED_TEXT_KEY, DEFAULT_GREETING_TEXT } from "./utils";
+import { MotionOverlay } from "./MotionClip";
+import {
+  SHARED_TEXT_KEY,
+  DEFAULT_GREETING_TEXT,
+  milestoneGreeting,
+} from "./utils";
 import { LoadingOverlay } from "@/components/game/LoadingOverlay";
+import { dateInTimeZone } from "@/lib/calendar";
+import { upcomingMilestones } from "@/lib/milestones";
 import { motion, AnimatePresence } from "framer-motion";
 import { useTranslations } from "next-intl";
 
@@ -838,9 +845,30 @@ export function ImmersiveView({
   useEffect(() => {
     if (!initialText) {
       const saved = localStorage.getItem(SHARED_TEXT_KEY);
-      if (saved) setTargetText(saved);
+      if (saved) {
+        setTargetText(saved);
+      } else if (albumId) {
+        // Without a greeting of their own, owners count down to their next
+        // milestone
+        showNextMilestone();
+      }
     }
-  }, [initialText]);
+  }, [initialText, albumId]);
+
+  const showNextMilestone = async () => {
+    try {
+      const { milestonesApi } = await import("@/lib/api");
+      const { milestones } = await milestonesApi.list();
+      const today = dateInTimeZone(
+        new Date(),
+        Intl.DateTimeFormat().resolvedOptions().timeZone,
+      );
+      const [next] = upcomingMilestones(milestones, today);
+      if (next) setTargetText(milestoneGreeting(next.occurrence));
+    } catch (error) {
+      console.error("Failed to load milestones for the greeting", error);
+    }
+  };
 
   useEffect(() => {
     if (isActive && !isInitializing) {
@@ -1152,6 +1180,13 @@ export function ImmersiveView({
           />
         </EffectComposer>
       </Canvas>
+
+      {isActive && scenePhase === "main" && (
+        <MotionOverlay
+          key={photos[currentIndex]?.id}
+          photo={photos[currentIndex]}
+        />
+      )}
     </div>
   );
 }
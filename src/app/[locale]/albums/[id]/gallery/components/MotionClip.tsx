@@ -0,0 +1,134 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { AnimatePresence, motion } from "framer-motion";
+import { Play } from "lucide-react";
+import { getPhotoUrl } from "@/lib/photoVariants";
+import { formatDuration } from "@/lib/utils";
+import { Photo } from "./types";
+
+// How long the slideshow stays on an item: stills get the usual 3s, clips
+// get long enough to play through once the overlay appears
+export const getSlideDuration = (photo?: Photo) => {
+  if (!photo?.motionUrl || !photo.duration) return 3000;
+  return Math.max(3000, Math.ceil(photo.duration * 1000) + 1000);
+};
+
+// Small label marking videos and Live Photos on top of their still
+export const MediaBadge = ({ photo }: { photo: Photo }) => {
+  if (!photo.motionUrl) return null;
+
+  return (
+    <span className='absolute top-2 left-2 flex items-center gap-1 px-1.5 py-0.5 rounded-full bg-black/50 backdrop-blur-sm text-[9px] font-bold tracking-wider text-white pointer-events-none'>
+      {photo.mediaType === "live" ? (
+        "LIVE"
+      ) : (
+        <>
+          <Play className='w-2.5 h-2.5 fill-white' />
+          {photo.duration ? formatDuration(photo.duration) : null}
+        </>
+      )}
+    </span>
+  );
+};
+
+// Plays a clip inline while the pointer rests on its grid tile
+export const HoverClip = ({
+  photo,
+  active,
+}: {
+  photo: Photo;
+  active: boolean;
+}) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (active) {
+      video.currentTime = 0;
+      video.play().catch(() => undefined);
+    } else {
+      video.pause();
+    }
+  }, [active]);
+
+  if (!photo.motionUrl) return null;
+
+  return (
+    <video
+      ref={videoRef}
+      src={photo.motionUrl}
+      muted
+      loop
+      playsInline
+      preload='none'
+      className={`absolute inset-0 w-full h-full object-cover transition-opacity duration-300 pointer-events-none ${
+        active ? "opacity-100" : "opacity-0"
+      }`}
+    />
+  );
+};
+
+// Plays the clip of the current item over the still the 3D view settles
+// on. Videos play with controls; Live Photos play once, muted, then fade
+// back to their still. Mount with `key={photo.id}` so each item starts
+// fresh.
+export const MotionOverlay = ({
+  photo,
+  delay = 700,
+}: {
+  photo?: Photo;
+  delay?: number;
+}) => {
+  const [visible, setVisible] = useState(false);
+  const [ended, setEnded] = useState(false);
+
+  useEffect(() => {
+    if (!photo?.motionUrl) return;
+    // Let the particle morph land on the still first
+    const timer = setTimeout(() => setVisible(true), delay);
+    return () => clearTimeout(timer);
+  }, [photo?.motionUrl, delay]);
+
+  if (!photo?.motionUrl) return null;
+  const isLive = photo.mediaType === "live";
+
+  return (
+    <div className='absolute inset-0 z-30 flex items-center justify-center pointer-events-none'>
+      <AnimatePresence>
+        {visible && (
+          <motion.video
+            key='clip'
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            src={photo.motionUrl}
+            poster={getPhotoUrl(photo, "full")}
+            autoPlay
+            muted
+            playsInline
+            controls={!isLive}
+            onEnded={
+              isLive
+                ? () => {
+                    setVisible(false);
+                    setEnded(true);
+                  }
+                : undefined
+            }
+            className='max-w-[90vw] max-h-[80vh] rounded-lg shadow-2xl pointer-events-auto'
+          />
+        )}
+      </AnimatePresence>
+      {isLive && ended && !visible && (
+        <button
+          onClick={() => setVisible(true)}
+          className='absolute bottom-28 left-1/2 -translate-x-1/2 px-4 py-1.5 rounded-full border border-white/10 bg-black/40 backdrop-blur-md text-[10px] font-bold tracking-[0.2em] text-white/70 hover:text-[#FFD700] pointer-events-auto transition-colors'
+        >
+          LIVE
+        </button>
+      )}
+    </div>
+  );
+};
@@ -9,6 +9,7 @@ import { useFrame, useThree } from "@react-three/fiber";
 
 import * as THREE from "three";
 import { Photo } from "./types";
+import { getPhotoUrl } from "@/lib/photoVariants";
 import { vertexShader, fragmentShader } from "./shaders";
 import {
   getImageParticleData,
@@ -141,13 +142,14 @@ export const ParticleGallery: React.FC<ParticleGalleryProps> = ({
       const photo = photos[index];
       if (!photo) return null;
 
-      if (particleCache.current.has(photo.url)) {
-        return particleCache.current.get(photo.url);
+      const url = getPhotoUrl(photo, "medium");
+      if (particleCache.current.has(url)) {
+        return particleCache.current.get(url);
       }
 
       try {
-        const data = await getImageParticleData(photo.url);
-        particleCache.current.set(photo.url, data);
+        const data = await getImageParticleData(url);
+        particleCache.current.set(url, data);
         return data;
       } catch (e) {
         console.error("[ParticleGallery] Error loading particles", e);
@@ -177,7 +179,7 @@ export const ParticleGallery: React.FC<ParticleGalleryProps> = ({
       // 2. Load texture
       const loader = new THREE.TextureLoader();
       loader.load(
-        `/api/image-proxy?url=${encodeURIComponent(photos[index].url)}`,
+        `/api/image-proxy?url=${encodeURIComponent(getPhotoUrl(photos[index], "medium"))}`,
         (tex) => {
           if (currentId !== transitionId.current) return;
           tex.colorSpace = THREE.SRGBColorSpace;
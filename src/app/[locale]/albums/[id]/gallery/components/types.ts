@@ -1,3 +1,7 @@
+import type { PhotoVariants } from "@/lib/photoVariants";
+import type { MediaType } from "@/lib/media";
+import type { PhotoTag } from "@/lib/tags";
+
 export interface Album {
   id: string;
   title: string;
@@ -8,5 +12,15 @@ export interface Album {
 export interface Photo {
   id: string;
   url: string;
+  thumbnailUrl?: string | null;
+  variants?: PhotoVariants | null;
   caption?: string;
+  altText?: string | null;
+  mediaType?: MediaType;
+  // Clip of a video (url is then its poster frame) or Live Photo
+  motionUrl?: string | null;
+  duration?: number | null;
+  tags?: PhotoTag[];
+  commentCount?: number;
+  reactionCount?: number;
 }
@@ -1,4 +1,5 @@
 import * as THREE from "three";
+import type { CalendarDate } from "@/lib/calendar";
 
 // Configuration
 export const GALLERY_PARTICLE_COUNT = 25000; // Increased for higher density
@@ -7,6 +8,11 @@ export const WORLD_SCALE = 90.0;
 export const SHARED_TEXT_KEY = "immersive_shared_greeting_text";
 export const DEFAULT_GREETING_TEXT = "2026 521";
 
+// Greeting for a milestone's next occurrence, in the style of the default:
+// the year, then month and day run together (20 May 2026 is "2026 520")
+export const milestoneGreeting = ({ year, month, day }: CalendarDate) =>
+  `${year} ${month}${String(day).padStart(2, "0")}`;
+
 // Helper to get brightness from color
 const getBrightness = (r: number, g: number, b: number) => {
   return 0.299 * r + 0.587 * g + 0.114 * b;
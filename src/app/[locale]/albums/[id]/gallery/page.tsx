@@ -1,26 +1,39 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import { useParams } from "next/navigation";
+import { useParams, useSearchParams } from "next/navigation";
 import { useRouter } from "@/i18n/routing";
 import { useAuth } from "@/hooks/useAuth";
-import { albumsApi, photosApi } from "@/lib/api";
+import { albumsApi, fetchAllPages, photosApi } from "@/lib/api";
+import {
+  isFilteredView,
+  pickPhotoFilters,
+  withPhotoFilter,
+} from "@/lib/photoFilters";
 import { motion, AnimatePresence } from "framer-motion";
 import ParticleBackground from "@/components/game/ParticleBackground";
 import { ArrowLeft, Grid3X3, Trees, Maximize2, X } from "lucide-react";
 import { GalleryGrid } from "./components/GalleryGrid";
 import { ChristmasMode } from "./components/ChristmasMode";
 import { ImmersiveView } from "./components/ImmersiveView";
+import { getSlideDuration } from "./components/MotionClip";
 import { Album, Photo } from "./components/types";
 
 export default function AlbumGalleryPage() {
   const params = useParams();
   const albumId = params.id as string;
+  // Sort and filter parameters of the page URL are passed on to the photos
+  // API, e.g. ?sort=takenAt&direction=desc or ?hasLocation=true
+  const searchParams = useSearchParams();
+  const filters = pickPhotoFilters(searchParams);
   const router = useRouter();
   const { user, loading: authLoading } = useAuth();
 
   const [album, setAlbum] = useState<Album | null>(null);
   const [photos, setPhotos] = useState<Photo[]>([]);
+  // Cursor of the next page of photos; null once all are loaded
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState("");
   const [viewMode, setViewMode] = useState<"grid" | "christmas" | "immersive">(
@@ -53,27 +66,74 @@ export default function AlbumGalleryPage() {
     if (user) {
       loadAlbumData();
     }
-  }, [user, authLoading, router]);
+  }, [user, authLoading, router, searchParams]);
 
   useEffect(() => {
-    let interval: NodeJS.Timeout;
+    let timeout: NodeJS.Timeout;
     if (isPlaying && viewMode === "immersive") {
-      interval = setInterval(() => {
+      // Clips hold the slideshow until they have played
+      timeout = setTimeout(() => {
         setCurrentIndex((prev) => (prev + 1) % photos.length);
-      }, 3000);
+      }, getSlideDuration(photos[currentIndex]));
     }
-    return () => clearInterval(interval);
-  }, [isPlaying, viewMode, photos.length]);
+    return () => clearTimeout(timeout);
+  }, [isPlaying, viewMode, photos, currentIndex]);
+
+  // The saved order covers the whole album, so a sorted or filtered view
+  // cannot be rearranged
+  const canReorder = !isFilteredView(filters);
+
+  // Shows the new order right away; on failure the album is reloaded so
+  // the grid falls back to the saved order
+  const handleReorder = async (reordered: Photo[]) => {
+    setPhotos(reordered);
+    try {
+      // The saved order covers the whole album, so photos that are not
+      // loaded yet keep their place after the loaded ones
+      const rest = nextCursor
+        ? await fetchAllPages(
+            (cursor) => photosApi.list<Photo>(albumId, { cursor }, filters),
+            nextCursor,
+          )
+        : [];
+      const all = [...reordered, ...rest];
+      setPhotos(all);
+      setNextCursor(null);
+      await photosApi.reorder(albumId, all.map((photo) => photo.id));
+    } catch (err) {
+      console.error("Failed to save photo order", err);
+      loadAlbumData();
+    }
+  };
+
+  const loadMorePhotos = async () => {
+    if (!nextCursor || loadingMore) return;
+    try {
+      setLoadingMore(true);
+      const page = await photosApi.list<Photo>(
+        albumId,
+        { cursor: nextCursor },
+        filters,
+      );
+      setPhotos((prev) => [...prev, ...page.items]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      console.error("Failed to load more photos", err);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
 
   const loadAlbumData = async () => {
     try {
       setLoading(true);
-      const [albumData, photosData] = await Promise.all([
+      const [albumData, photosPage] = await Promise.all([
         albumsApi.get(albumId),
-        photosApi.list(albumId),
+        photosApi.list<Photo>(albumId, {}, filters),
       ]);
       setAlbum(albumData as Album);
-      setPhotos(photosData as Photo[]);
+      setPhotos(photosPage.items);
+      setNextCursor(photosPage.nextCursor);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to load album");
     } finally {
@@ -192,6 +252,16 @@ export default function AlbumGalleryPage() {
           >
             <GalleryGrid
               photos={photos}
+              hasMore={nextCursor !== null}
+              loadingMore={loadingMore}
+              onLoadMore={loadMorePhotos}
+              onReorder={canReorder ? handleReorder : undefined}
+              activeTag={filters.tag ?? null}
+              onTagFilter={(tag) =>
+                router.replace(
+                  `/albums/${albumId}/gallery${withPhotoFilter(searchParams, "tag", tag)}`,
+                )
+              }
               onPhotoClick={(index) => {
                 setCurrentIndex(index);
                 setViewMode("immersive");
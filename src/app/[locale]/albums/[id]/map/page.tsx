@@ -0,0 +1,9 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import { PhotoMapScreen } from "@/components/game/PhotoMapScreen";
+
+export default function AlbumMapPage() {
+  const params = useParams();
+  return <PhotoMapScreen albumId={params.id as string} />;
+}
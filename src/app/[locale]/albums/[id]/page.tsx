@@ -74,6 +74,7 @@ export default function AlbumDetailPageStandalone() {
           <ArchivesView
             albumId={albumId}
             onBack={() => router.push("/albums")}
+            onOpenAlbum={(id) => router.push(`/albums/${id}`)}
           />
         </main>
       </div>
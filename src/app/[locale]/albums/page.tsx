@@ -1,12 +1,13 @@
 "use client";
 
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { useRouter } from "@/i18n/routing";
 import { useAuth } from "@/hooks/useAuth";
 import { useTranslations } from "next-intl";
 import { motion } from "framer-motion";
 import ParticleBackground from "@/components/game/ParticleBackground";
 import { AlbumList } from "@/components/game/AlbumList";
+import { TrashView } from "@/components/game/TrashView";
 import { LogOut, Home } from "lucide-react";
 import Link from "next/link";
 import { albumsApi } from "@/lib/api";
@@ -17,6 +18,7 @@ export default function AlbumsPage() {
   const navT = useTranslations("Navigation");
   const t = useTranslations("Albums");
   const gameT = useTranslations("Game.UI");
+  const [showTrash, setShowTrash] = useState(false);
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -41,9 +43,9 @@ export default function AlbumsPage() {
   const handleStartUpload = async () => {
     try {
       // Fetch albums to find the first one
-      const albumsData = (await albumsApi.list()) as unknown as {
-        id: string;
-      }[];
+      const { items: albumsData } = await albumsApi.list<{ id: string }>({
+        limit: 1,
+      });
       if (albumsData && albumsData.length > 0) {
         // Redirect with a query parameter to trigger the upload form
         router.push(`/albums/${albumsData[0].id}?action=upload`);
@@ -113,13 +115,18 @@ export default function AlbumsPage() {
 
       {/* Main Content */}
       <main className='relative z-10 pt-24 sm:pt-32 pb-10 sm:pb-20 h-screen flex flex-col safe-area-inset-bottom'>
-        <AlbumList
-          onSelectAlbum={handleSelectAlbum}
-          onStartUpload={() => {
-            // If we have albums, use the first one, else it will show no albums UI
-            if (handleStartUpload) handleStartUpload();
-          }}
-        />
+        {showTrash ? (
+          <TrashView onBack={() => setShowTrash(false)} />
+        ) : (
+          <AlbumList
+            onSelectAlbum={handleSelectAlbum}
+            onStartUpload={() => {
+              // If we have albums, use the first one, else it will show no albums UI
+              if (handleStartUpload) handleStartUpload();
+            }}
+            onOpenTrash={() => setShowTrash(true)}
+          />
+        )}
       </main>
     </div>
   );
@@ -0,0 +1,7 @@
+"use client";
+
+import { PhotoMapScreen } from "@/components/game/PhotoMapScreen";
+
+export default function LibraryMapPage() {
+  return <PhotoMapScreen />;
+}
@@ -0,0 +1,455 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useLocale, useTranslations } from "next-intl";
+import { ArrowLeft, Heart, Pencil, Plus, Trash2, X } from "lucide-react";
+import { Link, useRouter } from "@/i18n/routing";
+import { useAuth } from "@/hooks/useAuth";
+import { albumsApi, milestonesApi } from "@/lib/api";
+import {
+  dateInTimeZone,
+  parseCalendarDate,
+  type CalendarDate,
+} from "@/lib/calendar";
+import {
+  daysBetween,
+  daysTogether,
+  MILESTONE_RECURRENCES,
+  occurrenceNumber,
+  upcomingMilestones,
+  type Milestone,
+  type MilestoneInput,
+} from "@/lib/milestones";
+import ParticleBackground from "@/components/game/ParticleBackground";
+
+interface AlbumOption {
+  id: string;
+  title: string;
+}
+
+const EMPTY_FORM: MilestoneInput = {
+  title: "",
+  date: "",
+  recurrence: "yearly",
+  albumId: null,
+};
+
+// Milestones are kept in date order, like the list endpoint returns them
+const byDate = (a: Milestone, b: Milestone) => a.date.localeCompare(b.date);
+
+// Today in the browser's time zone
+const localToday = () =>
+  dateInTimeZone(new Date(), Intl.DateTimeFormat().resolvedOptions().timeZone);
+
+interface MilestoneFormProps {
+  initial: MilestoneInput;
+  albums: AlbumOption[];
+  onSubmit: (input: MilestoneInput) => Promise<void>;
+  onCancel: () => void;
+}
+
+function MilestoneForm({
+  initial,
+  albums,
+  onSubmit,
+  onCancel,
+}: MilestoneFormProps) {
+  const t = useTranslations("Milestones");
+  const [form, setForm] = useState(initial);
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await onSubmit(form);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass =
+    "w-full px-5 py-3 bg-white/50 border border-rose-100 rounded-2xl focus:border-rose-400 text-rose-700 placeholder:text-rose-200 outline-none transition-all shadow-inner";
+  const labelClass =
+    "block text-xs font-bold text-rose-400 uppercase tracking-widest mb-2 ml-1";
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className='glass-panel p-5 sm:p-8 rounded-2xl sm:rounded-[2.5rem] border-rose-100/50 grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-6'
+    >
+      <div className='sm:col-span-2'>
+        <label className={labelClass}>{t("form.title")} *</label>
+        <input
+          type='text'
+          value={form.title}
+          onChange={(e) => setForm({ ...form, title: e.target.value })}
+          required
+          maxLength={100}
+          className={inputClass}
+          placeholder={t("form.titlePlaceholder")}
+        />
+      </div>
+      <div>
+        <label className={labelClass}>{t("form.date")} *</label>
+        <input
+          type='date'
+          value={form.date}
+          onChange={(e) => setForm({ ...form, date: e.target.value })}
+          required
+          className={inputClass}
+        />
+      </div>
+      <div>
+        <label className={labelClass}>{t("form.recurrence")}</label>
+        <select
+          value={form.recurrence}
+          onChange={(e) =>
+            setForm({
+              ...form,
+              recurrence: e.target.value as MilestoneInput["recurrence"],
+            })
+          }
+          className={inputClass}
+        >
+          {MILESTONE_RECURRENCES.map((recurrence) => (
+            <option key={recurrence} value={recurrence}>
+              {t(`recurrence.${recurrence}`)}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className='sm:col-span-2'>
+        <label className={labelClass}>{t("form.album")}</label>
+        <select
+          value={form.albumId ?? ""}
+          onChange={(e) =>
+            setForm({ ...form, albumId: e.target.value || null })
+          }
+          className={inputClass}
+        >
+          <option value=''>{t("form.noAlbum")}</option>
+          {albums.map((album) => (
+            <option key={album.id} value={album.id}>
+              {album.title}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className='sm:col-span-2 flex justify-end gap-3'>
+        <button
+          type='button'
+          onClick={onCancel}
+          className='px-5 py-2.5 rounded-full text-sm font-bold text-rose-400 hover:bg-rose-50 transition-colors'
+        >
+          {t("form.cancel")}
+        </button>
+        <button
+          type='submit'
+          disabled={saving}
+          className='px-6 py-2.5 bg-rose-500 hover:bg-rose-600 disabled:opacity-50 text-white rounded-full text-sm font-bold shadow-sm transition-all'
+        >
+          {saving ? t("form.saving") : t("form.save")}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export default function MilestonesPage() {
+  const router = useRouter();
+  const locale = useLocale();
+  const { user, loading: authLoading } = useAuth();
+  const t = useTranslations("Milestones");
+  const gameT = useTranslations("Game.UI");
+  const [milestones, setMilestones] = useState<Milestone[] | null>(null);
+  const [albums, setAlbums] = useState<AlbumOption[]>([]);
+  const [error, setError] = useState("");
+  // The milestone being edited, "new" for the create form
+  const [editing, setEditing] = useState<string | null>(null);
+  const [today, setToday] = useState<CalendarDate>(localToday);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.push("/login");
+    }
+  }, [user, authLoading, router]);
+
+  useEffect(() => {
+    if (!user) return;
+    Promise.all([milestonesApi.list(), albumsApi.listAll<AlbumOption>()])
+      .then(([data, albumList]) => {
+        setMilestones(data.milestones);
+        setAlbums(albumList);
+      })
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : t("errors.load")),
+      );
+  }, [user, t]);
+
+  // Counters move on at midnight while the page stays open
+  useEffect(() => {
+    const timer = setInterval(() => setToday(localToday()), 60_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const formatDate = ({ year, month, day }: CalendarDate) =>
+    new Intl.DateTimeFormat(locale, {
+      year: "numeric",
+      month: "long",
+      day: "numeric",
+      timeZone: "UTC",
+    }).format(new Date(Date.UTC(year, month - 1, day)));
+
+  const handleSave = async (input: MilestoneInput) => {
+    try {
+      setError("");
+      if (editing === "new") {
+        const created = await milestonesApi.create(input);
+        setMilestones((prev) => [...(prev ?? []), created].sort(byDate));
+      } else if (editing) {
+        const updated = await milestonesApi.update(editing, input);
+        setMilestones((prev) =>
+          (prev ?? [])
+            .map((item) => (item.id === editing ? updated : item))
+            .sort(byDate),
+        );
+      }
+      setEditing(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("errors.save"));
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await milestonesApi.delete(id);
+      setMilestones((prev) => (prev ?? []).filter((item) => item.id !== id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("errors.delete"));
+    }
+  };
+
+  if (authLoading) {
+    return (
+      <div className='min-h-screen flex items-center justify-center bg-background text-rose-500 font-sans'>
+        <div className='flex flex-col items-center gap-4'>
+          <div className='w-12 h-12 border-4 border-rose-100 border-t-rose-500 rounded-full animate-spin' />
+          <div className='text-xs tracking-widest animate-pulse font-bold uppercase'>
+            {gameT("openingVault")}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) return null;
+
+  const together = milestones ? daysTogether(milestones, today) : null;
+  const upcoming = milestones ? upcomingMilestones(milestones, today) : [];
+  // One-off milestones that have passed, most recent first
+  const past = (milestones ?? [])
+    .filter(({ id }) => !upcoming.some(({ milestone }) => milestone.id === id))
+    .reverse();
+
+  const renderForm = (initial: MilestoneInput) => (
+    <MilestoneForm
+      initial={initial}
+      albums={albums}
+      onSubmit={handleSave}
+      onCancel={() => setEditing(null)}
+    />
+  );
+
+  const renderItem = (milestone: Milestone, countdown: React.ReactNode) => {
+    if (editing === milestone.id) {
+      const { title, date, recurrence, albumId } = milestone;
+      return (
+        <li key={milestone.id}>
+          {renderForm({ title, date, recurrence, albumId })}
+        </li>
+      );
+    }
+    const date = parseCalendarDate(milestone.date);
+    return (
+      <li
+        key={milestone.id}
+        className='glass-panel p-4 sm:p-6 rounded-2xl sm:rounded-3xl border-rose-100/50 flex items-center gap-4'
+      >
+        <div className='min-w-0 flex-1'>
+          <h3 className='text-base sm:text-xl font-black text-rose-900 dark:text-rose-100 truncate'>
+            {milestone.title}
+          </h3>
+          <p className='mt-1 text-[10px] sm:text-xs text-rose-300 font-bold uppercase tracking-widest'>
+            {date && formatDate(date)} ·{" "}
+            {t(`recurrence.${milestone.recurrence}`)}
+            {milestone.albumId && (
+              <>
+                {" · "}
+                <Link
+                  href={`/albums/${milestone.albumId}`}
+                  className='text-rose-400 hover:text-rose-600 underline underline-offset-4'
+                >
+                  {milestone.albumTitle}
+                </Link>
+              </>
+            )}
+          </p>
+        </div>
+        <div className='shrink-0 text-right'>{countdown}</div>
+        <div className='shrink-0 flex flex-col sm:flex-row gap-1'>
+          <button
+            onClick={() => setEditing(milestone.id)}
+            className='p-2 rounded-full text-rose-300 hover:text-rose-500 hover:bg-rose-50 transition-colors'
+            title={t("edit")}
+          >
+            <Pencil className='w-3.5 h-3.5 sm:w-4 sm:h-4' />
+          </button>
+          <button
+            onClick={() => handleDelete(milestone.id)}
+            className='p-2 rounded-full text-rose-300 hover:text-rose-500 hover:bg-rose-50 transition-colors'
+            title={t("delete")}
+          >
+            <Trash2 className='w-3.5 h-3.5 sm:w-4 sm:h-4' />
+          </button>
+        </div>
+      </li>
+    );
+  };
+
+  return (
+    <div className='min-h-screen bg-background text-foreground font-sans relative overflow-hidden'>
+      <ParticleBackground />
+
+      <header className='fixed top-0 left-0 right-0 z-50 border-b border-rose-100/20 bg-white/20 dark:bg-black/20 backdrop-blur-md safe-area-inset-top'>
+        <div className='max-w-4xl mx-auto px-4 sm:px-6 h-16 sm:h-20 flex items-center gap-3 sm:gap-4'>
+          <button
+            onClick={() => router.push("/albums")}
+            className='p-1.5 sm:p-2 hover:bg-rose-50 rounded-full transition-colors text-rose-400'
+            title={t("backToAlbums")}
+          >
+            <ArrowLeft className='w-4 h-4 sm:w-5 sm:h-5' />
+          </button>
+          <div className='flex-1'>
+            <h1 className='text-lg sm:text-2xl font-black tracking-tighter bg-clip-text text-transparent bg-gradient-to-r from-rose-400 to-purple-500'>
+              {t("title")}
+            </h1>
+            <p className='text-[9px] sm:text-[10px] text-rose-300 font-bold tracking-[0.2em] uppercase'>
+              {t("subtitle")}
+            </p>
+          </div>
+          <button
+            onClick={() => setEditing(editing === "new" ? null : "new")}
+            className='flex items-center gap-2 px-4 sm:px-5 py-2 sm:py-2.5 bg-rose-500 hover:bg-rose-600 text-white rounded-full text-xs sm:text-sm font-bold shadow-sm transition-all touch-target'
+          >
+            {editing === "new" ? (
+              <X className='w-3.5 h-3.5 sm:w-4 sm:h-4' />
+            ) : (
+              <Plus className='w-3.5 h-3.5 sm:w-4 sm:h-4' />
+            )}
+            <span className='hidden sm:inline'>{t("add")}</span>
+          </button>
+        </div>
+      </header>
+
+      <main className='relative z-10 h-screen overflow-y-auto custom-scrollbar pt-24 sm:pt-32 pb-20 safe-area-inset-bottom'>
+        <div className='max-w-4xl mx-auto px-4 sm:px-6 space-y-8 sm:space-y-12'>
+          {error && (
+            <div className='bg-rose-50 border border-rose-200 text-rose-500 px-6 py-4 rounded-2xl text-sm font-medium'>
+              {error}
+            </div>
+          )}
+
+          {editing === "new" && renderForm(EMPTY_FORM)}
+
+          {!milestones && !error && (
+            <p className='py-20 text-center text-rose-300 text-xs font-bold uppercase tracking-widest animate-pulse'>
+              {t("loading")}
+            </p>
+          )}
+
+          {together !== null && (
+            <section className='text-center py-6 sm:py-10'>
+              <Heart className='w-8 h-8 sm:w-10 sm:h-10 mx-auto mb-3 text-rose-500 fill-rose-200 animate-pulse' />
+              <p className='text-5xl sm:text-7xl font-black tracking-tighter text-rose-500'>
+                {together.toLocaleString(locale)}
+              </p>
+              <p className='mt-2 text-xs sm:text-sm text-rose-300 font-bold uppercase tracking-[0.2em]'>
+                {t("daysTogether", { count: together })}
+              </p>
+            </section>
+          )}
+
+          {milestones?.length === 0 && editing !== "new" && (
+            <div className='flex flex-col items-center py-16 sm:py-24 border-2 border-dashed border-rose-100 rounded-2xl sm:rounded-[3rem] bg-white/40'>
+              <p className='text-rose-500 font-bold mb-2'>{t("empty.title")}</p>
+              <p className='text-rose-300 text-xs sm:text-sm mb-6 text-center max-w-sm px-4'>
+                {t("empty.description")}
+              </p>
+              <button
+                onClick={() => setEditing("new")}
+                className='text-rose-500 hover:text-rose-600 font-bold underline underline-offset-8 decoration-rose-200'
+              >
+                {t("add")}
+              </button>
+            </div>
+          )}
+
+          {upcoming.length > 0 && (
+            <section>
+              <h2 className='mb-4 text-[10px] sm:text-xs font-black text-rose-400 uppercase tracking-widest'>
+                {t("upcoming")}
+              </h2>
+              <ul className='space-y-3'>
+                {upcoming.map(({ milestone, occurrence, daysUntil }) => {
+                  const date = parseCalendarDate(milestone.date);
+                  const number = date
+                    ? occurrenceNumber(date, milestone.recurrence, occurrence)
+                    : 0;
+                  return renderItem(
+                    milestone,
+                    <>
+                      <p className='text-2xl sm:text-4xl font-black text-rose-500 tracking-tighter'>
+                        {daysUntil === 0 ? t("today") : daysUntil}
+                      </p>
+                      <p className='text-[9px] sm:text-[10px] text-rose-300 font-bold uppercase tracking-widest'>
+                        {daysUntil > 0 && t("daysLeft", { count: daysUntil })}
+                        {number > 0 && (
+                          <span className='block'>
+                            {t(`occurrence.${milestone.recurrence}`, {
+                              count: number,
+                            })}
+                          </span>
+                        )}
+                      </p>
+                    </>,
+                  );
+                })}
+              </ul>
+            </section>
+          )}
+
+          {past.length > 0 && (
+            <section>
+              <h2 className='mb-4 text-[10px] sm:text-xs font-black text-rose-400 uppercase tracking-widest'>
+                {t("past")}
+              </h2>
+              <ul className='space-y-3'>
+                {past.map((milestone) => {
+                  const date = parseCalendarDate(milestone.date);
+                  const daysAgo = date ? daysBetween(date, today) : 0;
+                  return renderItem(
+                    milestone,
+                    <p className='text-[10px] sm:text-xs text-rose-300 font-bold uppercase tracking-widest'>
+                      {t("daysAgo", { count: daysAgo })}
+                    </p>,
+                  );
+                })}
+              </ul>
+            </section>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -9,12 +9,15 @@ import { AnalysisHUD } from "@/components/game/AnalysisHUD";
 import { Visualizer } from "@/components/game/Visualizer";
 import ParticleBackground from "@/components/game/ParticleBackground";
 import { useAuth } from "@/hooks/useAuth";
+import { albumsApi } from "@/lib/api";
+import { hasAlbumRole, type AlbumRole } from "@/lib/albumRoles";
 
 type MissionState = "UPLOAD" | "ANALYSIS" | "RESULT";
 
 interface Album {
   id: string;
   title: string;
+  role: AlbumRole;
 }
 
 export default function MissionPage() {
@@ -37,31 +40,30 @@ export default function MissionPage() {
       if (!user) return;
 
       try {
-        const res = await fetch("/api/albums");
-        if (res.ok) {
-          const albums: Album[] = await res.json();
-          const missionAlbum = albums.find(
-            (a) => a.title === "Our Story" || a.title === "Mission Logs",
-          );
-
-          if (missionAlbum) {
-            setMissionAlbumId(missionAlbum.id);
-          } else {
-            // Create default album
-            const createRes = await fetch("/api/albums", {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                title: "Our Story",
-                description:
-                  "A collection of our most precious moments together.",
-                location: "Forever in my Heart",
-              }),
-            });
-            if (createRes.ok) {
-              const newAlbum = (await createRes.json()) as Album;
-              setMissionAlbumId(newAlbum.id);
-            }
+        const albums = await albumsApi.listAll<Album>();
+        const missionAlbum = albums.find(
+          (a) =>
+            (a.title === "Our Story" || a.title === "Mission Logs") &&
+            hasAlbumRole(a.role, "editor"),
+        );
+
+        if (missionAlbum) {
+          setMissionAlbumId(missionAlbum.id);
+        } else {
+          // Create default album
+          const createRes = await fetch("/api/albums", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              title: "Our Story",
+              description:
+                "A collection of our most precious moments together.",
+              location: "Forever in my Heart",
+            }),
+          });
+          if (createRes.ok) {
+            const newAlbum = (await createRes.json()) as Album;
+            setMissionAlbumId(newAlbum.id);
           }
         }
       } catch (e) {
@@ -71,25 +73,9 @@ export default function MissionPage() {
     initGameAlbum();
   }, [user]);
 
-  const handleUploadComplete = async (file: File) => {
+  // UploadMission uploads the files itself through the upload queue
+  const handleUploadComplete = () => {
     setGameState("ANALYSIS");
-
-    // Background Upload to Mission Album
-    if (missionAlbumId) {
-      try {
-        const formData = new FormData();
-        formData.append("file", file);
-        formData.append("albumId", missionAlbumId);
-        formData.append("caption", "Incoming Transmission Datastream");
-
-        await fetch("/api/photos", {
-          method: "POST",
-          body: formData,
-        });
-      } catch (error) {
-        console.error("Upload failed", error);
-      }
-    }
   };
 
   const handleAnalysisComplete = () => {
@@ -106,6 +92,7 @@ export default function MissionPage() {
         <AnimatePresence mode='wait'>
           {gameState === "UPLOAD" && (
             <UploadMission
+              albumId={missionAlbumId}
               onComplete={handleUploadComplete}
               onBack={() => router.push("/")}
             />
@@ -2,7 +2,14 @@
 
 import { useEffect, useState } from "react";
 import { useParams, useSearchParams } from "next/navigation";
+import { useRouter } from "@/i18n/routing";
 import { shareApi } from "@/lib/api";
+import { useGuestHearts } from "@/hooks/useGuestHearts";
+import {
+  MAX_DISPLAY_NAME_LENGTH,
+  normalizeDisplayName,
+} from "@/lib/reactions";
+import { pickPhotoFilters, withPhotoFilter } from "@/lib/photoFilters";
 import { motion, AnimatePresence } from "framer-motion";
 import ParticleBackground from "@/components/game/ParticleBackground";
 import {
@@ -21,6 +28,7 @@ import { useTranslations } from "next-intl";
 import { GalleryGrid } from "../../albums/[id]/gallery/components/GalleryGrid";
 import { ChristmasMode } from "../../albums/[id]/gallery/components/ChristmasMode";
 import { ImmersiveView } from "../../albums/[id]/gallery/components/ImmersiveView";
+import { getSlideDuration } from "../../albums/[id]/gallery/components/MotionClip";
 
 interface Album {
   id: string;
@@ -37,7 +45,10 @@ interface Photo {
   id: string;
   url: string;
   caption?: string;
+  altText?: string | null;
   uploadedAt?: string;
+  commentCount?: number;
+  reactionCount?: number;
 }
 
 interface Story {
@@ -50,6 +61,10 @@ interface Story {
 export default function SharedAlbumPage() {
   const params = useParams();
   const token = params.token as string;
+  // Photo filters in the link (e.g. ?from=2024-05-01&to=2024-05-10) limit
+  // the slideshow to part of the album
+  const searchParams = useSearchParams();
+  const router = useRouter();
   const detailT = useTranslations("AlbumDetail");
   const gameT = useTranslations("Game.UI");
 
@@ -61,6 +76,13 @@ export default function SharedAlbumPage() {
   const [error, setError] = useState("");
   const [activeTab, setActiveTab] = useState<"photos" | "stories">("photos");
   const [selectedPhoto, setSelectedPhoto] = useState<Photo | null>(null);
+  // Visitors may heart photos when the link allows it; the first heart asks
+  // for their name
+  const [allowReactions, setAllowReactions] = useState(false);
+  const [namingFor, setNamingFor] = useState<Photo | null>(null);
+  const [nameInput, setNameInput] = useState("");
+  const { displayName, setDisplayName, heartedIds, toggleHeart } =
+    useGuestHearts(token, allowReactions);
 
   const [viewMode, setViewMode] = useState<"grid" | "christmas" | "immersive">(
     "immersive",
@@ -82,32 +104,38 @@ export default function SharedAlbumPage() {
   }, [viewMode]);
 
   useEffect(() => {
-    let interval: NodeJS.Timeout;
+    let timeout: NodeJS.Timeout;
     if (isPlaying && viewMode === "immersive" && photos.length > 0) {
-      interval = setInterval(() => {
+      // Clips hold the slideshow until they have played
+      timeout = setTimeout(() => {
         setCurrentIndex((prev) => (prev + 1) % photos.length);
-      }, 3000);
+      }, getSlideDuration(photos[currentIndex]));
     }
-    return () => clearInterval(interval);
-  }, [isPlaying, viewMode, photos.length]);
+    return () => clearTimeout(timeout);
+  }, [isPlaying, viewMode, photos, currentIndex]);
 
   useEffect(() => {
     loadSharedAlbum();
-  }, [token]);
+  }, [token, searchParams]);
 
   const loadSharedAlbum = async () => {
     try {
       setLoading(true);
-      const data = (await shareApi.getShared(token)) as {
+      const data = (await shareApi.getShared(
+        token,
+        pickPhotoFilters(searchParams),
+      )) as {
         album: Album;
         photos: Photo[];
         stories: Story[];
         customText?: string;
+        allowReactions?: boolean;
       };
       setAlbum(data.album);
       setPhotos(data.photos);
       setStories(data.stories);
       setCustomText(data.customText);
+      setAllowReactions(data.allowReactions === true);
     } catch (err) {
       setError(
         err instanceof Error
@@ -119,6 +147,34 @@ export default function SharedAlbumPage() {
     }
   };
 
+  const heartPhoto = async (photo: Photo, name = displayName) => {
+    if (!name) {
+      setNameInput("");
+      setNamingFor(photo);
+      return;
+    }
+    try {
+      const reactionCount = await toggleHeart(photo.id, name);
+      if (reactionCount === null) return;
+      setPhotos((prev) =>
+        prev.map((item) =>
+          item.id === photo.id ? { ...item, reactionCount } : item,
+        ),
+      );
+    } catch (err) {
+      console.error("Failed to send heart:", err);
+    }
+  };
+
+  const handleNameSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = normalizeDisplayName(nameInput);
+    if (!name || !namingFor) return;
+    setDisplayName(name);
+    setNamingFor(null);
+    heartPhoto(namingFor, name);
+  };
+
   if (loading) {
     return (
       <div className='min-h-screen flex items-center justify-center bg-background text-rose-500 font-sans'>
@@ -326,11 +382,19 @@ export default function SharedAlbumPage() {
               >
                 <GalleryGrid
                   photos={photos}
+                  activeTag={searchParams.get("tag")}
+                  onTagFilter={(tag) =>
+                    router.replace(
+                      `/share/${token}${withPhotoFilter(searchParams, "tag", tag)}`,
+                    )
+                  }
                   onPhotoClick={(index) => {
                     setCurrentIndex(index);
                     setViewMode("immersive");
                     setIsPlaying(false);
                   }}
+                  onReact={allowReactions ? heartPhoto : undefined}
+                  reactedIds={heartedIds}
                 />
               </div>
 
@@ -398,6 +462,49 @@ export default function SharedAlbumPage() {
         </AnimatePresence>
       </main>
 
+      {/* Visitor Name Prompt */}
+      <AnimatePresence>
+        {namingFor && (
+          <div
+            className='fixed inset-0 z-[120] flex items-center justify-center bg-rose-950/40 backdrop-blur-sm p-6'
+            onClick={() => setNamingFor(null)}
+          >
+            <motion.form
+              initial={{ opacity: 0, scale: 0.9 }}
+              animate={{ opacity: 1, scale: 1 }}
+              onSubmit={handleNameSubmit}
+              className='bg-white p-8 sm:p-10 rounded-[2.5rem] max-w-sm w-full shadow-2xl text-center'
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className='p-4 bg-rose-50 rounded-full inline-block mb-4'>
+                <Heart className='w-8 h-8 text-rose-400 fill-rose-400' />
+              </div>
+              <h3 className='text-2xl font-black text-rose-900 mb-2 tracking-tighter'>
+                Who is sending love?
+              </h3>
+              <p className='text-rose-400 text-sm mb-6 font-medium'>
+                Your name is shown with your hearts.
+              </p>
+              <input
+                autoFocus
+                value={nameInput}
+                onChange={(e) => setNameInput(e.target.value)}
+                maxLength={MAX_DISPLAY_NAME_LENGTH}
+                placeholder='Your name'
+                className='w-full px-4 py-3 mb-4 rounded-2xl border-2 border-rose-50 focus:border-rose-200 outline-none text-sm text-rose-900 text-center placeholder:text-rose-200'
+              />
+              <button
+                type='submit'
+                disabled={!normalizeDisplayName(nameInput)}
+                className='w-full py-4 bg-rose-500 text-white font-black rounded-full uppercase tracking-widest text-[10px] shadow-lg shadow-rose-100 disabled:opacity-50'
+              >
+                Send a heart
+              </button>
+            </motion.form>
+          </div>
+        )}
+      </AnimatePresence>
+
       {/* Photo Viewer Modal */}
       <AnimatePresence>
         {selectedPhoto && (
@@ -414,7 +521,7 @@ export default function SharedAlbumPage() {
               <div className='relative flex-1 bg-rose-50/10 overflow-hidden'>
                 <img
                   src={selectedPhoto.url}
-                  alt={selectedPhoto.caption}
+                  alt={selectedPhoto.altText || selectedPhoto.caption}
                   className='w-full h-full object-contain'
                 />
                 <button
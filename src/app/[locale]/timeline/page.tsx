@@ -0,0 +1,301 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useLocale, useTranslations } from "next-intl";
+import { ArrowLeft } from "lucide-react";
+import { useRouter } from "@/i18n/routing";
+import { useAuth } from "@/hooks/useAuth";
+import { useLoadMore } from "@/hooks/useLoadMore";
+import { MAX_PAGE_SIZE } from "@/lib/pagination";
+import { timelineApi } from "@/lib/api";
+import { getPhotoUrl } from "@/lib/photoVariants";
+import type { TimelineMonth } from "@/lib/timeline";
+import ParticleBackground from "@/components/game/ParticleBackground";
+import type { Photo } from "../albums/[id]/gallery/components/types";
+import { MediaBadge } from "../albums/[id]/gallery/components/MotionClip";
+
+type TimelinePhoto = Photo & { albumId: string; day: string };
+
+// Placeholder tiles shown for a month that has not loaded yet
+const MAX_PLACEHOLDERS = 12;
+
+interface MonthSectionProps {
+  bucket: TimelineMonth;
+  onOpenPhoto: (photo: TimelinePhoto) => void;
+}
+
+// One month of the timeline. Its photos load page by page once the section
+// comes near the viewport.
+function MonthSection({ bucket, onOpenPhoto }: MonthSectionProps) {
+  const t = useTranslations("Timeline");
+  const locale = useLocale();
+  const [photos, setPhotos] = useState<TimelinePhoto[]>([]);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [done, setDone] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const loadMore = async () => {
+    try {
+      setLoading(true);
+      const page = await timelineApi.photos<TimelinePhoto>(bucket.month, {
+        cursor,
+        limit: MAX_PAGE_SIZE,
+      });
+      setPhotos((prev) => [...prev, ...page.items]);
+      setCursor(page.nextCursor);
+      setDone(page.nextCursor === null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("error"));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const sentinelRef = useLoadMore({
+    hasMore: !done && !error,
+    loading,
+    onLoadMore: loadMore,
+  });
+
+  // Dates are calendar days already, so they are formatted as UTC
+  const monthLabel = new Intl.DateTimeFormat(locale, {
+    year: "numeric",
+    month: "long",
+    timeZone: "UTC",
+  }).format(new Date(`${bucket.month}-01T00:00:00Z`));
+  const formatDay = (date: string) =>
+    new Intl.DateTimeFormat(locale, {
+      month: "short",
+      day: "numeric",
+      weekday: "short",
+      timeZone: "UTC",
+    }).format(new Date(`${date}T00:00:00Z`));
+
+  const days = bucket.days
+    .map((day) => ({
+      ...day,
+      photos: photos.filter((photo) => photo.day === day.date),
+    }))
+    .filter((day) => day.photos.length > 0);
+  const placeholders = Math.min(bucket.count - photos.length, MAX_PLACEHOLDERS);
+
+  return (
+    <section className='mb-10 sm:mb-14'>
+      <div className='flex items-baseline gap-3 mb-4 sm:mb-6'>
+        <h3 className='text-lg sm:text-2xl font-black text-rose-500 tracking-tight'>
+          {monthLabel}
+        </h3>
+        <span className='text-[10px] sm:text-xs font-bold text-rose-300 uppercase tracking-widest'>
+          {t("photoCount", { count: bucket.count })}
+        </span>
+      </div>
+
+      {days.map((day) => (
+        <div key={day.date} className='mb-6'>
+          <p className='mb-2 sm:mb-3 text-[10px] sm:text-xs font-black text-rose-400 uppercase tracking-widest'>
+            {formatDay(day.date)}
+            <span className='ml-2 text-rose-200'>{day.count}</span>
+          </p>
+          <div className='grid grid-cols-3 sm:grid-cols-4 lg:grid-cols-6 gap-2 sm:gap-3'>
+            {day.photos.map((photo) => (
+              <button
+                key={photo.id}
+                onClick={() => onOpenPhoto(photo)}
+                className='relative aspect-square rounded-xl sm:rounded-2xl overflow-hidden bg-rose-50 group'
+              >
+                <img
+                  src={getPhotoUrl(photo, "thumbnail")}
+                  alt={photo.altText || photo.caption || ""}
+                  loading='lazy'
+                  className='w-full h-full object-cover group-hover:scale-105 transition-transform duration-500'
+                />
+                <MediaBadge photo={photo} />
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      {placeholders > 0 && !error && (
+        <div className='grid grid-cols-3 sm:grid-cols-4 lg:grid-cols-6 gap-2 sm:gap-3'>
+          {Array.from({ length: placeholders }, (_, index) => (
+            <div
+              key={index}
+              className='aspect-square rounded-xl sm:rounded-2xl bg-rose-50/70 animate-pulse'
+            />
+          ))}
+        </div>
+      )}
+      {error && <p className='text-xs font-bold text-red-500'>{error}</p>}
+      <div ref={sentinelRef} />
+    </section>
+  );
+}
+
+export default function TimelinePage() {
+  const router = useRouter();
+  const { user, loading: authLoading } = useAuth();
+  const t = useTranslations("Timeline");
+  const gameT = useTranslations("Game.UI");
+  const [buckets, setBuckets] = useState<TimelineMonth[] | null>(null);
+  const [error, setError] = useState("");
+  const [activeYear, setActiveYear] = useState<string | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.push("/login");
+    }
+  }, [user, authLoading, router]);
+
+  useEffect(() => {
+    if (!user) return;
+    timelineApi
+      .buckets()
+      .then((data) => {
+        setBuckets(data.buckets);
+        setActiveYear(data.buckets[0]?.month.slice(0, 4) ?? null);
+      })
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : t("error")),
+      );
+  }, [user, t]);
+
+  const years: { year: string; count: number; months: TimelineMonth[] }[] =
+    [];
+  for (const bucket of buckets ?? []) {
+    const year = bucket.month.slice(0, 4);
+    const last = years[years.length - 1];
+    if (last?.year === year) {
+      last.count += bucket.count;
+      last.months.push(bucket);
+    } else {
+      years.push({ year, count: bucket.count, months: [bucket] });
+    }
+  }
+
+  // The scrubber marks the last year whose heading has scrolled past the top
+  const handleScroll = () => {
+    const container = scrollRef.current;
+    if (!container) return;
+    let current = years[0]?.year ?? null;
+    for (const { year } of years) {
+      const heading = document.getElementById(`timeline-${year}`);
+      if (heading && heading.offsetTop <= container.scrollTop + 120) {
+        current = year;
+      }
+    }
+    setActiveYear(current);
+  };
+
+  const jumpToYear = (year: string) => {
+    document
+      .getElementById(`timeline-${year}`)
+      ?.scrollIntoView({ behavior: "smooth" });
+  };
+
+  if (authLoading) {
+    return (
+      <div className='min-h-screen flex items-center justify-center bg-background text-rose-500 font-sans'>
+        <div className='flex flex-col items-center gap-4'>
+          <div className='w-12 h-12 border-4 border-rose-100 border-t-rose-500 rounded-full animate-spin' />
+          <div className='text-xs tracking-widest animate-pulse font-bold uppercase'>
+            {gameT("openingVault")}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) return null;
+
+  return (
+    <div className='min-h-screen bg-background text-foreground font-sans relative overflow-hidden'>
+      <ParticleBackground />
+
+      <header className='fixed top-0 left-0 right-0 z-50 border-b border-rose-100/20 bg-white/20 dark:bg-black/20 backdrop-blur-md safe-area-inset-top'>
+        <div className='max-w-7xl mx-auto px-4 sm:px-6 h-16 sm:h-20 flex items-center gap-3 sm:gap-4'>
+          <button
+            onClick={() => router.push("/albums")}
+            className='p-1.5 sm:p-2 hover:bg-rose-50 rounded-full transition-colors text-rose-400'
+            title={t("backToAlbums")}
+          >
+            <ArrowLeft className='w-4 h-4 sm:w-5 sm:h-5' />
+          </button>
+          <div>
+            <h1 className='text-lg sm:text-2xl font-black tracking-tighter bg-clip-text text-transparent bg-gradient-to-r from-rose-400 to-purple-500'>
+              {t("title")}
+            </h1>
+            <p className='text-[9px] sm:text-[10px] text-rose-300 font-bold tracking-[0.2em] uppercase'>
+              {t("subtitle")}
+            </p>
+          </div>
+        </div>
+      </header>
+
+      <main
+        ref={scrollRef}
+        onScroll={handleScroll}
+        className='relative z-10 h-screen overflow-y-auto custom-scrollbar pt-24 sm:pt-32 pb-20 safe-area-inset-bottom'
+      >
+        <div className='max-w-7xl mx-auto px-4 sm:px-6 pr-16 sm:pr-24'>
+          {error && (
+            <div className='bg-rose-50 border border-rose-200 text-rose-500 px-6 py-4 rounded-2xl mb-8 text-sm font-medium'>
+              {error}
+            </div>
+          )}
+          {!buckets && !error && (
+            <p className='py-20 text-center text-rose-300 text-xs font-bold uppercase tracking-widest animate-pulse'>
+              {t("loading")}
+            </p>
+          )}
+          {buckets?.length === 0 && (
+            <p className='py-20 text-center text-rose-500/50 font-bold uppercase tracking-widest'>
+              {t("empty")}
+            </p>
+          )}
+          {years.map(({ year, months }) => (
+            <div key={year} id={`timeline-${year}`}>
+              <h2 className='text-4xl sm:text-6xl font-black text-rose-100 tracking-tighter mb-6 sm:mb-8'>
+                {year}
+              </h2>
+              {months.map((bucket) => (
+                <MonthSection
+                  key={bucket.month}
+                  bucket={bucket}
+                  onOpenPhoto={(photo) =>
+                    router.push(`/albums/${photo.albumId}?photo=${photo.id}`)
+                  }
+                />
+              ))}
+            </div>
+          ))}
+        </div>
+      </main>
+
+      {/* Year scrubber */}
+      {years.length > 0 && (
+        <nav
+          aria-label={t("years")}
+          className='fixed right-2 sm:right-6 top-24 sm:top-32 bottom-10 z-40 flex flex-col items-end gap-1 overflow-y-auto custom-scrollbar'
+        >
+          {years.map(({ year, count }) => (
+            <button
+              key={year}
+              onClick={() => jumpToYear(year)}
+              className={`px-2.5 sm:px-3 py-1 rounded-full text-[10px] sm:text-xs font-black transition-all ${
+                activeYear === year
+                  ? "bg-rose-500 text-white shadow-lg shadow-rose-200"
+                  : "text-rose-300 hover:text-rose-500 hover:bg-rose-50"
+              }`}
+              title={t("photoCount", { count })}
+            >
+              {year}
+            </button>
+          ))}
+        </nav>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getDb } from "@/db";
+import { auth } from "@/auth";
+import { checkAlbumAccess } from "@/lib/albumAccess";
+import { duplicateAlbum } from "@/lib/albums";
+
+// Creates a copy of an album with its details and photos. The photos share
+// the stored files of the originals.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const { title } = (await request.json()) as { title?: string };
+
+    if (title !== undefined && (typeof title !== "string" || !title.trim())) {
+      return NextResponse.json(
+        { error: "title must be a non-empty string" },
+        { status: 400 },
+      );
+    }
+
+    const { env } = await getCloudflareContext();
+    const db = getDb(env.DB);
+
+    const access = await checkAlbumAccess(db, userId, id, "owner");
+    if ("error" in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status },
+      );
+    }
+
+    const copy = await duplicateAlbum(
+      db,
+      access.album,
+      title?.trim() || `${access.album.title} (copy)`,
+    );
+
+    return NextResponse.json({ ...copy, role: "owner" }, { status: 201 });
+  } catch (error) {
+    console.error("Duplicate album error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
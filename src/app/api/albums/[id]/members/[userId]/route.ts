@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getDb, type Database } from "@/db";
+import { albumMembers } from "@/db/schema";
+import { auth } from "@/auth";
+import { and, eq } from "drizzle-orm";
+import { checkAlbumAccess, listAlbumMembers } from "@/lib/albumAccess";
+import { INVITABLE_ROLES, isInvitableRole } from "@/lib/albumRoles";
+
+function findMember(db: Database, albumId: string, userId: string) {
+  return db
+    .select()
+    .from(albumMembers)
+    .where(
+      and(eq(albumMembers.albumId, albumId), eq(albumMembers.userId, userId)),
+    )
+    .limit(1);
+}
+
+// Changes the role of a member, or of a pending invitation
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; userId: string }> },
+) {
+  try {
+    const { id, userId: memberId } = await params;
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const { role } = (await request.json()) as { role?: unknown };
+    if (!isInvitableRole(role)) {
+      return NextResponse.json(
+        { error: `role must be one of: ${INVITABLE_ROLES.join(", ")}` },
+        { status: 400 },
+      );
+    }
+
+    const { env } = await getCloudflareContext();
+    const db = getDb(env.DB);
+
+    const access = await checkAlbumAccess(db, userId, id, "owner");
+    if ("error" in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status },
+      );
+    }
+
+    const member = await findMember(db, id, memberId);
+    if (member.length === 0) {
+      return NextResponse.json({ error: "Member not found" }, { status: 404 });
+    }
+    if (member[0].role === "owner") {
+      return NextResponse.json(
+        { error: "The owner's role cannot be changed" },
+        { status: 400 },
+      );
+    }
+
+    await db
+      .update(albumMembers)
+      .set({ role })
+      .where(
+        and(eq(albumMembers.albumId, id), eq(albumMembers.userId, memberId)),
+      );
+
+    const members = await listAlbumMembers(db, id);
+    return NextResponse.json(
+      members.find((item) => item.userId === memberId),
+    );
+  } catch (error) {
+    console.error("Update album member error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+// Removes a member or withdraws an invitation. The owner can remove
+// anyone else; members can remove themselves to leave the album.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; userId: string }> },
+) {
+  try {
+    const { id, userId: memberId } = await params;
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const { env } = await getCloudflareContext();
+    const db = getDb(env.DB);
+
+    const access = await checkAlbumAccess(
+      db,
+      userId,
+      id,
+      memberId === userId ? "viewer" : "owner",
+    );
+    if ("error" in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status },
+      );
+    }
+
+    const member = await findMember(db, id, memberId);
+    if (member.length === 0) {
+      return NextResponse.json({ error: "Member not found" }, { status: 404 });
+    }
+    if (member[0].role === "owner") {
+      return NextResponse.json(
+        { error: "The owner cannot be removed from the album" },
+        { status: 400 },
+      );
+    }
+
+    await db
+      .delete(albumMembers)
+      .where(
+        and(eq(albumMembers.albumId, id), eq(albumMembers.userId, memberId)),
+      );
+
+    return NextResponse.json({ message: "Member removed" });
+  } catch (error) {
+    console.error("Remove album member error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
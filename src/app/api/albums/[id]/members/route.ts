@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getDb } from "@/db";
+import { albumMembers, users } from "@/db/schema";
+import { auth } from "@/auth";
+import { and, eq, or } from "drizzle-orm";
+import { checkAlbumAccess, listAlbumMembers } from "@/lib/albumAccess";
+import { INVITABLE_ROLES, isInvitableRole } from "@/lib/albumRoles";
+
+// Lists the members of an album, with the invitations still pending
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const { env } = await getCloudflareContext();
+    const db = getDb(env.DB);
+
+    const access = await checkAlbumAccess(db, userId, id, "viewer");
+    if ("error" in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status },
+      );
+    }
+
+    return NextResponse.json({ members: await listAlbumMembers(db, id) });
+  } catch (error) {
+    console.error("Get album members error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+// Invites a user, found by email or username, to the album. They become a
+// member once they accept.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const { identifier, role } = (await request.json()) as {
+      identifier?: unknown;
+      role?: unknown;
+    };
+    const name = typeof identifier === "string" ? identifier.trim() : "";
+    if (!name || !isInvitableRole(role)) {
+      return NextResponse.json(
+        {
+          error: `identifier (an email or username) and a role of ${INVITABLE_ROLES.join(", ")} are required`,
+        },
+        { status: 400 },
+      );
+    }
+
+    const { env } = await getCloudflareContext();
+    const db = getDb(env.DB);
+
+    const access = await checkAlbumAccess(db, userId, id, "owner");
+    if ("error" in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status },
+      );
+    }
+
+    const invitee = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(or(eq(users.email, name), eq(users.username, name)))
+      .limit(1);
+
+    if (invitee.length === 0) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const existing = await db
+      .select({ userId: albumMembers.userId })
+      .from(albumMembers)
+      .where(
+        and(
+          eq(albumMembers.albumId, id),
+          eq(albumMembers.userId, invitee[0].id),
+        ),
+      )
+      .limit(1);
+
+    if (existing.length > 0) {
+      return NextResponse.json(
+        { error: "This user is already a member or invited" },
+        { status: 409 },
+      );
+    }
+
+    await db.insert(albumMembers).values({
+      albumId: id,
+      userId: invitee[0].id,
+      role,
+      invitedBy: userId,
+      createdAt: new Date(),
+    });
+
+    const members = await listAlbumMembers(db, id);
+    return NextResponse.json(
+      members.find((member) => member.userId === invitee[0].id),
+      { status: 201 },
+    );
+  } catch (error) {
+    console.error("Invite album member error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
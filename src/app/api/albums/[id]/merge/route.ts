@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getDb } from "@/db";
+import { auth } from "@/auth";
+import { checkAlbumAccess } from "@/lib/albumAccess";
+import { isAlbumMergeChoice, mergeAlbums } from "@/lib/albums";
+
+// Merges another album the user owns into this one. The cover and custom
+// text are kept unless "source" is chosen for them.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const {
+      sourceAlbumId,
+      cover = "target",
+      customText = "target",
+    } = (await request.json()) as {
+      sourceAlbumId?: string;
+      cover?: unknown;
+      customText?: unknown;
+    };
+
+    if (!sourceAlbumId || sourceAlbumId === id) {
+      return NextResponse.json(
+        { error: "sourceAlbumId of another album is required" },
+        { status: 400 },
+      );
+    }
+    if (!isAlbumMergeChoice(cover) || !isAlbumMergeChoice(customText)) {
+      return NextResponse.json(
+        { error: 'cover and customText must be "target" or "source"' },
+        { status: 400 },
+      );
+    }
+
+    const { env } = await getCloudflareContext();
+    const db = getDb(env.DB);
+
+    const [target, source] = await Promise.all([
+      checkAlbumAccess(db, userId, id, "owner"),
+      checkAlbumAccess(db, userId, sourceAlbumId, "owner"),
+    ]);
+    if ("error" in target) {
+      return NextResponse.json(
+        { error: target.error },
+        { status: target.status },
+      );
+    }
+    if ("error" in source) {
+      return NextResponse.json(
+        { error: source.error },
+        { status: source.status },
+      );
+    }
+
+    const merged = await mergeAlbums(db, target.album, source.album, {
+      cover,
+      customText,
+    });
+
+    return NextResponse.json(merged);
+  } catch (error) {
+    console.error("Merge albums error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -3,7 +3,8 @@ import { getCloudflareContext } from "@opennextjs/cloudflare";
 import { getDb } from "@/db";
 import { albums } from "@/db/schema";
 import { auth } from "@/auth";
-import { eq, and } from "drizzle-orm";
+import { eq } from "drizzle-orm";
+import { checkAlbumAccess } from "@/lib/albumAccess";
 
 export async function GET(
   request: NextRequest,
@@ -20,17 +21,16 @@ export async function GET(
     const { env } = await getCloudflareContext();
     const db = getDb(env.DB);
 
-    const album = await db
-      .select()
-      .from(albums)
-      .where(and(eq(albums.id, id), eq(albums.userId, userId)))
-      .limit(1);
-
-    if (album.length === 0) {
-      return NextResponse.json({ error: "Album not found" }, { status: 404 });
+    const access = await checkAlbumAccess(db, userId, id, "viewer");
+    if ("error" in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status },
+      );
     }
 
-    return NextResponse.json(album[0]);
+    // The role tells the client which actions to offer
+    return NextResponse.json({ ...access.album, role: access.role });
   } catch (error) {
     console.error("Get album error:", error);
     return NextResponse.json(
@@ -73,28 +73,26 @@ export async function PUT(
     const { env } = await getCloudflareContext({ async: true });
     const db = getDb(env.DB);
 
-    // Verify ownership
-    const album = await db
-      .select()
-      .from(albums)
-      .where(and(eq(albums.id, id), eq(albums.userId, userId)))
-      .limit(1);
-
-    if (album.length === 0) {
-      return NextResponse.json({ error: "Album not found" }, { status: 404 });
+    const access = await checkAlbumAccess(db, userId, id, "editor");
+    if ("error" in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status },
+      );
     }
+    const { album } = access;
 
     await db
       .update(albums)
       .set({
-        title: title || album[0].title,
+        title: title || album.title,
         description:
-          description !== undefined ? description : album[0].description,
-        location: location || album[0].location,
-        startDate: startDate ? new Date(startDate) : album[0].startDate,
-        endDate: endDate ? new Date(endDate) : album[0].endDate,
-        coverPhotoUrl: coverPhotoUrl || album[0].coverPhotoUrl,
-        customText: customText !== undefined ? customText : album[0].customText,
+          description !== undefined ? description : album.description,
+        location: location || album.location,
+        startDate: startDate ? new Date(startDate) : album.startDate,
+        endDate: endDate ? new Date(endDate) : album.endDate,
+        coverPhotoUrl: coverPhotoUrl || album.coverPhotoUrl,
+        customText: customText !== undefined ? customText : album.customText,
         updatedAt: new Date(),
       })
       .where(eq(albums.id, id));
@@ -105,7 +103,7 @@ export async function PUT(
       .where(eq(albums.id, id))
       .limit(1);
 
-    return NextResponse.json(updatedAlbum[0]);
+    return NextResponse.json({ ...updatedAlbum[0], role: access.role });
   } catch (error) {
     console.error("Update album error:", error);
     return NextResponse.json(
@@ -130,20 +128,22 @@ export async function DELETE(
     const { env } = await getCloudflareContext();
     const db = getDb(env.DB);
 
-    // Verify ownership
-    const album = await db
-      .select()
-      .from(albums)
-      .where(and(eq(albums.id, id), eq(albums.userId, userId)))
-      .limit(1);
-
-    if (album.length === 0) {
-      return NextResponse.json({ error: "Album not found" }, { status: 404 });
+    const access = await checkAlbumAccess(db, userId, id, "owner");
+    if ("error" in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status },
+      );
     }
 
-    await db.delete(albums).where(eq(albums.id, id));
+    // The album goes to the trash with its photos and stories; they are
+    // deleted for good once the retention period is over
+    await db
+      .update(albums)
+      .set({ deletedAt: new Date() })
+      .where(eq(albums.id, id));
 
-    return NextResponse.json({ message: "Album deleted successfully" });
+    return NextResponse.json({ message: "Album moved to trash" });
   } catch (error) {
     console.error("Delete album error:", error);
     return NextResponse.json(
@@ -1,12 +1,70 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getCloudflareContext } from "@opennextjs/cloudflare";
-import { getDb } from "@/db";
-import { albums, users, photos } from "@/db/schema";
+import { D1_BATCH_SIZE, getDb, type Database } from "@/db";
+import { albumMembers, albums, users, photos } from "@/db/schema";
 import { auth } from "@/auth"; // Updated auth import
-import { eq, getTableColumns, sql } from "drizzle-orm";
+import {
+  and,
+  asc,
+  eq,
+  getTableColumns,
+  inArray,
+  isNotNull,
+  isNull,
+  sql,
+} from "drizzle-orm";
 import { randomUUID } from "crypto";
+import type { PhotoVariants } from "@/lib/photoVariants";
+import {
+  afterCursor,
+  cursorColumn,
+  INVALID_PAGE_ERROR,
+  parsePageParams,
+  toPage,
+} from "@/lib/pagination";
+import { getStorageProvider } from "@/lib/storage";
+import { purgeExpiredTrash } from "@/lib/photos";
+import { getTrashRetentionDays } from "@/lib/trash";
+import { insertAlbumOwner } from "@/lib/albumAccess";
 
-export async function GET() {
+// Albums are listed oldest first, in creation order
+const ALBUM_SORT_KEYS = [albums.createdAt, albums.id];
+
+// Most recent upload of each album, used as the cover of albums that have
+// none set. One query per batch instead of a subquery per album.
+async function getLatestPhotoUrls(
+  db: Database,
+  albumIds: string[],
+): Promise<Map<string, string>> {
+  const latest = new Map<string, string>();
+  for (let i = 0; i < albumIds.length; i += D1_BATCH_SIZE) {
+    const ranked = db
+      .select({
+        albumId: photos.albumId,
+        url: photos.url,
+        rank: sql<number>`row_number() over (
+          partition by ${photos.albumId}
+          order by ${photos.uploadedAt} desc, ${photos.id} desc
+        )`.as("rank"),
+      })
+      .from(photos)
+      .where(
+        and(
+          inArray(photos.albumId, albumIds.slice(i, i + D1_BATCH_SIZE)),
+          isNull(photos.deletedAt),
+        ),
+      )
+      .as("ranked");
+    const rows = await db
+      .select({ albumId: ranked.albumId, url: ranked.url })
+      .from(ranked)
+      .where(eq(ranked.rank, 1));
+    for (const row of rows) latest.set(row.albumId, row.url);
+  }
+  return latest;
+}
+
+export async function GET(request: NextRequest) {
   try {
     const session = await auth();
     if (!session?.user?.id) {
@@ -14,23 +72,92 @@ export async function GET() {
     }
     const userId = session.user.id;
 
-    const { env } = await getCloudflareContext();
+    const page = parsePageParams(new URL(request.url).searchParams);
+    if (!page) {
+      return NextResponse.json(INVALID_PAGE_ERROR, { status: 400 });
+    }
+
+    const { env, ctx } = await getCloudflareContext();
     const db = getDb(env.DB);
 
-    const userAlbums = await db
+    // Opening the album list is the regular occasion to empty out expired
+    // trash; it runs after the response is sent
+    if (!page.cursor) {
+      ctx.waitUntil(
+        purgeExpiredTrash(
+          db,
+          getStorageProvider(env),
+          userId,
+          getTrashRetentionDays(env),
+        ).catch((err) => console.error("Failed to purge trash:", err)),
+      );
+    }
+
+    const rows = await db
       .select({
         ...getTableColumns(albums),
-        latestPhotoUrl: sql<string>`(SELECT ${photos.url} FROM ${photos} WHERE ${photos.albumId} = ${albums.id} ORDER BY ${photos.uploadedAt} DESC LIMIT 1)`,
+        role: albumMembers.role,
+        cursor: cursorColumn(ALBUM_SORT_KEYS),
       })
       .from(albums)
-      .where(eq(albums.userId, userId));
+      // Albums the user owns and those shared with them
+      .innerJoin(
+        albumMembers,
+        and(
+          eq(albumMembers.albumId, albums.id),
+          eq(albumMembers.userId, userId),
+          isNotNull(albumMembers.acceptedAt),
+        ),
+      )
+      .where(
+        and(
+          isNull(albums.deletedAt),
+          afterCursor(ALBUM_SORT_KEYS, page.cursor),
+        ),
+      )
+      .orderBy(...ALBUM_SORT_KEYS.map((key) => asc(key)))
+      .limit(page.limit + 1);
+    const { items: userAlbums, nextCursor } = toPage(rows, page.limit);
+
+    const latestPhotoUrls = await getLatestPhotoUrls(
+      db,
+      userAlbums
+        .filter((album) => !album.coverPhotoUrl)
+        .map((album) => album.id),
+    );
+
+    // Look up the derivatives of each cover so the list can show a
+    // smaller image than the original upload
+    const coverUrls = userAlbums
+      .map((album) => album.coverPhotoUrl || latestPhotoUrls.get(album.id))
+      .filter((url): url is string => !!url);
+    const coverVariants = new Map<string, PhotoVariants | null>();
+    for (let i = 0; i < coverUrls.length; i += D1_BATCH_SIZE) {
+      const coverPhotos = await db
+        .select({ url: photos.url, variants: photos.variants })
+        .from(photos)
+        .where(
+          inArray(photos.url, coverUrls.slice(i, i + D1_BATCH_SIZE)),
+        );
+      for (const photo of coverPhotos) {
+        coverVariants.set(photo.url, photo.variants);
+      }
+    }
 
-    const albumsWithCover = userAlbums.map((album) => ({
-      ...album,
-      coverPhotoUrl: album.coverPhotoUrl || album.latestPhotoUrl,
-    }));
+    const albumsWithCover = userAlbums.map((album) => {
+      const latestPhotoUrl = latestPhotoUrls.get(album.id) ?? null;
+      const coverPhotoUrl = album.coverPhotoUrl || latestPhotoUrl;
+      return {
+        ...album,
+        latestPhotoUrl,
+        coverPhotoUrl,
+        coverVariants: coverPhotoUrl
+          ? (coverVariants.get(coverPhotoUrl) ?? null)
+          : null,
+      };
+    });
 
-    return NextResponse.json(albumsWithCover);
+    return NextResponse.json({ items: albumsWithCover, nextCursor });
   } catch (error) {
     console.error("Get albums error:", error);
     return NextResponse.json(
@@ -81,15 +208,18 @@ export async function POST(request: NextRequest) {
     }
 
     const albumId = randomUUID();
-    await db.insert(albums).values({
-      id: albumId,
-      userId: userId,
-      title,
-      description,
-      location,
-      startDate: startDate ? new Date(startDate) : undefined,
-      endDate: endDate ? new Date(endDate) : undefined,
-    });
+    await db.batch([
+      db.insert(albums).values({
+        id: albumId,
+        userId: userId,
+        title,
+        description,
+        location,
+        startDate: startDate ? new Date(startDate) : undefined,
+        endDate: endDate ? new Date(endDate) : undefined,
+      }),
+      insertAlbumOwner(db, albumId, userId),
+    ]);
 
     const newAlbum = await db
       .select()
@@ -97,7 +227,10 @@ export async function POST(request: NextRequest) {
       .where(eq(albums.id, albumId))
       .limit(1);
 
-    return NextResponse.json(newAlbum[0], { status: 201 });
+    return NextResponse.json(
+      { ...newAlbum[0], role: "owner" },
+      { status: 201 },
+    );
   } catch (error) {
     console.error("Create album error:", error);
     return NextResponse.json(
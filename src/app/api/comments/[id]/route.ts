@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getDb, type Database } from "@/db";
+import { auth } from "@/auth";
+import {
+  checkPhotoAccess,
+  checkStoryAccess,
+  type AlbumAccessError,
+} from "@/lib/albumAccess";
+import type { AlbumRole } from "@/lib/albumRoles";
+import {
+  deleteComment,
+  findCommentTarget,
+  updateComment,
+} from "@/lib/feedback";
+import { MAX_COMMENT_LENGTH, normalizeCommentBody } from "@/lib/reactions";
+
+// Finds a comment and checks that the user may see the photo or story it is
+// on
+async function checkCommentAccess(
+  db: Database,
+  userId: string,
+  id: string,
+): Promise<{ authorId: string; role: AlbumRole } | AlbumAccessError> {
+  const found = await findCommentTarget(db, id);
+  if (!found) return { error: "Comment not found", status: 404 };
+
+  const access =
+    found.target.type === "photo"
+      ? await checkPhotoAccess(db, userId, found.target.id, "viewer")
+      : await checkStoryAccess(db, userId, found.target.id, "viewer");
+  if ("error" in access) return access;
+  return { authorId: found.userId, role: access.role };
+}
+
+// Edits a comment. Only its author may.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const { body } = (await request.json()) as { body?: unknown };
+    const text = normalizeCommentBody(body);
+    if (!text) {
+      return NextResponse.json(
+        { error: `body must be 1 to ${MAX_COMMENT_LENGTH} characters` },
+        { status: 400 },
+      );
+    }
+
+    const { env } = await getCloudflareContext();
+    const db = getDb(env.DB);
+
+    const access = await checkCommentAccess(db, userId, id);
+    if ("error" in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status },
+      );
+    }
+
+    if (access.authorId !== userId) {
+      return NextResponse.json(
+        { error: "Only the author can edit a comment" },
+        { status: 403 },
+      );
+    }
+
+    return NextResponse.json(await updateComment(db, id, text));
+  } catch (error) {
+    console.error("Update comment error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+// Deletes a comment. Its author and the album's owner may.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const { env } = await getCloudflareContext();
+    const db = getDb(env.DB);
+
+    const access = await checkCommentAccess(db, userId, id);
+    if ("error" in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status },
+      );
+    }
+
+    if (access.authorId !== userId && access.role !== "owner") {
+      return NextResponse.json(
+        { error: "Only the author or the album owner can delete a comment" },
+        { status: 403 },
+      );
+    }
+
+    await deleteComment(db, id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Delete comment error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -9,7 +9,8 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    const response = await fetch(url);
+    // Local storage drivers hand out same-origin relative URLs
+    const response = await fetch(new URL(url, request.url));
     if (!response.ok) {
       return new NextResponse(`Failed to fetch image: ${response.statusText}`, {
         status: response.status,
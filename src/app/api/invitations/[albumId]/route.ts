@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getDb } from "@/db";
+import { albumMembers } from "@/db/schema";
+import { auth } from "@/auth";
+import { and, eq, isNull } from "drizzle-orm";
+
+// The user's pending invitation to an album
+function isInvitation(albumId: string, userId: string) {
+  return and(
+    eq(albumMembers.albumId, albumId),
+    eq(albumMembers.userId, userId),
+    isNull(albumMembers.acceptedAt),
+  );
+}
+
+// Accepts an invitation, making the user a member of the album
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ albumId: string }> },
+) {
+  try {
+    const { albumId } = await params;
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const { env } = await getCloudflareContext();
+    const db = getDb(env.DB);
+
+    const accepted = await db
+      .update(albumMembers)
+      .set({ acceptedAt: new Date() })
+      .where(isInvitation(albumId, userId))
+      .returning({ role: albumMembers.role });
+
+    if (accepted.length === 0) {
+      return NextResponse.json(
+        { error: "Invitation not found" },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({ albumId, role: accepted[0].role });
+  } catch (error) {
+    console.error("Accept invitation error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+// Declines an invitation
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ albumId: string }> },
+) {
+  try {
+    const { albumId } = await params;
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const { env } = await getCloudflareContext();
+    const db = getDb(env.DB);
+
+    const declined = await db
+      .delete(albumMembers)
+      .where(isInvitation(albumId, userId))
+      .returning({ albumId: albumMembers.albumId });
+
+    if (declined.length === 0) {
+      return NextResponse.json(
+        { error: "Invitation not found" },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({ message: "Invitation declined" });
+  } catch (error) {
+    console.error("Decline invitation error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getDb } from "@/db";
+import { albumMembers, albums, users } from "@/db/schema";
+import { auth } from "@/auth";
+import { and, desc, eq, isNull } from "drizzle-orm";
+
+// Lists the album invitations waiting for the user's answer, newest first
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const { env } = await getCloudflareContext();
+    const db = getDb(env.DB);
+
+    const invitations = await db
+      .select({
+        albumId: albumMembers.albumId,
+        albumTitle: albums.title,
+        role: albumMembers.role,
+        invitedBy: users.username,
+        createdAt: albumMembers.createdAt,
+      })
+      .from(albumMembers)
+      .innerJoin(albums, eq(albums.id, albumMembers.albumId))
+      .leftJoin(users, eq(users.id, albumMembers.invitedBy))
+      .where(
+        and(
+          eq(albumMembers.userId, userId),
+          isNull(albumMembers.acceptedAt),
+          isNull(albums.deletedAt),
+        ),
+      )
+      .orderBy(desc(albumMembers.createdAt));
+
+    return NextResponse.json({ invitations });
+  } catch (error) {
+    console.error("Get invitations error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getDb } from "@/db";
+import { auth } from "@/auth";
+import {
+  dateInTimeZone,
+  formatCalendarDate,
+  INVALID_TIME_ZONE_ERROR,
+  parseCalendarDate,
+  parseTimeZone,
+} from "@/lib/calendar";
+import { findOnThisDay } from "@/lib/memories";
+
+// Photos and stories from the same calendar day in earlier years. `tz` is
+// the viewer's IANA time zone (default UTC) and `date` the day to look back
+// from as YYYY-MM-DD (default today in that zone).
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const { searchParams } = new URL(request.url);
+    const timeZone = parseTimeZone(searchParams.get("tz"));
+    if (!timeZone) {
+      return NextResponse.json(INVALID_TIME_ZONE_ERROR, { status: 400 });
+    }
+    const dateParam = searchParams.get("date");
+    const date = dateParam
+      ? parseCalendarDate(dateParam)
+      : dateInTimeZone(new Date(), timeZone);
+    if (!date) {
+      return NextResponse.json(
+        { error: "date must be given as YYYY-MM-DD" },
+        { status: 400 },
+      );
+    }
+
+    const { env } = await getCloudflareContext();
+    const db = getDb(env.DB);
+
+    const memories = await findOnThisDay(db, userId, date, timeZone);
+
+    return NextResponse.json({
+      date: formatCalendarDate(date),
+      timeZone,
+      ...memories,
+    });
+  } catch (error) {
+    console.error("Get on this day error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
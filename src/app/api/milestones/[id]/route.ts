@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getDb } from "@/db";
+import { albums, milestones } from "@/db/schema";
+import { auth } from "@/auth";
+import { and, eq, isNull } from "drizzle-orm";
+import { parseMilestoneInput } from "@/lib/milestones";
+import { isAlbumMember } from "@/lib/albumAccess";
+
+// Updates the fields given of a milestone. `albumId: null` unlinks its
+// album.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const body = (await request.json()) as Record<string, unknown>;
+    const input = parseMilestoneInput(body, true);
+    if ("error" in input) {
+      return NextResponse.json(input, { status: 400 });
+    }
+
+    const { env } = await getCloudflareContext();
+    const db = getDb(env.DB);
+
+    const milestone = await db
+      .select()
+      .from(milestones)
+      .where(and(eq(milestones.id, id), eq(milestones.userId, userId)))
+      .limit(1);
+
+    if (milestone.length === 0) {
+      return NextResponse.json(
+        { error: "Milestone not found" },
+        { status: 404 },
+      );
+    }
+
+    const updated = { ...milestone[0], ...input };
+
+    // The linked album, which must be one the user is a member of. One in
+    // the trash shows as unlinked, like in the list, until it is restored.
+    const album = updated.albumId
+      ? await db
+          .select({ title: albums.title })
+          .from(albums)
+          .where(
+            and(
+              eq(albums.id, updated.albumId),
+              isAlbumMember(userId, albums.id),
+              isNull(albums.deletedAt),
+            ),
+          )
+          .limit(1)
+      : [];
+
+    if (input.albumId && album.length === 0) {
+      return NextResponse.json({ error: "Album not found" }, { status: 404 });
+    }
+
+    await db
+      .update(milestones)
+      .set({ ...input, updatedAt: new Date() })
+      .where(eq(milestones.id, id));
+
+    return NextResponse.json({
+      id,
+      title: updated.title,
+      date: updated.date,
+      recurrence: updated.recurrence,
+      albumId: album.length > 0 ? updated.albumId : null,
+      albumTitle: album[0]?.title ?? null,
+    });
+  } catch (error) {
+    console.error("Update milestone error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const { env } = await getCloudflareContext();
+    const db = getDb(env.DB);
+
+    const milestone = await db
+      .select({ id: milestones.id })
+      .from(milestones)
+      .where(and(eq(milestones.id, id), eq(milestones.userId, userId)))
+      .limit(1);
+
+    if (milestone.length === 0) {
+      return NextResponse.json(
+        { error: "Milestone not found" },
+        { status: 404 },
+      );
+    }
+
+    await db.delete(milestones).where(eq(milestones.id, id));
+
+    return NextResponse.json({ message: "Milestone deleted successfully" });
+  } catch (error) {
+    console.error("Delete milestone error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
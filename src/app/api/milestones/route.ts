@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getDb } from "@/db";
+import { albums, milestones } from "@/db/schema";
+import { auth } from "@/auth";
+import { and, asc, eq, isNull } from "drizzle-orm";
+import { randomUUID } from "crypto";
+import { parseMilestoneInput, type MilestoneInput } from "@/lib/milestones";
+import { isAlbumMember } from "@/lib/albumAccess";
+
+// Lists the user's milestones by date. Links to trashed albums are left
+// out until the album is restored, and links to albums the user is no
+// longer a member of are left out.
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const { env } = await getCloudflareContext();
+    const db = getDb(env.DB);
+
+    const rows = await db
+      .select({
+        id: milestones.id,
+        title: milestones.title,
+        date: milestones.date,
+        recurrence: milestones.recurrence,
+        albumId: albums.id,
+        albumTitle: albums.title,
+      })
+      .from(milestones)
+      .leftJoin(
+        albums,
+        and(
+          eq(albums.id, milestones.albumId),
+          isAlbumMember(userId, albums.id),
+          isNull(albums.deletedAt),
+        ),
+      )
+      .where(eq(milestones.userId, userId))
+      .orderBy(asc(milestones.date), asc(milestones.createdAt));
+
+    return NextResponse.json({ milestones: rows });
+  } catch (error) {
+    console.error("Get milestones error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+// Creates a milestone from `{ title, date, recurrence?, albumId? }`
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const body = (await request.json()) as Record<string, unknown>;
+    const input = parseMilestoneInput(body, false);
+    if ("error" in input) {
+      return NextResponse.json(input, { status: 400 });
+    }
+    const { title, date, recurrence, albumId } = input as MilestoneInput;
+
+    const { env } = await getCloudflareContext();
+    const db = getDb(env.DB);
+
+    let albumTitle: string | null = null;
+    if (albumId) {
+      // The album must be one the user is a member of
+      const album = await db
+        .select({ title: albums.title })
+        .from(albums)
+        .where(
+          and(
+            eq(albums.id, albumId),
+            isAlbumMember(userId, albums.id),
+            isNull(albums.deletedAt),
+          ),
+        )
+        .limit(1);
+
+      if (album.length === 0) {
+        return NextResponse.json({ error: "Album not found" }, { status: 404 });
+      }
+      albumTitle = album[0].title;
+    }
+
+    const id = randomUUID();
+    const now = new Date();
+    await db.insert(milestones).values({
+      id,
+      userId,
+      title,
+      date,
+      recurrence,
+      albumId,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    return NextResponse.json(
+      { id, title, date, recurrence, albumId, albumTitle },
+      { status: 201 },
+    );
+  } catch (error) {
+    console.error("Create milestone error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getDb } from "@/db";
+import { auth } from "@/auth";
+import { checkPhotoAccess } from "@/lib/albumAccess";
+import { addReaction, listReactions, removeReaction } from "@/lib/feedback";
+import { isReactionEmoji, REACTION_EMOJIS } from "@/lib/reactions";
+
+const INVALID_EMOJI_ERROR = {
+  error: `emoji must be one of: ${REACTION_EMOJIS.join(" ")}`,
+};
+
+// Lists the reactions on a photo, one summary per emoji
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const { env } = await getCloudflareContext();
+    const db = getDb(env.DB);
+
+    const access = await checkPhotoAccess(db, userId, id, "viewer");
+    if ("error" in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status },
+      );
+    }
+
+    const target = { type: "photo", id } as const;
+    const reactions = await listReactions(db, target, { userId });
+    return NextResponse.json({ reactions });
+  } catch (error) {
+    console.error("Get photo reactions error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+// Reacts to a photo with an emoji. Returns the photo's reactions.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const { emoji } = (await request.json()) as { emoji?: unknown };
+    if (!isReactionEmoji(emoji)) {
+      return NextResponse.json(INVALID_EMOJI_ERROR, { status: 400 });
+    }
+
+    const { env } = await getCloudflareContext();
+    const db = getDb(env.DB);
+
+    const access = await checkPhotoAccess(db, userId, id, "viewer");
+    if ("error" in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status },
+      );
+    }
+
+    const target = { type: "photo", id } as const;
+    await addReaction(db, target, emoji, { userId });
+    const reactions = await listReactions(db, target, { userId });
+    return NextResponse.json({ reactions });
+  } catch (error) {
+    console.error("Add photo reaction error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+// Takes back the user's reaction with `?emoji=`. Returns the photo's
+// reactions.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const emoji = new URL(request.url).searchParams.get("emoji");
+    if (!isReactionEmoji(emoji)) {
+      return NextResponse.json(INVALID_EMOJI_ERROR, { status: 400 });
+    }
+
+    const { env } = await getCloudflareContext();
+    const db = getDb(env.DB);
+
+    const access = await checkPhotoAccess(db, userId, id, "viewer");
+    if ("error" in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status },
+      );
+    }
+
+    const target = { type: "photo", id } as const;
+    await removeReaction(db, target, emoji, { userId });
+    const reactions = await listReactions(db, target, { userId });
+    return NextResponse.json({ reactions });
+  } catch (error) {
+    console.error("Remove photo reaction error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
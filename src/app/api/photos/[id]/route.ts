@@ -3,11 +3,38 @@ import { getCloudflareContext } from "@opennextjs/cloudflare";
 import { getDb } from "@/db";
 import { photos } from "@/db/schema";
 import { auth } from "@/auth";
-// Removed unused imports
-import { eq, and } from "drizzle-orm";
-import { getStorageProvider } from "@/lib/storage";
+import { eq } from "drizzle-orm";
+import { checkPhotoAccess } from "@/lib/albumAccess";
+import { trashPhotos } from "@/lib/photos";
+import { withPhotoTags } from "@/lib/tags";
 
-export async function DELETE(
+// Longest caption or alt text accepted, in characters
+const MAX_TEXT_LENGTH = 500;
+
+type PhotoUpdate = Partial<
+  Pick<
+    typeof photos.$inferInsert,
+    "caption" | "altText" | "takenAt" | "latitude" | "longitude"
+  >
+>;
+
+// Trims a caption or alt text; empty strings clear the field
+function parseText(value: unknown): string | null | undefined {
+  if (value === null) return null;
+  if (typeof value !== "string") return undefined;
+  const text = value.trim();
+  return text.length <= MAX_TEXT_LENGTH ? text || null : undefined;
+}
+
+function parseCoordinate(value: unknown, limit: number): number | undefined {
+  return typeof value === "number" &&
+    Number.isFinite(value) &&
+    Math.abs(value) <= limit
+    ? value
+    : undefined;
+}
+
+export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> },
 ) {
@@ -22,30 +49,167 @@ export async function DELETE(
     const { env } = await getCloudflareContext();
     const db = getDb(env.DB);
 
-    // Verify ownership
-    const photo = await db
+    const access = await checkPhotoAccess(db, userId, id, "viewer");
+    if ("error" in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status },
+      );
+    }
+
+    const [tagged] = await withPhotoTags(db, userId, [access.photo]);
+
+    return NextResponse.json(tagged);
+  } catch (error) {
+    console.error("Get photo error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+// Updates the editable metadata of a photo. Only the fields present in the
+// body change; null clears a field. Latitude and longitude go together.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const body = (await request.json()) as Record<string, unknown> | null;
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Invalid body" }, { status: 400 });
+    }
+
+    const update: PhotoUpdate = {};
+
+    for (const field of ["caption", "altText"] as const) {
+      if (!(field in body)) continue;
+      const text = parseText(body[field]);
+      if (text === undefined) {
+        return NextResponse.json(
+          {
+            error: `${field} must be a string of at most ${MAX_TEXT_LENGTH} characters or null`,
+          },
+          { status: 400 },
+        );
+      }
+      update[field] = text;
+    }
+
+    if ("takenAt" in body) {
+      const takenAt =
+        typeof body.takenAt === "string" || typeof body.takenAt === "number"
+          ? new Date(body.takenAt)
+          : null;
+      if (
+        body.takenAt !== null &&
+        (!takenAt || Number.isNaN(takenAt.getTime()))
+      ) {
+        return NextResponse.json(
+          { error: "takenAt must be a date or null" },
+          { status: 400 },
+        );
+      }
+      update.takenAt = takenAt;
+    }
+
+    if ("latitude" in body || "longitude" in body) {
+      if (body.latitude === null && body.longitude === null) {
+        update.latitude = null;
+        update.longitude = null;
+      } else {
+        const latitude = parseCoordinate(body.latitude, 90);
+        const longitude = parseCoordinate(body.longitude, 180);
+        if (latitude === undefined || longitude === undefined) {
+          return NextResponse.json(
+            {
+              error:
+                "latitude (-90 to 90) and longitude (-180 to 180) must be set together, or both null",
+            },
+            { status: 400 },
+          );
+        }
+        update.latitude = latitude;
+        update.longitude = longitude;
+      }
+    }
+
+    if (Object.keys(update).length === 0) {
+      return NextResponse.json(
+        {
+          error:
+            "Nothing to update; send caption, altText, takenAt or latitude/longitude",
+        },
+        { status: 400 },
+      );
+    }
+
+    const { env } = await getCloudflareContext();
+    const db = getDb(env.DB);
+
+    const access = await checkPhotoAccess(db, userId, id, "editor");
+    if ("error" in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status },
+      );
+    }
+
+    await db.update(photos).set(update).where(eq(photos.id, id));
+
+    const updatedPhoto = await db
       .select()
       .from(photos)
-      .where(and(eq(photos.id, id), eq(photos.userId, userId)))
+      .where(eq(photos.id, id))
       .limit(1);
 
-    if (photo.length === 0) {
-      return NextResponse.json({ error: "Photo not found" }, { status: 404 });
-    }
+    const [tagged] = await withPhotoTags(db, userId, updatedPhoto);
+
+    return NextResponse.json(tagged);
+  } catch (error) {
+    console.error("Update photo error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
 
-    // Delete from storage (R2/S3)
-    const url = new URL(photo[0].url);
-    const fileName = url.pathname.substring(1); // Remove leading slash
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
 
-    const isDevelopment = process.env.NODE_ENV === "development";
-    const storage = getStorageProvider(env, isDevelopment);
+    const { env } = await getCloudflareContext();
+    const db = getDb(env.DB);
 
-    await storage.delete(fileName);
+    const access = await checkPhotoAccess(db, userId, id, "editor");
+    if ("error" in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status },
+      );
+    }
 
-    // Delete from database
-    await db.delete(photos).where(eq(photos.id, id));
+    // The files stay until the photo is purged from the trash
+    await trashPhotos(db, [access.photo]);
 
-    return NextResponse.json({ message: "Photo deleted successfully" });
+    return NextResponse.json({ message: "Photo moved to trash" });
   } catch (error) {
     console.error("Delete photo error:", error);
     return NextResponse.json(
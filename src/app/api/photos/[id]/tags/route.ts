@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getDb } from "@/db";
+import { auth } from "@/auth";
+import { checkPhotoAccess } from "@/lib/albumAccess";
+import {
+  findOrCreateTags,
+  MAX_PHOTO_TAGS,
+  MAX_TAG_NAME_LENGTH,
+  normalizeTagName,
+  setPhotoTags,
+} from "@/lib/tags";
+
+// Replaces the user's tags on a photo with the given names. Tags the user
+// does not have yet are created, also when the photo is in someone else's
+// album; tags other members put on the photo stay.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const body = (await request.json()) as { tags?: unknown };
+    const names = Array.isArray(body.tags)
+      ? body.tags.map(normalizeTagName)
+      : null;
+    if (
+      !names ||
+      names.length > MAX_PHOTO_TAGS ||
+      !names.every((name) => name !== null)
+    ) {
+      return NextResponse.json(
+        {
+          error: `tags must be a list of at most ${MAX_PHOTO_TAGS} names of 1 to ${MAX_TAG_NAME_LENGTH} characters`,
+        },
+        { status: 400 },
+      );
+    }
+
+    const { env } = await getCloudflareContext();
+    const db = getDb(env.DB);
+
+    const access = await checkPhotoAccess(db, userId, id, "editor");
+    if ("error" in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status },
+      );
+    }
+
+    const tags = await findOrCreateTags(db, userId, names);
+    await setPhotoTags(db, userId, id, tags.map((tag) => tag.id));
+
+    return NextResponse.json({ tags });
+  } catch (error) {
+    console.error("Update photo tags error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getDb } from "@/db";
+import { auth } from "@/auth";
+import {
+  copyPhotos,
+  loadPhotoTransfer,
+  MAX_TRANSFER_PHOTOS,
+} from "@/lib/photos";
+
+// Copies photos into another album of the user. The copies share the
+// stored files of the originals, so they take up no extra storage.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const { photoIds, targetAlbumId } = (await request.json()) as {
+      photoIds?: unknown;
+      targetAlbumId?: string;
+    };
+
+    if (
+      !targetAlbumId ||
+      !Array.isArray(photoIds) ||
+      photoIds.length === 0 ||
+      photoIds.length > MAX_TRANSFER_PHOTOS ||
+      !photoIds.every((id) => typeof id === "string")
+    ) {
+      return NextResponse.json(
+        {
+          error: `targetAlbumId and 1 to ${MAX_TRANSFER_PHOTOS} photoIds are required`,
+        },
+        { status: 400 },
+      );
+    }
+
+    const { env } = await getCloudflareContext();
+    const db = getDb(env.DB);
+
+    const transfer = await loadPhotoTransfer(
+      db,
+      userId,
+      photoIds,
+      targetAlbumId,
+    );
+    if (!transfer) {
+      return NextResponse.json(
+        { error: "Album or photos not found" },
+        { status: 404 },
+      );
+    }
+
+    const copies = await copyPhotos(db, transfer);
+
+    return NextResponse.json({ photos: copies }, { status: 201 });
+  } catch (error) {
+    console.error("Copy photos error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getDb } from "@/db";
+import { photos } from "@/db/schema";
+import { auth } from "@/auth";
+import {
+  and,
+  asc,
+  count,
+  gt,
+  inArray,
+  isNotNull,
+  isNull,
+} from "drizzle-orm";
+import { inActiveAlbum } from "@/lib/trash";
+import { isAlbumMember } from "@/lib/albumAccess";
+
+// Lists groups of photos in the user's albums that share a content hash,
+// oldest first within each group. Linked duplicates (same url) are included
+// so the whole group can be reviewed before cleaning up. Trashed photos are
+// left out.
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const { env } = await getCloudflareContext();
+    const db = getDb(env.DB);
+
+    const visible = and(
+      isAlbumMember(userId, photos.albumId),
+      isNull(photos.deletedAt),
+      inActiveAlbum(photos.albumId),
+    );
+
+    const duplicateHashes = db
+      .select({ contentHash: photos.contentHash })
+      .from(photos)
+      .where(and(visible, isNotNull(photos.contentHash)))
+      .groupBy(photos.contentHash)
+      .having(gt(count(photos.id), 1));
+
+    const duplicatePhotos = await db
+      .select()
+      .from(photos)
+      .where(
+        and(visible, inArray(photos.contentHash, duplicateHashes)),
+      )
+      .orderBy(asc(photos.contentHash), asc(photos.uploadedAt));
+
+    const groups = new Map<string, (typeof duplicatePhotos)[number][]>();
+    for (const photo of duplicatePhotos) {
+      const hash = photo.contentHash as string;
+      groups.set(hash, [...(groups.get(hash) ?? []), photo]);
+    }
+
+    return NextResponse.json(
+      Array.from(groups, ([contentHash, groupPhotos]) => ({
+        contentHash,
+        photos: groupPhotos,
+      })),
+    );
+  } catch (error) {
+    console.error("Get duplicate photos error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
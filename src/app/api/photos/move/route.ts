@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getDb } from "@/db";
+import { auth } from "@/auth";
+import {
+  loadPhotoTransfer,
+  MAX_TRANSFER_PHOTOS,
+  movePhotos,
+} from "@/lib/photos";
+
+// Moves photos into another album of the user. Albums that lose their
+// cover photo get a new one.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const { photoIds, targetAlbumId } = (await request.json()) as {
+      photoIds?: unknown;
+      targetAlbumId?: string;
+    };
+
+    if (
+      !targetAlbumId ||
+      !Array.isArray(photoIds) ||
+      photoIds.length === 0 ||
+      photoIds.length > MAX_TRANSFER_PHOTOS ||
+      !photoIds.every((id) => typeof id === "string")
+    ) {
+      return NextResponse.json(
+        {
+          error: `targetAlbumId and 1 to ${MAX_TRANSFER_PHOTOS} photoIds are required`,
+        },
+        { status: 400 },
+      );
+    }
+
+    const { env } = await getCloudflareContext();
+    const db = getDb(env.DB);
+
+    const transfer = await loadPhotoTransfer(
+      db,
+      userId,
+      photoIds,
+      targetAlbumId,
+    );
+    if (!transfer) {
+      return NextResponse.json(
+        { error: "Album or photos not found" },
+        { status: 404 },
+      );
+    }
+
+    const moved = await movePhotos(db, transfer);
+
+    return NextResponse.json({ photos: moved });
+  } catch (error) {
+    console.error("Move photos error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
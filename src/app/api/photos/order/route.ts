@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getDb } from "@/db";
+import { photos } from "@/db/schema";
+import { auth } from "@/auth";
+import { checkAlbumAccess } from "@/lib/albumAccess";
+import { and, eq, isNull } from "drizzle-orm";
+
+// Saves the order of every photo in an album. `photoIds` lists the album's
+// photos in their new order; the whole album is written in one D1 batch so
+// a failed request leaves the previous order intact.
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const { albumId, photoIds } = (await request.json()) as {
+      albumId?: string;
+      photoIds?: unknown;
+    };
+
+    if (
+      !albumId ||
+      !Array.isArray(photoIds) ||
+      !photoIds.every((id) => typeof id === "string")
+    ) {
+      return NextResponse.json(
+        { error: "albumId and a photoIds array are required" },
+        { status: 400 },
+      );
+    }
+
+    if (new Set(photoIds).size !== photoIds.length) {
+      return NextResponse.json(
+        { error: "photoIds must not contain duplicates" },
+        { status: 400 },
+      );
+    }
+
+    const { env } = await getCloudflareContext();
+    const db = getDb(env.DB);
+
+    const access = await checkAlbumAccess(db, userId, albumId, "editor");
+    if ("error" in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status },
+      );
+    }
+
+    const albumPhotos = await db
+      .select({ id: photos.id })
+      .from(photos)
+      .where(and(eq(photos.albumId, albumId), isNull(photos.deletedAt)));
+
+    // A photo added or removed since the client loaded the album would be
+    // left out of the new order, so the client has to reload first
+    const albumPhotoIds = new Set(albumPhotos.map((photo) => photo.id));
+    if (
+      photoIds.length !== albumPhotoIds.size ||
+      !photoIds.every((id) => albumPhotoIds.has(id))
+    ) {
+      return NextResponse.json(
+        { error: "photoIds must list every photo in the album" },
+        { status: 409 },
+      );
+    }
+
+    const [first, ...rest] = photoIds.map((id: string, index) =>
+      db
+        .update(photos)
+        .set({ order: index })
+        .where(and(eq(photos.id, id), eq(photos.albumId, albumId))),
+    );
+    if (first) {
+      await db.batch([first, ...rest]);
+    }
+
+    return NextResponse.json({ message: "Photo order saved" });
+  } catch (error) {
+    console.error("Reorder photos error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
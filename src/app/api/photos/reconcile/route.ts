@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getDb } from "@/db";
+import { auth } from "@/auth";
+import { getStorageProvider } from "@/lib/storage";
+import { reconcileStorage } from "@/lib/reconcile";
+
+// Reconciles the user's stored objects with their photo rows. Runs as a
+// dry run that only reports unless called with ?dryRun=false.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const { searchParams } = new URL(request.url);
+    const dryRun = searchParams.get("dryRun") !== "false";
+
+    const { env } = await getCloudflareContext();
+    const db = getDb(env.DB);
+
+    const report = await reconcileStorage(
+      db,
+      getStorageProvider(env),
+      userId,
+      dryRun,
+    );
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("Reconcile storage error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
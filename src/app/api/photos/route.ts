@@ -1,11 +1,48 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getCloudflareContext } from "@opennextjs/cloudflare";
 import { getDb } from "@/db";
-import { photos, albums } from "@/db/schema";
+import { photos } from "@/db/schema";
 import { auth } from "@/auth";
-import { eq, and } from "drizzle-orm";
+import { eq, and, getTableColumns, isNull } from "drizzle-orm";
 import { randomUUID } from "crypto";
 import { getStorageProvider } from "@/lib/storage";
+import { getImageResizer } from "@/lib/imageResizer";
+import {
+  getPhotoUploadKey,
+  parsePhotoQuery,
+  resolveDuplicateUpload,
+  saveUploadedPhoto,
+  trashPhotos,
+} from "@/lib/photos";
+import { inActiveAlbum } from "@/lib/trash";
+import {
+  checkAlbumAccess,
+  checkPhotoAccess,
+  isAlbumMember,
+} from "@/lib/albumAccess";
+import { withPhotoTags } from "@/lib/tags";
+import { withFeedbackCounts } from "@/lib/feedback";
+import {
+  isContentHash,
+  parseDuplicateStrategy,
+  sha256Hex,
+} from "@/lib/contentHash";
+import { checkStorageQuota, quotaExceededBody } from "@/lib/quota";
+import { detectImageFormat, UNSUPPORTED_IMAGE_ERROR } from "@/lib/imageFormat";
+import {
+  detectVideoFormat,
+  FALLBACK_VIDEO_TOO_LARGE_ERROR,
+  isMediaType,
+  MAX_FALLBACK_VIDEO_SIZE,
+  UNSUPPORTED_VIDEO_ERROR,
+} from "@/lib/media";
+import {
+  afterCursor,
+  cursorColumn,
+  INVALID_PAGE_ERROR,
+  parsePageParams,
+  toPage,
+} from "@/lib/pagination";
 
 export async function POST(request: NextRequest) {
   try {
@@ -21,6 +58,20 @@ export async function POST(request: NextRequest) {
     const caption = formData.get("caption") as string;
     const latitude = formData.get("latitude") as string;
     const longitude = formData.get("longitude") as string;
+    // EXIF read by the client before compression stripped it from the file
+    const clientExif = formData.get("exif") as string | null;
+    // Hash of the original computed by the client, for when the uploaded
+    // file is a compressed copy of it
+    const clientHash = formData.get("contentHash");
+    const compressed = formData.get("compressed") === "true";
+    const duplicateStrategy = parseDuplicateStrategy(
+      formData.get("duplicateStrategy"),
+    );
+    // Videos and Live Photos send their clip next to the still (a poster
+    // frame for videos)
+    const mediaType = (formData.get("mediaType") as string | null) || "image";
+    const motion = formData.get("motion") as File | null;
+    const duration = Number(formData.get("duration")) || undefined;
 
     const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
 
@@ -38,63 +89,141 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (!duplicateStrategy) {
+      return NextResponse.json(
+        { error: "duplicateStrategy must be one of: skip, link, allow" },
+        { status: 400 },
+      );
+    }
+
+    if (!isMediaType(mediaType) || (mediaType !== "image") !== !!motion) {
+      return NextResponse.json(
+        {
+          error:
+            "mediaType must be one of: image, video, live; video and live uploads need a motion clip",
+        },
+        { status: 400 },
+      );
+    }
+
+    if (motion && motion.size > MAX_FALLBACK_VIDEO_SIZE) {
+      return NextResponse.json(FALLBACK_VIDEO_TOO_LARGE_ERROR, {
+        status: 413,
+      });
+    }
+
     const { env } = await getCloudflareContext();
     const db = getDb(env.DB);
 
-    // Verify album ownership
-    const album = await db
-      .select()
-      .from(albums)
-      .where(and(eq(albums.id, albumId), eq(albums.userId, userId)))
-      .limit(1);
+    const access = await checkAlbumAccess(db, userId, albumId, "editor");
+    if ("error" in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status },
+      );
+    }
 
-    if (album.length === 0) {
-      return NextResponse.json({ error: "Album not found" }, { status: 404 });
+    // Trust the bytes, not the MIME type the client claims
+    const buffer = await file.arrayBuffer();
+    const format = detectImageFormat(buffer);
+    if (!format) {
+      return NextResponse.json(UNSUPPORTED_IMAGE_ERROR, { status: 415 });
+    }
+    const motionBuffer = motion ? await motion.arrayBuffer() : null;
+    const motionFormat = motionBuffer ? detectVideoFormat(motionBuffer) : null;
+    if (motionBuffer && !motionFormat) {
+      return NextResponse.json(UNSUPPORTED_VIDEO_ERROR, { status: 415 });
+    }
+
+    // A video is identified by its clip, the still being only a poster
+    // frame. A compressed still no longer matches the original, so the
+    // client's hash stands in for it. The client can claim any hash there,
+    // but duplicates are only looked up among the uploader's own photos,
+    // so a false hash at worst links the upload to another of them.
+    let contentHash: string;
+    if (mediaType === "video" && motionBuffer) {
+      contentHash = await sha256Hex(motionBuffer);
+    } else if (compressed && isContentHash(clientHash)) {
+      contentHash = clientHash;
+    } else {
+      contentHash = await sha256Hex(buffer);
+    }
+
+    const duplicate = await resolveDuplicateUpload(db, {
+      userId,
+      album: access.album,
+      contentHash,
+      strategy: duplicateStrategy,
+      caption,
+      latitude: latitude ? parseFloat(latitude) : undefined,
+      longitude: longitude ? parseFloat(longitude) : undefined,
+    });
+    if (duplicate) {
+      return NextResponse.json(
+        { ...duplicate.photo, duplicate: true },
+        { status: duplicate.created ? 201 : 200 },
+      );
+    }
+
+    const overQuota = await checkStorageQuota(
+      db,
+      env,
+      userId,
+      file.size + (motion?.size ?? 0),
+    );
+    if (overQuota) {
+      return NextResponse.json(quotaExceededBody(overQuota), { status: 413 });
     }
 
-    // Upload to storage (R2 in production, local filesystem in development)
+    // Upload to storage (driver selected by STORAGE_DRIVER)
     const photoId = randomUUID();
-    const fileName = `${userId}/${albumId}/${photoId}-${file.name}`;
-    const buffer = await file.arrayBuffer();
+    const fileName = getPhotoUploadKey(userId, albumId, photoId, file.name);
 
-    const isDevelopment = process.env.NODE_ENV === "development";
-    const storage = getStorageProvider(env, isDevelopment);
+    const storage = getStorageProvider(env);
 
     await storage.put(fileName, buffer, {
       httpMetadata: {
-        contentType: file.type,
+        contentType: format.mimeType,
       },
     });
 
-    // Get the public URL
-    const photoUrl = storage.getPublicUrl(fileName);
-
-    // Save photo metadata to database
-    await db.insert(photos).values({
-      id: photoId,
-      albumId,
-      userId: userId,
-      url: photoUrl,
-      caption,
-      latitude: latitude ? parseFloat(latitude) : undefined,
-      longitude: longitude ? parseFloat(longitude) : undefined,
-    });
-
-    // Update album cover photo if it doesn't have one
-    if (!album[0].coverPhotoUrl) {
-      await db
-        .update(albums)
-        .set({ coverPhotoUrl: photoUrl })
-        .where(eq(albums.id, albumId));
+    let storedMotion: { key: string; size: number } | null = null;
+    if (motion && motionBuffer && motionFormat) {
+      const motionKey = getPhotoUploadKey(
+        userId,
+        albumId,
+        photoId,
+        `motion-${motion.name}`,
+      );
+      await storage.put(motionKey, motionBuffer, {
+        httpMetadata: { contentType: motionFormat.mimeType },
+      });
+      storedMotion = { key: motionKey, size: motionBuffer.byteLength };
     }
 
-    const newPhoto = await db
-      .select()
-      .from(photos)
-      .where(eq(photos.id, photoId))
-      .limit(1);
+    const newPhoto = await saveUploadedPhoto(
+      db,
+      storage,
+      getImageResizer(env),
+      {
+        photoId,
+        userId,
+        album: access.album,
+        key: fileName,
+        data: buffer,
+        size: buffer.byteLength,
+        caption,
+        latitude: latitude ? parseFloat(latitude) : undefined,
+        longitude: longitude ? parseFloat(longitude) : undefined,
+        clientExif,
+        contentHash,
+        mediaType,
+        motion: storedMotion,
+        duration,
+      },
+    );
 
-    return NextResponse.json(newPhoto[0], { status: 201 });
+    return NextResponse.json(newPhoto, { status: 201 });
   } catch (error) {
     console.error("Upload photo error:", error);
     return NextResponse.json(
@@ -114,37 +243,65 @@ export async function GET(request: NextRequest) {
 
     const { searchParams } = new URL(request.url);
     const albumId = searchParams.get("albumId");
+    const page = parsePageParams(searchParams);
+    if (!page) {
+      return NextResponse.json(INVALID_PAGE_ERROR, { status: 400 });
+    }
+    const query = parsePhotoQuery(searchParams, userId, [
+      "albumId",
+      "limit",
+      "cursor",
+    ]);
+    if ("error" in query) {
+      return NextResponse.json(query, { status: 400 });
+    }
 
     const { env } = await getCloudflareContext();
     const db = getDb(env.DB);
 
     if (albumId) {
-      // Verify album ownership
-      const album = await db
-        .select()
-        .from(albums)
-        .where(and(eq(albums.id, albumId), eq(albums.userId, userId)))
-        .limit(1);
-
-      if (album.length === 0) {
-        return NextResponse.json({ error: "Album not found" }, { status: 404 });
+      const access = await checkAlbumAccess(db, userId, albumId, "viewer");
+      if ("error" in access) {
+        return NextResponse.json(
+          { error: access.error },
+          { status: access.status },
+        );
       }
-
-      const albumPhotos = await db
-        .select()
-        .from(photos)
-        .where(eq(photos.albumId, albumId));
-
-      return NextResponse.json(albumPhotos);
     }
 
-    // Get all photos for user
-    const userPhotos = await db
-      .select()
+    // Photos of one album, or of every album the user is a member of
+    const rows = await db
+      .select({
+        ...getTableColumns(photos),
+        cursor: cursorColumn(query.sortKeys),
+      })
       .from(photos)
-      .where(eq(photos.userId, userId));
-
-    return NextResponse.json(userPhotos);
+      .where(
+        and(
+          albumId
+            ? eq(photos.albumId, albumId)
+            : and(
+                isAlbumMember(userId, photos.albumId),
+                inActiveAlbum(photos.albumId),
+              ),
+          isNull(photos.deletedAt),
+          query.where,
+          afterCursor(query.sortKeys, page.cursor, query.direction),
+        ),
+      )
+      .orderBy(...query.orderBy)
+      .limit(page.limit + 1);
+
+    const result = toPage(rows, page.limit);
+
+    return NextResponse.json({
+      ...result,
+      items: await withFeedbackCounts(
+        db,
+        "photo",
+        await withPhotoTags(db, userId, result.items),
+      ),
+    });
   } catch (error) {
     console.error("Get photos error:", error);
     return NextResponse.json(
@@ -175,61 +332,17 @@ export async function DELETE(request: NextRequest) {
     const { env } = await getCloudflareContext();
     const db = getDb(env.DB);
 
-    // Get photo details first to verify ownership and get URL for storage deletion
-    const photo = await db
-      .select()
-      .from(photos)
-      .where(eq(photos.id, photoId))
-      .limit(1);
-
-    if (photo.length === 0) {
-      return NextResponse.json({ error: "Photo not found" }, { status: 404 });
-    }
-
-    const photoToDelete = photo[0];
-
-    // Verify ownership
-    if (photoToDelete.userId !== userId) {
-      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
-    }
-
-    // Delete from database
-    await db.delete(photos).where(eq(photos.id, photoId));
-
-    // Handle Album Cover cleanup
-    // If this photo was the cover photo, remove it
-    await db
-      .update(albums)
-      .set({ coverPhotoUrl: null })
-      .where(
-        and(
-          eq(albums.id, photoToDelete.albumId),
-          eq(albums.coverPhotoUrl, photoToDelete.url),
-        ),
+    const access = await checkPhotoAccess(db, userId, photoId, "editor");
+    if ("error" in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status },
       );
-
-    // Delete from storage
-    try {
-      const isDevelopment = process.env.NODE_ENV === "development";
-      const storage = getStorageProvider(env, isDevelopment);
-
-      // Attempt to extract key from URL
-      // Key format: userId/albumId/photoId-filename
-      const keyStart = `${userId}/${photoToDelete.albumId}/${photoId}`;
-      const url = photoToDelete.url;
-      const keyIndex = url.indexOf(keyStart);
-
-      if (keyIndex !== -1) {
-        const key = url.substring(keyIndex);
-        await storage.delete(key);
-      } else {
-        console.warn("Could not extract storage key from photo URL:", url);
-      }
-    } catch (err) {
-      console.error("Failed to delete file from storage:", err);
-      // We don't fail the request here since the DB record is gone
     }
 
+    // The files stay until the photo is purged from the trash
+    await trashPhotos(db, [access.photo]);
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Delete photo error:", error);
@@ -0,0 +1,311 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getDb } from "@/db";
+import { photos } from "@/db/schema";
+import { auth } from "@/auth";
+import { checkAlbumAccess } from "@/lib/albumAccess";
+import { eq } from "drizzle-orm";
+import { getStorageProvider, type UploadedPart } from "@/lib/storage";
+import { getImageResizer } from "@/lib/imageResizer";
+import {
+  isPhotoUploadKey,
+  resolveDuplicateUpload,
+  saveUploadedPhoto,
+} from "@/lib/photos";
+import {
+  isContentHash,
+  parseDuplicateStrategy,
+  sha256Hex,
+} from "@/lib/contentHash";
+import { checkStorageQuota, quotaExceededBody } from "@/lib/quota";
+import {
+  detectImageFormat,
+  getImageFormatByMimeType,
+  IMAGE_SIGNATURE_LENGTH,
+  UNSUPPORTED_IMAGE_ERROR,
+} from "@/lib/imageFormat";
+import {
+  detectVideoFormat,
+  getVideoFormatByMimeType,
+  isMediaType,
+  MAX_VIDEO_SIZE,
+  UNSUPPORTED_VIDEO_ERROR,
+  VIDEO_SIGNATURE_LENGTH,
+  VIDEO_TOO_LARGE_ERROR,
+} from "@/lib/media";
+
+// Originals above this size are not loaded into the Worker, so they get no
+// EXIF extraction or derivatives
+const MAX_PROCESSING_SIZE = 20 * 1024 * 1024; // 20MB
+
+// Finalizes a direct upload: completes the multipart upload if there is
+// one, checks the object landed in storage and inserts the photos row.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const body = (await request.json()) as {
+      albumId?: string;
+      photoId?: string;
+      key?: string;
+      uploadId?: string;
+      parts?: UploadedPart[];
+      caption?: string;
+      latitude?: number;
+      longitude?: number;
+      // EXIF read by the client, as sent to POST /api/photos
+      exif?: string;
+      contentHash?: string;
+      duplicateStrategy?: string;
+      mediaType?: string;
+      // Key of the clip of a video or Live Photo, as issued by
+      // POST /api/photos/uploads
+      motionKey?: string;
+      duration?: number;
+    };
+    const {
+      albumId,
+      photoId,
+      key,
+      uploadId,
+      parts,
+      caption,
+      latitude,
+      longitude,
+      exif,
+      motionKey,
+      duration,
+    } = body;
+    const mediaType = body.mediaType || "image";
+
+    if (
+      !albumId ||
+      !photoId ||
+      !key ||
+      !isPhotoUploadKey(key, userId, albumId, photoId)
+    ) {
+      return NextResponse.json(
+        { error: "Invalid upload reference" },
+        { status: 400 },
+      );
+    }
+
+    const duplicateStrategy = parseDuplicateStrategy(body.duplicateStrategy);
+    if (!duplicateStrategy) {
+      return NextResponse.json(
+        { error: "duplicateStrategy must be one of: skip, link, allow" },
+        { status: 400 },
+      );
+    }
+
+    if (!isMediaType(mediaType) || (mediaType !== "image") !== !!motionKey) {
+      return NextResponse.json(
+        {
+          error:
+            "mediaType must be one of: image, video, live; video and live uploads need a motion clip",
+        },
+        { status: 400 },
+      );
+    }
+
+    if (
+      motionKey &&
+      (motionKey === key ||
+        !isPhotoUploadKey(motionKey, userId, albumId, photoId))
+    ) {
+      return NextResponse.json(
+        { error: "Invalid upload reference" },
+        { status: 400 },
+      );
+    }
+
+    const { env } = await getCloudflareContext();
+    const db = getDb(env.DB);
+
+    const access = await checkAlbumAccess(db, userId, albumId, "editor");
+    if ("error" in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status },
+      );
+    }
+
+    const existing = await db
+      .select({ id: photos.id })
+      .from(photos)
+      .where(eq(photos.id, photoId))
+      .limit(1);
+
+    if (existing.length > 0) {
+      return NextResponse.json(
+        { error: "Upload already completed" },
+        { status: 409 },
+      );
+    }
+
+    const storage = getStorageProvider(env);
+    // Drops everything this upload wrote to the bucket
+    const discardUpload = () =>
+      Promise.all(
+        [key, motionKey].flatMap((objectKey) =>
+          objectKey ? [storage.delete(objectKey)] : [],
+        ),
+      );
+
+    if (uploadId) {
+      if (!storage.directUploads?.multipart) {
+        return NextResponse.json(
+          {
+            error:
+              "Multipart uploads are not available for this storage driver",
+            code: "DIRECT_UPLOAD_UNSUPPORTED",
+          },
+          { status: 501 },
+        );
+      }
+      if (!Array.isArray(parts) || parts.length === 0) {
+        return NextResponse.json(
+          { error: "Uploaded parts are required" },
+          { status: 400 },
+        );
+      }
+      await storage.directUploads.multipart.complete(key, uploadId, parts);
+    }
+
+    const object = await storage.head(key);
+    if (!object) {
+      return NextResponse.json(
+        { error: "Uploaded file not found" },
+        { status: 400 },
+      );
+    }
+
+    let data: ArrayBuffer | null = null;
+    if (object.size <= MAX_PROCESSING_SIZE) {
+      data = (await storage.get(key))?.body ?? null;
+    }
+
+    // The signed URL only pins the declared content type; make sure the
+    // bytes really are that kind of image
+    const signature =
+      data ??
+      (await storage.get(key, { offset: 0, length: IMAGE_SIGNATURE_LENGTH }))
+        ?.body;
+    const format = signature ? detectImageFormat(signature) : null;
+    if (
+      !format ||
+      getImageFormatByMimeType(object.contentType)?.format !== format.format
+    ) {
+      await discardUpload();
+      return NextResponse.json(UNSUPPORTED_IMAGE_ERROR, { status: 415 });
+    }
+
+    let motionSize = 0;
+    if (motionKey) {
+      const motionObject = await storage.head(motionKey);
+      if (!motionObject) {
+        await discardUpload();
+        return NextResponse.json(
+          { error: "Uploaded clip not found" },
+          { status: 400 },
+        );
+      }
+      if (motionObject.size > MAX_VIDEO_SIZE) {
+        await discardUpload();
+        return NextResponse.json(VIDEO_TOO_LARGE_ERROR, { status: 413 });
+      }
+      const motionSignature = await storage.get(motionKey, {
+        offset: 0,
+        length: VIDEO_SIGNATURE_LENGTH,
+      });
+      const motionFormat = motionSignature
+        ? detectVideoFormat(motionSignature.body)
+        : null;
+      if (
+        !motionFormat ||
+        getVideoFormatByMimeType(motionObject.contentType)?.format !==
+          motionFormat.format
+      ) {
+        await discardUpload();
+        return NextResponse.json(UNSUPPORTED_VIDEO_ERROR, { status: 415 });
+      }
+      motionSize = motionObject.size;
+    }
+
+    // Hash the bytes when they were loaded; otherwise trust the client. A
+    // video's still is a freshly captured poster frame, so its hash is the
+    // client's hash of the clip.
+    const clientHash = isContentHash(body.contentHash)
+      ? body.contentHash
+      : null;
+    const contentHash =
+      data && mediaType !== "video" ? await sha256Hex(data) : clientHash;
+
+    if (contentHash) {
+      const duplicate = await resolveDuplicateUpload(db, {
+        userId,
+        album: access.album,
+        contentHash,
+        strategy: duplicateStrategy,
+        caption,
+        latitude: typeof latitude === "number" ? latitude : undefined,
+        longitude: typeof longitude === "number" ? longitude : undefined,
+      });
+      if (duplicate) {
+        // The duplicate reuses existing files; drop the fresh upload
+        await discardUpload();
+        return NextResponse.json(
+          { ...duplicate.photo, duplicate: true },
+          { status: duplicate.created ? 201 : 200 },
+        );
+      }
+    }
+
+    // The size announced when the upload started is not binding; check
+    // what actually landed in the bucket
+    const overQuota = await checkStorageQuota(
+      db,
+      env,
+      userId,
+      object.size + motionSize,
+    );
+    if (overQuota) {
+      await discardUpload();
+      return NextResponse.json(quotaExceededBody(overQuota), { status: 413 });
+    }
+
+    const newPhoto = await saveUploadedPhoto(
+      db,
+      storage,
+      getImageResizer(env),
+      {
+        photoId,
+        userId,
+        album: access.album,
+        key,
+        data,
+        size: object.size,
+        caption,
+        latitude: typeof latitude === "number" ? latitude : undefined,
+        longitude: typeof longitude === "number" ? longitude : undefined,
+        clientExif: exif,
+        contentHash,
+        mediaType,
+        motion: motionKey ? { key: motionKey, size: motionSize } : null,
+        duration: typeof duration === "number" ? duration : undefined,
+      },
+    );
+
+    return NextResponse.json(newPhoto, { status: 201 });
+  } catch (error) {
+    console.error("Complete upload error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,297 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getDb } from "@/db";
+import { auth } from "@/auth";
+import { checkAlbumAccess } from "@/lib/albumAccess";
+import { randomUUID } from "crypto";
+import { getStorageProvider } from "@/lib/storage";
+import {
+  getPhotoUploadKey,
+  isPhotoUploadKey,
+  resolveDuplicateUpload,
+} from "@/lib/photos";
+import { isContentHash, parseDuplicateStrategy } from "@/lib/contentHash";
+import { checkStorageQuota, quotaExceededBody } from "@/lib/quota";
+import {
+  getImageFormatByMimeType,
+  UNSUPPORTED_IMAGE_ERROR,
+} from "@/lib/imageFormat";
+import {
+  getVideoFormatByMimeType,
+  isMediaType,
+  MAX_VIDEO_SIZE,
+  UNSUPPORTED_VIDEO_ERROR,
+  VIDEO_TOO_LARGE_ERROR,
+} from "@/lib/media";
+
+// Files above this size are uploaded in parts where the driver supports it
+const MULTIPART_THRESHOLD = 100 * 1024 * 1024; // 100MB
+const MIN_PART_SIZE = 10 * 1024 * 1024; // 10MB
+const MAX_PARTS = 10000;
+const UPLOAD_URL_EXPIRY = 15 * 60; // 15 minutes
+const PART_URL_EXPIRY = 60 * 60; // 1 hour
+
+// Starts a direct upload: returns a signed URL (or one per part) that the
+// client PUTs the original to, bypassing the Worker, plus one for the clip
+// of a video or Live Photo. The client then calls
+// /api/photos/uploads/complete to create the photo.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const body = (await request.json()) as {
+      albumId?: string;
+      fileName?: string;
+      contentType?: string;
+      size?: number;
+      // SHA-256 of the file, lets duplicates be resolved before uploading
+      contentHash?: string;
+      duplicateStrategy?: string;
+      mediaType?: string;
+      // The clip of a video (whose still is a poster frame) or Live Photo
+      motion?: { fileName?: string; contentType?: string; size?: number };
+    };
+    const { albumId, fileName, contentType, size, contentHash, motion } = body;
+    const mediaType = body.mediaType || "image";
+
+    if (!albumId || !fileName || typeof size !== "number" || size <= 0) {
+      return NextResponse.json(
+        { error: "albumId, fileName and size are required" },
+        { status: 400 },
+      );
+    }
+
+    // The bytes are checked once the upload completes; reject anything that
+    // does not even claim to be a supported image up front
+    const format = getImageFormatByMimeType(contentType);
+    if (!format) {
+      return NextResponse.json(UNSUPPORTED_IMAGE_ERROR, { status: 415 });
+    }
+
+    const duplicateStrategy = parseDuplicateStrategy(body.duplicateStrategy);
+    if (!duplicateStrategy) {
+      return NextResponse.json(
+        { error: "duplicateStrategy must be one of: skip, link, allow" },
+        { status: 400 },
+      );
+    }
+
+    if (!isMediaType(mediaType) || (mediaType !== "image") !== !!motion) {
+      return NextResponse.json(
+        {
+          error:
+            "mediaType must be one of: image, video, live; video and live uploads need a motion clip",
+        },
+        { status: 400 },
+      );
+    }
+
+    const motionFormat = motion
+      ? getVideoFormatByMimeType(motion.contentType)
+      : null;
+    if (motion) {
+      if (
+        !motion.fileName ||
+        typeof motion.size !== "number" ||
+        motion.size <= 0
+      ) {
+        return NextResponse.json(
+          { error: "motion.fileName and motion.size are required" },
+          { status: 400 },
+        );
+      }
+      if (!motionFormat) {
+        return NextResponse.json(UNSUPPORTED_VIDEO_ERROR, { status: 415 });
+      }
+      if (motion.size > MAX_VIDEO_SIZE) {
+        return NextResponse.json(VIDEO_TOO_LARGE_ERROR, { status: 413 });
+      }
+    }
+
+    const { env } = await getCloudflareContext();
+    const db = getDb(env.DB);
+
+    const access = await checkAlbumAccess(db, userId, albumId, "editor");
+    if ("error" in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status },
+      );
+    }
+
+    if (isContentHash(contentHash)) {
+      const duplicate = await resolveDuplicateUpload(db, {
+        userId,
+        album: access.album,
+        contentHash,
+        strategy: duplicateStrategy,
+      });
+      if (duplicate) {
+        return NextResponse.json(
+          {
+            method: "duplicate",
+            photo: { ...duplicate.photo, duplicate: true },
+          },
+          { status: duplicate.created ? 201 : 200 },
+        );
+      }
+    }
+
+    const overQuota = await checkStorageQuota(
+      db,
+      env,
+      userId,
+      size + (motion?.size ?? 0),
+    );
+    if (overQuota) {
+      return NextResponse.json(quotaExceededBody(overQuota), { status: 413 });
+    }
+
+    const storage = getStorageProvider(env);
+    const directUploads = storage.directUploads;
+    if (!directUploads) {
+      return NextResponse.json(
+        {
+          error: "Direct uploads are not available for this storage driver",
+          code: "DIRECT_UPLOAD_UNSUPPORTED",
+        },
+        { status: 501 },
+      );
+    }
+
+    const photoId = randomUUID();
+    const key = getPhotoUploadKey(userId, albumId, photoId, fileName);
+    const type = format.mimeType;
+
+    // Clips stay below the multipart threshold, so one PUT is enough
+    let motionTarget: {
+      key: string;
+      url: string;
+      headers: Record<string, string>;
+    } | null = null;
+    if (motion?.fileName && motionFormat) {
+      const motionKey = getPhotoUploadKey(
+        userId,
+        albumId,
+        photoId,
+        `motion-${motion.fileName}`,
+      );
+      motionTarget = {
+        key: motionKey,
+        url: await directUploads.createUploadUrl(
+          motionKey,
+          motionFormat.mimeType,
+          UPLOAD_URL_EXPIRY,
+        ),
+        headers: { "Content-Type": motionFormat.mimeType },
+      };
+    }
+
+    const multipart = directUploads.multipart;
+
+    if (size > MULTIPART_THRESHOLD && multipart) {
+      const partSize = Math.max(MIN_PART_SIZE, Math.ceil(size / MAX_PARTS));
+      const partCount = Math.ceil(size / partSize);
+      const uploadId = await multipart.create(key, type);
+      const parts = await Promise.all(
+        Array.from({ length: partCount }, async (_, index) => ({
+          partNumber: index + 1,
+          url: await multipart.getPartUrl(
+            key,
+            uploadId,
+            index + 1,
+            PART_URL_EXPIRY,
+          ),
+        })),
+      );
+
+      return NextResponse.json({
+        method: "multipart",
+        photoId,
+        key,
+        uploadId,
+        partSize,
+        parts,
+        motion: motionTarget,
+      });
+    }
+
+    const url = await directUploads.createUploadUrl(
+      key,
+      type,
+      UPLOAD_URL_EXPIRY,
+    );
+
+    return NextResponse.json({
+      method: "put",
+      photoId,
+      key,
+      url,
+      headers: { "Content-Type": type },
+      motion: motionTarget,
+    });
+  } catch (error) {
+    console.error("Create upload error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+// Aborts an unfinished multipart upload so the bucket drops its parts
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const { albumId, photoId, key, uploadId } = (await request.json()) as {
+      albumId?: string;
+      photoId?: string;
+      key?: string;
+      uploadId?: string;
+    };
+
+    if (
+      !albumId ||
+      !photoId ||
+      !key ||
+      !uploadId ||
+      !isPhotoUploadKey(key, userId, albumId, photoId)
+    ) {
+      return NextResponse.json(
+        { error: "Invalid upload reference" },
+        { status: 400 },
+      );
+    }
+
+    const { env } = await getCloudflareContext();
+    const storage = getStorageProvider(env);
+    if (!storage.directUploads?.multipart) {
+      return NextResponse.json(
+        {
+          error: "Multipart uploads are not available for this storage driver",
+          code: "DIRECT_UPLOAD_UNSUPPORTED",
+        },
+        { status: 501 },
+      );
+    }
+
+    await storage.directUploads.multipart.abort(key, uploadId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Abort upload error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
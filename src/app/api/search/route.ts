@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getDb } from "@/db";
+import { auth } from "@/auth";
+import {
+  MAX_SEARCH_QUERY_LENGTH,
+  parseSearchTerms,
+  searchLibrary,
+} from "@/lib/search";
+
+// Searches the titles, descriptions and locations of the user's albums,
+// photo captions and stories. Every word of `q` has to be found.
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const { searchParams } = new URL(request.url);
+    const q = searchParams.get("q") ?? "";
+    const terms = parseSearchTerms(q);
+    if (terms.length === 0 || q.length > MAX_SEARCH_QUERY_LENGTH) {
+      return NextResponse.json(
+        { error: `q must be 1 to ${MAX_SEARCH_QUERY_LENGTH} characters` },
+        { status: 400 },
+      );
+    }
+
+    const { env } = await getCloudflareContext();
+    const db = getDb(env.DB);
+
+    const results = await searchLibrary(db, userId, terms);
+
+    return NextResponse.json({ results });
+  } catch (error) {
+    console.error("Search error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
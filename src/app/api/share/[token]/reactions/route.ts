@@ -0,0 +1,310 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getDb, type Database } from "@/db";
+import { albums, photos, reactions, sharedLinks, stories } from "@/db/schema";
+import { and, eq, isNull } from "drizzle-orm";
+import {
+  addReaction,
+  listReactions,
+  removeReaction,
+  type Reactor,
+} from "@/lib/feedback";
+import {
+  isReactionEmoji,
+  MAX_DISPLAY_NAME_LENGTH,
+  normalizeDisplayName,
+  REACTION_EMOJIS,
+  type FeedbackTarget,
+  type ReactionEmoji,
+} from "@/lib/reactions";
+
+type SharedLink = typeof sharedLinks.$inferSelect;
+
+// The random id a visitor's browser keeps, see the share page
+const GUEST_ID_PATTERN = /^[\w-]{8,64}$/;
+
+function isGuestId(value: unknown): value is string {
+  return typeof value === "string" && GUEST_ID_PATTERN.test(value);
+}
+
+// Finds a share link that visitors may react through: not expired, of an
+// album that is not in the trash, and with reactions allowed
+async function findReactableLink(
+  db: Database,
+  token: string,
+): Promise<SharedLink | { error: string; status: 403 | 404 | 410 }> {
+  const link = await db
+    .select()
+    .from(sharedLinks)
+    .where(eq(sharedLinks.token, token))
+    .limit(1);
+
+  if (link.length === 0) {
+    return { error: "Share link not found", status: 404 };
+  }
+  const shareLink = link[0];
+
+  if (shareLink.expiresAt && new Date() > shareLink.expiresAt) {
+    return { error: "Share link has expired", status: 410 };
+  }
+
+  const album = await db
+    .select({ id: albums.id })
+    .from(albums)
+    .where(and(eq(albums.id, shareLink.albumId), isNull(albums.deletedAt)))
+    .limit(1);
+
+  if (album.length === 0) {
+    return { error: "Album not found", status: 404 };
+  }
+
+  if (!shareLink.allowReactions) {
+    return {
+      error: "This share link does not allow reactions",
+      status: 403,
+    };
+  }
+
+  return shareLink;
+}
+
+// Finds the photo or story of the link's album a reaction is on, given by
+// `photoId` or `storyId`
+async function findTarget(
+  db: Database,
+  albumId: string,
+  photoId: unknown,
+  storyId: unknown,
+): Promise<FeedbackTarget | null> {
+  if (typeof photoId === "string" && photoId) {
+    const photo = await db
+      .select({ id: photos.id })
+      .from(photos)
+      .where(
+        and(
+          eq(photos.id, photoId),
+          eq(photos.albumId, albumId),
+          isNull(photos.deletedAt),
+        ),
+      )
+      .limit(1);
+    return photo.length > 0 ? { type: "photo", id: photoId } : null;
+  }
+
+  if (typeof storyId === "string" && storyId) {
+    const story = await db
+      .select({ id: stories.id })
+      .from(stories)
+      .where(
+        and(
+          eq(stories.id, storyId),
+          eq(stories.albumId, albumId),
+          isNull(stories.deletedAt),
+        ),
+      )
+      .limit(1);
+    return story.length > 0 ? { type: "story", id: storyId } : null;
+  }
+
+  return null;
+}
+
+// The reactions on a photo or story for a visitor: counts only, without
+// the names of who reacted
+async function reactionsFor(
+  db: Database,
+  target: FeedbackTarget,
+  reactor: Reactor,
+) {
+  const summaries = await listReactions(db, target, reactor);
+  return summaries.map(({ emoji, count, reacted }) => ({
+    emoji,
+    count,
+    reacted,
+  }));
+}
+
+function parseReaction(input: { emoji?: unknown; guestId?: unknown }):
+  | { emoji: ReactionEmoji; guestId: string }
+  | { error: string } {
+  if (!isReactionEmoji(input.emoji)) {
+    return { error: `emoji must be one of: ${REACTION_EMOJIS.join(" ")}` };
+  }
+  if (!isGuestId(input.guestId)) {
+    return { error: "guestId is required" };
+  }
+  return { emoji: input.emoji, guestId: input.guestId };
+}
+
+// Lists the reactions a visitor made through the link, given by `?guestId=`
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> },
+) {
+  const { token } = await params;
+  try {
+    const guestId = new URL(request.url).searchParams.get("guestId");
+    if (!isGuestId(guestId)) {
+      return NextResponse.json(
+        { error: "guestId is required" },
+        { status: 400 },
+      );
+    }
+
+    const { env } = await getCloudflareContext();
+    const db = getDb(env.DB);
+
+    const link = await findReactableLink(db, token);
+    if ("error" in link) {
+      return NextResponse.json({ error: link.error }, { status: link.status });
+    }
+
+    const mine = await db
+      .select({
+        photoId: reactions.photoId,
+        storyId: reactions.storyId,
+        emoji: reactions.emoji,
+      })
+      .from(reactions)
+      .where(
+        and(
+          eq(reactions.sharedLinkId, link.id),
+          eq(reactions.guestId, guestId),
+          isNull(reactions.userId),
+        ),
+      );
+
+    return NextResponse.json({ reactions: mine });
+  } catch (error) {
+    console.error("Get guest reactions error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+// Reacts to a photo or story of the shared album as a visitor, under a
+// display name. Returns the reactions on it.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> },
+) {
+  const { token } = await params;
+  try {
+    const body = (await request.json()) as {
+      photoId?: unknown;
+      storyId?: unknown;
+      emoji?: unknown;
+      guestId?: unknown;
+      displayName?: unknown;
+    };
+    const reaction = parseReaction(body);
+    if ("error" in reaction) {
+      return NextResponse.json(reaction, { status: 400 });
+    }
+    const displayName = normalizeDisplayName(body.displayName);
+    if (!displayName) {
+      return NextResponse.json(
+        {
+          error: `displayName must be 1 to ${MAX_DISPLAY_NAME_LENGTH} characters`,
+        },
+        { status: 400 },
+      );
+    }
+
+    const { env } = await getCloudflareContext();
+    const db = getDb(env.DB);
+
+    const link = await findReactableLink(db, token);
+    if ("error" in link) {
+      return NextResponse.json({ error: link.error }, { status: link.status });
+    }
+
+    const target = await findTarget(
+      db,
+      link.albumId,
+      body.photoId,
+      body.storyId,
+    );
+    if (!target) {
+      return NextResponse.json(
+        { error: "Photo or story not found" },
+        { status: 404 },
+      );
+    }
+
+    const reactor: Reactor = {
+      sharedLinkId: link.id,
+      guestId: reaction.guestId,
+    };
+    await addReaction(db, target, reaction.emoji, {
+      ...reactor,
+      displayName,
+    });
+    return NextResponse.json({
+      reactions: await reactionsFor(db, target, reactor),
+    });
+  } catch (error) {
+    console.error("Add guest reaction error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+// Takes back a visitor's reaction, given by `?photoId=` or `?storyId=`,
+// `&emoji=` and `&guestId=`. Returns the reactions on the photo or story.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> },
+) {
+  const { token } = await params;
+  try {
+    const { searchParams } = new URL(request.url);
+    const reaction = parseReaction({
+      emoji: searchParams.get("emoji"),
+      guestId: searchParams.get("guestId"),
+    });
+    if ("error" in reaction) {
+      return NextResponse.json(reaction, { status: 400 });
+    }
+
+    const { env } = await getCloudflareContext();
+    const db = getDb(env.DB);
+
+    const link = await findReactableLink(db, token);
+    if ("error" in link) {
+      return NextResponse.json({ error: link.error }, { status: link.status });
+    }
+
+    const target = await findTarget(
+      db,
+      link.albumId,
+      searchParams.get("photoId"),
+      searchParams.get("storyId"),
+    );
+    if (!target) {
+      return NextResponse.json(
+        { error: "Photo or story not found" },
+        { status: 404 },
+      );
+    }
+
+    const reactor: Reactor = {
+      sharedLinkId: link.id,
+      guestId: reaction.guestId,
+    };
+    await removeReaction(db, target, reaction.emoji, reactor);
+    return NextResponse.json({
+      reactions: await reactionsFor(db, target, reactor),
+    });
+  } catch (error) {
+    console.error("Remove guest reaction error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -2,7 +2,10 @@ import { NextRequest, NextResponse } from "next/server";
 import { getCloudflareContext } from "@opennextjs/cloudflare";
 import { getDb } from "@/db";
 import { sharedLinks, albums, photos, stories } from "@/db/schema";
-import { eq } from "drizzle-orm";
+import { and, eq, isNull } from "drizzle-orm";
+import { parsePhotoQuery } from "@/lib/photos";
+import { withPhotoTags } from "@/lib/tags";
+import { withFeedbackCounts } from "@/lib/feedback";
 
 export async function GET(
   request: NextRequest,
@@ -41,7 +44,7 @@ export async function GET(
     const album = await db
       .select()
       .from(albums)
-      .where(eq(albums.id, shareLink.albumId))
+      .where(and(eq(albums.id, shareLink.albumId), isNull(albums.deletedAt)))
       .limit(1);
 
     if (album.length === 0) {
@@ -49,22 +52,50 @@ export async function GET(
     }
 
     const albumData = album[0];
+
+    // The photo filters narrow a shared slideshow to part of the album.
+    // Visitors see the tags of whoever shared it.
+    const query = parsePhotoQuery(
+      new URL(request.url).searchParams,
+      shareLink.userId,
+    );
+    if ("error" in query) {
+      return NextResponse.json(query, { status: 400 });
+    }
+
     const albumPhotos = await db
       .select()
       .from(photos)
-      .where(eq(photos.albumId, shareLink.albumId));
+      .where(
+        and(
+          eq(photos.albumId, shareLink.albumId),
+          isNull(photos.deletedAt),
+          query.where,
+        ),
+      )
+      .orderBy(...query.orderBy);
 
     // Get album stories
     const albumStories = await db
       .select()
       .from(stories)
-      .where(eq(stories.albumId, shareLink.albumId));
+      .where(
+        and(
+          eq(stories.albumId, shareLink.albumId),
+          isNull(stories.deletedAt),
+        ),
+      );
 
     return NextResponse.json({
       album: albumData,
-      photos: albumPhotos,
-      stories: albumStories,
+      photos: await withFeedbackCounts(
+        db,
+        "photo",
+        await withPhotoTags(db, shareLink.userId, albumPhotos),
+      ),
+      stories: await withFeedbackCounts(db, "story", albumStories),
       customText: albumData.customText,
+      allowReactions: shareLink.allowReactions,
     });
   } catch (error) {
     console.error("Get shared album error:", error);
@@ -1,9 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getCloudflareContext } from "@opennextjs/cloudflare";
 import { getDb } from "@/db";
-import { sharedLinks, albums } from "@/db/schema";
+import { sharedLinks } from "@/db/schema";
 import { auth } from "@/auth";
 import { eq, and } from "drizzle-orm";
+import { inActiveAlbum } from "@/lib/trash";
+import { checkAlbumAccess } from "@/lib/albumAccess";
 import { randomUUID } from "crypto";
 
 export async function POST(request: NextRequest) {
@@ -14,9 +16,10 @@ export async function POST(request: NextRequest) {
     }
     const userId = session.user.id;
 
-    const { albumId, expiresIn } = (await request.json()) as {
+    const { albumId, expiresIn, allowReactions } = (await request.json()) as {
       albumId: string;
       expiresIn?: number;
+      allowReactions?: boolean;
     };
 
     if (!albumId) {
@@ -29,15 +32,12 @@ export async function POST(request: NextRequest) {
     const { env } = await getCloudflareContext();
     const db = getDb(env.DB);
 
-    // Verify album ownership
-    const album = await db
-      .select()
-      .from(albums)
-      .where(and(eq(albums.id, albumId), eq(albums.userId, userId)))
-      .limit(1);
-
-    if (album.length === 0) {
-      return NextResponse.json({ error: "Album not found" }, { status: 404 });
+    const access = await checkAlbumAccess(db, userId, albumId, "owner");
+    if ("error" in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status },
+      );
     }
 
     // Generate share token
@@ -53,6 +53,7 @@ export async function POST(request: NextRequest) {
       userId: userId,
       token: shareToken,
       expiresAt,
+      allowReactions: allowReactions === true,
     });
 
     const shareUrl = `${new URL(request.url).origin}/share/${shareToken}`;
@@ -63,6 +64,7 @@ export async function POST(request: NextRequest) {
         shareUrl,
         token: shareToken,
         expiresAt,
+        allowReactions: allowReactions === true,
       },
       { status: 201 },
     );
@@ -90,15 +92,12 @@ export async function GET(request: NextRequest) {
     const db = getDb(env.DB);
 
     if (albumId) {
-      // Verify album ownership
-      const album = await db
-        .select()
-        .from(albums)
-        .where(and(eq(albums.id, albumId), eq(albums.userId, userId)))
-        .limit(1);
-
-      if (album.length === 0) {
-        return NextResponse.json({ error: "Album not found" }, { status: 404 });
+      const access = await checkAlbumAccess(db, userId, albumId, "owner");
+      if ("error" in access) {
+        return NextResponse.json(
+          { error: access.error },
+          { status: access.status },
+        );
       }
 
       const links = await db
@@ -113,7 +112,12 @@ export async function GET(request: NextRequest) {
     const userLinks = await db
       .select()
       .from(sharedLinks)
-      .where(eq(sharedLinks.userId, userId));
+      .where(
+        and(
+          eq(sharedLinks.userId, userId),
+          inActiveAlbum(sharedLinks.albumId),
+        ),
+      );
 
     return NextResponse.json(userLinks);
   } catch (error) {
@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import {
+  getLocalUploadSecret,
+  getStorageDriver,
+  getStorageProvider,
+  LOCAL_STORAGE_ROUTE,
+  verifyLocalUpload,
+  type ByteRange,
+} from "@/lib/storage";
+
+// Read the key from the raw pathname so it is decoded exactly once. Null
+// when the path is not valid percent-encoding.
+function getKey(request: NextRequest): string | null {
+  try {
+    return decodeURIComponent(
+      request.nextUrl.pathname.substring(LOCAL_STORAGE_ROUTE.length + 1),
+    );
+  } catch {
+    return null;
+  }
+}
+
+// Parses a single "bytes=start-end" range against the object size. Returns
+// null for a missing header and "invalid" for one that cannot be served.
+function parseRange(
+  header: string | null,
+  size: number,
+): ByteRange | "invalid" | null {
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match) return null;
+  const [, startText, endText] = match;
+  if (!startText && !endText) return "invalid";
+
+  // "bytes=-500" asks for the last 500 bytes
+  const start = startText
+    ? Number(startText)
+    : Math.max(0, size - Number(endText));
+  const end =
+    startText && endText ? Math.min(Number(endText), size - 1) : size - 1;
+  if (start > end || start >= size) return "invalid";
+  return { offset: start, length: end - start + 1 };
+}
+
+// Serves objects written by the local storage drivers (fs, memory).
+// Remote drivers expose objects through their own public bucket URL.
+// Byte ranges are supported so browsers can stream and seek video clips.
+export async function GET(request: NextRequest) {
+  try {
+    const { env } = await getCloudflareContext();
+    const driver = getStorageDriver(env);
+    if (driver !== "fs" && driver !== "memory") {
+      return new NextResponse("Not found", { status: 404 });
+    }
+
+    const storage = getStorageProvider(env);
+    const key = getKey(request);
+    if (key === null) {
+      return new NextResponse("Not found", { status: 404 });
+    }
+    const info = await storage.head(key);
+    if (!info) {
+      return new NextResponse("Not found", { status: 404 });
+    }
+
+    const headers = {
+      "Content-Type": info.contentType || "application/octet-stream",
+      "Cache-Control": "private, max-age=3600",
+      "Accept-Ranges": "bytes",
+    };
+
+    const range = parseRange(request.headers.get("range"), info.size);
+    if (range === "invalid") {
+      return new NextResponse(null, {
+        status: 416,
+        headers: { ...headers, "Content-Range": `bytes */${info.size}` },
+      });
+    }
+
+    const object = await storage.get(key, range ?? undefined);
+    if (!object) {
+      return new NextResponse("Not found", { status: 404 });
+    }
+
+    if (range) {
+      const end = range.offset + object.body.byteLength - 1;
+      return new NextResponse(object.body, {
+        status: 206,
+        headers: {
+          ...headers,
+          "Content-Range": `bytes ${range.offset}-${end}/${info.size}`,
+        },
+      });
+    }
+
+    return new NextResponse(object.body, { headers });
+  } catch (error) {
+    console.error("Serve storage object error:", error);
+    return new NextResponse("Internal Server Error", { status: 500 });
+  }
+}
+
+// Accepts direct uploads signed by the local drivers' upload signer, the
+// local stand-in for a presigned bucket URL.
+export async function PUT(request: NextRequest) {
+  try {
+    const { env } = await getCloudflareContext();
+    const driver = getStorageDriver(env);
+    const secret = getLocalUploadSecret(env);
+    if ((driver !== "fs" && driver !== "memory") || !secret) {
+      return new NextResponse("Not found", { status: 404 });
+    }
+
+    const key = getKey(request);
+    if (key === null) {
+      return new NextResponse("Bad request", { status: 400 });
+    }
+    const contentType =
+      request.headers.get("content-type") || "application/octet-stream";
+    const { searchParams } = request.nextUrl;
+    const valid = await verifyLocalUpload(
+      secret,
+      key,
+      contentType,
+      Number(searchParams.get("expires")),
+      searchParams.get("signature") || "",
+    );
+    if (!valid) {
+      return new NextResponse("Forbidden", { status: 403 });
+    }
+
+    const storage = getStorageProvider(env);
+    await storage.put(key, await request.arrayBuffer(), {
+      httpMetadata: { contentType },
+    });
+
+    return new NextResponse(null, { status: 200 });
+  } catch (error) {
+    console.error("Store storage object error:", error);
+    return new NextResponse("Internal Server Error", { status: 500 });
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getDb } from "@/db";
+import { auth } from "@/auth";
+import { checkStoryAccess } from "@/lib/albumAccess";
+import { addComment, listComments } from "@/lib/feedback";
+import { MAX_COMMENT_LENGTH, normalizeCommentBody } from "@/lib/reactions";
+
+// Lists the comments on a story, oldest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const { env } = await getCloudflareContext();
+    const db = getDb(env.DB);
+
+    const access = await checkStoryAccess(db, userId, id, "viewer");
+    if ("error" in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status },
+      );
+    }
+
+    const comments = await listComments(db, { type: "story", id });
+    return NextResponse.json({ comments });
+  } catch (error) {
+    console.error("Get story comments error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+// Adds a comment to a story. Every member of the album may comment.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const { body } = (await request.json()) as { body?: unknown };
+    const text = normalizeCommentBody(body);
+    if (!text) {
+      return NextResponse.json(
+        { error: `body must be 1 to ${MAX_COMMENT_LENGTH} characters` },
+        { status: 400 },
+      );
+    }
+
+    const { env } = await getCloudflareContext();
+    const db = getDb(env.DB);
+
+    const access = await checkStoryAccess(db, userId, id, "viewer");
+    if ("error" in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status },
+      );
+    }
+
+    const comment = await addComment(db, { type: "story", id }, userId, text);
+    return NextResponse.json(comment, { status: 201 });
+  } catch (error) {
+    console.error("Add story comment error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -3,7 +3,8 @@ import { getCloudflareContext } from "@opennextjs/cloudflare";
 import { getDb } from "@/db";
 import { stories } from "@/db/schema";
 import { auth } from "@/auth";
-import { eq, and } from "drizzle-orm";
+import { eq } from "drizzle-orm";
+import { checkStoryAccess } from "@/lib/albumAccess";
 
 export async function GET(
   request: NextRequest,
@@ -20,17 +21,15 @@ export async function GET(
     const { env } = await getCloudflareContext();
     const db = getDb(env.DB);
 
-    const story = await db
-      .select()
-      .from(stories)
-      .where(and(eq(stories.id, id), eq(stories.userId, userId)))
-      .limit(1);
-
-    if (story.length === 0) {
-      return NextResponse.json({ error: "Story not found" }, { status: 404 });
+    const access = await checkStoryAccess(db, userId, id, "viewer");
+    if ("error" in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status },
+      );
     }
 
-    return NextResponse.json(story[0]);
+    return NextResponse.json(access.story);
   } catch (error) {
     console.error("Get story error:", error);
     return NextResponse.json(
@@ -60,22 +59,20 @@ export async function PUT(
     const { env } = await getCloudflareContext();
     const db = getDb(env.DB);
 
-    // Verify ownership
-    const story = await db
-      .select()
-      .from(stories)
-      .where(and(eq(stories.id, id), eq(stories.userId, userId)))
-      .limit(1);
-
-    if (story.length === 0) {
-      return NextResponse.json({ error: "Story not found" }, { status: 404 });
+    const access = await checkStoryAccess(db, userId, id, "editor");
+    if ("error" in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status },
+      );
     }
+    const { story } = access;
 
     await db
       .update(stories)
       .set({
-        title: title || story[0].title,
-        content: content || story[0].content,
+        title: title || story.title,
+        content: content || story.content,
         updatedAt: new Date(),
       })
       .where(eq(stories.id, id));
@@ -111,20 +108,20 @@ export async function DELETE(
     const { env } = await getCloudflareContext();
     const db = getDb(env.DB);
 
-    // Verify ownership
-    const story = await db
-      .select()
-      .from(stories)
-      .where(and(eq(stories.id, id), eq(stories.userId, userId)))
-      .limit(1);
-
-    if (story.length === 0) {
-      return NextResponse.json({ error: "Story not found" }, { status: 404 });
+    const access = await checkStoryAccess(db, userId, id, "editor");
+    if ("error" in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status },
+      );
     }
 
-    await db.delete(stories).where(eq(stories.id, id));
+    await db
+      .update(stories)
+      .set({ deletedAt: new Date() })
+      .where(eq(stories.id, id));
 
-    return NextResponse.json({ message: "Story deleted successfully" });
+    return NextResponse.json({ message: "Story moved to trash" });
   } catch (error) {
     console.error("Delete story error:", error);
     return NextResponse.json(
@@ -1,10 +1,23 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getCloudflareContext } from "@opennextjs/cloudflare";
 import { getDb } from "@/db";
-import { stories, albums } from "@/db/schema";
+import { stories } from "@/db/schema";
 import { auth } from "@/auth";
-import { eq, and } from "drizzle-orm";
+import { eq, and, asc, getTableColumns, isNull } from "drizzle-orm";
 import { randomUUID } from "crypto";
+import {
+  afterCursor,
+  cursorColumn,
+  INVALID_PAGE_ERROR,
+  parsePageParams,
+  toPage,
+} from "@/lib/pagination";
+import { inActiveAlbum } from "@/lib/trash";
+import { checkAlbumAccess, isAlbumMember } from "@/lib/albumAccess";
+import { withFeedbackCounts } from "@/lib/feedback";
+
+// Stories are listed oldest first, in creation order
+const STORY_SORT_KEYS = [stories.createdAt, stories.id];
 
 export async function GET(request: NextRequest) {
   try {
@@ -16,37 +29,52 @@ export async function GET(request: NextRequest) {
 
     const { searchParams } = new URL(request.url);
     const albumId = searchParams.get("albumId");
+    const page = parsePageParams(searchParams);
+    if (!page) {
+      return NextResponse.json(INVALID_PAGE_ERROR, { status: 400 });
+    }
 
     const { env } = await getCloudflareContext();
     const db = getDb(env.DB);
 
     if (albumId) {
-      // Verify album ownership
-      const album = await db
-        .select()
-        .from(albums)
-        .where(and(eq(albums.id, albumId), eq(albums.userId, userId)))
-        .limit(1);
-
-      if (album.length === 0) {
-        return NextResponse.json({ error: "Album not found" }, { status: 404 });
+      const access = await checkAlbumAccess(db, userId, albumId, "viewer");
+      if ("error" in access) {
+        return NextResponse.json(
+          { error: access.error },
+          { status: access.status },
+        );
       }
-
-      const albumStories = await db
-        .select()
-        .from(stories)
-        .where(eq(stories.albumId, albumId));
-
-      return NextResponse.json(albumStories);
     }
 
-    // Get all stories for user
-    const userStories = await db
-      .select()
+    // Stories of one album, or of every album the user is a member of
+    const rows = await db
+      .select({
+        ...getTableColumns(stories),
+        cursor: cursorColumn(STORY_SORT_KEYS),
+      })
       .from(stories)
-      .where(eq(stories.userId, userId));
-
-    return NextResponse.json(userStories);
+      .where(
+        and(
+          albumId
+            ? eq(stories.albumId, albumId)
+            : and(
+                isAlbumMember(userId, stories.albumId),
+                inActiveAlbum(stories.albumId),
+              ),
+          isNull(stories.deletedAt),
+          afterCursor(STORY_SORT_KEYS, page.cursor),
+        ),
+      )
+      .orderBy(...STORY_SORT_KEYS.map((key) => asc(key)))
+      .limit(page.limit + 1);
+
+    const result = toPage(rows, page.limit);
+
+    return NextResponse.json({
+      ...result,
+      items: await withFeedbackCounts(db, "story", result.items),
+    });
   } catch (error) {
     console.error("Get stories error:", error);
     return NextResponse.json(
@@ -80,24 +108,24 @@ export async function POST(request: NextRequest) {
     const { env } = await getCloudflareContext();
     const db = getDb(env.DB);
 
-    // Verify album ownership
-    const album = await db
-      .select()
-      .from(albums)
-      .where(and(eq(albums.id, albumId), eq(albums.userId, userId)))
-      .limit(1);
-
-    if (album.length === 0) {
-      return NextResponse.json({ error: "Album not found" }, { status: 404 });
+    const access = await checkAlbumAccess(db, userId, albumId, "editor");
+    if ("error" in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status },
+      );
     }
 
     const storyId = randomUUID();
+    const now = new Date();
     await db.insert(stories).values({
       id: storyId,
       albumId,
       userId: userId,
       title,
       content,
+      createdAt: now,
+      updatedAt: now,
     });
 
     const newStory = await db
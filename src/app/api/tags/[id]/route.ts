@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getDb } from "@/db";
+import { tags } from "@/db/schema";
+import { auth } from "@/auth";
+import { and, eq } from "drizzle-orm";
+import { findTag, MAX_TAG_NAME_LENGTH, normalizeTagName } from "@/lib/tags";
+
+// Renames a tag. Fails with 409 if the user has another tag of that name.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const body = (await request.json()) as { name?: unknown };
+    const name = normalizeTagName(body.name);
+    if (!name) {
+      return NextResponse.json(
+        { error: `name must be 1 to ${MAX_TAG_NAME_LENGTH} characters` },
+        { status: 400 },
+      );
+    }
+
+    const { env } = await getCloudflareContext();
+    const db = getDb(env.DB);
+
+    const tag = await db
+      .select()
+      .from(tags)
+      .where(and(eq(tags.id, id), eq(tags.userId, userId)))
+      .limit(1);
+
+    if (tag.length === 0) {
+      return NextResponse.json({ error: "Tag not found" }, { status: 404 });
+    }
+
+    const existing = await findTag(db, userId, name);
+    if (existing && existing.id !== id) {
+      return NextResponse.json(
+        { error: "A tag with this name already exists" },
+        { status: 409 },
+      );
+    }
+
+    await db.update(tags).set({ name }).where(eq(tags.id, id));
+
+    return NextResponse.json({ id, name });
+  } catch (error) {
+    console.error("Update tag error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+// Deletes a tag and takes it off every photo
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const { env } = await getCloudflareContext();
+    const db = getDb(env.DB);
+
+    const tag = await db
+      .select({ id: tags.id })
+      .from(tags)
+      .where(and(eq(tags.id, id), eq(tags.userId, userId)))
+      .limit(1);
+
+    if (tag.length === 0) {
+      return NextResponse.json({ error: "Tag not found" }, { status: 404 });
+    }
+
+    // photo_tags rows cascade with the tag
+    await db.delete(tags).where(eq(tags.id, id));
+
+    return NextResponse.json({ message: "Tag deleted successfully" });
+  } catch (error) {
+    console.error("Delete tag error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
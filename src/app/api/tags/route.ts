@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getDb } from "@/db";
+import { auth } from "@/auth";
+import {
+  findOrCreateTags,
+  findTag,
+  listTags,
+  MAX_TAG_NAME_LENGTH,
+  normalizeTagName,
+} from "@/lib/tags";
+
+const DEFAULT_TAG_LIMIT = 20;
+const MAX_TAG_LIMIT = 100;
+
+// Lists the user's tags with their photo counts. `q` narrows the list to
+// tags containing it, for autocomplete.
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const { searchParams } = new URL(request.url);
+    const q = searchParams.get("q")?.trim() || null;
+    const limitParam = searchParams.get("limit");
+    const limit = limitParam === null ? DEFAULT_TAG_LIMIT : Number(limitParam);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_TAG_LIMIT) {
+      return NextResponse.json(
+        { error: `limit must be an integer from 1 to ${MAX_TAG_LIMIT}` },
+        { status: 400 },
+      );
+    }
+    if (q && q.length > MAX_TAG_NAME_LENGTH) {
+      return NextResponse.json(
+        { error: `q must be at most ${MAX_TAG_NAME_LENGTH} characters` },
+        { status: 400 },
+      );
+    }
+
+    const { env } = await getCloudflareContext();
+    const db = getDb(env.DB);
+
+    const tags = await listTags(db, userId, q, limit);
+
+    return NextResponse.json({ tags });
+  } catch (error) {
+    console.error("Get tags error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+// Creates a tag. A tag with the same name (in any case) is returned as is.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const body = (await request.json()) as { name?: unknown };
+    const name = normalizeTagName(body.name);
+    if (!name) {
+      return NextResponse.json(
+        { error: `name must be 1 to ${MAX_TAG_NAME_LENGTH} characters` },
+        { status: 400 },
+      );
+    }
+
+    const { env } = await getCloudflareContext();
+    const db = getDb(env.DB);
+
+    const existing = await findTag(db, userId, name);
+    if (existing) {
+      return NextResponse.json(existing);
+    }
+
+    const [tag] = await findOrCreateTags(db, userId, [name]);
+
+    return NextResponse.json(tag, { status: 201 });
+  } catch (error) {
+    console.error("Create tag error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
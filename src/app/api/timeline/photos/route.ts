@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { and, desc, getTableColumns, sql } from "drizzle-orm";
+import { getDb } from "@/db";
+import { photos } from "@/db/schema";
+import { auth } from "@/auth";
+import {
+  afterCursor,
+  cursorColumn,
+  INVALID_PAGE_ERROR,
+  parsePageParams,
+  toPage,
+} from "@/lib/pagination";
+import { INVALID_TIME_ZONE_ERROR, parseTimeZone } from "@/lib/calendar";
+import {
+  offsetPeriods,
+  onTimeline,
+  photoDay,
+  TIMELINE_SORT_KEYS,
+} from "@/lib/timeline";
+
+// A day either side of a month covers every UTC offset in use
+const DAY_SECONDS = 24 * 60 * 60;
+
+// Photos of one month of the timeline (`month=YYYY-MM`), newest first,
+// each with the local `day` it is filed under
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const { searchParams } = new URL(request.url);
+    const month = searchParams.get("month") ?? "";
+    if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) {
+      return NextResponse.json(
+        { error: "month must be given as YYYY-MM" },
+        { status: 400 },
+      );
+    }
+    const timeZone = parseTimeZone(searchParams.get("tz"));
+    if (!timeZone) {
+      return NextResponse.json(INVALID_TIME_ZONE_ERROR, { status: 400 });
+    }
+    const page = parsePageParams(searchParams);
+    if (!page) {
+      return NextResponse.json(INVALID_PAGE_ERROR, { status: 400 });
+    }
+
+    const { env } = await getCloudflareContext();
+    const db = getDb(env.DB);
+
+    const [year, monthNumber] = month.split("-").map(Number);
+    const day = photoDay(
+      offsetPeriods(
+        timeZone,
+        Date.UTC(year, monthNumber - 1, 1) / 1000 - DAY_SECONDS,
+        Date.UTC(year, monthNumber, 1) / 1000 + DAY_SECONDS,
+      ),
+    );
+    const rows = await db
+      .select({
+        ...getTableColumns(photos),
+        day,
+        cursor: cursorColumn(TIMELINE_SORT_KEYS),
+      })
+      .from(photos)
+      .where(
+        and(
+          onTimeline(userId),
+          sql`substr(${day}, 1, 7) = ${month}`,
+          afterCursor(TIMELINE_SORT_KEYS, page.cursor, "desc"),
+        ),
+      )
+      .orderBy(...TIMELINE_SORT_KEYS.map((key) => desc(key)))
+      .limit(page.limit + 1);
+
+    return NextResponse.json(toPage(rows, page.limit));
+  } catch (error) {
+    console.error("Get timeline photos error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
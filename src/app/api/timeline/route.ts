@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getDb } from "@/db";
+import { auth } from "@/auth";
+import { INVALID_TIME_ZONE_ERROR, parseTimeZone } from "@/lib/calendar";
+import { listTimelineBuckets } from "@/lib/timeline";
+
+// Photo counts per day across all albums of the user, grouped by month. The
+// photos of a month are loaded with GET /api/timeline/photos.
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const { searchParams } = new URL(request.url);
+    const timeZone = parseTimeZone(searchParams.get("tz"));
+    if (!timeZone) {
+      return NextResponse.json(INVALID_TIME_ZONE_ERROR, { status: 400 });
+    }
+
+    const { env } = await getCloudflareContext();
+    const db = getDb(env.DB);
+
+    const buckets = await listTimelineBuckets(db, userId, timeZone);
+
+    return NextResponse.json({ buckets });
+  } catch (error) {
+    console.error("Get timeline error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
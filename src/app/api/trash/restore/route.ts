@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getDb } from "@/db";
+import { auth } from "@/auth";
+import {
+  isTrashItemType,
+  restoreTrashItem,
+  TRASH_ITEM_TYPES,
+} from "@/lib/trash";
+
+// Takes an album, photo or story out of the trash
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const { type, id } = (await request.json()) as {
+      type?: unknown;
+      id?: unknown;
+    };
+
+    if (!isTrashItemType(type) || typeof id !== "string" || !id) {
+      return NextResponse.json(
+        {
+          error: `id and a type of ${TRASH_ITEM_TYPES.join(", ")} are required`,
+        },
+        { status: 400 },
+      );
+    }
+
+    const { env } = await getCloudflareContext();
+    const db = getDb(env.DB);
+
+    const result = await restoreTrashItem(db, userId, type, id);
+    if (result === "notFound") {
+      return NextResponse.json(
+        { error: "Item not found in trash" },
+        { status: 404 },
+      );
+    }
+    if (result === "albumTrashed") {
+      return NextResponse.json(
+        { error: "Restore the album this item belongs to first" },
+        { status: 409 },
+      );
+    }
+
+    return NextResponse.json({ message: "Restored from trash" });
+  } catch (error) {
+    console.error("Restore from trash error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
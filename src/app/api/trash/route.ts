@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getDb } from "@/db";
+import { auth } from "@/auth";
+import { getStorageProvider } from "@/lib/storage";
+import { purgeExpiredTrash } from "@/lib/photos";
+import { getTrashRetentionDays, listTrash } from "@/lib/trash";
+
+// Lists the user's trash after purging whatever has outlived the retention
+// period
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const { env } = await getCloudflareContext();
+    const db = getDb(env.DB);
+    const retentionDays = getTrashRetentionDays(env);
+
+    await purgeExpiredTrash(db, getStorageProvider(env), userId, retentionDays);
+    const trash = await listTrash(db, userId);
+
+    return NextResponse.json({ ...trash, retentionDays });
+  } catch (error) {
+    console.error("Get trash error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getDb } from "@/db";
+import { auth } from "@/auth";
+import {
+  getAlbumStorageUsage,
+  getStorageQuota,
+  getUserStorageUsage,
+} from "@/lib/quota";
+
+// Storage used by the current user against their quota, with a breakdown
+// per album (or just ?albumId=)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const { searchParams } = new URL(request.url);
+    const albumId = searchParams.get("albumId") ?? undefined;
+
+    const { env } = await getCloudflareContext();
+    const db = getDb(env.DB);
+
+    const [usedBytes, albums] = await Promise.all([
+      getUserStorageUsage(db, userId),
+      getAlbumStorageUsage(db, userId, albumId),
+    ]);
+
+    return NextResponse.json({
+      usedBytes,
+      quotaBytes: getStorageQuota(env),
+      albums,
+    });
+  } catch (error) {
+    console.error("Get usage error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -2,7 +2,14 @@
 
 import { useEffect, useState } from "react";
 import Image from "next/image";
+import { Link } from "@/i18n/routing";
 import { albumsApi } from "@/lib/api";
+import { getPhotoUrl, type PhotoVariants } from "@/lib/photoVariants";
+import { StorageUsageBar } from "@/components/game/StorageUsageBar";
+import { LibrarySearch } from "@/components/game/LibrarySearch";
+import { OnThisDayCard } from "@/components/game/OnThisDayCard";
+import { InvitationsCard } from "@/components/game/InvitationsCard";
+import type { AlbumRole } from "@/lib/albumRoles";
 import { useTranslations } from "next-intl";
 import { motion, AnimatePresence } from "framer-motion";
 import {
@@ -13,6 +20,11 @@ import {
   X,
   ChevronRight,
   Heart,
+  Trash2,
+  CalendarDays,
+  CalendarHeart,
+  Map as MapIcon,
+  Users,
 } from "lucide-react";
 
 interface Album {
@@ -21,13 +33,17 @@ interface Album {
   description?: string;
   location?: string;
   coverPhotoUrl?: string;
+  coverVariants?: PhotoVariants | null;
   startDate?: string;
   endDate?: string;
+  // The user's role; albums shared with them are not "owner"
+  role: AlbumRole;
 }
 
 interface AlbumListProps {
   onSelectAlbum: (albumId: string) => void;
   onStartUpload: () => void;
+  onOpenTrash: () => void;
 }
 
 const HeartOverlay = () => (
@@ -36,7 +52,11 @@ const HeartOverlay = () => (
   </div>
 );
 
-export function AlbumList({ onSelectAlbum, onStartUpload }: AlbumListProps) {
+export function AlbumList({
+  onSelectAlbum,
+  onStartUpload,
+  onOpenTrash,
+}: AlbumListProps) {
   const [albums, setAlbums] = useState<Album[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState("");
@@ -50,6 +70,11 @@ export function AlbumList({ onSelectAlbum, onStartUpload }: AlbumListProps) {
   });
   const t = useTranslations("Albums");
   const gameT = useTranslations("Game.UI");
+  const trashT = useTranslations("Trash");
+  const timelineT = useTranslations("Timeline");
+  const mapT = useTranslations("Map");
+  const milestonesT = useTranslations("Milestones");
+  const membersT = useTranslations("Members");
 
   useEffect(() => {
     loadAlbums();
@@ -58,7 +83,7 @@ export function AlbumList({ onSelectAlbum, onStartUpload }: AlbumListProps) {
   const loadAlbums = async () => {
     try {
       setLoading(true);
-      const data = (await albumsApi.list()) as unknown as Album[];
+      const data = await albumsApi.listAll<Album>();
       setAlbums(data);
     } catch (err) {
       setError(err instanceof Error ? err.message : t("errors.load"));
@@ -102,9 +127,12 @@ export function AlbumList({ onSelectAlbum, onStartUpload }: AlbumListProps) {
           <p className='text-[10px] sm:text-xs text-rose-300 font-bold tracking-[0.1em] sm:tracking-[0.2em] uppercase'>
             {t("ourBeautifulJourney")}
           </p>
+          <StorageUsageBar refreshKey={albums} />
         </div>
 
-        <div className='flex gap-2 sm:gap-3 w-full sm:w-auto'>
+        <div className='flex flex-wrap sm:flex-nowrap gap-2 sm:gap-3 w-full sm:w-auto'>
+          <LibrarySearch />
+
           <button
             onClick={onStartUpload}
             className='flex-1 sm:flex-none flex items-center justify-center gap-1.5 sm:gap-2 px-4 sm:px-6 py-2 sm:py-2.5 bg-rose-500 text-white rounded-full font-bold text-xs sm:text-sm shadow-lg shadow-rose-200 hover:bg-rose-600 transition-all group touch-target'
@@ -137,6 +165,38 @@ export function AlbumList({ onSelectAlbum, onStartUpload }: AlbumListProps) {
               </>
             )}
           </button>
+
+          <Link
+            href='/timeline'
+            className='flex items-center justify-center p-2 sm:p-2.5 border border-rose-100 text-rose-300 bg-white hover:border-rose-300 hover:text-rose-500 rounded-full transition-all touch-target'
+            title={timelineT("open")}
+          >
+            <CalendarDays className='w-3.5 h-3.5 sm:w-4 sm:h-4' />
+          </Link>
+
+          <Link
+            href='/milestones'
+            className='flex items-center justify-center p-2 sm:p-2.5 border border-rose-100 text-rose-300 bg-white hover:border-rose-300 hover:text-rose-500 rounded-full transition-all touch-target'
+            title={milestonesT("open")}
+          >
+            <CalendarHeart className='w-3.5 h-3.5 sm:w-4 sm:h-4' />
+          </Link>
+
+          <Link
+            href='/map'
+            className='flex items-center justify-center p-2 sm:p-2.5 border border-rose-100 text-rose-300 bg-white hover:border-rose-300 hover:text-rose-500 rounded-full transition-all touch-target'
+            title={mapT("open")}
+          >
+            <MapIcon className='w-3.5 h-3.5 sm:w-4 sm:h-4' />
+          </Link>
+
+          <button
+            onClick={onOpenTrash}
+            className='flex items-center justify-center p-2 sm:p-2.5 border border-rose-100 text-rose-300 bg-white hover:border-rose-300 hover:text-rose-500 rounded-full transition-all touch-target'
+            title={trashT("open")}
+          >
+            <Trash2 className='w-3.5 h-3.5 sm:w-4 sm:h-4' />
+          </button>
         </div>
       </div>
 
@@ -275,6 +335,12 @@ export function AlbumList({ onSelectAlbum, onStartUpload }: AlbumListProps) {
           )}
         </AnimatePresence>
 
+        {/* Album invitations */}
+        <InvitationsCard onAccepted={loadAlbums} />
+
+        {/* On This Day */}
+        <OnThisDayCard />
+
         {/* Albums Grid */}
         {loading ? (
           <div className='min-h-[50vh] flex items-center justify-center'>
@@ -318,7 +384,13 @@ export function AlbumList({ onSelectAlbum, onStartUpload }: AlbumListProps) {
 
                   {album.coverPhotoUrl ? (
                     <Image
-                      src={album.coverPhotoUrl}
+                      src={getPhotoUrl(
+                        {
+                          url: album.coverPhotoUrl,
+                          variants: album.coverVariants,
+                        },
+                        "medium",
+                      )}
                       alt={album.title}
                       fill
                       sizes='(max-width: 768px) 100vw, (max-width: 1200px) 50vw, 33vw'
@@ -335,12 +407,23 @@ export function AlbumList({ onSelectAlbum, onStartUpload }: AlbumListProps) {
 
                   {/* Top Badge */}
                   <div className='absolute top-4 right-4 z-20'>
-                    <div className='bg-white/90 backdrop-blur-md px-4 py-1.5 rounded-full shadow-sm flex items-center gap-2'>
-                      <Heart className='w-3 h-3 text-rose-500 fill-rose-500' />
-                      <span className='text-[10px] font-black text-rose-500 tracking-tighter uppercase'>
-                        {t("memoryStorage")}
-                      </span>
-                    </div>
+                    {album.role === "owner" ? (
+                      <div className='bg-white/90 backdrop-blur-md px-4 py-1.5 rounded-full shadow-sm flex items-center gap-2'>
+                        <Heart className='w-3 h-3 text-rose-500 fill-rose-500' />
+                        <span className='text-[10px] font-black text-rose-500 tracking-tighter uppercase'>
+                          {t("memoryStorage")}
+                        </span>
+                      </div>
+                    ) : (
+                      <div className='bg-white/90 backdrop-blur-md px-4 py-1.5 rounded-full shadow-sm flex items-center gap-2'>
+                        <Users className='w-3 h-3 text-rose-500' />
+                        <span className='text-[10px] font-black text-rose-500 tracking-tighter uppercase'>
+                          {membersT("shared", {
+                            role: membersT(`roles.${album.role}`),
+                          })}
+                        </span>
+                      </div>
+                    )}
                   </div>
                 </div>
 
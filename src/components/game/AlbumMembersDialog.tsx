@@ -0,0 +1,243 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { createPortal } from "react-dom";
+import { useTranslations } from "next-intl";
+import { motion } from "framer-motion";
+import { LogOut, UserPlus, X } from "lucide-react";
+import { membersApi } from "@/lib/api";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  INVITABLE_ROLES,
+  isInvitableRole,
+  type AlbumMember,
+  type AlbumRole,
+  type InvitableRole,
+} from "@/lib/albumRoles";
+
+interface AlbumMembersDialogProps {
+  albumId: string;
+  // The user's own role in the album
+  role: AlbumRole;
+  onClose: () => void;
+  // Called once the user has left the album
+  onLeft: () => void;
+}
+
+// Lists the members of an album. The owner invites people by email or
+// username, changes their roles and removes them; other members can leave.
+export function AlbumMembersDialog({
+  albumId,
+  role,
+  onClose,
+  onLeft,
+}: AlbumMembersDialogProps) {
+  const t = useTranslations("Members");
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [members, setMembers] = useState<AlbumMember[] | null>(null);
+  const [identifier, setIdentifier] = useState("");
+  const [inviteRole, setInviteRole] = useState<InvitableRole>("editor");
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState("");
+
+  const isOwner = role === "owner";
+
+  const loadMembers = useCallback(async () => {
+    try {
+      const data = await membersApi.list(albumId);
+      setMembers(data.members);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("errorLoad"));
+    }
+  }, [albumId, t]);
+
+  useEffect(() => {
+    loadMembers();
+  }, [loadMembers]);
+
+  // Runs a change and reloads the list, showing the API's error if it fails
+  const run = async (change: () => Promise<unknown>) => {
+    try {
+      setWorking(true);
+      setError("");
+      await change();
+      await loadMembers();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("errorGeneric"));
+      return false;
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = identifier.trim();
+    if (!name) return;
+    const invited = await run(() =>
+      membersApi.invite(albumId, name, inviteRole),
+    );
+    if (invited) setIdentifier("");
+  };
+
+  const handleLeave = async () => {
+    if (!userId) return;
+    try {
+      setWorking(true);
+      setError("");
+      await membersApi.remove(albumId, userId);
+      onLeft();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("errorGeneric"));
+      setWorking(false);
+    }
+  };
+
+  return createPortal(
+    <div
+      className='fixed inset-0 z-[110] flex items-center justify-center bg-rose-950/40 backdrop-blur-sm p-6'
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className='bg-white p-8 sm:p-10 rounded-[3rem] max-w-md w-full max-h-[80vh] flex flex-col shadow-2xl relative border border-rose-100'
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className='text-2xl font-black text-rose-900 mb-1 tracking-tighter text-center'>
+          {t("title")}
+        </h3>
+        <p className='text-rose-400 text-xs text-center font-medium mb-6'>
+          {t(`roleHint.${role}`)}
+        </p>
+
+        {isOwner && (
+          <form onSubmit={handleInvite} className='flex flex-col gap-2 mb-6'>
+            <input
+              value={identifier}
+              onChange={(e) => setIdentifier(e.target.value)}
+              placeholder={t("identifier")}
+              className='w-full px-4 py-3 rounded-2xl border-2 border-rose-50 focus:border-rose-200 outline-none text-sm text-rose-900 placeholder:text-rose-200'
+            />
+            <div className='flex gap-2'>
+              <select
+                value={inviteRole}
+                onChange={(e) =>
+                  isInvitableRole(e.target.value) &&
+                  setInviteRole(e.target.value)
+                }
+                className='flex-1 px-3 py-2.5 rounded-2xl border-2 border-rose-50 bg-white text-xs font-bold text-rose-500'
+              >
+                {INVITABLE_ROLES.map((option) => (
+                  <option key={option} value={option}>
+                    {t(`roles.${option}`)}
+                  </option>
+                ))}
+              </select>
+              <button
+                type='submit'
+                disabled={working || !identifier.trim()}
+                className='flex items-center justify-center gap-2 px-5 py-2.5 bg-rose-500 text-white font-black rounded-full uppercase tracking-widest text-[10px] disabled:opacity-50'
+              >
+                <UserPlus className='w-3.5 h-3.5' />
+                {t("invite")}
+              </button>
+            </div>
+          </form>
+        )}
+
+        <div className='flex-1 min-h-0 overflow-y-auto space-y-2 custom-scrollbar'>
+          {members === null && !error && (
+            <p className='text-rose-300 text-[10px] font-black uppercase tracking-widest text-center animate-pulse'>
+              {t("loading")}
+            </p>
+          )}
+          {members?.map((member) => (
+            <div
+              key={member.userId}
+              className='flex items-center gap-3 p-3 rounded-2xl border-2 border-rose-50'
+            >
+              <span className='flex-1 min-w-0'>
+                <span className='block truncate text-sm font-bold text-rose-900'>
+                  {member.username}
+                  {member.userId === userId && ` (${t("you")})`}
+                </span>
+                {!member.acceptedAt && (
+                  <span className='block text-[9px] font-black text-rose-300 uppercase tracking-widest'>
+                    {t("pending")}
+                  </span>
+                )}
+              </span>
+              {isOwner && isInvitableRole(member.role) ? (
+                <select
+                  value={member.role}
+                  disabled={working}
+                  onChange={(e) => {
+                    const next = e.target.value;
+                    if (isInvitableRole(next)) {
+                      run(() =>
+                        membersApi.update(albumId, member.userId, next),
+                      );
+                    }
+                  }}
+                  className='px-2 py-1.5 rounded-xl border-2 border-rose-50 bg-white text-[10px] font-bold text-rose-500'
+                >
+                  {INVITABLE_ROLES.map((option) => (
+                    <option key={option} value={option}>
+                      {t(`roles.${option}`)}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <span className='text-[10px] font-black text-rose-400 uppercase tracking-widest'>
+                  {t(`roles.${member.role}`)}
+                </span>
+              )}
+              {isOwner && member.role !== "owner" && (
+                <button
+                  onClick={() =>
+                    run(() => membersApi.remove(albumId, member.userId))
+                  }
+                  disabled={working}
+                  className='p-1.5 text-rose-200 hover:text-rose-500 transition-colors disabled:opacity-50'
+                  title={
+                    member.acceptedAt ? t("remove") : t("cancelInvitation")
+                  }
+                >
+                  <X className='w-4 h-4' />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {!isOwner && (
+          <button
+            onClick={handleLeave}
+            disabled={working || !userId}
+            className='mt-6 w-full flex items-center justify-center gap-2 py-4 bg-rose-50 text-rose-400 hover:text-rose-500 font-black rounded-full uppercase tracking-widest text-[10px] disabled:opacity-50'
+          >
+            <LogOut className='w-3.5 h-3.5' />
+            {t("leave")}
+          </button>
+        )}
+
+        {error && (
+          <p className='mt-4 text-xs font-bold text-red-500 text-center'>
+            {error}
+          </p>
+        )}
+
+        <button
+          onClick={onClose}
+          className='absolute top-8 right-8 text-rose-200 hover:text-rose-400 transition-colors'
+        >
+          <X className='w-6 h-6' />
+        </button>
+      </motion.div>
+    </div>,
+    document.body,
+  );
+}
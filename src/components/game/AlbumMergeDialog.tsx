@@ -0,0 +1,208 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { createPortal } from "react-dom";
+import { useTranslations } from "next-intl";
+import { motion } from "framer-motion";
+import { ArrowLeft, FolderInput, Merge, X } from "lucide-react";
+import { albumsApi } from "@/lib/api";
+import type { AlbumMergeChoice } from "@/lib/albums";
+import type { AlbumRole } from "@/lib/albumRoles";
+
+interface SourceAlbum {
+  id: string;
+  title: string;
+  coverPhotoUrl?: string | null;
+  role: AlbumRole;
+}
+
+interface AlbumMergeDialogProps {
+  // Album that is kept; it is not offered as a source
+  albumId: string;
+  albumTitle: string;
+  onClose: () => void;
+  onDone: () => void;
+}
+
+// Lets the user pick another album they own to merge into this one, and
+// whose cover and custom text the result keeps
+export function AlbumMergeDialog({
+  albumId,
+  albumTitle,
+  onClose,
+  onDone,
+}: AlbumMergeDialogProps) {
+  const t = useTranslations("AlbumDetail.merge");
+  const [albums, setAlbums] = useState<SourceAlbum[] | null>(null);
+  const [source, setSource] = useState<SourceAlbum | null>(null);
+  const [cover, setCover] = useState<AlbumMergeChoice>("target");
+  const [customText, setCustomText] = useState<AlbumMergeChoice>("target");
+  const [merging, setMerging] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    albumsApi
+      .listAll<SourceAlbum>()
+      .then((data) => {
+        if (!cancelled) {
+          setAlbums(
+            data.filter(
+              (album) => album.id !== albumId && album.role === "owner",
+            ),
+          );
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : t("errorLoad"));
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [albumId, t]);
+
+  const handleMerge = async () => {
+    if (!source) return;
+    try {
+      setMerging(true);
+      setError("");
+      await albumsApi.merge(albumId, source.id, { cover, customText });
+      onDone();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("errorGeneric"));
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  const renderChoice = (
+    label: string,
+    value: AlbumMergeChoice,
+    onChange: (value: AlbumMergeChoice) => void,
+  ) => (
+    <div>
+      <p className='text-[10px] font-black text-rose-300 uppercase tracking-widest mb-2'>
+        {label}
+      </p>
+      <div className='grid grid-cols-2 gap-2'>
+        {(["target", "source"] as const).map((choice) => (
+          <button
+            key={choice}
+            onClick={() => onChange(choice)}
+            className={`px-3 py-2.5 rounded-2xl border-2 text-xs font-bold truncate transition-all ${
+              value === choice
+                ? "border-rose-400 bg-rose-50 text-rose-600"
+                : "border-rose-50 text-rose-400 hover:border-rose-200"
+            }`}
+          >
+            {choice === "target" ? albumTitle : source?.title}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+
+  return createPortal(
+    <div
+      className='fixed inset-0 z-[110] flex items-center justify-center bg-rose-950/40 backdrop-blur-sm p-6'
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className='bg-white p-8 sm:p-10 rounded-[3rem] max-w-md w-full max-h-[80vh] flex flex-col shadow-2xl relative border border-rose-100'
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className='text-2xl font-black text-rose-900 mb-1 tracking-tighter text-center'>
+          {t("title")}
+        </h3>
+        <p className='text-rose-400 text-xs text-center font-medium mb-6'>
+          {source
+            ? t("summary", { source: source.title, target: albumTitle })
+            : t("pick", { target: albumTitle })}
+        </p>
+
+        {!source && (
+          <div className='flex-1 min-h-0 overflow-y-auto space-y-2 custom-scrollbar'>
+            {albums === null && !error && (
+              <p className='text-rose-300 text-[10px] font-black uppercase tracking-widest text-center animate-pulse'>
+                {t("loading")}
+              </p>
+            )}
+            {albums?.length === 0 && (
+              <p className='text-rose-300 text-[10px] font-black uppercase tracking-widest text-center'>
+                {t("noAlbums")}
+              </p>
+            )}
+            {albums?.map((album) => (
+              <button
+                key={album.id}
+                onClick={() => setSource(album)}
+                className='w-full flex items-center gap-3 p-3 rounded-2xl border-2 border-rose-50 hover:border-rose-200 hover:bg-rose-50/50 transition-all text-left'
+              >
+                {album.coverPhotoUrl ? (
+                  <img
+                    src={album.coverPhotoUrl}
+                    alt=''
+                    className='w-10 h-10 rounded-xl object-cover shrink-0'
+                  />
+                ) : (
+                  <div className='w-10 h-10 rounded-xl bg-rose-50 flex items-center justify-center shrink-0'>
+                    <FolderInput className='w-4 h-4 text-rose-300' />
+                  </div>
+                )}
+                <span className='flex-1 min-w-0 truncate text-sm font-bold text-rose-900'>
+                  {album.title}
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {source && (
+          <div className='space-y-5'>
+            {renderChoice(t("cover"), cover, setCover)}
+            {renderChoice(t("customText"), customText, setCustomText)}
+            <p className='text-rose-300 text-[11px] font-medium'>
+              {t("hint")}
+            </p>
+            <div className='flex flex-col gap-3'>
+              <button
+                onClick={handleMerge}
+                disabled={merging}
+                className='w-full flex items-center justify-center gap-2 py-4 bg-rose-500 text-white font-black rounded-full uppercase tracking-widest text-[10px] disabled:opacity-50'
+              >
+                <Merge className='w-3.5 h-3.5' />
+                {merging ? t("working") : t("confirm")}
+              </button>
+              <button
+                onClick={() => setSource(null)}
+                disabled={merging}
+                className='w-full flex items-center justify-center gap-2 py-4 bg-rose-50 text-rose-400 font-black rounded-full uppercase tracking-widest text-[10px]'
+              >
+                <ArrowLeft className='w-3.5 h-3.5' />
+                {t("back")}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <p className='mt-4 text-xs font-bold text-red-500 text-center'>
+            {error}
+          </p>
+        )}
+
+        <button
+          onClick={onClose}
+          className='absolute top-8 right-8 text-rose-200 hover:text-rose-400 transition-colors'
+        >
+          <X className='w-6 h-6' />
+        </button>
+      </motion.div>
+    </div>,
+    document.body,
+  );
+}
@@ -0,0 +1,260 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useTranslations } from "next-intl";
+import { Pencil, Send, Trash2 } from "lucide-react";
+import { feedbackApi } from "@/lib/api";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  MAX_COMMENT_LENGTH,
+  REACTION_EMOJIS,
+  type Comment,
+  type FeedbackTarget,
+  type ReactionEmoji,
+  type ReactionSummary,
+} from "@/lib/reactions";
+
+interface FeedbackThreadProps {
+  target: FeedbackTarget;
+  // The album owner may delete anyone's comments
+  canModerate: boolean;
+}
+
+// Reactions and comments under a photo or story. Members toggle emoji
+// reactions and write, edit and delete their own comments.
+export function FeedbackThread({
+  target: { type, id },
+  canModerate,
+}: FeedbackThreadProps) {
+  const t = useTranslations("Feedback");
+  // Rebuilt from its parts so a new object for the same photo does not
+  // reload the thread
+  const target = useMemo(() => ({ type, id }), [type, id]);
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [comments, setComments] = useState<Comment[] | null>(null);
+  const [reactions, setReactions] = useState<ReactionSummary[]>([]);
+  const [draft, setDraft] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState("");
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState("");
+
+  const loadThread = useCallback(async () => {
+    try {
+      const [commentData, reactionData] = await Promise.all([
+        feedbackApi.listComments(target),
+        feedbackApi.listReactions(target),
+      ]);
+      setComments(commentData.comments);
+      setReactions(reactionData.reactions);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("errorLoad"));
+    }
+  }, [target, t]);
+
+  useEffect(() => {
+    setComments(null);
+    setReactions([]);
+    setError("");
+    setEditingId(null);
+    loadThread();
+  }, [loadThread]);
+
+  // Runs a change, showing the API's error if it fails
+  const run = async (change: () => Promise<void>) => {
+    try {
+      setWorking(true);
+      setError("");
+      await change();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("errorGeneric"));
+      return false;
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const toggleReaction = (emoji: ReactionEmoji) => {
+    const reacted = reactions.some(
+      (summary) => summary.emoji === emoji && summary.reacted,
+    );
+    run(async () => {
+      const data = reacted
+        ? await feedbackApi.unreact(target, emoji)
+        : await feedbackApi.react(target, emoji);
+      setReactions(data.reactions);
+    });
+  };
+
+  const handleAdd = async (e: React.SyntheticEvent) => {
+    e.preventDefault();
+    const body = draft.trim();
+    if (!body) return;
+    const added = await run(async () => {
+      const comment = await feedbackApi.addComment(target, body);
+      setComments((prev) => [...(prev ?? []), comment]);
+    });
+    if (added) setDraft("");
+  };
+
+  const handleSave = async (commentId: string) => {
+    const body = editDraft.trim();
+    if (!body) return;
+    const saved = await run(async () => {
+      const comment = await feedbackApi.updateComment(commentId, body);
+      setComments((prev) =>
+        (prev ?? []).map((item) => (item.id === commentId ? comment : item)),
+      );
+    });
+    if (saved) setEditingId(null);
+  };
+
+  const handleDelete = (commentId: string) =>
+    run(async () => {
+      await feedbackApi.deleteComment(commentId);
+      setComments((prev) =>
+        (prev ?? []).filter((item) => item.id !== commentId),
+      );
+    });
+
+  return (
+    <div className='mt-4 sm:mt-6 pt-4 sm:pt-6 border-t border-rose-50'>
+      <div className='flex flex-wrap gap-1.5 mb-4'>
+        {REACTION_EMOJIS.map((emoji) => {
+          const summary = reactions.find((item) => item.emoji === emoji);
+          return (
+            <button
+              key={emoji}
+              onClick={() => toggleReaction(emoji)}
+              disabled={working}
+              title={summary?.names.join(", ")}
+              className={`flex items-center gap-1 px-2.5 py-1 rounded-full border-2 text-sm transition-all disabled:opacity-50 ${
+                summary?.reacted
+                  ? "bg-rose-50 border-rose-200"
+                  : "bg-white border-rose-50 hover:border-rose-100"
+              }`}
+            >
+              {emoji}
+              {summary && (
+                <span className='text-[10px] font-black text-rose-400'>
+                  {summary.count}
+                </span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className='space-y-2 mb-4'>
+        {comments === null && !error && (
+          <p className='text-rose-300 text-[10px] font-black uppercase tracking-widest animate-pulse'>
+            {t("loading")}
+          </p>
+        )}
+        {comments?.length === 0 && (
+          <p className='text-rose-300 text-xs font-medium'>{t("empty")}</p>
+        )}
+        {comments?.map((comment) => (
+          <div
+            key={comment.id}
+            className='group px-4 py-3 rounded-2xl bg-rose-50/50'
+          >
+            <div className='flex items-center gap-2 mb-1'>
+              <span className='text-xs font-black text-rose-900 truncate'>
+                {comment.username}
+              </span>
+              <span className='text-[9px] font-bold text-rose-300 uppercase tracking-widest'>
+                {new Date(comment.createdAt).toLocaleDateString()}
+                {comment.updatedAt !== comment.createdAt &&
+                  ` · ${t("edited")}`}
+              </span>
+              <span className='ml-auto flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity'>
+                {comment.userId === userId && (
+                  <button
+                    onClick={() => {
+                      setEditingId(comment.id);
+                      setEditDraft(comment.body);
+                    }}
+                    disabled={working}
+                    className='p-1 text-rose-300 hover:text-rose-500'
+                    title={t("edit")}
+                  >
+                    <Pencil className='w-3 h-3' />
+                  </button>
+                )}
+                {(comment.userId === userId || canModerate) && (
+                  <button
+                    onClick={() => handleDelete(comment.id)}
+                    disabled={working}
+                    className='p-1 text-rose-300 hover:text-rose-500'
+                    title={t("delete")}
+                  >
+                    <Trash2 className='w-3 h-3' />
+                  </button>
+                )}
+              </span>
+            </div>
+            {editingId === comment.id ? (
+              <div className='flex flex-col gap-2'>
+                <textarea
+                  value={editDraft}
+                  onChange={(e) => setEditDraft(e.target.value)}
+                  maxLength={MAX_COMMENT_LENGTH}
+                  rows={2}
+                  className='w-full px-3 py-2 rounded-xl border-2 border-rose-100 focus:border-rose-200 outline-none text-sm text-rose-900 resize-none'
+                />
+                <div className='flex justify-end gap-2'>
+                  <button
+                    onClick={() => setEditingId(null)}
+                    className='px-4 py-1.5 text-rose-400 font-black rounded-full uppercase tracking-widest text-[9px]'
+                  >
+                    {t("cancel")}
+                  </button>
+                  <button
+                    onClick={() => handleSave(comment.id)}
+                    disabled={working || !editDraft.trim()}
+                    className='px-4 py-1.5 bg-rose-500 text-white font-black rounded-full uppercase tracking-widest text-[9px] disabled:opacity-50'
+                  >
+                    {t("save")}
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <p className='text-sm text-rose-800 whitespace-pre-wrap break-words'>
+                {comment.body}
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <form onSubmit={handleAdd} className='flex items-end gap-2'>
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && !e.shiftKey) handleAdd(e);
+          }}
+          maxLength={MAX_COMMENT_LENGTH}
+          rows={1}
+          placeholder={t("placeholder")}
+          className='flex-1 px-4 py-2.5 rounded-2xl border-2 border-rose-50 focus:border-rose-200 outline-none text-sm text-rose-900 placeholder:text-rose-200 resize-none'
+        />
+        <button
+          type='submit'
+          disabled={working || !draft.trim()}
+          className='p-3 bg-rose-500 text-white rounded-full disabled:opacity-50'
+          title={t("send")}
+        >
+          <Send className='w-4 h-4' />
+        </button>
+      </form>
+
+      {error && (
+        <p className='mt-3 text-xs font-bold text-red-500'>{error}</p>
+      )}
+    </div>
+  );
+}
@@ -10,9 +10,12 @@ import { useTranslations } from "next-intl";
 import LanguageSwitcher from "../LanguageSwitcher";
 import { ArchivesView } from "./ArchivesView";
 import { AlbumList } from "./AlbumList";
+import { TrashView } from "./TrashView";
 import { RealTimeClock } from "./RealTimeClock";
 
 import { Link } from "@/i18n/routing";
+import { albumsApi } from "@/lib/api";
+import { hasAlbumRole, type AlbumRole } from "@/lib/albumRoles";
 
 type GameState =
   | "INTRO"
@@ -20,7 +23,8 @@ type GameState =
   | "ANALYSIS"
   | "RESULT"
   | "ALBUMS_LIST"
-  | "ARCHIVES";
+  | "ARCHIVES"
+  | "TRASH";
 
 const HeartIcon = ({ className }: { className?: string }) => (
   <svg
@@ -35,6 +39,7 @@ const HeartIcon = ({ className }: { className?: string }) => (
 interface Album {
   id: string;
   title: string;
+  role: AlbumRole;
   description?: string | null;
   location?: string | null;
 }
@@ -49,29 +54,28 @@ export default function GameUI() {
   useEffect(() => {
     async function initGameAlbum() {
       try {
-        const res = await fetch("/api/albums");
-        if (res.ok) {
-          const albums: Album[] = await res.json();
-          const missionAlbum = albums.find(
-            (a) => a.title === "Our Story" || a.title === "Mission Logs",
-          );
-
-          if (missionAlbum) {
-            setMissionAlbumId(missionAlbum.id);
-          } else {
-            const createRes = await fetch("/api/albums", {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                title: "Our Story",
-                description: "A collection of our precious moments.",
-                location: "Close to Heart",
-              }),
-            });
-            if (createRes.ok) {
-              const newAlbum = (await createRes.json()) as Album;
-              setMissionAlbumId(newAlbum.id);
-            }
+        const albums = await albumsApi.listAll<Album>();
+        const missionAlbum = albums.find(
+          (a) =>
+            (a.title === "Our Story" || a.title === "Mission Logs") &&
+            hasAlbumRole(a.role, "editor"),
+        );
+
+        if (missionAlbum) {
+          setMissionAlbumId(missionAlbum.id);
+        } else {
+          const createRes = await fetch("/api/albums", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              title: "Our Story",
+              description: "A collection of our precious moments.",
+              location: "Close to Heart",
+            }),
+          });
+          if (createRes.ok) {
+            const newAlbum = (await createRes.json()) as Album;
+            setMissionAlbumId(newAlbum.id);
           }
         }
       } catch (e) {
@@ -89,24 +93,9 @@ export default function GameUI() {
     setGameState("UPLOAD");
   };
 
-  const handleUploadComplete = async (file: File) => {
+  // UploadMission uploads the files itself through the upload queue
+  const handleUploadComplete = () => {
     setGameState("ANALYSIS");
-
-    if (missionAlbumId) {
-      try {
-        const formData = new FormData();
-        formData.append("file", file);
-        formData.append("albumId", missionAlbumId);
-        formData.append("caption", t("incomingTransmission"));
-
-        await fetch("/api/photos", {
-          method: "POST",
-          body: formData,
-        });
-      } catch (error) {
-        console.error("Upload failed", error);
-      }
-    }
   };
 
   const handleAnalysisComplete = () => {
@@ -211,6 +200,7 @@ export default function GameUI() {
 
             {gameState === "UPLOAD" && (
               <UploadMission
+                albumId={missionAlbumId}
                 onComplete={handleUploadComplete}
                 onBack={() => setGameState("ALBUMS_LIST")}
               />
@@ -242,6 +232,7 @@ export default function GameUI() {
               <AlbumList
                 onSelectAlbum={handleAlbumSelect}
                 onStartUpload={handleStartUpload}
+                onOpenTrash={() => setGameState("TRASH")}
               />
             )}
 
@@ -249,8 +240,13 @@ export default function GameUI() {
               <ArchivesView
                 albumId={selectedAlbumId}
                 onBack={() => setGameState("ALBUMS_LIST")}
+                onOpenAlbum={handleAlbumSelect}
               />
             )}
+
+            {gameState === "TRASH" && (
+              <TrashView onBack={() => setGameState("ALBUMS_LIST")} />
+            )}
           </AnimatePresence>
         </main>
       </div>
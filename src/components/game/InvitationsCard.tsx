@@ -0,0 +1,91 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useTranslations } from "next-intl";
+import { Check, MailOpen, X } from "lucide-react";
+import { invitationsApi } from "@/lib/api";
+import type { AlbumInvitation } from "@/lib/albumRoles";
+
+interface InvitationsCardProps {
+  // Called after an invitation is accepted, to show the album
+  onAccepted: () => void;
+}
+
+// Album invitations waiting for the user's answer, on the albums landing
+// page. Hidden when there are none.
+export function InvitationsCard({ onAccepted }: InvitationsCardProps) {
+  const t = useTranslations("Members");
+  const [invitations, setInvitations] = useState<AlbumInvitation[]>([]);
+  const [answering, setAnswering] = useState<string | null>(null);
+
+  useEffect(() => {
+    invitationsApi
+      .list()
+      .then((data) => setInvitations(data.invitations))
+      .catch((err) => console.error("Failed to load invitations:", err));
+  }, []);
+
+  if (invitations.length === 0) return null;
+
+  const answer = async (albumId: string, accept: boolean) => {
+    try {
+      setAnswering(albumId);
+      if (accept) {
+        await invitationsApi.accept(albumId);
+      } else {
+        await invitationsApi.decline(albumId);
+      }
+      setInvitations((prev) => prev.filter((item) => item.albumId !== albumId));
+      if (accept) onAccepted();
+    } catch (err) {
+      console.error("Failed to answer invitation:", err);
+    } finally {
+      setAnswering(null);
+    }
+  };
+
+  return (
+    <section className='glass-panel mb-8 sm:mb-12 p-5 sm:p-8 rounded-2xl sm:rounded-[2.5rem] border-rose-100/50'>
+      <h2 className='text-lg sm:text-2xl font-bold text-rose-600 flex items-center gap-2 sm:gap-3 mb-4 sm:mb-6'>
+        <MailOpen className='w-5 h-5 sm:w-6 sm:h-6 text-rose-500' />
+        {t("invitations")}
+      </h2>
+      <ul className='space-y-2'>
+        {invitations.map((invitation) => (
+          <li
+            key={invitation.albumId}
+            className='flex items-center gap-3 px-4 py-3 rounded-xl bg-white/50 border border-rose-100/50'
+          >
+            <span className='min-w-0 flex-1'>
+              <span className='block truncate text-sm font-bold text-rose-700'>
+                {invitation.albumTitle}
+              </span>
+              <span className='block truncate text-[10px] text-rose-300 font-bold uppercase tracking-widest'>
+                {t("invitedAs", {
+                  role: t(`roles.${invitation.role}`),
+                  name: invitation.invitedBy ?? "?",
+                })}
+              </span>
+            </span>
+            <button
+              onClick={() => answer(invitation.albumId, true)}
+              disabled={answering !== null}
+              className='shrink-0 flex items-center gap-1.5 px-4 py-2 bg-rose-500 hover:bg-rose-600 text-white rounded-full text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-50'
+            >
+              <Check className='w-3.5 h-3.5' />
+              {t("accept")}
+            </button>
+            <button
+              onClick={() => answer(invitation.albumId, false)}
+              disabled={answering !== null}
+              className='shrink-0 p-2 text-rose-300 hover:text-rose-500 rounded-full transition-colors disabled:opacity-50'
+              title={t("decline")}
+            >
+              <X className='w-4 h-4' />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
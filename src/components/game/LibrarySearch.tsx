@@ -0,0 +1,170 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useTranslations } from "next-intl";
+import { AnimatePresence, motion } from "framer-motion";
+import {
+  FileText,
+  FolderHeart,
+  Image as ImageIcon,
+  Search,
+  X,
+} from "lucide-react";
+import { useRouter } from "@/i18n/routing";
+import { searchApi } from "@/lib/api";
+import type { SearchResult } from "@/lib/search";
+
+// Wait this long after the last keystroke before searching
+const SEARCH_DELAY_MS = 300;
+
+const TYPE_ICONS = {
+  album: FolderHeart,
+  photo: ImageIcon,
+  story: FileText,
+};
+
+// Search box over the user's albums, photo captions and stories. Picking a
+// result opens its album, with the photo or story in view.
+export function LibrarySearch() {
+  const t = useTranslations("Search");
+  const router = useRouter();
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SearchResult[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const q = query.trim();
+    if (!q) {
+      setResults(null);
+      setError("");
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        setSearching(true);
+        const data = await searchApi.search(q);
+        if (!cancelled) {
+          setResults(data.results);
+          setError("");
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : t("error"));
+        }
+      } finally {
+        if (!cancelled) setSearching(false);
+      }
+    }, SEARCH_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, t]);
+
+  const openResult = (result: SearchResult) => {
+    const focus = result.type === "album" ? "" : `?${result.type}=${result.id}`;
+    router.push(`/albums/${result.albumId}${focus}`);
+  };
+
+  return (
+    <div className='relative w-full sm:w-72'>
+      <div className='flex items-center gap-2 px-4 py-2 sm:py-2.5 border border-rose-100 bg-white rounded-full focus-within:border-rose-300 transition-all'>
+        <Search className='w-3.5 h-3.5 sm:w-4 sm:h-4 text-rose-300 shrink-0' />
+        <input
+          type='search'
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => e.key === "Escape" && setQuery("")}
+          placeholder={t("placeholder")}
+          aria-label={t("placeholder")}
+          className='flex-1 min-w-0 bg-transparent text-xs sm:text-sm text-rose-900 placeholder:text-rose-300 outline-none'
+        />
+        {query && (
+          <button
+            onClick={() => setQuery("")}
+            className='text-rose-200 hover:text-rose-400 transition-colors'
+            title={t("clear")}
+          >
+            <X className='w-3.5 h-3.5' />
+          </button>
+        )}
+      </div>
+
+      <AnimatePresence>
+        {query.trim() && (results || error || searching) && (
+          <motion.div
+            initial={{ opacity: 0, y: -8 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -8 }}
+            className='absolute right-0 left-0 sm:left-auto sm:w-96 mt-2 max-h-[60vh] overflow-y-auto custom-scrollbar bg-white rounded-[1.5rem] shadow-2xl border border-rose-100 p-2 z-50'
+          >
+            {error && (
+              <p className='p-4 text-xs font-bold text-red-500 text-center'>
+                {error}
+              </p>
+            )}
+            {!error && searching && !results && (
+              <p className='p-4 text-rose-300 text-[10px] font-black uppercase tracking-widest text-center animate-pulse'>
+                {t("searching")}
+              </p>
+            )}
+            {!error && results?.length === 0 && (
+              <p className='p-4 text-rose-300 text-[10px] font-black uppercase tracking-widest text-center'>
+                {t("noResults")}
+              </p>
+            )}
+            {!error &&
+              results?.map((result) => {
+                const Icon = TYPE_ICONS[result.type];
+                return (
+                  <button
+                    key={`${result.type}-${result.id}`}
+                    onClick={() => openResult(result)}
+                    className='w-full flex items-center gap-3 p-3 rounded-2xl hover:bg-rose-50/70 transition-all text-left'
+                  >
+                    {result.thumbnailUrl ? (
+                      <img
+                        src={result.thumbnailUrl}
+                        alt=''
+                        className='w-10 h-10 rounded-xl object-cover shrink-0'
+                      />
+                    ) : (
+                      <div className='w-10 h-10 rounded-xl bg-rose-50 flex items-center justify-center shrink-0'>
+                        <Icon className='w-4 h-4 text-rose-300' />
+                      </div>
+                    )}
+                    <div className='flex-1 min-w-0'>
+                      <p className='flex items-center gap-1.5 text-[9px] font-black text-rose-300 uppercase tracking-widest'>
+                        <Icon className='w-3 h-3' />
+                        {t(`types.${result.type}`)}
+                      </p>
+                      <p className='text-sm font-bold text-rose-900 truncate'>
+                        {result.title || t("untitled")}
+                      </p>
+                      <p className='text-xs text-rose-400 line-clamp-2'>
+                        {result.snippet.map((part, index) =>
+                          part.highlight ? (
+                            <mark
+                              key={index}
+                              className='bg-rose-100 text-rose-600 rounded px-0.5'
+                            >
+                              {part.text}
+                            </mark>
+                          ) : (
+                            <span key={index}>{part.text}</span>
+                          ),
+                        )}
+                      </p>
+                    </div>
+                  </button>
+                );
+              })}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useTranslations } from "next-intl";
+import { BookOpen, History, Play, X } from "lucide-react";
+import { Link } from "@/i18n/routing";
+import { memoriesApi, type OnThisDay } from "@/lib/api";
+import { getPhotoUrl } from "@/lib/photoVariants";
+import type { Photo } from "@/app/[locale]/albums/[id]/gallery/components/types";
+import { ImmersiveView } from "@/app/[locale]/albums/[id]/gallery/components/ImmersiveView";
+import { getSlideDuration } from "@/app/[locale]/albums/[id]/gallery/components/MotionClip";
+
+type MemoryPhoto = Photo & { albumId: string };
+
+interface MemoryStory {
+  id: string;
+  albumId: string;
+  title: string;
+  content: string;
+}
+
+type Memories = OnThisDay<MemoryPhoto, MemoryStory>;
+
+// Thumbnails shown on the card; the rest play in the slideshow
+const PREVIEW_COUNT = 6;
+
+// "On this day" card of the albums landing page: photos and stories from
+// today's date in earlier years. Hidden when there are none.
+export function OnThisDayCard() {
+  const t = useTranslations("Memories");
+  const [memories, setMemories] = useState<Memories | null>(null);
+  const [showSlideshow, setShowSlideshow] = useState(false);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(true);
+
+  useEffect(() => {
+    // Memories are a nice-to-have; the album list shows without them
+    memoriesApi
+      .onThisDay<MemoryPhoto, MemoryStory>()
+      .then(setMemories)
+      .catch((err) => console.error("Failed to load memories:", err));
+  }, []);
+
+  const photos = useMemo(() => memories?.photos ?? [], [memories]);
+
+  useEffect(() => {
+    let timeout: NodeJS.Timeout;
+    if (isPlaying && showSlideshow && photos.length > 0) {
+      // Clips hold the slideshow until they have played
+      timeout = setTimeout(() => {
+        setCurrentIndex((prev) => (prev + 1) % photos.length);
+      }, getSlideDuration(photos[currentIndex]));
+    }
+    return () => clearTimeout(timeout);
+  }, [isPlaying, showSlideshow, photos, currentIndex]);
+
+  if (!memories || (photos.length === 0 && memories.stories.length === 0)) {
+    return null;
+  }
+
+  const openSlideshow = (index: number) => {
+    setCurrentIndex(index);
+    setIsPlaying(true);
+    setShowSlideshow(true);
+  };
+
+  // Years ago of the most recent memory, for the heading
+  const latest = Math.min(
+    ...[...photos, ...memories.stories].map(({ yearsAgo }) => yearsAgo),
+  );
+
+  return (
+    <>
+      <section className='glass-panel mb-8 sm:mb-12 p-5 sm:p-8 rounded-2xl sm:rounded-[2.5rem] border-rose-100/50'>
+        <div className='flex items-start justify-between gap-4 mb-4 sm:mb-6'>
+          <div className='min-w-0'>
+            <h2 className='text-lg sm:text-2xl font-bold text-rose-600 flex items-center gap-2 sm:gap-3'>
+              <History className='w-5 h-5 sm:w-6 sm:h-6 text-rose-500' />
+              {t("title")}
+            </h2>
+            <p className='mt-1 text-[10px] sm:text-xs text-rose-300 font-bold uppercase tracking-[0.2em]'>
+              {t("yearsAgo", { count: latest })}
+            </p>
+          </div>
+          {photos.length > 0 && (
+            <button
+              onClick={() => openSlideshow(0)}
+              className='shrink-0 flex items-center gap-2 px-4 sm:px-5 py-2 sm:py-2.5 bg-rose-500 hover:bg-rose-600 text-white rounded-full text-xs sm:text-sm font-bold shadow-sm transition-all touch-target'
+            >
+              <Play className='w-3.5 h-3.5 sm:w-4 sm:h-4 fill-white' />
+              {t("play")}
+            </button>
+          )}
+        </div>
+
+        {photos.length > 0 && (
+          <div className='grid grid-cols-3 sm:grid-cols-6 gap-2 sm:gap-3'>
+            {photos.slice(0, PREVIEW_COUNT).map((photo, index) => (
+              <button
+                key={photo.id}
+                onClick={() => openSlideshow(index)}
+                className='relative aspect-square rounded-xl sm:rounded-2xl overflow-hidden bg-rose-50 group'
+                title={photo.albumTitle}
+              >
+                <img
+                  src={getPhotoUrl(photo, "thumbnail")}
+                  alt={photo.altText || photo.caption || ""}
+                  loading='lazy'
+                  className='w-full h-full object-cover group-hover:scale-105 transition-transform duration-500'
+                />
+                <span className='absolute bottom-1.5 left-1.5 bg-white/90 backdrop-blur-md px-2 py-0.5 rounded-full text-[9px] font-black text-rose-500 uppercase tracking-tighter'>
+                  {t("yearsAgo", { count: photo.yearsAgo })}
+                </span>
+                {index === PREVIEW_COUNT - 1 &&
+                  photos.length > PREVIEW_COUNT && (
+                    <span className='absolute inset-0 bg-rose-950/40 flex items-center justify-center text-white text-lg font-black'>
+                      +{photos.length - PREVIEW_COUNT}
+                    </span>
+                  )}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {memories.stories.length > 0 && (
+          <ul className='mt-4 sm:mt-6 space-y-2'>
+            {memories.stories.map((story) => (
+              <li key={story.id}>
+                <Link
+                  href={`/albums/${story.albumId}?story=${story.id}`}
+                  className='flex items-center gap-3 px-4 py-3 rounded-xl bg-white/50 hover:bg-white border border-rose-100/50 transition-colors'
+                >
+                  <BookOpen className='w-4 h-4 shrink-0 text-rose-400' />
+                  <span className='min-w-0 flex-1'>
+                    <span className='block truncate text-sm font-bold text-rose-700'>
+                      {story.title}
+                    </span>
+                    <span className='block truncate text-[10px] text-rose-300 font-bold uppercase tracking-widest'>
+                      {story.albumTitle} ·{" "}
+                      {t("yearsAgo", { count: story.yearsAgo })}
+                    </span>
+                  </span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      {showSlideshow && (
+        <div className='fixed inset-0 z-[100]'>
+          <button
+            onClick={() => setShowSlideshow(false)}
+            className='absolute top-16 right-6 sm:top-20 sm:right-10 z-[110] p-3 rounded-full border border-rose-100/20 text-white/50 hover:bg-white/10 hover:text-white backdrop-blur-md transition-all flex items-center justify-center'
+            aria-label={t("close")}
+          >
+            <X className='w-5 h-5' />
+          </button>
+          <ImmersiveView
+            photos={photos}
+            currentIndex={currentIndex}
+            onChangeIndex={setCurrentIndex}
+            isPlaying={isPlaying}
+            onTogglePlay={() => setIsPlaying(!isPlaying)}
+            onClose={() => setShowSlideshow(false)}
+            isActive={showSlideshow}
+            initialText={t("title")}
+          />
+        </div>
+      )}
+    </>
+  );
+}
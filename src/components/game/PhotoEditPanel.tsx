@@ -0,0 +1,169 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { photosApi, type PhotoUpdate } from "@/lib/api";
+
+export interface EditablePhoto {
+  id: string;
+  caption?: string | null;
+  altText?: string | null;
+  takenAt?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+}
+
+interface PhotoEditPanelProps<T extends EditablePhoto> {
+  photo: T;
+  onSaved: (photo: T) => void;
+  onCancel: () => void;
+}
+
+// Value for a datetime-local input, in the browser's time zone
+function toLocalInputValue(date: string | null | undefined): string {
+  if (!date) return "";
+  const value = new Date(date);
+  if (Number.isNaN(value.getTime())) return "";
+  const local = new Date(value.getTime() - value.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+}
+
+function toCoordinate(value: string): number | null {
+  const number = Number.parseFloat(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+const inputClassName =
+  "w-full px-4 py-2.5 bg-rose-50/50 border-2 border-rose-100 rounded-xl text-sm text-rose-900 placeholder:text-rose-200 focus:outline-none focus:border-rose-300";
+const labelClassName =
+  "block text-[10px] font-black text-rose-300 uppercase tracking-widest mb-1.5";
+
+// Form for fixing a photo's caption, alt text, date and location
+export function PhotoEditPanel<T extends EditablePhoto>({
+  photo,
+  onSaved,
+  onCancel,
+}: PhotoEditPanelProps<T>) {
+  const t = useTranslations("AlbumDetail.edit");
+  const [caption, setCaption] = useState(photo.caption ?? "");
+  const [altText, setAltText] = useState(photo.altText ?? "");
+  const [takenAt, setTakenAt] = useState(toLocalInputValue(photo.takenAt));
+  const [latitude, setLatitude] = useState(photo.latitude?.toString() ?? "");
+  const [longitude, setLongitude] = useState(
+    photo.longitude?.toString() ?? "",
+  );
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    const lat = toCoordinate(latitude);
+    const lng = toCoordinate(longitude);
+    if ((lat === null) !== (lng === null)) {
+      setError(t("errorLocation"));
+      return;
+    }
+
+    const update: PhotoUpdate = {
+      caption,
+      altText,
+      takenAt: takenAt ? new Date(takenAt).toISOString() : null,
+      latitude: lat,
+      longitude: lng,
+    };
+
+    try {
+      setSaving(true);
+      const saved = (await photosApi.update(photo.id, update)) as T;
+      onSaved({ ...photo, ...saved });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("errorGeneric"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className='space-y-3'
+    >
+      <div>
+        <label className={labelClassName}>{t("caption")}</label>
+        <input
+          type='text'
+          value={caption}
+          onChange={(e) => setCaption(e.target.value)}
+          placeholder={t("captionPlaceholder")}
+          maxLength={500}
+          className={inputClassName}
+        />
+      </div>
+      <div>
+        <label className={labelClassName}>{t("altText")}</label>
+        <textarea
+          value={altText}
+          onChange={(e) => setAltText(e.target.value)}
+          placeholder={t("altTextPlaceholder")}
+          maxLength={500}
+          rows={2}
+          className={`${inputClassName} resize-none`}
+        />
+      </div>
+      <div className='grid grid-cols-1 sm:grid-cols-3 gap-3'>
+        <div>
+          <label className={labelClassName}>{t("takenAt")}</label>
+          <input
+            type='datetime-local'
+            value={takenAt}
+            onChange={(e) => setTakenAt(e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className={labelClassName}>{t("latitude")}</label>
+          <input
+            type='number'
+            step='any'
+            min={-90}
+            max={90}
+            value={latitude}
+            onChange={(e) => setLatitude(e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className={labelClassName}>{t("longitude")}</label>
+          <input
+            type='number'
+            step='any'
+            min={-180}
+            max={180}
+            value={longitude}
+            onChange={(e) => setLongitude(e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+      {error && <p className='text-xs font-bold text-red-500'>{error}</p>}
+      <div className='flex gap-3 pt-1'>
+        <button
+          type='button'
+          onClick={onCancel}
+          className='flex-1 py-3 bg-rose-50 text-rose-400 font-black rounded-full text-[10px] uppercase tracking-widest'
+        >
+          {t("cancel")}
+        </button>
+        <button
+          type='submit'
+          disabled={saving}
+          className='flex-1 py-3 bg-rose-500 text-white font-black rounded-full text-[10px] uppercase tracking-widest disabled:opacity-50'
+        >
+          {saving ? t("saving") : t("save")}
+        </button>
+      </div>
+    </form>
+  );
+}
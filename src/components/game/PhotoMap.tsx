@@ -0,0 +1,403 @@
+"use client";
+
+import { memo, useEffect, useMemo, useRef, useState } from "react";
+import { useTranslations } from "next-intl";
+import { AnimatePresence, motion } from "framer-motion";
+import { Maximize, Minus, Plus, Route, X } from "lucide-react";
+import {
+  clusterPoints,
+  fitView,
+  hasCoordinates,
+  loadBasemapPaths,
+  MAX_SCALE,
+  project,
+  toScreen,
+  WORLD_SIZE,
+  zoomAround,
+  type Cluster,
+  type MapView,
+  type Point,
+  type Size,
+} from "@/lib/geo";
+import { getPhotoUrl, type PhotoVariants } from "@/lib/photoVariants";
+
+export interface MapPhoto {
+  id: string;
+  albumId: string;
+  url: string;
+  thumbnailUrl?: string | null;
+  variants?: PhotoVariants | null;
+  caption?: string | null;
+  altText?: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  takenAt?: string | null;
+}
+
+interface PhotoMapProps {
+  // Sorted by capture date; the route follows this order
+  photos: MapPhoto[];
+  onOpenPhoto: (photo: MapPhoto) => void;
+}
+
+// Markers closer than this many pixels are merged into one
+const CLUSTER_RADIUS = 48;
+
+// Zoom step of the buttons and of a double click
+const ZOOM_STEP = 2;
+
+// A press that moves further than this is a drag, not a click
+const DRAG_THRESHOLD = 4;
+
+interface Placed {
+  photo: MapPhoto;
+  world: Point;
+}
+
+// Country outlines; they only change once, when loaded
+const Basemap = memo(function Basemap({ paths }: { paths: string[] }) {
+  return (
+    <g>
+      {paths.map((d, index) => (
+        <path
+          key={index}
+          d={d}
+          className='fill-white stroke-rose-200'
+          strokeWidth={1}
+          vectorEffect='non-scaling-stroke'
+        />
+      ))}
+    </g>
+  );
+});
+
+// Pan and zoom map of photos on the bundled basemap. Nearby photos are
+// clustered, and dated photos of each album are joined by their trip route.
+export function PhotoMap({ photos, onOpenPhoto }: PhotoMapProps) {
+  const t = useTranslations("Map");
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState<Size | null>(null);
+  const [paths, setPaths] = useState<string[]>([]);
+  // null until the user moves the map; the view then fits all photos
+  const [view, setView] = useState<MapView | null>(null);
+  const [showRoute, setShowRoute] = useState(true);
+  const [openCluster, setOpenCluster] = useState<Cluster<Placed> | null>(null);
+  const pointers = useRef(new Map<number, Point>());
+  const dragDistance = useRef(0);
+
+  useEffect(() => {
+    loadBasemapPaths()
+      .then(setPaths)
+      .catch((err) => console.error("Failed to load basemap", err));
+  }, []);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({
+        width: entry.contentRect.width,
+        height: entry.contentRect.height,
+      });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const placed = useMemo<Placed[]>(
+    () =>
+      photos.filter(hasCoordinates).map((photo) => ({
+        photo,
+        world: project(photo.latitude, photo.longitude),
+      })),
+    [photos],
+  );
+
+  const currentView = useMemo(
+    () =>
+      view ??
+      (size ? fitView(placed.map(({ world }) => world), size) : null),
+    [view, size, placed],
+  );
+
+  const clusters = useMemo(
+    () =>
+      currentView && size
+        ? clusterPoints(
+            placed,
+            ({ world }) => toScreen(world, currentView, size),
+            CLUSTER_RADIUS,
+          )
+        : [],
+    [placed, currentView, size],
+  );
+
+  // One line per album through its dated photos, in capture order
+  const routes = useMemo(() => {
+    if (!currentView || !size) return [];
+    const byAlbum = new Map<string, Point[]>();
+    for (const { photo, world } of placed) {
+      if (!photo.takenAt) continue;
+      const screen = toScreen(world, currentView, size);
+      byAlbum.set(photo.albumId, [
+        ...(byAlbum.get(photo.albumId) ?? []),
+        screen,
+      ]);
+    }
+    return Array.from(byAlbum.values())
+      .filter((points) => points.length > 1)
+      .map((points) =>
+        points.map(({ x, y }) => `${x.toFixed(1)},${y.toFixed(1)}`).join(" "),
+      );
+  }, [placed, currentView, size]);
+
+  // Keeps the center over the world so the map cannot be lost off screen
+  const moveTo = (next: MapView) => {
+    setView({
+      scale: next.scale,
+      center: {
+        x: Math.max(0, Math.min(WORLD_SIZE, next.center.x)),
+        y: Math.max(0, Math.min(WORLD_SIZE, next.center.y)),
+      },
+    });
+  };
+
+  const localPoint = (e: { clientX: number; clientY: number }): Point => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const zoomBy = (factor: number, anchor?: Point) => {
+    if (!currentView || !size) return;
+    const center = anchor ?? { x: size.width / 2, y: size.height / 2 };
+    moveTo(zoomAround(currentView, size, center, factor));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    pointers.current.set(e.pointerId, localPoint(e));
+    if (pointers.current.size === 1) dragDistance.current = 0;
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const previous = pointers.current.get(e.pointerId);
+    if (!previous || !currentView || !size) return;
+    const point = localPoint(e);
+
+    if (pointers.current.size === 2) {
+      // Pinch: zoom by the change in finger distance around their middle
+      const other = Array.from(pointers.current.entries()).find(
+        ([id]) => id !== e.pointerId,
+      )![1];
+      const before = Math.hypot(previous.x - other.x, previous.y - other.y);
+      const after = Math.hypot(point.x - other.x, point.y - other.y);
+      if (before > 0) {
+        moveTo(
+          zoomAround(
+            currentView,
+            size,
+            { x: (point.x + other.x) / 2, y: (point.y + other.y) / 2 },
+            after / before,
+          ),
+        );
+      }
+    } else {
+      const dx = point.x - previous.x;
+      const dy = point.y - previous.y;
+      dragDistance.current += Math.hypot(dx, dy);
+      // Captured only once dragging, so that presses on markers still click
+      if (dragDistance.current > DRAG_THRESHOLD) {
+        e.currentTarget.setPointerCapture(e.pointerId);
+      }
+      moveTo({
+        scale: currentView.scale,
+        center: {
+          x: currentView.center.x - dx / currentView.scale,
+          y: currentView.center.y - dy / currentView.scale,
+        },
+      });
+    }
+    pointers.current.set(e.pointerId, point);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    pointers.current.delete(e.pointerId);
+  };
+
+  const handleClusterClick = (cluster: Cluster<Placed>) => {
+    if (dragDistance.current > DRAG_THRESHOLD || !currentView || !size) return;
+    if (cluster.items.length === 1) {
+      onOpenPhoto(cluster.items[0].photo);
+      return;
+    }
+    // Zoom in on the cluster until it splits; photos taken at the same
+    // spot never do, so those are listed instead
+    const target = fitView(
+      cluster.items.map(({ world }) => world),
+      size,
+      CLUSTER_RADIUS * 2,
+    );
+    const splits = target.scale > currentView.scale * 1.01;
+    if (splits && currentView.scale < MAX_SCALE) {
+      moveTo(target);
+    } else {
+      setOpenCluster(cluster);
+    }
+  };
+
+  // Places the world square under the view
+  const origin =
+    currentView && size ? toScreen({ x: 0, y: 0 }, currentView, size) : null;
+  const transform =
+    origin && currentView
+      ? `translate(${origin.x} ${origin.y}) scale(${currentView.scale})`
+      : undefined;
+
+  return (
+    <div
+      ref={containerRef}
+      className='relative w-full h-full overflow-hidden bg-rose-50/60 rounded-[2rem] border border-rose-100 touch-none select-none cursor-grab active:cursor-grabbing'
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onPointerLeave={handlePointerUp}
+      onWheel={(e) => zoomBy(Math.exp(-e.deltaY * 0.002), localPoint(e))}
+      onDoubleClick={(e) => zoomBy(ZOOM_STEP, localPoint(e))}
+    >
+      {size && transform && (
+        <svg
+          width={size.width}
+          height={size.height}
+          className='absolute inset-0'
+        >
+          <defs>
+            <clipPath id='photo-map-world'>
+              <rect width={WORLD_SIZE} height={WORLD_SIZE} />
+            </clipPath>
+          </defs>
+          <g transform={transform} clipPath='url(#photo-map-world)'>
+            <Basemap paths={paths} />
+          </g>
+          {showRoute &&
+            routes.map((points, index) => (
+              <polyline
+                key={index}
+                points={points}
+                fill='none'
+                className='stroke-rose-400'
+                strokeWidth={2.5}
+                strokeDasharray='6 6'
+                strokeLinecap='round'
+                strokeLinejoin='round'
+              />
+            ))}
+        </svg>
+      )}
+
+      {clusters.map((cluster) => {
+        const cover = cluster.items[0].photo;
+        return (
+          <button
+            key={cover.id}
+            onClick={() => handleClusterClick(cluster)}
+            onDoubleClick={(e) => e.stopPropagation()}
+            className='absolute -translate-x-1/2 -translate-y-1/2 w-11 h-11 sm:w-14 sm:h-14 rounded-2xl border-[3px] border-white shadow-lg shadow-rose-300/40 bg-rose-100 hover:scale-110 hover:z-10 transition-transform'
+            style={{ left: cluster.x, top: cluster.y }}
+            title={cover.caption || undefined}
+          >
+            <img
+              src={getPhotoUrl(cover, "thumbnail")}
+              alt={cover.altText || cover.caption || ""}
+              draggable={false}
+              className='w-full h-full object-cover rounded-xl'
+            />
+            {cluster.items.length > 1 && (
+              <span className='absolute -top-2 -right-2 min-w-5 h-5 px-1 flex items-center justify-center bg-rose-500 text-white rounded-full text-[10px] font-black shadow'>
+                {cluster.items.length}
+              </span>
+            )}
+          </button>
+        );
+      })}
+
+      {/* Controls */}
+      <div
+        className='absolute top-3 right-3 flex flex-col gap-2'
+        onPointerDown={(e) => e.stopPropagation()}
+        onDoubleClick={(e) => e.stopPropagation()}
+      >
+        {[
+          { icon: Plus, label: t("zoomIn"), action: () => zoomBy(ZOOM_STEP) },
+          {
+            icon: Minus,
+            label: t("zoomOut"),
+            action: () => zoomBy(1 / ZOOM_STEP),
+          },
+          { icon: Maximize, label: t("fit"), action: () => setView(null) },
+        ].map(({ icon: Icon, label, action }) => (
+          <button
+            key={label}
+            onClick={action}
+            className='p-2 sm:p-2.5 bg-white text-rose-400 hover:text-rose-600 rounded-full shadow-md transition-colors'
+            title={label}
+          >
+            <Icon className='w-4 h-4' />
+          </button>
+        ))}
+        <button
+          onClick={() => setShowRoute(!showRoute)}
+          className={`p-2 sm:p-2.5 rounded-full shadow-md transition-colors ${
+            showRoute
+              ? "bg-rose-500 text-white"
+              : "bg-white text-rose-300 hover:text-rose-500"
+          }`}
+          title={showRoute ? t("hideRoute") : t("showRoute")}
+        >
+          <Route className='w-4 h-4' />
+        </button>
+      </div>
+
+      {/* Photos at one spot */}
+      <AnimatePresence>
+        {openCluster && (
+          <motion.div
+            initial={{ opacity: 0, y: 16 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 16 }}
+            className='absolute left-3 right-3 bottom-3 p-3 bg-white/95 backdrop-blur-md rounded-3xl shadow-2xl border border-rose-100'
+            onPointerDown={(e) => e.stopPropagation()}
+            onDoubleClick={(e) => e.stopPropagation()}
+          >
+            <div className='flex items-center justify-between mb-2 px-1'>
+              <span className='text-[10px] font-black text-rose-300 uppercase tracking-widest'>
+                {t("photoCount", { count: openCluster.items.length })}
+              </span>
+              <button
+                onClick={() => setOpenCluster(null)}
+                className='p-1 text-rose-300 hover:text-rose-500 rounded-full'
+                title={t("close")}
+              >
+                <X className='w-4 h-4' />
+              </button>
+            </div>
+            <div className='flex gap-2 overflow-x-auto custom-scrollbar pb-1'>
+              {openCluster.items.map(({ photo }) => (
+                <button
+                  key={photo.id}
+                  onClick={() => onOpenPhoto(photo)}
+                  className='shrink-0 w-20 h-20 rounded-2xl overflow-hidden bg-rose-50'
+                >
+                  <img
+                    src={getPhotoUrl(photo, "thumbnail")}
+                    alt={photo.altText || photo.caption || ""}
+                    className='w-full h-full object-cover'
+                  />
+                </button>
+              ))}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
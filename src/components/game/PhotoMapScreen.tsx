@@ -0,0 +1,126 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useTranslations } from "next-intl";
+import { ArrowLeft } from "lucide-react";
+import { useRouter } from "@/i18n/routing";
+import { useAuth } from "@/hooks/useAuth";
+import { albumsApi, fetchAllPages, photosApi } from "@/lib/api";
+import { MAX_PAGE_SIZE } from "@/lib/pagination";
+import ParticleBackground from "@/components/game/ParticleBackground";
+import { PhotoMap, type MapPhoto } from "@/components/game/PhotoMap";
+
+interface PhotoMapScreenProps {
+  // Map of one album; the whole library when left out
+  albumId?: string;
+}
+
+// Full-screen map page of the geotagged photos of an album or the library
+export function PhotoMapScreen({ albumId }: PhotoMapScreenProps) {
+  const router = useRouter();
+  const { user, loading: authLoading } = useAuth();
+  const t = useTranslations("Map");
+  const gameT = useTranslations("Game.UI");
+  const [photos, setPhotos] = useState<MapPhoto[] | null>(null);
+  const [albumTitle, setAlbumTitle] = useState("");
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.push("/login");
+    }
+  }, [user, authLoading, router]);
+
+  useEffect(() => {
+    if (!user) return;
+    const load = async () => {
+      try {
+        // The route is drawn in capture order
+        const [located, album] = await Promise.all([
+          fetchAllPages((cursor) =>
+            photosApi.list<MapPhoto>(
+              albumId,
+              { cursor, limit: MAX_PAGE_SIZE },
+              { hasLocation: "true", sort: "takenAt" },
+            ),
+          ),
+          albumId
+            ? (albumsApi.get(albumId) as Promise<{ title: string }>)
+            : null,
+        ]);
+        setPhotos(located);
+        if (album) setAlbumTitle(album.title);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : t("error"));
+      }
+    };
+    load();
+  }, [user, albumId, t]);
+
+  const goBack = () => router.push(albumId ? `/albums/${albumId}` : "/albums");
+
+  if (authLoading) {
+    return (
+      <div className='min-h-screen flex items-center justify-center bg-background text-rose-500 font-sans'>
+        <div className='flex flex-col items-center gap-4'>
+          <div className='w-12 h-12 border-4 border-rose-100 border-t-rose-500 rounded-full animate-spin' />
+          <div className='text-xs tracking-widest animate-pulse font-bold uppercase'>
+            {gameT("openingVault")}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) return null;
+
+  return (
+    <div className='h-screen bg-background text-foreground font-sans relative overflow-hidden flex flex-col'>
+      <ParticleBackground />
+
+      <header className='relative z-20 shrink-0 border-b border-rose-100/20 bg-white/20 dark:bg-black/20 backdrop-blur-md safe-area-inset-top'>
+        <div className='max-w-7xl mx-auto px-4 sm:px-6 h-16 sm:h-20 flex items-center gap-3 sm:gap-4'>
+          <button
+            onClick={goBack}
+            className='p-1.5 sm:p-2 hover:bg-rose-50 rounded-full transition-colors text-rose-400'
+            title={albumId ? t("backToAlbum") : t("backToAlbums")}
+          >
+            <ArrowLeft className='w-4 h-4 sm:w-5 sm:h-5' />
+          </button>
+          <div className='min-w-0'>
+            <h1 className='text-lg sm:text-2xl font-black tracking-tighter bg-clip-text text-transparent bg-gradient-to-r from-rose-400 to-purple-500 truncate'>
+              {albumId ? albumTitle || t("title") : t("title")}
+            </h1>
+            <p className='text-[9px] sm:text-[10px] text-rose-300 font-bold tracking-[0.2em] uppercase'>
+              {photos
+                ? t("photoCount", { count: photos.length })
+                : t("loading")}
+            </p>
+          </div>
+        </div>
+      </header>
+
+      <main className='relative z-10 flex-1 min-h-0 max-w-7xl w-full mx-auto p-3 sm:p-6 safe-area-inset-bottom'>
+        {error ? (
+          <div className='bg-rose-50 border border-rose-200 text-rose-500 px-6 py-4 rounded-2xl text-sm font-medium'>
+            {error}
+          </div>
+        ) : (
+          <div className='relative h-full'>
+            <PhotoMap
+              photos={photos ?? []}
+              onOpenPhoto={(photo) =>
+                router.push(`/albums/${photo.albumId}?photo=${photo.id}`)
+              }
+            />
+            {photos?.length === 0 && (
+              <p className='absolute inset-x-0 top-1/2 -translate-y-1/2 text-center text-rose-500/60 font-bold uppercase tracking-widest text-xs pointer-events-none'>
+                {t("empty")}
+              </p>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useTranslations } from "next-intl";
+import { Plus, Tag, X } from "lucide-react";
+import { photosApi, tagsApi, type TagSummary } from "@/lib/api";
+import type { PhotoTag } from "@/lib/tags";
+
+// Wait this long after the last keystroke before suggesting tags
+const SUGGEST_DELAY_MS = 200;
+const MAX_SUGGESTIONS = 8;
+
+interface PhotoTagEditorProps {
+  photoId: string;
+  tags: PhotoTag[];
+  onChange: (tags: PhotoTag[]) => void;
+  // Clicking a chip filters the album by that tag
+  onTagClick: (name: string) => void;
+  // Only shows the chips, for viewers of a shared album
+  readOnly?: boolean;
+}
+
+// Tag chips of a photo with an input that suggests the user's existing tags.
+// Every change is saved right away.
+export function PhotoTagEditor({
+  photoId,
+  tags,
+  onChange,
+  onTagClick,
+  readOnly = false,
+}: PhotoTagEditorProps) {
+  const t = useTranslations("AlbumDetail.tags");
+  const [input, setInput] = useState("");
+  const [suggestions, setSuggestions] = useState<TagSummary[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const q = input.trim();
+    if (!q) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      tagsApi
+        .list(q, MAX_SUGGESTIONS)
+        .then((data) => {
+          if (!cancelled) setSuggestions(data.tags);
+        })
+        .catch((err) => console.error("Failed to suggest tags", err));
+    }, SUGGEST_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [input]);
+
+  const save = async (names: string[]) => {
+    try {
+      setSaving(true);
+      setError("");
+      const data = await photosApi.setTags(photoId, names);
+      onChange(data.tags);
+      setInput("");
+      setSuggestions([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("errorGeneric"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const names = tags.map((tag) => tag.name);
+  const hasTag = (name: string) =>
+    names.some((other) => other.toLowerCase() === name.toLowerCase());
+
+  const addTag = (name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed || hasTag(trimmed)) {
+      setInput("");
+      return;
+    }
+    save([...names, trimmed]);
+  };
+
+  const removeTag = (name: string) => {
+    save(names.filter((other) => other !== name));
+  };
+
+  const visibleSuggestions = suggestions.filter((tag) => !hasTag(tag.name));
+
+  return (
+    <div className='mt-3 sm:mt-4'>
+      <div className='flex flex-wrap items-center gap-1.5'>
+        {tags.map((tag) => (
+          <span
+            key={tag.id}
+            className='flex items-center gap-1 pl-2.5 pr-1 py-1 bg-rose-50 text-rose-500 rounded-full text-[10px] font-bold'
+          >
+            <button
+              onClick={() => onTagClick(tag.name)}
+              className='flex items-center gap-1 hover:text-rose-700 transition-colors'
+              title={t("filterBy", { tag: tag.name })}
+            >
+              <Tag className='w-3 h-3' />
+              {tag.name}
+            </button>
+            {!readOnly && (
+              <button
+                onClick={() => removeTag(tag.name)}
+                disabled={saving}
+                className='p-0.5 text-rose-300 hover:text-rose-500 rounded-full transition-colors disabled:opacity-50'
+                title={t("remove", { tag: tag.name })}
+              >
+                <X className='w-3 h-3' />
+              </button>
+            )}
+          </span>
+        ))}
+        {!readOnly && (
+          <div className='relative'>
+            <div className='flex items-center gap-1 px-2.5 py-1 border border-dashed border-rose-200 rounded-full focus-within:border-rose-400 transition-all'>
+              <Plus className='w-3 h-3 text-rose-300' />
+              <input
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" || e.key === ",") {
+                    e.preventDefault();
+                    addTag(input);
+                  }
+                }}
+                disabled={saving}
+                placeholder={t("placeholder")}
+                aria-label={t("placeholder")}
+                className='w-24 bg-transparent text-[10px] font-bold text-rose-700 placeholder:text-rose-300 outline-none'
+              />
+            </div>
+            {visibleSuggestions.length > 0 && (
+              <div className='absolute left-0 bottom-full mb-1 min-w-40 bg-white rounded-2xl shadow-xl border border-rose-100 p-1 z-20'>
+                {visibleSuggestions.map((tag) => (
+                  <button
+                    key={tag.id}
+                    onClick={() => addTag(tag.name)}
+                    className='w-full flex items-center justify-between gap-3 px-3 py-1.5 rounded-xl hover:bg-rose-50 text-left text-xs font-bold text-rose-700'
+                  >
+                    <span className='truncate'>{tag.name}</span>
+                    <span className='text-[9px] text-rose-300'>
+                      {tag.photoCount}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+      {error && (
+        <p className='mt-2 text-xs font-bold text-red-500'>{error}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { createPortal } from "react-dom";
+import { useTranslations } from "next-intl";
+import { motion } from "framer-motion";
+import { FolderInput, X } from "lucide-react";
+import { albumsApi, photosApi } from "@/lib/api";
+import { hasAlbumRole, type AlbumRole } from "@/lib/albumRoles";
+
+export type PhotoTransferMode = "move" | "copy";
+
+interface TargetAlbum {
+  id: string;
+  title: string;
+  coverPhotoUrl?: string | null;
+  role: AlbumRole;
+}
+
+interface PhotoTransferDialogProps {
+  mode: PhotoTransferMode;
+  // Album the photos are in; it is not offered as a target
+  albumId: string;
+  photoIds: string[];
+  onClose: () => void;
+  onDone: (mode: PhotoTransferMode) => void;
+}
+
+// Lets the user pick another album they can edit to move or copy photos
+// into
+export function PhotoTransferDialog({
+  mode,
+  albumId,
+  photoIds,
+  onClose,
+  onDone,
+}: PhotoTransferDialogProps) {
+  const t = useTranslations("AlbumDetail.transfer");
+  const [albums, setAlbums] = useState<TargetAlbum[] | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    albumsApi
+      .listAll<TargetAlbum>()
+      .then((data) => {
+        if (!cancelled) {
+          setAlbums(
+            data.filter(
+              (album) =>
+                album.id !== albumId && hasAlbumRole(album.role, "editor"),
+            ),
+          );
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : t("errorLoad"));
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [albumId, t]);
+
+  const handlePick = async (target: TargetAlbum) => {
+    try {
+      setBusyId(target.id);
+      setError("");
+      if (mode === "move") {
+        await photosApi.move(photoIds, target.id);
+      } else {
+        await photosApi.copy(photoIds, target.id);
+      }
+      onDone(mode);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("errorGeneric"));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return createPortal(
+    <div
+      className='fixed inset-0 z-[110] flex items-center justify-center bg-rose-950/40 backdrop-blur-sm p-6'
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className='bg-white p-8 sm:p-10 rounded-[3rem] max-w-md w-full max-h-[80vh] flex flex-col shadow-2xl relative border border-rose-100'
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className='text-2xl font-black text-rose-900 mb-1 tracking-tighter text-center'>
+          {mode === "move" ? t("moveTitle") : t("copyTitle")}
+        </h3>
+        <p className='text-rose-400 text-xs text-center font-medium mb-6'>
+          {t("count", { count: photoIds.length })}
+        </p>
+
+        <div className='flex-1 min-h-0 overflow-y-auto space-y-2 custom-scrollbar'>
+          {albums === null && !error && (
+            <p className='text-rose-300 text-[10px] font-black uppercase tracking-widest text-center animate-pulse'>
+              {t("loading")}
+            </p>
+          )}
+          {albums?.length === 0 && (
+            <p className='text-rose-300 text-[10px] font-black uppercase tracking-widest text-center'>
+              {t("noAlbums")}
+            </p>
+          )}
+          {albums?.map((album) => (
+            <button
+              key={album.id}
+              onClick={() => handlePick(album)}
+              disabled={busyId !== null}
+              className='w-full flex items-center gap-3 p-3 rounded-2xl border-2 border-rose-50 hover:border-rose-200 hover:bg-rose-50/50 transition-all text-left disabled:opacity-50'
+            >
+              {album.coverPhotoUrl ? (
+                <img
+                  src={album.coverPhotoUrl}
+                  alt=''
+                  className='w-10 h-10 rounded-xl object-cover shrink-0'
+                />
+              ) : (
+                <div className='w-10 h-10 rounded-xl bg-rose-50 flex items-center justify-center shrink-0'>
+                  <FolderInput className='w-4 h-4 text-rose-300' />
+                </div>
+              )}
+              <span className='flex-1 min-w-0 truncate text-sm font-bold text-rose-900'>
+                {album.title}
+              </span>
+              {busyId === album.id && (
+                <span className='text-[9px] font-black uppercase tracking-widest text-rose-300'>
+                  {t("working")}
+                </span>
+              )}
+            </button>
+          ))}
+        </div>
+
+        {error && (
+          <p className='mt-4 text-xs font-bold text-red-500 text-center'>
+            {error}
+          </p>
+        )}
+
+        <button
+          onClick={onClose}
+          className='absolute top-8 right-8 text-rose-200 hover:text-rose-400 transition-colors'
+        >
+          <X className='w-6 h-6' />
+        </button>
+      </motion.div>
+    </div>,
+    document.body,
+  );
+}
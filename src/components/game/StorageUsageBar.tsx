@@ -0,0 +1,80 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useTranslations } from "next-intl";
+import { HardDrive } from "lucide-react";
+import { usageApi, type StorageUsage } from "@/lib/api";
+import { formatBytes } from "@/lib/utils";
+
+interface StorageUsageBarProps {
+  // Also show how much of the total this album takes up
+  albumId?: string;
+  // Usage is fetched again whenever this value changes
+  refreshKey?: unknown;
+}
+
+// Shows the account's storage usage against its quota
+export function StorageUsageBar({
+  albumId,
+  refreshKey,
+}: StorageUsageBarProps) {
+  const t = useTranslations("Albums.usage");
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    usageApi
+      .get(albumId)
+      .then((data) => {
+        if (!cancelled) setUsage(data);
+      })
+      .catch((error) => console.error("Failed to load storage usage", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [albumId, refreshKey]);
+
+  if (!usage) return null;
+
+  const { usedBytes, quotaBytes } = usage;
+  const ratio = quotaBytes ? Math.min(1, usedBytes / quotaBytes) : 0;
+  const album = albumId
+    ? usage.albums.find((entry) => entry.albumId === albumId)
+    : undefined;
+
+  return (
+    <div className='w-full max-w-xs mt-3 space-y-1.5'>
+      <div className='flex items-center justify-between gap-2 text-[10px] font-bold uppercase tracking-wider text-rose-300'>
+        <span className='flex items-center gap-1.5'>
+          <HardDrive className='w-3.5 h-3.5' />
+          {quotaBytes
+            ? t("usedOfQuota", {
+                used: formatBytes(usedBytes),
+                quota: formatBytes(quotaBytes),
+              })
+            : t("used", { used: formatBytes(usedBytes) })}
+        </span>
+        {album && (
+          <span>{t("album", { used: formatBytes(album.usedBytes) })}</span>
+        )}
+      </div>
+      {quotaBytes !== null && (
+        <div className='h-1.5 bg-rose-50 rounded-full overflow-hidden'>
+          <div
+            className={`h-full transition-[width] ${
+              ratio >= 0.9
+                ? "bg-red-500"
+                : "bg-gradient-to-r from-rose-400 to-rose-500"
+            }`}
+            style={{ width: `${Math.round(ratio * 100)}%` }}
+          />
+        </div>
+      )}
+      {quotaBytes !== null && ratio >= 0.9 && (
+        <p className='text-[10px] font-bold text-red-500'>
+          {ratio >= 1 ? t("full") : t("almostFull")}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useTranslations } from "next-intl";
+import { motion } from "framer-motion";
+import {
+  ArrowLeft,
+  FileText,
+  FolderHeart,
+  RotateCcw,
+  Sparkles,
+  Trash2,
+} from "lucide-react";
+import { trashApi, type TrashContents } from "@/lib/api";
+import { getPhotoUrl, type PhotoVariants } from "@/lib/photoVariants";
+import type { TrashItemType } from "@/lib/trash";
+
+interface TrashedAlbum {
+  id: string;
+  title: string;
+  coverPhotoUrl?: string | null;
+  deletedAt: string;
+}
+
+interface TrashedPhoto {
+  id: string;
+  url: string;
+  thumbnailUrl?: string | null;
+  variants?: PhotoVariants | null;
+  caption?: string | null;
+  altText?: string | null;
+  deletedAt: string;
+}
+
+interface TrashedStory {
+  id: string;
+  title: string;
+  content: string;
+  deletedAt: string;
+}
+
+type Trash = TrashContents<TrashedAlbum, TrashedPhoto, TrashedStory>;
+
+interface TrashViewProps {
+  onBack: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Whole days until a trashed item is purged
+function daysLeft(deletedAt: string, retentionDays: number): number {
+  const purgeAt = new Date(deletedAt).getTime() + retentionDays * DAY_MS;
+  return Math.max(0, Math.ceil((purgeAt - Date.now()) / DAY_MS));
+}
+
+// Deleted albums, photos and stories, with a way to bring them back
+export function TrashView({ onBack }: TrashViewProps) {
+  const t = useTranslations("Trash");
+  const [trash, setTrash] = useState<Trash | null>(null);
+  const [error, setError] = useState("");
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  useEffect(() => {
+    trashApi
+      .list<TrashedAlbum, TrashedPhoto, TrashedStory>()
+      .then(setTrash)
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : t("errorLoad"));
+      });
+  }, [t]);
+
+  const handleRestore = async (type: TrashItemType, id: string) => {
+    try {
+      setRestoringId(id);
+      setError("");
+      await trashApi.restore(type, id);
+      setTrash((prev) =>
+        prev && {
+          ...prev,
+          albums: prev.albums.filter((album) => album.id !== id),
+          photos: prev.photos.filter((photo) => photo.id !== id),
+          stories: prev.stories.filter((story) => story.id !== id),
+        },
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("errorRestore"));
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const renderDaysLeft = (deletedAt: string) =>
+    trash && t("daysLeft", { days: daysLeft(deletedAt, trash.retentionDays) });
+
+  const renderRestore = (type: TrashItemType, id: string) => (
+    <button
+      onClick={() => handleRestore(type, id)}
+      disabled={restoringId !== null}
+      className='flex items-center gap-1.5 px-3 py-2 bg-rose-50 text-rose-500 hover:bg-rose-100 rounded-full text-[9px] font-black uppercase tracking-widest whitespace-nowrap transition-all disabled:opacity-50'
+    >
+      <RotateCcw className='w-3 h-3' />
+      {restoringId === id ? t("restoring") : t("restore")}
+    </button>
+  );
+
+  const isEmpty =
+    trash &&
+    trash.albums.length === 0 &&
+    trash.photos.length === 0 &&
+    trash.stories.length === 0;
+
+  return (
+    <div className='w-full max-w-7xl mx-auto px-4 sm:px-6 h-full flex flex-col z-20'>
+      {/* Header */}
+      <div className='flex justify-between items-center mb-6 sm:mb-8 border-b border-rose-100/50 pb-4 sm:pb-6 shrink-0 gap-4'>
+        <div>
+          <h2 className='text-2xl sm:text-4xl font-black text-rose-500 tracking-tight mb-1'>
+            {t("title")}
+          </h2>
+          {trash && (
+            <p className='text-[10px] sm:text-xs text-rose-300 font-bold tracking-[0.1em] sm:tracking-[0.2em] uppercase'>
+              {t("subtitle", { days: trash.retentionDays })}
+            </p>
+          )}
+        </div>
+        <button
+          onClick={onBack}
+          className='flex items-center justify-center gap-2 px-3 sm:px-6 py-2 sm:py-2.5 bg-rose-500 text-white rounded-full hover:bg-rose-600 transition-all shadow-lg shadow-rose-200 font-bold group text-xs sm:text-sm touch-target'
+          title={t("back")}
+        >
+          <ArrowLeft className='w-4 h-4 group-hover:-translate-x-1 transition-transform' />
+          <span className='hidden sm:inline'>{t("back")}</span>
+        </button>
+      </div>
+
+      <div className='flex-1 overflow-y-auto pr-2 custom-scrollbar pb-20 space-y-10'>
+        {error && (
+          <div className='bg-rose-50 border border-rose-200 text-rose-500 px-6 py-4 rounded-2xl text-sm font-medium'>
+            {error}
+          </div>
+        )}
+
+        {!trash && !error && (
+          <div className='flex flex-col items-center justify-center h-60 gap-4'>
+            <Sparkles className='w-10 h-10 text-rose-400 animate-spin-slow' />
+            <p className='text-rose-300 text-[10px] font-black uppercase tracking-widest animate-pulse'>
+              {t("loading")}
+            </p>
+          </div>
+        )}
+
+        {isEmpty && (
+          <div className='flex flex-col items-center justify-center h-60 sm:h-80 border-2 border-dashed border-rose-100 rounded-2xl sm:rounded-[3rem] bg-white/40'>
+            <Trash2 className='w-12 h-12 sm:w-16 sm:h-16 text-rose-200 mb-3 sm:mb-4' />
+            <p className='text-rose-300 font-bold uppercase tracking-widest text-[9px] sm:text-[10px]'>
+              {t("empty")}
+            </p>
+          </div>
+        )}
+
+        {trash && trash.albums.length > 0 && (
+          <section>
+            <h3 className='text-[10px] font-black text-rose-300 uppercase tracking-widest mb-4'>
+              {t("albums")}
+            </h3>
+            <div className='grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4'>
+              {trash.albums.map((album) => (
+                <motion.div
+                  key={album.id}
+                  layout
+                  className='glass-panel flex items-center gap-4 p-4 rounded-[2rem] border-rose-100'
+                >
+                  {album.coverPhotoUrl ? (
+                    <img
+                      src={album.coverPhotoUrl}
+                      alt=''
+                      className='w-14 h-14 rounded-2xl object-cover shrink-0 grayscale'
+                    />
+                  ) : (
+                    <div className='w-14 h-14 rounded-2xl bg-rose-50 flex items-center justify-center shrink-0'>
+                      <FolderHeart className='w-5 h-5 text-rose-300' />
+                    </div>
+                  )}
+                  <div className='flex-1 min-w-0'>
+                    <p className='text-sm font-bold text-rose-900 truncate'>
+                      {album.title}
+                    </p>
+                    <p className='text-[9px] font-black text-rose-300 uppercase tracking-widest mt-1'>
+                      {renderDaysLeft(album.deletedAt)}
+                    </p>
+                  </div>
+                  {renderRestore("album", album.id)}
+                </motion.div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {trash && trash.photos.length > 0 && (
+          <section>
+            <h3 className='text-[10px] font-black text-rose-300 uppercase tracking-widest mb-4'>
+              {t("photos")}
+            </h3>
+            <div className='grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4'>
+              {trash.photos.map((photo) => (
+                <motion.div
+                  key={photo.id}
+                  layout
+                  className='glass-panel p-2 rounded-[1.5rem] border-rose-100'
+                >
+                  <img
+                    src={getPhotoUrl(photo, "thumbnail")}
+                    alt={photo.altText || photo.caption || ""}
+                    className='w-full aspect-square rounded-[1.1rem] object-cover grayscale'
+                  />
+                  <div className='flex items-center justify-between gap-2 mt-2 px-1'>
+                    <span className='text-[9px] font-black text-rose-300 uppercase tracking-widest truncate'>
+                      {renderDaysLeft(photo.deletedAt)}
+                    </span>
+                    {renderRestore("photo", photo.id)}
+                  </div>
+                </motion.div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {trash && trash.stories.length > 0 && (
+          <section>
+            <h3 className='text-[10px] font-black text-rose-300 uppercase tracking-widest mb-4'>
+              {t("stories")}
+            </h3>
+            <div className='grid grid-cols-1 sm:grid-cols-2 gap-4'>
+              {trash.stories.map((story) => (
+                <motion.div
+                  key={story.id}
+                  layout
+                  className='glass-panel p-6 rounded-[2rem] border-rose-100'
+                >
+                  <div className='flex justify-between items-start gap-3 mb-3'>
+                    <h4 className='flex items-center gap-2 text-lg font-black text-rose-900 tracking-tighter min-w-0'>
+                      <FileText className='w-4 h-4 text-rose-300 shrink-0' />
+                      <span className='truncate'>{story.title}</span>
+                    </h4>
+                    {renderRestore("story", story.id)}
+                  </div>
+                  <p className='text-rose-800/70 text-sm leading-relaxed font-medium italic line-clamp-3 mb-3'>
+                    &quot;{story.content}&quot;
+                  </p>
+                  <p className='text-[9px] font-black text-rose-300 uppercase tracking-widest'>
+                    {renderDaysLeft(story.deletedAt)}
+                  </p>
+                </motion.div>
+              ))}
+            </div>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
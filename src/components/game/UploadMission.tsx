@@ -5,19 +5,39 @@ import { motion, AnimatePresence } from "framer-motion";
 import { Heart, Sparkles } from "lucide-react";
 import { useTranslations } from "next-intl";
 import { Link } from "@/i18n/routing";
+import { UploadQueuePanel } from "@/components/game/UploadQueuePanel";
+import { useUploadQueue } from "@/hooks/useUploadQueue";
+import { MEDIA_INPUT_ACCEPT, looksLikeMediaFile } from "@/lib/media";
 
 interface UploadMissionProps {
-  onComplete: (file: File) => void;
+  // Album the files are uploaded into; without one nothing is uploaded
+  albumId: string | null;
+  onComplete: (files: File[]) => void;
   onBack: () => void;
 }
 
-export function UploadMission({ onComplete, onBack }: UploadMissionProps) {
+export function UploadMission({
+  albumId,
+  onComplete,
+  onBack,
+}: UploadMissionProps) {
   const t = useTranslations("Game.UI");
   const [isDragging, setIsDragging] = useState(false);
   const [scanning, setScanning] = useState(false);
-  const [progress, setProgress] = useState(0);
   const inputRef = useRef<HTMLInputElement>(null);
 
+  const uploads = useUploadQueue(albumId, {
+    onIdle: () => {
+      const uploaded = uploads.queue
+        .getSnapshot()
+        .items.filter((item) => item.status === "done")
+        .map((item) => item.file);
+      setTimeout(() => onComplete(uploaded), 500);
+    },
+  });
+  const { loaded, total } = uploads.snapshot;
+  const progress = total > 0 ? (loaded / total) * 100 : 0;
+
   const handleDragOver = (e: DragEvent) => {
     e.preventDefault();
     setIsDragging(true);
@@ -27,33 +47,30 @@ export function UploadMission({ onComplete, onBack }: UploadMissionProps) {
     setIsDragging(false);
   };
 
-  const processFile = (file: File) => {
-    if (!file.type.startsWith("image/")) return;
+  const processFiles = (fileList: FileList) => {
+    const files = Array.from(fileList).filter(looksLikeMediaFile);
+    if (files.length === 0) return;
+
+    if (!albumId) {
+      onComplete(files);
+      return;
+    }
 
     setScanning(true);
-    let p = 0;
-    const interval = setInterval(() => {
-      p += Math.random() * 5;
-      if (p >= 100) {
-        p = 100;
-        clearInterval(interval);
-        setTimeout(() => onComplete(file), 500);
-      }
-      setProgress(p);
-    }, 50);
+    uploads.add(files, { caption: t("incomingTransmission") });
   };
 
   const handleDrop = (e: DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
-    if (e.dataTransfer.files?.[0]) {
-      processFile(e.dataTransfer.files[0]);
+    if (e.dataTransfer.files?.length) {
+      processFiles(e.dataTransfer.files);
     }
   };
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files?.[0]) {
-      processFile(e.target.files[0]);
+    if (e.target.files?.length) {
+      processFiles(e.target.files);
     }
   };
 
@@ -90,7 +107,8 @@ export function UploadMission({ onComplete, onBack }: UploadMissionProps) {
               type='file'
               ref={inputRef}
               className='hidden'
-              accept='image/*'
+              accept={MEDIA_INPUT_ACCEPT}
+              multiple
               onChange={handleFileSelect}
             />
 
@@ -179,6 +197,10 @@ export function UploadMission({ onComplete, onBack }: UploadMissionProps) {
         )}
       </AnimatePresence>
 
+      {scanning && (
+        <UploadQueuePanel queue={uploads.queue} snapshot={uploads.snapshot} />
+      )}
+
       <motion.div
         initial={{ opacity: 0 }}
         animate={{ opacity: 1 }}
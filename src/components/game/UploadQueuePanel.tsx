@@ -0,0 +1,126 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { Pause, Play, RotateCcw, X } from "lucide-react";
+import type { UploadQueue, UploadQueueSnapshot } from "@/lib/uploadQueue";
+
+interface UploadQueuePanelProps {
+  queue: UploadQueue;
+  snapshot: UploadQueueSnapshot;
+}
+
+// Uploads that matched a photo already in the library are flagged by the API
+function isDuplicate(result: unknown) {
+  return (result as { duplicate?: boolean } | undefined)?.duplicate === true;
+}
+
+function percent(loaded: number, total: number) {
+  return total > 0 ? Math.min(100, Math.round((loaded / total) * 100)) : 0;
+}
+
+export function UploadQueuePanel({ queue, snapshot }: UploadQueuePanelProps) {
+  const t = useTranslations("AlbumDetail.queue");
+  const { items, paused, loaded, total, active } = snapshot;
+
+  if (items.length === 0) return null;
+
+  const done = items.filter((item) => item.status === "done").length;
+  const counted = items.filter((item) => item.status !== "cancelled").length;
+
+  return (
+    <div className='mt-4 p-4 bg-white/50 border border-rose-100 rounded-xl space-y-3'>
+      <div className='flex items-center justify-between gap-2'>
+        <span className='text-[10px] font-black uppercase tracking-widest text-rose-400'>
+          {t("progress", { done, total: counted })} · {percent(loaded, total)}%
+        </span>
+        <div className='flex items-center gap-1'>
+          {active &&
+            (paused ? (
+              <button
+                type='button'
+                onClick={() => queue.resume()}
+                title={t("resume")}
+                className='p-1.5 rounded-full text-rose-400 hover:bg-rose-50'
+              >
+                <Play className='w-3.5 h-3.5' />
+              </button>
+            ) : (
+              <button
+                type='button'
+                onClick={() => queue.pause()}
+                title={t("pause")}
+                className='p-1.5 rounded-full text-rose-400 hover:bg-rose-50'
+              >
+                <Pause className='w-3.5 h-3.5' />
+              </button>
+            ))}
+          {active ? (
+            <button
+              type='button'
+              onClick={() => queue.cancelAll()}
+              className='px-2 py-1 text-[10px] font-bold uppercase tracking-wider text-rose-300 hover:text-rose-500'
+            >
+              {t("cancelAll")}
+            </button>
+          ) : (
+            <button
+              type='button'
+              onClick={() => queue.clearFinished()}
+              className='px-2 py-1 text-[10px] font-bold uppercase tracking-wider text-rose-300 hover:text-rose-500'
+            >
+              {t("clear")}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className='h-1.5 bg-rose-50 rounded-full overflow-hidden'>
+        <div
+          className='h-full bg-gradient-to-r from-rose-400 to-rose-500 transition-[width]'
+          style={{ width: `${percent(loaded, total)}%` }}
+        />
+      </div>
+
+      <ul className='max-h-48 overflow-y-auto space-y-1.5 pr-1'>
+        {items.map((item) => (
+          <li key={item.id} className='flex items-center gap-2 text-xs'>
+            <span className='flex-1 truncate text-rose-500' title={item.error}>
+              {item.file.name}
+            </span>
+            <span
+              className={`shrink-0 text-[10px] font-bold uppercase tracking-wider ${
+                item.status === "error" ? "text-red-500" : "text-rose-300"
+              }`}
+            >
+              {item.status === "uploading"
+                ? `${percent(item.loaded, item.total)}%`
+                : isDuplicate(item.result)
+                  ? t("status.duplicate")
+                  : t(`status.${item.status}`)}
+            </span>
+            {item.status === "error" && (
+              <button
+                type='button'
+                onClick={() => queue.retry(item.id)}
+                title={t("retry")}
+                className='p-1 text-rose-300 hover:text-rose-500'
+              >
+                <RotateCcw className='w-3 h-3' />
+              </button>
+            )}
+            {item.status !== "done" && item.status !== "cancelled" && (
+              <button
+                type='button'
+                onClick={() => queue.cancel(item.id)}
+                title={t("cancel")}
+                className='p-1 text-rose-300 hover:text-rose-500'
+              >
+                <X className='w-3 h-3' />
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
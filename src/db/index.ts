@@ -3,6 +3,11 @@ import * as schema from "./schema";
 
 export type Database = ReturnType<typeof getDb>;
 
+// D1 caps the bound parameters of a query at 100, so lookups by a list of
+// ids are made in batches of this size, leaving room for the other
+// parameters of the query
+export const D1_BATCH_SIZE = 40;
+
 export function getDb(d1: D1Database) {
   return drizzle(d1, { schema });
 }
@@ -0,0 +1 @@
+ALTER TABLE `photos` ADD `variants` text;
\ No newline at end of file
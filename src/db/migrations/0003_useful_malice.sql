@@ -0,0 +1 @@
+ALTER TABLE `photos` ADD `exif` text;
\ No newline at end of file
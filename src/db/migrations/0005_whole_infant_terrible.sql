@@ -0,0 +1,4 @@
+ALTER TABLE `photos` ADD `storage_key` text;--> statement-breakpoint
+-- Backfill: keys are userId/albumId/photoId-filename and appear verbatim at
+-- the end of the public URL
+UPDATE `photos` SET `storage_key` = substr(`url`, instr(`url`, `user_id` || '/')) WHERE `storage_key` IS NULL AND instr(`url`, `user_id` || '/') > 0;
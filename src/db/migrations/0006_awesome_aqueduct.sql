@@ -0,0 +1 @@
+ALTER TABLE `photos` ADD `size_bytes` integer;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE `photos` ADD `media_type` text DEFAULT 'image' NOT NULL;--> statement-breakpoint
+ALTER TABLE `photos` ADD `motion_key` text;--> statement-breakpoint
+ALTER TABLE `photos` ADD `motion_url` text;--> statement-breakpoint
+ALTER TABLE `photos` ADD `duration` real;
\ No newline at end of file
@@ -0,0 +1 @@
+CREATE INDEX `photos_album_order_idx` ON `photos` (`album_id`,`order`);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `photos` ADD `alt_text` text;
\ No newline at end of file
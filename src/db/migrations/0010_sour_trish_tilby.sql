@@ -0,0 +1,3 @@
+ALTER TABLE `albums` ADD `deleted_at` integer;--> statement-breakpoint
+ALTER TABLE `photos` ADD `deleted_at` integer;--> statement-breakpoint
+ALTER TABLE `stories` ADD `deleted_at` integer;
\ No newline at end of file
@@ -0,0 +1,76 @@
+-- Full-text index over album, photo and story text, used by GET /api/search.
+-- The trigram tokenizer matches any substring of 3+ characters, so it works
+-- for Chinese (which has no spaces between words) as well as English.
+-- Triggers keep it in step with the tables; drizzle does not manage it.
+CREATE VIRTUAL TABLE `search_index` USING fts5(
+  kind UNINDEXED,
+  item_id UNINDEXED,
+  user_id UNINDEXED,
+  title,
+  body,
+  tokenize = 'trigram'
+);
+--> statement-breakpoint
+CREATE TRIGGER `albums_search_insert` AFTER INSERT ON `albums` BEGIN
+  INSERT INTO search_index (kind, item_id, user_id, title, body)
+  VALUES ('album', new.id, new.user_id, new.title,
+    trim(coalesce(new.description, '') || ' ' || coalesce(new.location, '')));
+END;
+--> statement-breakpoint
+CREATE TRIGGER `albums_search_update`
+AFTER UPDATE OF title, description, location ON `albums` BEGIN
+  DELETE FROM search_index WHERE kind = 'album' AND item_id = old.id;
+  INSERT INTO search_index (kind, item_id, user_id, title, body)
+  VALUES ('album', new.id, new.user_id, new.title,
+    trim(coalesce(new.description, '') || ' ' || coalesce(new.location, '')));
+END;
+--> statement-breakpoint
+CREATE TRIGGER `albums_search_delete` AFTER DELETE ON `albums` BEGIN
+  DELETE FROM search_index WHERE kind = 'album' AND item_id = old.id;
+END;
+--> statement-breakpoint
+CREATE TRIGGER `photos_search_insert` AFTER INSERT ON `photos`
+WHEN coalesce(new.caption, '') <> '' BEGIN
+  INSERT INTO search_index (kind, item_id, user_id, title, body)
+  VALUES ('photo', new.id, new.user_id, NULL, new.caption);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `photos_search_update` AFTER UPDATE OF caption ON `photos` BEGIN
+  DELETE FROM search_index WHERE kind = 'photo' AND item_id = old.id;
+  INSERT INTO search_index (kind, item_id, user_id, title, body)
+  SELECT 'photo', new.id, new.user_id, NULL, new.caption
+  WHERE coalesce(new.caption, '') <> '';
+END;
+--> statement-breakpoint
+CREATE TRIGGER `photos_search_delete` AFTER DELETE ON `photos` BEGIN
+  DELETE FROM search_index WHERE kind = 'photo' AND item_id = old.id;
+END;
+--> statement-breakpoint
+CREATE TRIGGER `stories_search_insert` AFTER INSERT ON `stories` BEGIN
+  INSERT INTO search_index (kind, item_id, user_id, title, body)
+  VALUES ('story', new.id, new.user_id, new.title, new.content);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `stories_search_update`
+AFTER UPDATE OF title, content ON `stories` BEGIN
+  DELETE FROM search_index WHERE kind = 'story' AND item_id = old.id;
+  INSERT INTO search_index (kind, item_id, user_id, title, body)
+  VALUES ('story', new.id, new.user_id, new.title, new.content);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `stories_search_delete` AFTER DELETE ON `stories` BEGIN
+  DELETE FROM search_index WHERE kind = 'story' AND item_id = old.id;
+END;
+--> statement-breakpoint
+INSERT INTO search_index (kind, item_id, user_id, title, body)
+SELECT 'album', id, user_id, title,
+  trim(coalesce(description, '') || ' ' || coalesce(location, ''))
+FROM albums;
+--> statement-breakpoint
+INSERT INTO search_index (kind, item_id, user_id, title, body)
+SELECT 'photo', id, user_id, NULL, caption
+FROM photos WHERE coalesce(caption, '') <> '';
+--> statement-breakpoint
+INSERT INTO search_index (kind, item_id, user_id, title, body)
+SELECT 'story', id, user_id, title, content
+FROM stories;
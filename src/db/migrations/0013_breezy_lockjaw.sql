@@ -0,0 +1,14 @@
+CREATE TABLE `milestones` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`album_id` text,
+	`title` text NOT NULL,
+	`date` text NOT NULL,
+	`recurrence` text DEFAULT 'none' NOT NULL,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	`updated_at` integer DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`album_id`) REFERENCES `albums`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `milestones_user_date_idx` ON `milestones` (`user_id`,`date`);
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE `album_members` (
+	`album_id` text NOT NULL,
+	`user_id` text NOT NULL,
+	`role` text NOT NULL,
+	`invited_by` text,
+	`accepted_at` integer,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	PRIMARY KEY(`album_id`, `user_id`),
+	FOREIGN KEY (`album_id`) REFERENCES `albums`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`invited_by`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `album_members_user_idx` ON `album_members` (`user_id`);--> statement-breakpoint
+-- Backfill: every existing album is owned by the user who created it
+INSERT INTO `album_members` (`album_id`, `user_id`, `role`, `accepted_at`) SELECT `id`, `user_id`, 'owner', unixepoch() FROM `albums`;
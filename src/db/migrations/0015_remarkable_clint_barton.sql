@@ -0,0 +1,35 @@
+CREATE TABLE `comments` (
+	`id` text PRIMARY KEY NOT NULL,
+	`photo_id` text,
+	`story_id` text,
+	`user_id` text NOT NULL,
+	`body` text NOT NULL,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	`updated_at` integer DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`photo_id`) REFERENCES `photos`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`story_id`) REFERENCES `stories`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `comments_photo_idx` ON `comments` (`photo_id`,`created_at`);--> statement-breakpoint
+CREATE INDEX `comments_story_idx` ON `comments` (`story_id`,`created_at`);--> statement-breakpoint
+CREATE TABLE `reactions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`photo_id` text,
+	`story_id` text,
+	`emoji` text NOT NULL,
+	`user_id` text,
+	`shared_link_id` text,
+	`guest_id` text,
+	`display_name` text,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`photo_id`) REFERENCES `photos`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`story_id`) REFERENCES `stories`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`shared_link_id`) REFERENCES `shared_links`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `reactions_photo_idx` ON `reactions` (`photo_id`);--> statement-breakpoint
+CREATE INDEX `reactions_story_idx` ON `reactions` (`story_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `reactions_reactor_idx` ON `reactions` ((case when "photo_id" is null then "story_id" else "photo_id" end),(case when "user_id" is null then "guest_id" else "user_id" end),`emoji`);--> statement-breakpoint
+ALTER TABLE `shared_links` ADD `allow_reactions` integer DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,94 @@
+-- Rebuilds search_index (migration 0011) without the uploader's user_id.
+-- Search now reaches results through the album of each item, so that every
+-- member of a shared album finds its contents.
+DROP TRIGGER `albums_search_insert`;
+--> statement-breakpoint
+DROP TRIGGER `albums_search_update`;
+--> statement-breakpoint
+DROP TRIGGER `albums_search_delete`;
+--> statement-breakpoint
+DROP TRIGGER `photos_search_insert`;
+--> statement-breakpoint
+DROP TRIGGER `photos_search_update`;
+--> statement-breakpoint
+DROP TRIGGER `photos_search_delete`;
+--> statement-breakpoint
+DROP TRIGGER `stories_search_insert`;
+--> statement-breakpoint
+DROP TRIGGER `stories_search_update`;
+--> statement-breakpoint
+DROP TRIGGER `stories_search_delete`;
+--> statement-breakpoint
+DROP TABLE `search_index`;
+--> statement-breakpoint
+CREATE VIRTUAL TABLE `search_index` USING fts5(
+  kind UNINDEXED,
+  item_id UNINDEXED,
+  title,
+  body,
+  tokenize = 'trigram'
+);
+--> statement-breakpoint
+CREATE TRIGGER `albums_search_insert` AFTER INSERT ON `albums` BEGIN
+  INSERT INTO search_index (kind, item_id, title, body)
+  VALUES ('album', new.id, new.title,
+    trim(coalesce(new.description, '') || ' ' || coalesce(new.location, '')));
+END;
+--> statement-breakpoint
+CREATE TRIGGER `albums_search_update`
+AFTER UPDATE OF title, description, location ON `albums` BEGIN
+  DELETE FROM search_index WHERE kind = 'album' AND item_id = old.id;
+  INSERT INTO search_index (kind, item_id, title, body)
+  VALUES ('album', new.id, new.title,
+    trim(coalesce(new.description, '') || ' ' || coalesce(new.location, '')));
+END;
+--> statement-breakpoint
+CREATE TRIGGER `albums_search_delete` AFTER DELETE ON `albums` BEGIN
+  DELETE FROM search_index WHERE kind = 'album' AND item_id = old.id;
+END;
+--> statement-breakpoint
+CREATE TRIGGER `photos_search_insert` AFTER INSERT ON `photos`
+WHEN coalesce(new.caption, '') <> '' BEGIN
+  INSERT INTO search_index (kind, item_id, title, body)
+  VALUES ('photo', new.id, NULL, new.caption);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `photos_search_update` AFTER UPDATE OF caption ON `photos` BEGIN
+  DELETE FROM search_index WHERE kind = 'photo' AND item_id = old.id;
+  INSERT INTO search_index (kind, item_id, title, body)
+  SELECT 'photo', new.id, NULL, new.caption
+  WHERE coalesce(new.caption, '') <> '';
+END;
+--> statement-breakpoint
+CREATE TRIGGER `photos_search_delete` AFTER DELETE ON `photos` BEGIN
+  DELETE FROM search_index WHERE kind = 'photo' AND item_id = old.id;
+END;
+--> statement-breakpoint
+CREATE TRIGGER `stories_search_insert` AFTER INSERT ON `stories` BEGIN
+  INSERT INTO search_index (kind, item_id, title, body)
+  VALUES ('story', new.id, new.title, new.content);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `stories_search_update`
+AFTER UPDATE OF title, content ON `stories` BEGIN
+  DELETE FROM search_index WHERE kind = 'story' AND item_id = old.id;
+  INSERT INTO search_index (kind, item_id, title, body)
+  VALUES ('story', new.id, new.title, new.content);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `stories_search_delete` AFTER DELETE ON `stories` BEGIN
+  DELETE FROM search_index WHERE kind = 'story' AND item_id = old.id;
+END;
+--> statement-breakpoint
+INSERT INTO search_index (kind, item_id, title, body)
+SELECT 'album', id, title,
+  trim(coalesce(description, '') || ' ' || coalesce(location, ''))
+FROM albums;
+--> statement-breakpoint
+INSERT INTO search_index (kind, item_id, title, body)
+SELECT 'photo', id, NULL, caption
+FROM photos WHERE coalesce(caption, '') <> '';
+--> statement-breakpoint
+INSERT INTO search_index (kind, item_id, title, body)
+SELECT 'story', id, title, content
+FROM stories;
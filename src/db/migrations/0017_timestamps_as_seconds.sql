@@ -0,0 +1,25 @@
+-- Rows inserted without an explicit time hold the CURRENT_TIMESTAMP text
+-- default, which reads back as an invalid date and sorts apart from the
+-- seconds stored by every other row. Converts them to seconds; inserts now
+-- always set these times.
+UPDATE `photos` SET `uploaded_at` = cast(strftime('%s', `uploaded_at`) AS integer) WHERE typeof(`uploaded_at`) = 'text';
+--> statement-breakpoint
+UPDATE `stories` SET `created_at` = cast(strftime('%s', `created_at`) AS integer) WHERE typeof(`created_at`) = 'text';
+--> statement-breakpoint
+UPDATE `stories` SET `updated_at` = cast(strftime('%s', `updated_at`) AS integer) WHERE typeof(`updated_at`) = 'text';
+--> statement-breakpoint
+UPDATE `album_members` SET `created_at` = cast(strftime('%s', `created_at`) AS integer) WHERE typeof(`created_at`) = 'text';
+--> statement-breakpoint
+UPDATE `tags` SET `created_at` = cast(strftime('%s', `created_at`) AS integer) WHERE typeof(`created_at`) = 'text';
+--> statement-breakpoint
+UPDATE `photo_tags` SET `created_at` = cast(strftime('%s', `created_at`) AS integer) WHERE typeof(`created_at`) = 'text';
+--> statement-breakpoint
+UPDATE `comments` SET `created_at` = cast(strftime('%s', `created_at`) AS integer) WHERE typeof(`created_at`) = 'text';
+--> statement-breakpoint
+UPDATE `comments` SET `updated_at` = cast(strftime('%s', `updated_at`) AS integer) WHERE typeof(`updated_at`) = 'text';
+--> statement-breakpoint
+UPDATE `reactions` SET `created_at` = cast(strftime('%s', `created_at`) AS integer) WHERE typeof(`created_at`) = 'text';
+--> statement-breakpoint
+UPDATE `milestones` SET `created_at` = cast(strftime('%s', `created_at`) AS integer) WHERE typeof(`created_at`) = 'text';
+--> statement-breakpoint
+UPDATE `milestones` SET `updated_at` = cast(strftime('%s', `updated_at`) AS integer) WHERE typeof(`updated_at`) = 'text';
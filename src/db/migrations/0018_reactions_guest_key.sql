@@ -0,0 +1,2 @@
+DROP INDEX `reactions_reactor_idx`;--> statement-breakpoint
+CREATE UNIQUE INDEX `reactions_reactor_idx` ON `reactions` ((case when "photo_id" is null then "story_id" else "photo_id" end),(case when "user_id" is null then 'guest:' || "shared_link_id" || ':' || "guest_id" else "user_id" end),`emoji`);
\ No newline at end of file
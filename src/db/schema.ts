@@ -1,5 +1,24 @@
 import { sql } from "drizzle-orm";
-import { text, integer, real, sqliteTable } from "drizzle-orm/sqlite-core";
+import {
+  text,
+  integer,
+  real,
+  sqliteTable,
+  index,
+  primaryKey,
+  uniqueIndex,
+} from "drizzle-orm/sqlite-core";
+import type { PhotoVariants } from "../lib/photoVariants";
+import type { ExifData } from "../lib/exif";
+import { MEDIA_TYPES } from "../lib/media";
+import { MILESTONE_RECURRENCES } from "../lib/milestones";
+import { ALBUM_ROLES } from "../lib/albumRoles";
+import { REACTION_EMOJIS } from "../lib/reactions";
+
+// Timestamp columns default to CURRENT_TIMESTAMP, which stores text that
+// drizzle reads back as an invalid date. Inserts of photos, stories,
+// members, tags, comments, reactions and milestones therefore set their
+// times themselves (migration 0017 converted the older text values).
 
 // Users table
 export const users = sqliteTable("users", {
@@ -28,6 +47,8 @@ export const albums = sqliteTable("albums", {
   endDate: integer("end_date", { mode: "timestamp" }),
   location: text("location"),
   customText: text("custom_text"),
+  // Set while the row is in the trash; purged after the retention period
+  deletedAt: integer("deleted_at", { mode: "timestamp" }),
   createdAt: integer("created_at", { mode: "timestamp" })
     .notNull()
     .default(sql`CURRENT_TIMESTAMP`),
@@ -36,26 +57,86 @@ export const albums = sqliteTable("albums", {
     .default(sql`CURRENT_TIMESTAMP`),
 });
 
+// Users an album is shared with, the owner included (see
+// lib/albumAccess.ts). Invited users become members once they accept.
+export const albumMembers = sqliteTable(
+  "album_members",
+  {
+    albumId: text("album_id")
+      .notNull()
+      .references(() => albums.id, { onDelete: "cascade" }),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    role: text("role", { enum: ALBUM_ROLES }).notNull(),
+    // Who sent the invitation; null for the owner
+    invitedBy: text("invited_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    // Null while the invitation is pending
+    acceptedAt: integer("accepted_at", { mode: "timestamp" }),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => [
+    primaryKey({ columns: [table.albumId, table.userId] }),
+    index("album_members_user_idx").on(table.userId),
+  ],
+);
+
 // Photos table
-export const photos = sqliteTable("photos", {
-  id: text("id").primaryKey(),
-  albumId: text("album_id")
-    .notNull()
-    .references(() => albums.id, { onDelete: "cascade" }),
-  userId: text("user_id")
-    .notNull()
-    .references(() => users.id, { onDelete: "cascade" }),
-  url: text("url").notNull(),
-  thumbnailUrl: text("thumbnail_url"),
-  caption: text("caption"),
-  latitude: real("latitude"),
-  longitude: real("longitude"),
-  takenAt: integer("taken_at", { mode: "timestamp" }),
-  uploadedAt: integer("uploaded_at", { mode: "timestamp" })
-    .notNull()
-    .default(sql`CURRENT_TIMESTAMP`),
-  order: integer("order").default(0),
-});
+export const photos = sqliteTable(
+  "photos",
+  {
+    id: text("id").primaryKey(),
+    albumId: text("album_id")
+      .notNull()
+      .references(() => albums.id, { onDelete: "cascade" }),
+    // Who uploaded the photo, which may be any editor of the album
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    url: text("url").notNull(),
+    // Storage key of the original. Linked duplicates share their key.
+    storageKey: text("storage_key"),
+    thumbnailUrl: text("thumbnail_url"),
+    // Storage keys and URLs of the generated thumbnail/medium/full derivatives
+    variants: text("variants", { mode: "json" }).$type<PhotoVariants>(),
+    caption: text("caption"),
+    // Description for screen readers; the caption is used when empty
+    altText: text("alt_text"),
+    latitude: real("latitude"),
+    longitude: real("longitude"),
+    takenAt: integer("taken_at", { mode: "timestamp" }),
+    // Metadata read from the original file (capture date, GPS, camera...)
+    exif: text("exif", { mode: "json" }).$type<ExifData>(),
+    // SHA-256 (hex) of the original file, used to detect duplicate uploads
+    contentHash: text("content_hash"),
+    // Bytes stored for the original and its derivatives. Linked duplicates
+    // repeat the value of the photo they share files with.
+    sizeBytes: integer("size_bytes"),
+    // "video" rows keep a poster frame in url and the clip in motion_*;
+    // "live" rows link a Live Photo's still with its motion clip
+    mediaType: text("media_type", { enum: MEDIA_TYPES })
+      .notNull()
+      .default("image"),
+    motionKey: text("motion_key"),
+    motionUrl: text("motion_url"),
+    // Clip length in seconds, as reported by the uploading browser
+    duration: real("duration"),
+    uploadedAt: integer("uploaded_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+    order: integer("order").default(0),
+    // Set while the row is in the trash; purged after the retention period
+    deletedAt: integer("deleted_at", { mode: "timestamp" }),
+  },
+  (table) => [
+    index("photos_user_content_hash_idx").on(table.userId, table.contentHash),
+    index("photos_album_order_idx").on(table.albumId, table.order),
+  ],
+);
 
 // Stories table
 export const stories = sqliteTable("stories", {
@@ -68,6 +149,8 @@ export const stories = sqliteTable("stories", {
     .references(() => users.id, { onDelete: "cascade" }),
   title: text("title").notNull(),
   content: text("content").notNull(),
+  // Set while the row is in the trash; purged after the retention period
+  deletedAt: integer("deleted_at", { mode: "timestamp" }),
   createdAt: integer("created_at", { mode: "timestamp" })
     .notNull()
     .default(sql`CURRENT_TIMESTAMP`),
@@ -76,6 +159,148 @@ export const stories = sqliteTable("stories", {
     .default(sql`CURRENT_TIMESTAMP`),
 });
 
+// Labels the user puts on photos: places, occasions, people...
+export const tags = sqliteTable(
+  "tags",
+  {
+    id: text("id").primaryKey(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => [
+    // Names are unique per user regardless of case
+    uniqueIndex("tags_user_name_idx").on(
+      table.userId,
+      sql`lower(${table.name})`,
+    ),
+  ],
+);
+
+// Tags on photos
+export const photoTags = sqliteTable(
+  "photo_tags",
+  {
+    photoId: text("photo_id")
+      .notNull()
+      .references(() => photos.id, { onDelete: "cascade" }),
+    tagId: text("tag_id")
+      .notNull()
+      .references(() => tags.id, { onDelete: "cascade" }),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => [
+    primaryKey({ columns: [table.photoId, table.tagId] }),
+    index("photo_tags_tag_idx").on(table.tagId),
+  ],
+);
+
+// Comments of album members on a photo or a story; exactly one of photoId
+// and storyId is set
+export const comments = sqliteTable(
+  "comments",
+  {
+    id: text("id").primaryKey(),
+    photoId: text("photo_id").references(() => photos.id, {
+      onDelete: "cascade",
+    }),
+    storyId: text("story_id").references(() => stories.id, {
+      onDelete: "cascade",
+    }),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    body: text("body").notNull(),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+    updatedAt: integer("updated_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => [
+    index("comments_photo_idx").on(table.photoId, table.createdAt),
+    index("comments_story_idx").on(table.storyId, table.createdAt),
+  ],
+);
+
+// Emoji reactions on a photo or a story (exactly one of photoId and storyId
+// is set), by an album member or by a visitor of a share link
+export const reactions = sqliteTable(
+  "reactions",
+  {
+    id: text("id").primaryKey(),
+    photoId: text("photo_id").references(() => photos.id, {
+      onDelete: "cascade",
+    }),
+    storyId: text("story_id").references(() => stories.id, {
+      onDelete: "cascade",
+    }),
+    emoji: text("emoji", { enum: REACTION_EMOJIS }).notNull(),
+    // Set for members
+    userId: text("user_id").references(() => users.id, {
+      onDelete: "cascade",
+    }),
+    // Set for visitors: the link they came through, a random id their
+    // browser keeps so they can take a reaction back, and their name
+    sharedLinkId: text("shared_link_id").references(() => sharedLinks.id, {
+      onDelete: "cascade",
+    }),
+    guestId: text("guest_id"),
+    displayName: text("display_name"),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => [
+    index("reactions_photo_idx").on(table.photoId),
+    index("reactions_story_idx").on(table.storyId),
+    // One reaction per emoji per member or visitor on each photo or story.
+    // Written with case since drizzle-kit splits expressions at commas.
+    // Visitors are keyed by their link and prefixed, so a guest id chosen
+    // to match a member's user id cannot take that member's place.
+    uniqueIndex("reactions_reactor_idx").on(
+      sql`(case when ${table.photoId} is null then ${table.storyId} else ${table.photoId} end)`,
+      sql`(case when ${table.userId} is null then 'guest:' || ${table.sharedLinkId} || ':' || ${table.guestId} else ${table.userId} end)`,
+      table.emoji,
+    ),
+  ],
+);
+
+// Significant dates of the couple (see lib/milestones.ts)
+export const milestones = sqliteTable(
+  "milestones",
+  {
+    id: text("id").primaryKey(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    // Album of the occasion, if any
+    albumId: text("album_id").references(() => albums.id, {
+      onDelete: "set null",
+    }),
+    title: text("title").notNull(),
+    // Calendar date as YYYY-MM-DD; milestones have no time of day or zone
+    date: text("date").notNull(),
+    recurrence: text("recurrence", { enum: MILESTONE_RECURRENCES })
+      .notNull()
+      .default("none"),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+    updatedAt: integer("updated_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => [index("milestones_user_date_idx").on(table.userId, table.date)],
+);
+
 // Shared links table
 export const sharedLinks = sqliteTable("shared_links", {
   id: text("id").primaryKey(),
@@ -87,6 +312,10 @@ export const sharedLinks = sqliteTable("shared_links", {
     .references(() => users.id, { onDelete: "cascade" }),
   token: text("token").notNull().unique(),
   expiresAt: integer("expires_at", { mode: "timestamp" }),
+  // Whether visitors may react to the album's photos and stories
+  allowReactions: integer("allow_reactions", { mode: "boolean" })
+    .notNull()
+    .default(false),
   createdAt: integer("created_at", { mode: "timestamp" })
     .notNull()
     .default(sql`CURRENT_TIMESTAMP`),
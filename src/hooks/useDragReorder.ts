@@ -0,0 +1,179 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { MouseEvent, PointerEvent as ReactPointerEvent } from "react";
+
+// Touch drags start after a long press so a swipe still scrolls the page
+const LONG_PRESS_MS = 350;
+// Mouse drags start once the pointer moved this far (px); a shorter move
+// is still a click
+const DRAG_THRESHOLD = 6;
+
+interface Gesture {
+  id: string;
+  pointerId: number;
+  pointerType: string;
+  x: number;
+  y: number;
+  dragging: boolean;
+  timer?: ReturnType<typeof setTimeout>;
+  // Item order when the gesture started, as ids
+  ids: string[];
+}
+
+// Drag-and-drop reordering for grids and lists, for mouse and touch.
+// Items are found under the pointer through their `data-reorder-id`
+// attribute, so any layout works. While dragging, `items` is the preview
+// order; `onReorder` receives the final order when the item is dropped.
+export function useDragReorder<T>(
+  items: T[],
+  getId: (item: T) => string,
+  onReorder?: (items: T[]) => void,
+) {
+  const [preview, setPreview] = useState<string[] | null>(null);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const gesture = useRef<Gesture | null>(null);
+  const previewRef = useRef<string[] | null>(null);
+  const stopRef = useRef<(() => void) | null>(null);
+  const suppressClick = useRef(false);
+
+  // Drop listeners of a gesture still running when the grid unmounts
+  useEffect(() => () => stopRef.current?.(), []);
+
+  const arrange = (ids: string[], list: T[]) => {
+    const byId = new Map(list.map((item) => [getId(item), item]));
+    return ids.flatMap((id) => {
+      const item = byId.get(id);
+      return item ? [item] : [];
+    });
+  };
+
+  const updatePreview = (ids: string[] | null) => {
+    previewRef.current = ids;
+    setPreview(ids);
+  };
+
+  const startDrag = () => {
+    const current = gesture.current;
+    if (!current) return;
+    current.dragging = true;
+    setDraggingId(current.id);
+    updatePreview(current.ids);
+  };
+
+  const onPointerDown = (id: string, event: ReactPointerEvent) => {
+    if (!onReorder || event.button !== 0 || gesture.current) return;
+
+    const snapshot = items;
+    const current: Gesture = {
+      id,
+      pointerId: event.pointerId,
+      pointerType: event.pointerType,
+      x: event.clientX,
+      y: event.clientY,
+      dragging: false,
+      ids: snapshot.map(getId),
+    };
+    if (event.pointerType === "touch") {
+      current.timer = setTimeout(startDrag, LONG_PRESS_MS);
+    }
+    gesture.current = current;
+
+    const onMove = (e: PointerEvent) => {
+      if (e.pointerId !== current.pointerId) return;
+
+      if (!current.dragging) {
+        const distance = Math.hypot(
+          e.clientX - current.x,
+          e.clientY - current.y,
+        );
+        if (distance < DRAG_THRESHOLD) return;
+        if (current.pointerType === "touch") {
+          // Moved before the long press fired: the user is scrolling
+          stop();
+        } else {
+          startDrag();
+        }
+        return;
+      }
+
+      const over = document
+        .elementFromPoint(e.clientX, e.clientY)
+        ?.closest<HTMLElement>("[data-reorder-id]")?.dataset.reorderId;
+      const ids = previewRef.current;
+      if (!over || !ids || over === current.id) return;
+
+      const next = ids.filter((itemId) => itemId !== current.id);
+      next.splice(ids.indexOf(over), 0, current.id);
+      updatePreview(next);
+    };
+
+    const onUp = (e: PointerEvent) => {
+      if (e.pointerId !== current.pointerId) return;
+      const ids = previewRef.current;
+      const dragged = current.dragging;
+      stop();
+      if (!dragged || !ids) return;
+
+      // The click that follows the drop must not open the item
+      suppressClick.current = true;
+      setTimeout(() => {
+        suppressClick.current = false;
+      }, 0);
+
+      if (ids.every((itemId, index) => itemId === current.ids[index])) return;
+      onReorder(arrange(ids, snapshot));
+    };
+
+    const onCancel = (e: PointerEvent) => {
+      if (e.pointerId === current.pointerId) stop();
+    };
+
+    // Keeps the page from scrolling under a touch drag
+    const onTouchMove = (e: TouchEvent) => {
+      if (current.dragging) e.preventDefault();
+    };
+
+    const stop = () => {
+      clearTimeout(current.timer);
+      window.removeEventListener("pointermove", onMove);
+      window.removeEventListener("pointerup", onUp);
+      window.removeEventListener("pointercancel", onCancel);
+      window.removeEventListener("touchmove", onTouchMove);
+      gesture.current = null;
+      stopRef.current = null;
+      setDraggingId(null);
+      updatePreview(null);
+    };
+
+    window.addEventListener("pointermove", onMove);
+    window.addEventListener("pointerup", onUp);
+    window.addEventListener("pointercancel", onCancel);
+    window.addEventListener("touchmove", onTouchMove, { passive: false });
+    stopRef.current = stop;
+  };
+
+  const ordered = preview ? arrange(preview, items) : items;
+
+  // Props for each draggable element
+  const getItemProps = (id: string) => ({
+    "data-reorder-id": id,
+    onPointerDown: (event: ReactPointerEvent) => onPointerDown(id, event),
+    onClickCapture: (event: MouseEvent) => {
+      if (suppressClick.current) {
+        event.preventDefault();
+        event.stopPropagation();
+      }
+    },
+    // Long presses on touch screens would open the image menu otherwise
+    onContextMenu: onReorder
+      ? (event: MouseEvent) => event.preventDefault()
+      : undefined,
+  });
+
+  return {
+    items: ordered,
+    draggingId,
+    getItemProps,
+  };
+}
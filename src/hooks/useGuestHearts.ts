@@ -0,0 +1,82 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { shareApi } from "@/lib/api";
+import type { ReactionEmoji } from "@/lib/reactions";
+
+// The emoji a share link visitor reacts with from the photo grid
+const HEART: ReactionEmoji = "❤️";
+
+// Kept in the browser so a visitor can take their hearts back on a later
+// visit and does not have to give their name again
+const GUEST_ID_KEY = "share_guest_id";
+const GUEST_NAME_KEY = "share_guest_name";
+
+function loadGuestId(): string {
+  const saved = localStorage.getItem(GUEST_ID_KEY);
+  if (saved) return saved;
+  const id = crypto.randomUUID();
+  localStorage.setItem(GUEST_ID_KEY, id);
+  return id;
+}
+
+// Hearts a visitor of a share link gives to the album's photos, when the
+// link allows reactions. `toggleHeart` resolves to the photo's new number
+// of reactions.
+export function useGuestHearts(token: string, enabled: boolean) {
+  const [guestId, setGuestId] = useState<string | null>(null);
+  const [displayName, setDisplayNameState] = useState("");
+  const [heartedIds, setHeartedIds] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!enabled) return;
+    const id = loadGuestId();
+    setGuestId(id);
+    setDisplayNameState(localStorage.getItem(GUEST_NAME_KEY) ?? "");
+
+    shareApi
+      .guestReactions(token, id)
+      .then((data) =>
+        setHeartedIds(
+          new Set(
+            data.reactions.flatMap((reaction) =>
+              reaction.photoId && reaction.emoji === HEART
+                ? [reaction.photoId]
+                : [],
+            ),
+          ),
+        ),
+      )
+      .catch((err) => console.error("Failed to load your hearts:", err));
+  }, [token, enabled]);
+
+  const setDisplayName = useCallback((name: string) => {
+    localStorage.setItem(GUEST_NAME_KEY, name);
+    setDisplayNameState(name);
+  }, []);
+
+  const toggleHeart = useCallback(
+    async (photoId: string, name = displayName) => {
+      if (!guestId) return null;
+      const target = { type: "photo", id: photoId } as const;
+      const hearted = heartedIds.has(photoId);
+      const data = hearted
+        ? await shareApi.unreact(token, target, HEART, guestId)
+        : await shareApi.react(token, target, HEART, guestId, name);
+
+      setHeartedIds((prev) => {
+        const next = new Set(prev);
+        if (hearted) {
+          next.delete(photoId);
+        } else {
+          next.add(photoId);
+        }
+        return next;
+      });
+      return data.reactions.reduce((sum, summary) => sum + summary.count, 0);
+    },
+    [token, guestId, displayName, heartedIds],
+  );
+
+  return { displayName, setDisplayName, heartedIds, toggleHeart };
+}
@@ -0,0 +1,43 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+
+// Starts loading the next page this far before the end of a list scrolls
+// into view
+const LOAD_AHEAD = "600px";
+
+interface LoadMoreOptions {
+  hasMore: boolean;
+  // While a page is loading no further page is requested
+  loading: boolean;
+  onLoadMore: () => void;
+}
+
+// Calls `onLoadMore` whenever the element given to the returned ref is
+// near the viewport. Put the element after the last item of the list. The
+// observer is recreated after every page, so a page too short to fill the
+// screen still leads to the next one.
+export function useLoadMore({ hasMore, loading, onLoadMore }: LoadMoreOptions) {
+  const [sentinel, setSentinel] = useState<HTMLElement | null>(null);
+  const callback = useRef(onLoadMore);
+
+  useEffect(() => {
+    callback.current = onLoadMore;
+  }, [onLoadMore]);
+
+  useEffect(() => {
+    if (!sentinel || !hasMore || loading) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          callback.current();
+        }
+      },
+      { rootMargin: LOAD_AHEAD },
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [sentinel, hasMore, loading]);
+
+  return setSentinel;
+}
@@ -0,0 +1,89 @@
+"use client";
+
+import {
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import { photosApi } from "@/lib/api";
+import { UploadQueue, type UploadQueueOptions } from "@/lib/uploadQueue";
+import type { DuplicateStrategy } from "@/lib/contentHash";
+import { pairLivePhotos } from "@/lib/media";
+
+interface UploadDetails {
+  caption?: string;
+  duplicateStrategy?: DuplicateStrategy;
+  // Motion clip of a Live Photo, paired with its still when added
+  motion?: File;
+}
+
+// Binds an UploadQueue that uploads photos into `albumId` to React state.
+// `onIdle` runs whenever the queue drains, e.g. to refresh the photo list
+// once instead of after every file.
+export function useUploadQueue(
+  albumId: string | null,
+  options: {
+    onIdle?: () => void;
+  } & Omit<UploadQueueOptions<unknown>, "upload"> = {},
+) {
+  // The queue outlives renders; read the latest props through a ref
+  const latest = useRef({ albumId, ...options });
+  useEffect(() => {
+    latest.current = { albumId, ...options };
+  });
+
+  // Details are fixed when files are added, not when they start uploading
+  const details = useRef(new WeakMap<File, UploadDetails>());
+
+  const [queue] = useState(
+    () =>
+      new UploadQueue({
+        concurrency: options.concurrency,
+        maxRetries: options.maxRetries,
+        retryDelay: options.retryDelay,
+        upload: async (file, { onProgress, signal }) => {
+          const { albumId } = latest.current;
+          if (!albumId) throw new Error("No album selected");
+          const { caption, duplicateStrategy, motion } =
+            details.current.get(file) ?? {};
+          return photosApi.uploadFile(file, albumId, caption, {
+            onProgress,
+            signal,
+            duplicateStrategy,
+            motion,
+          });
+        },
+      }),
+  );
+
+  // Stop in-flight requests when the component goes away
+  useEffect(() => () => queue.cancelAll(), [queue]);
+
+  const snapshot = useSyncExternalStore(
+    (listener) => queue.subscribe(listener),
+    () => queue.getSnapshot(),
+    () => queue.getSnapshot(),
+  );
+
+  const wasActive = useRef(false);
+  useEffect(() => {
+    if (wasActive.current && !snapshot.active) latest.current.onIdle?.();
+    wasActive.current = snapshot.active;
+  }, [snapshot.active]);
+
+  const add = useCallback(
+    (files: File[], fileDetails: Omit<UploadDetails, "motion"> = {}) => {
+      // A Live Photo's clip rides along with its still as one queue item
+      const entries = pairLivePhotos(files);
+      for (const { file, motion } of entries) {
+        details.current.set(file, { ...fileDetails, motion });
+      }
+      queue.add(entries.map((entry) => entry.file));
+    },
+    [queue],
+  );
+
+  return { queue, snapshot, add };
+}
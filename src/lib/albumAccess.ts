@@ -0,0 +1,203 @@
+import {
+  and,
+  asc,
+  eq,
+  inArray,
+  isNotNull,
+  isNull,
+  sql,
+  type SQL,
+} from "drizzle-orm";
+import type { SQLiteColumn } from "drizzle-orm/sqlite-core";
+import type { Database } from "@/db";
+import { albumMembers, albums, photos, stories, users } from "@/db/schema";
+import {
+  ALBUM_ROLES,
+  hasAlbumRole,
+  type AlbumMember,
+  type AlbumRole,
+} from "@/lib/albumRoles";
+
+// Albums are shared through album_members: a user may act on an album when
+// they are a member (their invitation accepted) with at least the role the
+// action needs. Every album, photo, story and share route authorizes
+// through checkAlbumAccess, and listings filter with isAlbumMember. Users
+// outside an album get 404, as if it did not exist; members whose role is
+// too low get 403.
+
+type Album = typeof albums.$inferSelect;
+type Photo = typeof photos.$inferSelect;
+type Story = typeof stories.$inferSelect;
+
+export interface AlbumAccess {
+  album: Album;
+  role: AlbumRole;
+}
+
+export interface AlbumAccessError {
+  error: string;
+  status: 403 | 404;
+}
+
+const ROLE_REQUIRED_ERRORS: Record<AlbumRole, string> = {
+  viewer: "You are not a member of this album",
+  editor: "Only editors of this album can do this",
+  owner: "Only the owner of this album can do this",
+};
+
+// The role of a member, and the roles that include it
+function rolesFrom(role: AlbumRole): AlbumRole[] {
+  return ALBUM_ROLES.slice(ALBUM_ROLES.indexOf(role));
+}
+
+// Condition for rows of albums the user is a member of with at least
+// `role`, e.g. isAlbumMember(userId, photos.albumId)
+export function isAlbumMember(
+  userId: string,
+  albumId: SQLiteColumn,
+  role: AlbumRole = "viewer",
+): SQL {
+  return sql`exists (
+    select 1 from ${albumMembers}
+    where ${albumMembers.albumId} = ${albumId}
+      and ${albumMembers.userId} = ${userId}
+      and ${albumMembers.acceptedAt} is not null
+      and ${inArray(albumMembers.role, rolesFrom(role))}
+  )`;
+}
+
+// Loads an album the user may act on with the `required` role. Albums in
+// the trash are only found with `inTrash`. `notFound` replaces the 404
+// message, for routes that reach the album through one of its items.
+export async function checkAlbumAccess(
+  db: Database,
+  userId: string,
+  albumId: string,
+  required: AlbumRole,
+  options: { inTrash?: boolean; notFound?: string } = {},
+): Promise<AlbumAccess | AlbumAccessError> {
+  const rows = await db
+    .select({ album: albums, role: albumMembers.role })
+    .from(albums)
+    .innerJoin(
+      albumMembers,
+      and(
+        eq(albumMembers.albumId, albums.id),
+        eq(albumMembers.userId, userId),
+        isNotNull(albumMembers.acceptedAt),
+      ),
+    )
+    .where(
+      and(
+        eq(albums.id, albumId),
+        options.inTrash
+          ? isNotNull(albums.deletedAt)
+          : isNull(albums.deletedAt),
+      ),
+    )
+    .limit(1);
+
+  if (rows.length === 0) {
+    return { error: options.notFound ?? "Album not found", status: 404 };
+  }
+  const { album, role } = rows[0];
+  if (!hasAlbumRole(role, required)) {
+    return { error: ROLE_REQUIRED_ERRORS[required], status: 403 };
+  }
+  return { album, role };
+}
+
+// Loads a photo, not in the trash, whose album the user may act on with
+// the `required` role
+export async function checkPhotoAccess(
+  db: Database,
+  userId: string,
+  photoId: string,
+  required: AlbumRole,
+): Promise<(AlbumAccess & { photo: Photo }) | AlbumAccessError> {
+  const notFound = "Photo not found";
+  const photo = await db
+    .select()
+    .from(photos)
+    .where(and(eq(photos.id, photoId), isNull(photos.deletedAt)))
+    .limit(1);
+  if (photo.length === 0) return { error: notFound, status: 404 };
+
+  const access = await checkAlbumAccess(
+    db,
+    userId,
+    photo[0].albumId,
+    required,
+    { notFound },
+  );
+  return "error" in access ? access : { ...access, photo: photo[0] };
+}
+
+// Loads a story, not in the trash, whose album the user may act on with
+// the `required` role
+export async function checkStoryAccess(
+  db: Database,
+  userId: string,
+  storyId: string,
+  required: AlbumRole,
+): Promise<(AlbumAccess & { story: Story }) | AlbumAccessError> {
+  const notFound = "Story not found";
+  const story = await db
+    .select()
+    .from(stories)
+    .where(and(eq(stories.id, storyId), isNull(stories.deletedAt)))
+    .limit(1);
+  if (story.length === 0) return { error: notFound, status: 404 };
+
+  const access = await checkAlbumAccess(
+    db,
+    userId,
+    story[0].albumId,
+    required,
+    { notFound },
+  );
+  return "error" in access ? access : { ...access, story: story[0] };
+}
+
+// Insert of the owner's membership, made along with the album
+export function insertAlbumOwner(
+  db: Database,
+  albumId: string,
+  userId: string,
+) {
+  const now = new Date();
+  return db.insert(albumMembers).values({
+    albumId,
+    userId,
+    role: "owner",
+    acceptedAt: now,
+    createdAt: now,
+  });
+}
+
+// The members of an album, invited ones included, the owner first and the
+// others in the order they were invited
+export async function listAlbumMembers(
+  db: Database,
+  albumId: string,
+): Promise<AlbumMember[]> {
+  const rows = await db
+    .select({
+      userId: albumMembers.userId,
+      username: users.username,
+      role: albumMembers.role,
+      acceptedAt: albumMembers.acceptedAt,
+    })
+    .from(albumMembers)
+    .innerJoin(users, eq(users.id, albumMembers.userId))
+    .where(eq(albumMembers.albumId, albumId))
+    .orderBy(
+      sql`${albumMembers.role} = 'owner' desc`,
+      asc(albumMembers.createdAt),
+    );
+
+  return rows.map((member) => ({
+    ...member,
+    acceptedAt: member.acceptedAt?.toISOString() ?? null,
+  }));
+}
@@ -0,0 +1,40 @@
+// Roles of album members, from least to most rights. Viewers see the
+// album; editors also add and change its photos, stories and details;
+// the owner can also delete, merge and share it and manage its members.
+// Kept apart from albumAccess.ts because the schema imports it.
+
+export const ALBUM_ROLES = ["viewer", "editor", "owner"] as const;
+
+export type AlbumRole = (typeof ALBUM_ROLES)[number];
+
+// Roles an owner can give when inviting; each album has one owner
+export const INVITABLE_ROLES = ["viewer", "editor"] as const;
+
+export type InvitableRole = (typeof INVITABLE_ROLES)[number];
+
+export function isInvitableRole(value: unknown): value is InvitableRole {
+  return INVITABLE_ROLES.includes(value as InvitableRole);
+}
+
+// Whether a member with `role` may do what `required` allows
+export function hasAlbumRole(role: AlbumRole, required: AlbumRole): boolean {
+  return ALBUM_ROLES.indexOf(role) >= ALBUM_ROLES.indexOf(required);
+}
+
+// A member of an album as the API returns it
+export interface AlbumMember {
+  userId: string;
+  username: string;
+  role: AlbumRole;
+  // Null while the invitation is pending
+  acceptedAt: string | null;
+}
+
+// An invitation to an album, waiting for the invited user's answer
+export interface AlbumInvitation {
+  albumId: string;
+  albumTitle: string;
+  role: AlbumRole;
+  invitedBy: string | null;
+  createdAt: string;
+}
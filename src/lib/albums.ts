@@ -0,0 +1,157 @@
+import { and, eq, ne } from "drizzle-orm";
+import { randomUUID } from "crypto";
+import type { Database } from "@/db";
+import {
+  albumMembers,
+  albums,
+  milestones,
+  sharedLinks,
+  stories,
+} from "@/db/schema";
+import { insertAlbumOwner } from "@/lib/albumAccess";
+import { appendAlbumPhotos, copyAlbumPhotos } from "@/lib/photos";
+
+type Album = typeof albums.$inferSelect;
+
+// Which album a merged album takes a field from: the one kept ("target")
+// or the one merged into it ("source")
+export const ALBUM_MERGE_CHOICES = ["target", "source"] as const;
+
+export type AlbumMergeChoice = (typeof ALBUM_MERGE_CHOICES)[number];
+
+export function isAlbumMergeChoice(value: unknown): value is AlbumMergeChoice {
+  return ALBUM_MERGE_CHOICES.includes(value as AlbumMergeChoice);
+}
+
+export interface AlbumMergeOptions {
+  cover: AlbumMergeChoice;
+  customText: AlbumMergeChoice;
+}
+
+// Earlier or later of two optional dates
+function pickDate(
+  a: Date | null,
+  b: Date | null,
+  pick: "earliest" | "latest",
+): Date | null {
+  if (!a || !b) return a ?? b;
+  const aFirst = a.getTime() <= b.getTime();
+  return aFirst === (pick === "earliest") ? a : b;
+}
+
+// The chosen album's value, or the other one's when it has none
+function choose<T>(
+  choice: AlbumMergeChoice,
+  target: T | null,
+  source: T | null,
+): T | null {
+  return choice === "source" ? (source ?? target) : (target ?? source);
+}
+
+// Merges `source` into `target`: its photos, stories, share links, members
+// and the milestones linking to it move over, the date range covers both
+// trips and the source album is deleted. Both albums have the same owner.
+// Returns the merged album.
+export async function mergeAlbums(
+  db: Database,
+  target: Album,
+  source: Album,
+  options: AlbumMergeOptions,
+): Promise<Album> {
+  const photoMoves = await appendAlbumPhotos(db, source.id, target.id);
+
+  // Members of both albums keep the role they have in the target
+  const sourceMembers = await db
+    .select()
+    .from(albumMembers)
+    .where(
+      and(eq(albumMembers.albumId, source.id), ne(albumMembers.role, "owner")),
+    );
+
+  // One batch, so a failed merge leaves both albums as they were
+  await db.batch([
+    db
+      .update(stories)
+      .set({ albumId: target.id })
+      .where(eq(stories.albumId, source.id)),
+    ...photoMoves,
+    db
+      .update(sharedLinks)
+      .set({ albumId: target.id })
+      .where(eq(sharedLinks.albumId, source.id)),
+    db
+      .update(milestones)
+      .set({ albumId: target.id })
+      .where(eq(milestones.albumId, source.id)),
+    ...sourceMembers.map((member) =>
+      db
+        .insert(albumMembers)
+        .values({ ...member, albumId: target.id })
+        .onConflictDoNothing(),
+    ),
+    db
+      .update(albums)
+      .set({
+        description: target.description || source.description,
+        location: target.location || source.location,
+        startDate: pickDate(target.startDate, source.startDate, "earliest"),
+        endDate: pickDate(target.endDate, source.endDate, "latest"),
+        coverPhotoUrl: choose(
+          options.cover,
+          target.coverPhotoUrl,
+          source.coverPhotoUrl,
+        ),
+        customText: choose(
+          options.customText,
+          target.customText,
+          source.customText,
+        ),
+        updatedAt: new Date(),
+      })
+      .where(eq(albums.id, target.id)),
+    // Nothing is left in it, so it skips the trash
+    db.delete(albums).where(eq(albums.id, source.id)),
+  ]);
+
+  const merged = await db
+    .select()
+    .from(albums)
+    .where(eq(albums.id, target.id))
+    .limit(1);
+  return merged[0];
+}
+
+// Creates a new album with the details of `source` and its photos as rows
+// sharing the stored files. Stories, share links and members other than
+// the owner are not copied.
+export async function duplicateAlbum(
+  db: Database,
+  source: Album,
+  title: string,
+): Promise<Album> {
+  const albumId = randomUUID();
+  // One batch, so a failed copy leaves no empty album behind
+  const photoCopies = await copyAlbumPhotos(db, source.id, albumId);
+  await db.batch([
+    db.insert(albums).values({
+      id: albumId,
+      userId: source.userId,
+      title,
+      description: source.description,
+      coverPhotoUrl: source.coverPhotoUrl,
+      startDate: source.startDate,
+      endDate: source.endDate,
+      location: source.location,
+      customText: source.customText,
+    }),
+    insertAlbumOwner(db, albumId, source.userId),
+    ...photoCopies,
+  ]);
+
+  const copy = await db
+    .select()
+    .from(albums)
+    .where(eq(albums.id, albumId))
+    .limit(1);
+  return copy[0];
+}
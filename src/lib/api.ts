@@ -1,3 +1,39 @@
+import { readExif, type ExifData } from "@/lib/exif";
+import { compressImage, toDisplayableImage } from "@/lib/imageCompression";
+import {
+  detectBlobImageFormat,
+  UNSUPPORTED_IMAGE_ERROR,
+} from "@/lib/imageFormat";
+import { sha256Hex, type DuplicateStrategy } from "@/lib/contentHash";
+import {
+  detectBlobVideoFormat,
+  MAX_VIDEO_SIZE,
+  VIDEO_TOO_LARGE_ERROR,
+  type MediaType,
+} from "@/lib/media";
+import { captureVideoPoster, readVideoDuration } from "@/lib/videoPoster";
+import { MAX_PAGE_SIZE, type Page } from "@/lib/pagination";
+import type { PhotoFilters } from "@/lib/photoFilters";
+import type { TrashItemType } from "@/lib/trash";
+import type { AlbumMergeOptions } from "@/lib/albums";
+import type { SearchResult } from "@/lib/search";
+import type { PhotoTag } from "@/lib/tags";
+import type { TimelineMonth } from "@/lib/timeline";
+import type { Milestone, MilestoneInput } from "@/lib/milestones";
+import type {
+  AlbumInvitation,
+  AlbumMember,
+  InvitableRole,
+} from "@/lib/albumRoles";
+import type {
+  Comment,
+  FeedbackTarget,
+  ReactionEmoji,
+  ReactionSummary,
+} from "@/lib/reactions";
+
+export type { Page };
+
 const API_BASE = process.env.NEXT_PUBLIC_API_URL || "";
 
 export interface ApiResponse<T> {
@@ -6,6 +42,20 @@ export interface ApiResponse<T> {
   message?: string;
 }
 
+// Error for a non-2xx API response, carrying the status and the error code
+// some endpoints return (e.g. QUOTA_EXCEEDED)
+export class ApiError extends Error {
+  status: number;
+  code?: string;
+
+  constructor(message: string, status: number, code?: string) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.code = code;
+  }
+}
+
 async function apiCall<T>(
   endpoint: string,
   options: RequestInit = {},
@@ -25,16 +75,64 @@ async function apiCall<T>(
   if (!response.ok) {
     const error = (await response.json().catch(() => ({}))) as {
       error?: string;
+      code?: string;
     };
-    throw new Error(error.error || `API error: ${response.status}`);
+    throw new ApiError(
+      error.error || `API error: ${response.status}`,
+      response.status,
+      error.code,
+    );
   }
 
   return response.json();
 }
 
+export interface PageOptions {
+  limit?: number;
+  // nextCursor of the previous page
+  cursor?: string | null;
+}
+
+// Query string for a listing, leaving out unset parameters
+function listQuery(
+  params: Record<string, string | number | null | undefined>,
+): string {
+  const search = new URLSearchParams();
+  for (const [name, value] of Object.entries(params)) {
+    if (value !== undefined && value !== null && value !== "") {
+      search.set(name, String(value));
+    }
+  }
+  const query = search.toString();
+  return query ? `?${query}` : "";
+}
+
+// Loads every page of a listing by following nextCursor, starting at the
+// first page or at the given cursor
+export async function fetchAllPages<T>(
+  loadPage: (cursor: string | null) => Promise<Page<T>>,
+  startCursor: string | null = null,
+): Promise<T[]> {
+  const items: T[] = [];
+  let cursor = startCursor;
+  do {
+    const page: Page<T> = await loadPage(cursor);
+    items.push(...page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return items;
+}
+
 // Albums APIs
 export const albumsApi = {
-  list: () => apiCall("/albums", { method: "GET" }),
+  list: <T = unknown>(page: PageOptions = {}) =>
+    apiCall<Page<T>>(`/albums${listQuery({ ...page })}`, { method: "GET" }),
+
+  // Every album of the user, for pickers and lookups by title
+  listAll: <T = unknown>() =>
+    fetchAllPages((cursor) =>
+      albumsApi.list<T>({ cursor, limit: MAX_PAGE_SIZE }),
+    ),
 
   get: (id: string) => apiCall(`/albums/${id}`, { method: "GET" }),
 
@@ -63,14 +161,212 @@ export const albumsApi = {
     }),
 
   delete: (id: string) => apiCall(`/albums/${id}`, { method: "DELETE" }),
+
+  // Merges another album into this one, which is kept
+  merge: (
+    id: string,
+    sourceAlbumId: string,
+    options: Partial<AlbumMergeOptions> = {},
+  ) =>
+    apiCall(`/albums/${id}/merge`, {
+      method: "POST",
+      body: JSON.stringify({ sourceAlbumId, ...options }),
+    }),
+
+  duplicate: (id: string, title?: string) =>
+    apiCall(`/albums/${id}/duplicate`, {
+      method: "POST",
+      body: JSON.stringify({ title }),
+    }),
 };
 
+// Editable photo metadata; null clears a field
+export interface PhotoUpdate {
+  caption?: string | null;
+  altText?: string | null;
+  // ISO date string
+  takenAt?: string | null;
+  // Sent together, or both null
+  latitude?: number | null;
+  longitude?: number | null;
+}
+
+export interface UploadOptions {
+  onProgress?: (loaded: number, total: number) => void;
+  signal?: AbortSignal;
+  // SHA-256 of the original file, used to detect duplicates
+  contentHash?: string | null;
+  // The file is a compressed copy of the original, so the server takes
+  // contentHash instead of hashing what it receives
+  compressed?: boolean;
+  duplicateStrategy?: DuplicateStrategy;
+  // Clip uploaded together with the still: the video itself for "video"
+  // (the still is then its poster frame) or a Live Photo's motion part
+  motion?: File;
+  mediaType?: MediaType;
+  // Clip length in seconds
+  duration?: number;
+}
+
+// Larger files are not hashed in the browser; the server still hashes
+// what it can read
+const MAX_HASH_SIZE = 256 * 1024 * 1024; // 256MB
+
+interface XhrResponse {
+  status: number;
+  body: string;
+  getHeader: (name: string) => string | null;
+}
+
+// fetch cannot report upload progress, so request bodies that can be large
+// are sent with XMLHttpRequest instead
+function sendWithProgress(
+  method: string,
+  url: string,
+  body: XMLHttpRequestBodyInit,
+  options: UploadOptions & {
+    headers?: Record<string, string>;
+    withCredentials?: boolean;
+  } = {},
+): Promise<XhrResponse> {
+  return new Promise((resolve, reject) => {
+    if (options.signal?.aborted) {
+      reject(new DOMException("Upload aborted", "AbortError"));
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    xhr.open(method, url);
+    xhr.withCredentials = options.withCredentials ?? false;
+    for (const [name, value] of Object.entries(options.headers ?? {})) {
+      xhr.setRequestHeader(name, value);
+    }
+
+    const onAbort = () => xhr.abort();
+    options.signal?.addEventListener("abort", onAbort);
+    const cleanup = () => options.signal?.removeEventListener("abort", onAbort);
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        options.onProgress?.(event.loaded, event.total);
+      }
+    };
+    xhr.onload = () => {
+      cleanup();
+      resolve({
+        status: xhr.status,
+        body: xhr.responseText,
+        getHeader: (name) => xhr.getResponseHeader(name),
+      });
+    };
+    xhr.onerror = () => {
+      cleanup();
+      reject(new Error("Upload failed: network error"));
+    };
+    xhr.onabort = () => {
+      cleanup();
+      reject(new DOMException("Upload aborted", "AbortError"));
+    };
+
+    xhr.send(body);
+  });
+}
+
+interface MotionUploadTarget {
+  key: string;
+  url: string;
+  headers: Record<string, string>;
+}
+
+type DirectUploadTarget =
+  | {
+      method: "duplicate";
+      photo: unknown;
+    }
+  | {
+      method: "put";
+      photoId: string;
+      key: string;
+      url: string;
+      headers: Record<string, string>;
+      motion: MotionUploadTarget | null;
+    }
+  | {
+      method: "multipart";
+      photoId: string;
+      key: string;
+      uploadId: string;
+      partSize: number;
+      parts: { partNumber: number; url: string }[];
+      motion: MotionUploadTarget | null;
+    };
+
+async function putToStorage(
+  url: string,
+  body: Blob,
+  headers?: Record<string, string>,
+  options: UploadOptions = {},
+): Promise<XhrResponse> {
+  const response = await sendWithProgress("PUT", url, body, {
+    ...options,
+    headers,
+  });
+  if (response.status < 200 || response.status >= 300) {
+    // Not an ApiError: a rejected PUT (e.g. an expired signature) is worth
+    // retrying with a fresh upload URL
+    throw new Error(`Upload failed: ${response.status}`);
+  }
+  return response;
+}
+
+// Uploads each part in order. Reading the ETag needs the bucket's CORS
+// policy to expose it (see README).
+async function uploadParts(
+  file: File,
+  target: Extract<DirectUploadTarget, { method: "multipart" }>,
+  options: UploadOptions = {},
+) {
+  const uploaded: { partNumber: number; etag: string }[] = [];
+  for (const part of target.parts) {
+    const start = (part.partNumber - 1) * target.partSize;
+    const response = await putToStorage(
+      part.url,
+      file.slice(start, start + target.partSize),
+      undefined,
+      {
+        signal: options.signal,
+        onProgress: (loaded) => options.onProgress?.(start + loaded, file.size),
+      },
+    );
+    const etag = response.getHeader("ETag");
+    if (!etag) {
+      throw new Error("Upload failed: missing ETag for uploaded part");
+    }
+    uploaded.push({ partNumber: part.partNumber, etag });
+  }
+  return uploaded;
+}
+
 // Photos APIs
 export const photosApi = {
-  list: (albumId?: string) => {
-    const query = albumId ? `?albumId=${albumId}` : "";
-    return apiCall(`/photos${query}`, { method: "GET" });
-  },
+  list: <T = unknown>(
+    albumId?: string,
+    page: PageOptions = {},
+    filters: PhotoFilters = {},
+  ) =>
+    apiCall<Page<T>>(`/photos${listQuery({ albumId, ...page, ...filters })}`, {
+      method: "GET",
+    }),
+
+  get: <T = unknown>(id: string) =>
+    apiCall<T>(`/photos/${id}`, { method: "GET" }),
+
+  // Replaces the photo's tags; missing tags are created
+  setTags: (id: string, tags: string[]) =>
+    apiCall<{ tags: PhotoTag[] }>(`/photos/${id}/tags`, {
+      method: "PUT",
+      body: JSON.stringify({ tags }),
+    }),
 
   upload: async (
     file: File,
@@ -78,6 +374,8 @@ export const photosApi = {
     caption?: string,
     latitude?: number,
     longitude?: number,
+    exif?: ExifData | null,
+    options: UploadOptions = {},
   ) => {
     const formData = new FormData();
     formData.append("file", file);
@@ -85,36 +383,305 @@ export const photosApi = {
     if (caption) formData.append("caption", caption);
     if (latitude) formData.append("latitude", latitude.toString());
     if (longitude) formData.append("longitude", longitude.toString());
+    if (exif) formData.append("exif", JSON.stringify({ raw: exif.raw }));
+    if (options.contentHash) {
+      formData.append("contentHash", options.contentHash);
+    }
+    if (options.compressed) formData.append("compressed", "true");
+    if (options.duplicateStrategy) {
+      formData.append("duplicateStrategy", options.duplicateStrategy);
+    }
+    if (options.motion) {
+      formData.append("motion", options.motion);
+      formData.append("mediaType", options.mediaType ?? "live");
+      if (options.duration) {
+        formData.append("duration", options.duration.toString());
+      }
+    }
 
     // No manual token header needed
-    const headers: HeadersInit = {};
+    const response = await sendWithProgress(
+      "POST",
+      `${API_BASE}/api/photos`,
+      formData,
+      { ...options, withCredentials: true },
+    );
 
-    const response = await fetch(`${API_BASE}/api/photos`, {
+    if (response.status < 200 || response.status >= 300) {
+      let error: { error?: string; code?: string } = {};
+      try {
+        error = JSON.parse(response.body) as { error?: string; code?: string };
+      } catch {
+        // Non-JSON error body
+      }
+      throw new ApiError(
+        error.error || `Upload failed: ${response.status}`,
+        response.status,
+        error.code,
+      );
+    }
+
+    return JSON.parse(response.body);
+  },
+
+  // Uploads the original straight to the bucket through a signed URL and
+  // then asks the server to create the photo. Resolves to null when the
+  // storage driver does not support it, so callers can fall back to upload.
+  uploadDirect: async (
+    file: File,
+    albumId: string,
+    caption?: string,
+    latitude?: number,
+    longitude?: number,
+    exif?: ExifData | null,
+    options: UploadOptions = {},
+  ) => {
+    const response = await fetch(`${API_BASE}/api/photos/uploads`, {
       method: "POST",
-      headers,
-      body: formData,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        albumId,
+        fileName: file.name,
+        contentType: (await detectBlobImageFormat(file))?.mimeType ?? file.type,
+        size: file.size,
+        contentHash: options.contentHash,
+        duplicateStrategy: options.duplicateStrategy,
+        mediaType: options.mediaType,
+        motion: options.motion
+          ? {
+              fileName: options.motion.name,
+              contentType:
+                (await detectBlobVideoFormat(options.motion))?.mimeType ??
+                options.motion.type,
+              size: options.motion.size,
+            }
+          : undefined,
+      }),
       credentials: "include",
+      signal: options.signal,
     });
 
     if (!response.ok) {
       const error = (await response.json().catch(() => ({}))) as {
         error?: string;
+        code?: string;
       };
-      throw new Error(error.error || `Upload failed: ${response.status}`);
+      if (error.code === "DIRECT_UPLOAD_UNSUPPORTED") return null;
+      throw new ApiError(
+        error.error || `Upload failed: ${response.status}`,
+        response.status,
+        error.code,
+      );
+    }
+
+    const target = (await response.json()) as DirectUploadTarget;
+    // Already in the library: resolved without uploading anything
+    if (target.method === "duplicate") return target.photo;
+
+    const reference = {
+      albumId,
+      photoId: target.photoId,
+      key: target.key,
+    };
+
+    // Progress covers the still and the clip together
+    const total = file.size + (options.motion?.size ?? 0);
+    const stillOptions = {
+      ...options,
+      onProgress: (loaded: number) => options.onProgress?.(loaded, total),
+    };
+
+    let parts: { partNumber: number; etag: string }[] | undefined;
+    if (target.method === "multipart") {
+      try {
+        parts = await uploadParts(file, target, stillOptions);
+      } catch (err) {
+        await apiCall("/photos/uploads", {
+          method: "DELETE",
+          body: JSON.stringify({ ...reference, uploadId: target.uploadId }),
+        }).catch(() => undefined);
+        throw err;
+      }
+    } else {
+      await putToStorage(target.url, file, target.headers, stillOptions);
+    }
+
+    if (options.motion && target.motion) {
+      await putToStorage(
+        target.motion.url,
+        options.motion,
+        target.motion.headers,
+        {
+          signal: options.signal,
+          onProgress: (loaded) =>
+            options.onProgress?.(file.size + loaded, total),
+        },
+      );
+    }
+
+    return apiCall("/photos/uploads/complete", {
+      method: "POST",
+      body: JSON.stringify({
+        ...reference,
+        uploadId: target.method === "multipart" ? target.uploadId : undefined,
+        parts,
+        caption,
+        latitude,
+        longitude,
+        exif: exif ? JSON.stringify({ raw: exif.raw }) : undefined,
+        contentHash: options.contentHash,
+        duplicateStrategy: options.duplicateStrategy,
+        mediaType: options.mediaType,
+        motionKey: target.motion?.key,
+        duration: options.duration,
+      }),
+      signal: options.signal,
+    });
+  },
+
+  // Uploads a file picked by the user. Stills get their EXIF read and HEIC
+  // converted to JPEG; a clip picked on its own becomes a video with a
+  // poster frame captured here, and a Live Photo's clip comes in
+  // options.motion. Files go straight to the bucket when the storage driver
+  // can sign upload URLs and are otherwise compressed to fit the
+  // POST /api/photos size limit.
+  uploadFile: async (
+    file: File,
+    albumId: string,
+    caption?: string,
+    options: UploadOptions = {},
+  ) => {
+    const send = async (
+      still: File,
+      exif: ExifData | null,
+      uploadOptions: UploadOptions,
+    ) => {
+      const uploaded = await photosApi.uploadDirect(
+        still,
+        albumId,
+        caption,
+        undefined,
+        undefined,
+        exif,
+        uploadOptions,
+      );
+      if (uploaded) return uploaded;
+
+      const compressedFile = await compressImage(still);
+      return photosApi.upload(
+        compressedFile,
+        albumId,
+        caption,
+        undefined,
+        undefined,
+        exif,
+        { ...uploadOptions, compressed: compressedFile !== still },
+      );
+    };
+
+    const clip = (await detectBlobVideoFormat(file)) ? file : options.motion;
+    if (clip && clip.size > MAX_VIDEO_SIZE) {
+      throw new ApiError(
+        VIDEO_TOO_LARGE_ERROR.error,
+        413,
+        VIDEO_TOO_LARGE_ERROR.code,
+      );
+    }
+
+    if (clip === file) {
+      // The poster is captured anew on every upload, so duplicates are
+      // detected by the hash of the clip
+      const { poster, duration } = await captureVideoPoster(file);
+      return send(poster, null, {
+        ...options,
+        motion: file,
+        mediaType: "video",
+        duration,
+        contentHash:
+          options.contentHash ??
+          (file.size <= MAX_HASH_SIZE ? await sha256Hex(file) : null),
+      });
     }
 
-    return response.json();
+    if (!(await detectBlobImageFormat(file))) {
+      throw new ApiError(
+        UNSUPPORTED_IMAGE_ERROR.error,
+        415,
+        UNSUPPORTED_IMAGE_ERROR.code,
+      );
+    }
+
+    // Read EXIF from the file as picked: HEIC conversion and compression
+    // re-encode the image without its metadata
+    const exif = await readExif(file);
+    const image = await toDisplayableImage(file);
+
+    // Hash what the bucket will receive, which is what the server hashes
+    // when it completes a direct upload
+    return send(image, exif, {
+      ...options,
+      mediaType: clip ? "live" : "image",
+      duration: clip ? await readVideoDuration(clip) : undefined,
+      contentHash:
+        options.contentHash ??
+        (image.size <= MAX_HASH_SIZE ? await sha256Hex(image) : null),
+    });
   },
 
+  // Groups of photos in the library that share the same content
+  duplicates: () => apiCall("/photos/duplicates", { method: "GET" }),
+
+  update: (id: string, data: PhotoUpdate) =>
+    apiCall(`/photos/${id}`, {
+      method: "PATCH",
+      body: JSON.stringify(data),
+    }),
+
+  // Saves a new order for all photos of an album
+  reorder: (albumId: string, photoIds: string[]) =>
+    apiCall("/photos/order", {
+      method: "PUT",
+      body: JSON.stringify({ albumId, photoIds }),
+    }),
+
+  // Moves photos into another album
+  move: (photoIds: string[], targetAlbumId: string) =>
+    apiCall("/photos/move", {
+      method: "POST",
+      body: JSON.stringify({ photoIds, targetAlbumId }),
+    }),
+
+  // Copies photos into another album; copies share the stored files
+  copy: (photoIds: string[], targetAlbumId: string) =>
+    apiCall("/photos/copy", {
+      method: "POST",
+      body: JSON.stringify({ photoIds, targetAlbumId }),
+    }),
+
   delete: (id: string) => apiCall(`/photos/${id}`, { method: "DELETE" }),
 };
 
-// Stories APIs
-export const storiesApi = {
-  list: (albumId?: string) => {
+export interface StorageUsage {
+  usedBytes: number;
+  // null when no quota is configured
+  quotaBytes: number | null;
+  albums: { albumId: string; usedBytes: number; photoCount: number }[];
+}
+
+// Usage APIs
+export const usageApi = {
+  get: (albumId?: string) => {
     const query = albumId ? `?albumId=${albumId}` : "";
-    return apiCall(`/stories${query}`, { method: "GET" });
+    return apiCall<StorageUsage>(`/usage${query}`, { method: "GET" });
   },
+};
+
+// Stories APIs
+export const storiesApi = {
+  list: <T = unknown>(albumId?: string, page: PageOptions = {}) =>
+    apiCall<Page<T>>(`/stories${listQuery({ albumId, ...page })}`, {
+      method: "GET",
+    }),
 
   get: (id: string) => apiCall(`/stories/${id}`, { method: "GET" }),
 
@@ -133,12 +700,234 @@ export const storiesApi = {
   delete: (id: string) => apiCall(`/stories/${id}`, { method: "DELETE" }),
 };
 
+// Contents of the trash; every item carries the deletedAt time it was
+// trashed at and is purged retentionDays after that
+export interface TrashContents<
+  Album = unknown,
+  Photo = unknown,
+  Story = unknown,
+> {
+  albums: Album[];
+  photos: Photo[];
+  stories: Story[];
+  retentionDays: number;
+}
+
+// Trash APIs
+export const trashApi = {
+  list: <Album = unknown, Photo = unknown, Story = unknown>() =>
+    apiCall<TrashContents<Album, Photo, Story>>("/trash", { method: "GET" }),
+
+  restore: (type: TrashItemType, id: string) =>
+    apiCall("/trash/restore", {
+      method: "POST",
+      body: JSON.stringify({ type, id }),
+    }),
+};
+
+export interface TagSummary extends PhotoTag {
+  photoCount: number;
+}
+
+// Tag APIs
+export const tagsApi = {
+  // With `q`, tags containing it, for autocomplete
+  list: (q?: string, limit?: number) =>
+    apiCall<{ tags: TagSummary[] }>(`/tags${listQuery({ q, limit })}`, {
+      method: "GET",
+    }),
+
+  create: (name: string) =>
+    apiCall<PhotoTag>("/tags", {
+      method: "POST",
+      body: JSON.stringify({ name }),
+    }),
+
+  rename: (id: string, name: string) =>
+    apiCall<PhotoTag>(`/tags/${id}`, {
+      method: "PATCH",
+      body: JSON.stringify({ name }),
+    }),
+
+  delete: (id: string) => apiCall(`/tags/${id}`, { method: "DELETE" }),
+};
+
+// Search APIs
+export const searchApi = {
+  search: (q: string) =>
+    apiCall<{ results: SearchResult[] }>(
+      `/search?${new URLSearchParams({ q })}`,
+      { method: "GET" },
+    ),
+};
+
+// Timeline APIs. `timeZone` is the viewer's IANA time zone, which decides
+// the day each photo falls on; it defaults to the browser's.
+export const timelineApi = {
+  buckets: (timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone) =>
+    apiCall<{ buckets: TimelineMonth[] }>(
+      `/timeline${listQuery({ tz: timeZone })}`,
+      { method: "GET" },
+    ),
+
+  // Photos of one month (YYYY-MM), newest first
+  photos: <T = unknown>(
+    month: string,
+    page: PageOptions = {},
+    timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone,
+  ) =>
+    apiCall<Page<T & { day: string }>>(
+      `/timeline/photos${listQuery({ month, tz: timeZone, ...page })}`,
+      { method: "GET" },
+    ),
+};
+
+export interface OnThisDay<Photo, Story> {
+  // YYYY-MM-DD, in `timeZone`
+  date: string;
+  timeZone: string;
+  photos: (Photo & { albumTitle: string; yearsAgo: number })[];
+  stories: (Story & { albumTitle: string; yearsAgo: number })[];
+}
+
+// Memories APIs
+export const memoriesApi = {
+  // Defaults to today in the browser's time zone
+  onThisDay: <Photo = unknown, Story = unknown>(
+    timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone,
+    date?: string,
+  ) =>
+    apiCall<OnThisDay<Photo, Story>>(
+      `/memories/on-this-day${listQuery({ tz: timeZone, date })}`,
+      { method: "GET" },
+    ),
+};
+
+// Milestone APIs
+export const milestonesApi = {
+  list: () =>
+    apiCall<{ milestones: Milestone[] }>("/milestones", { method: "GET" }),
+
+  create: (
+    milestone: Pick<MilestoneInput, "title" | "date"> &
+      Partial<MilestoneInput>,
+  ) =>
+    apiCall<Milestone>("/milestones", {
+      method: "POST",
+      body: JSON.stringify(milestone),
+    }),
+
+  // `albumId: null` unlinks the album
+  update: (id: string, changes: Partial<MilestoneInput>) =>
+    apiCall<Milestone>(`/milestones/${id}`, {
+      method: "PATCH",
+      body: JSON.stringify(changes),
+    }),
+
+  delete: (id: string) => apiCall(`/milestones/${id}`, { method: "DELETE" }),
+};
+
+// Album member APIs
+export const membersApi = {
+  list: (albumId: string) =>
+    apiCall<{ members: AlbumMember[] }>(`/albums/${albumId}/members`, {
+      method: "GET",
+    }),
+
+  // Invites a user by email or username
+  invite: (albumId: string, identifier: string, role: InvitableRole) =>
+    apiCall<AlbumMember>(`/albums/${albumId}/members`, {
+      method: "POST",
+      body: JSON.stringify({ identifier, role }),
+    }),
+
+  update: (albumId: string, userId: string, role: InvitableRole) =>
+    apiCall<AlbumMember>(`/albums/${albumId}/members/${userId}`, {
+      method: "PATCH",
+      body: JSON.stringify({ role }),
+    }),
+
+  // Removes a member, or with the user's own id leaves the album
+  remove: (albumId: string, userId: string) =>
+    apiCall(`/albums/${albumId}/members/${userId}`, { method: "DELETE" }),
+};
+
+// Album invitation APIs
+export const invitationsApi = {
+  list: () =>
+    apiCall<{ invitations: AlbumInvitation[] }>("/invitations", {
+      method: "GET",
+    }),
+
+  accept: (albumId: string) =>
+    apiCall(`/invitations/${albumId}`, { method: "POST" }),
+
+  decline: (albumId: string) =>
+    apiCall(`/invitations/${albumId}`, { method: "DELETE" }),
+};
+
+// Path of the photo or story a comment or reaction is on
+function feedbackPath(target: FeedbackTarget) {
+  return `/${target.type === "photo" ? "photos" : "stories"}/${target.id}`;
+}
+
+// Comment and reaction APIs, for photos and stories alike
+export const feedbackApi = {
+  listComments: (target: FeedbackTarget) =>
+    apiCall<{ comments: Comment[] }>(`${feedbackPath(target)}/comments`, {
+      method: "GET",
+    }),
+
+  addComment: (target: FeedbackTarget, body: string) =>
+    apiCall<Comment>(`${feedbackPath(target)}/comments`, {
+      method: "POST",
+      body: JSON.stringify({ body }),
+    }),
+
+  updateComment: (id: string, body: string) =>
+    apiCall<Comment>(`/comments/${id}`, {
+      method: "PATCH",
+      body: JSON.stringify({ body }),
+    }),
+
+  deleteComment: (id: string) =>
+    apiCall(`/comments/${id}`, { method: "DELETE" }),
+
+  listReactions: (target: FeedbackTarget) =>
+    apiCall<{ reactions: ReactionSummary[] }>(
+      `${feedbackPath(target)}/reactions`,
+      { method: "GET" },
+    ),
+
+  react: (target: FeedbackTarget, emoji: ReactionEmoji) =>
+    apiCall<{ reactions: ReactionSummary[] }>(
+      `${feedbackPath(target)}/reactions`,
+      { method: "POST", body: JSON.stringify({ emoji }) },
+    ),
+
+  unreact: (target: FeedbackTarget, emoji: ReactionEmoji) =>
+    apiCall<{ reactions: ReactionSummary[] }>(
+      `${feedbackPath(target)}/reactions${listQuery({ emoji })}`,
+      { method: "DELETE" },
+    ),
+};
+
+// A reaction a share link visitor made
+export interface GuestReaction {
+  photoId: string | null;
+  storyId: string | null;
+  emoji: ReactionEmoji;
+}
+
+// The reactions on a photo or story, as share link visitors see them
+export type GuestReactionSummary = Omit<ReactionSummary, "names">;
+
 // Share APIs
 export const shareApi = {
-  create: (albumId: string, expiresIn?: number) =>
+  create: (albumId: string, expiresIn?: number, allowReactions = false) =>
     apiCall("/share", {
       method: "POST",
-      body: JSON.stringify({ albumId, expiresIn }),
+      body: JSON.stringify({ albumId, expiresIn, allowReactions }),
     }),
 
   list: (albumId?: string) => {
@@ -146,6 +935,50 @@ export const shareApi = {
     return apiCall(`/share${query}`, { method: "GET" });
   },
 
-  getShared: (token: string) =>
-    fetch(`${API_BASE}/api/share/${token}`).then((res) => res.json()),
+  getShared: (token: string, filters: PhotoFilters = {}) =>
+    fetch(`${API_BASE}/api/share/${token}${listQuery({ ...filters })}`).then(
+      (res) => res.json(),
+    ),
+
+  // The reactions the visitor with guestId made through the link
+  guestReactions: (token: string, guestId: string) =>
+    apiCall<{ reactions: GuestReaction[] }>(
+      `/share/${token}/reactions${listQuery({ guestId })}`,
+      { method: "GET" },
+    ),
+
+  react: (
+    token: string,
+    target: FeedbackTarget,
+    emoji: ReactionEmoji,
+    guestId: string,
+    displayName: string,
+  ) =>
+    apiCall<{ reactions: GuestReactionSummary[] }>(
+      `/share/${token}/reactions`,
+      {
+        method: "POST",
+        body: JSON.stringify({
+          [target.type === "photo" ? "photoId" : "storyId"]: target.id,
+          emoji,
+          guestId,
+          displayName,
+        }),
+      },
+    ),
+
+  unreact: (
+    token: string,
+    target: FeedbackTarget,
+    emoji: ReactionEmoji,
+    guestId: string,
+  ) =>
+    apiCall<{ reactions: GuestReactionSummary[] }>(
+      `/share/${token}/reactions${listQuery({
+        [target.type === "photo" ? "photoId" : "storyId"]: target.id,
+        emoji,
+        guestId,
+      })}`,
+      { method: "DELETE" },
+    ),
 };
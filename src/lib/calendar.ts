@@ -0,0 +1,110 @@
+// Calendar dates (a day, without a time of day) and the time zones they are
+// read in
+
+export interface CalendarDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+export const INVALID_TIME_ZONE_ERROR = {
+  error: "tz must be an IANA time zone such as Asia/Shanghai",
+};
+
+// Whether Intl knows the time zone (e.g. "Asia/Shanghai")
+export function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Reads the `tz` parameter. Missing means UTC; returns null when invalid.
+export function parseTimeZone(value: string | null): string | null {
+  const timeZone = value || "UTC";
+  return isTimeZone(timeZone) ? timeZone : null;
+}
+
+// Formatters are slow to create and offsets are looked up many times
+const wallClockFormats = new Map<string, Intl.DateTimeFormat>();
+
+function wallClockFormat(timeZone: string): Intl.DateTimeFormat {
+  let format = wallClockFormats.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    wallClockFormats.set(timeZone, format);
+  }
+  return format;
+}
+
+// Minutes the time zone is ahead of UTC at a moment (milliseconds since the
+// epoch)
+export function zoneOffsetMinutes(instant: number, timeZone: string): number {
+  const parts = wallClockFormat(timeZone).formatToParts(new Date(instant));
+  const part = (type: string) =>
+    Number(parts.find((item) => item.type === type)?.value);
+  const local = Date.UTC(
+    part("year"),
+    part("month") - 1,
+    part("day"),
+    part("hour"),
+    part("minute"),
+    part("second"),
+  );
+  return Math.round((local - Math.floor(instant / 1000) * 1000) / 60_000);
+}
+
+// Milliseconds since the epoch of local midnight starting a day
+export function startOfDay(
+  year: number,
+  month: number,
+  day: number,
+  tz: string,
+): number {
+  const wallClock = Date.UTC(year, month - 1, day);
+  // The offset at midnight can differ from the one at the first guess when
+  // a daylight saving change falls in between
+  let instant = wallClock - zoneOffsetMinutes(wallClock, tz) * 60_000;
+  instant = wallClock - zoneOffsetMinutes(instant, tz) * 60_000;
+  return instant;
+}
+
+// The calendar date of a moment in a time zone
+export function dateInTimeZone(instant: Date, timeZone: string): CalendarDate {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+  }).formatToParts(instant);
+  const part = (type: string) =>
+    Number(parts.find((item) => item.type === type)?.value);
+  return { year: part("year"), month: part("month"), day: part("day") };
+}
+
+// Reads a YYYY-MM-DD date; null unless it is a real day
+export function parseCalendarDate(value: string): CalendarDate | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+  const [year, month, day] = match.slice(1).map(Number);
+  const check = new Date(Date.UTC(year, month - 1, day));
+  return check.getUTCMonth() === month - 1 && check.getUTCDate() === day
+    ? { year, month, day }
+    : null;
+}
+
+export function formatCalendarDate({ year, month, day }: CalendarDate) {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
@@ -0,0 +1,31 @@
+// What to do when an upload matches a photo already in the user's library:
+// skip it, add a new photo to the album that reuses the stored files, or
+// upload it again as an independent copy.
+export type DuplicateStrategy = "skip" | "link" | "allow";
+
+export const DEFAULT_DUPLICATE_STRATEGY: DuplicateStrategy = "skip";
+
+export function parseDuplicateStrategy(
+  value: unknown,
+): DuplicateStrategy | null {
+  if (value === undefined || value === null || value === "") {
+    return DEFAULT_DUPLICATE_STRATEGY;
+  }
+  return value === "skip" || value === "link" || value === "allow"
+    ? value
+    : null;
+}
+
+export function isContentHash(value: unknown): value is string {
+  return typeof value === "string" && /^[0-9a-f]{64}$/.test(value);
+}
+
+// SHA-256 of the given bytes as lowercase hex. Works in the browser and
+// in the Worker.
+export async function sha256Hex(data: ArrayBuffer | Blob): Promise<string> {
+  const bytes = data instanceof Blob ? await data.arrayBuffer() : data;
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
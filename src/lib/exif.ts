@@ -0,0 +1,469 @@
+// Minimal EXIF reader for JPEG, WebP and HEIC/HEIF files. It only decodes
+// the tags the app uses plus simple scalar values for the raw dump, and is
+// shared between the browser (before compression strips EXIF) and the API.
+
+export type ExifValue = string | number | number[];
+
+export interface ExifData {
+  // ISO 8601 capture time. Without an offset tag the camera's wall clock
+  // time is stored as if it were UTC.
+  takenAt?: string;
+  latitude?: number;
+  longitude?: number;
+  altitude?: number;
+  orientation?: number;
+  make?: string;
+  model?: string;
+  lensModel?: string;
+  raw: Record<string, ExifValue>;
+}
+
+const TAG_NAMES: Record<number, string> = {
+  0x010f: "Make",
+  0x0110: "Model",
+  0x0112: "Orientation",
+  0x0131: "Software",
+  0x0132: "DateTime",
+  0x829a: "ExposureTime",
+  0x829d: "FNumber",
+  0x8827: "ISO",
+  0x9003: "DateTimeOriginal",
+  0x9004: "DateTimeDigitized",
+  0x9010: "OffsetTime",
+  0x9011: "OffsetTimeOriginal",
+  0x9201: "ShutterSpeedValue",
+  0x9202: "ApertureValue",
+  0x9209: "Flash",
+  0x920a: "FocalLength",
+  0xa002: "PixelXDimension",
+  0xa003: "PixelYDimension",
+  0xa405: "FocalLengthIn35mmFilm",
+  0xa433: "LensMake",
+  0xa434: "LensModel",
+};
+
+const GPS_TAG_NAMES: Record<number, string> = {
+  0x0001: "GPSLatitudeRef",
+  0x0002: "GPSLatitude",
+  0x0003: "GPSLongitudeRef",
+  0x0004: "GPSLongitude",
+  0x0005: "GPSAltitudeRef",
+  0x0006: "GPSAltitude",
+  0x0007: "GPSTimeStamp",
+  0x001d: "GPSDateStamp",
+};
+
+const EXIF_IFD_POINTER = 0x8769;
+const GPS_IFD_POINTER = 0x8825;
+
+// Byte sizes of the TIFF field types
+const TYPE_SIZES: Record<number, number> = {
+  1: 1, // BYTE
+  2: 1, // ASCII
+  3: 2, // SHORT
+  4: 4, // LONG
+  5: 8, // RATIONAL
+  7: 1, // UNDEFINED
+  9: 4, // SLONG
+  10: 8, // SRATIONAL
+};
+
+const MAX_STRING_LENGTH = 256;
+const MAX_ARRAY_LENGTH = 16;
+
+function readAscii(view: DataView, offset: number, length: number): string {
+  let result = "";
+  for (let i = 0; i < length && offset + i < view.byteLength; i++) {
+    const code = view.getUint8(offset + i);
+    if (code === 0) break;
+    result += String.fromCharCode(code);
+  }
+  return result;
+}
+
+// Reads the value of one IFD entry, or undefined for unsupported types
+function readTagValue(
+  view: DataView,
+  tiffStart: number,
+  entryOffset: number,
+  littleEndian: boolean,
+): ExifValue | undefined {
+  const type = view.getUint16(entryOffset + 2, littleEndian);
+  const count = view.getUint32(entryOffset + 4, littleEndian);
+  const size = TYPE_SIZES[type];
+  if (!size) return undefined;
+
+  const valueOffset =
+    size * count > 4
+      ? tiffStart + view.getUint32(entryOffset + 8, littleEndian)
+      : entryOffset + 8;
+  if (valueOffset + size * count > view.byteLength) return undefined;
+
+  if (type === 2) {
+    const length = Math.min(count, MAX_STRING_LENGTH);
+    return readAscii(view, valueOffset, length).trim();
+  }
+  if (type === 7) {
+    // Opaque blobs (MakerNote, UserComment...) are not kept
+    return undefined;
+  }
+
+  const values: number[] = [];
+  for (let i = 0; i < Math.min(count, MAX_ARRAY_LENGTH); i++) {
+    const offset = valueOffset + i * size;
+    switch (type) {
+      case 1:
+        values.push(view.getUint8(offset));
+        break;
+      case 3:
+        values.push(view.getUint16(offset, littleEndian));
+        break;
+      case 4:
+        values.push(view.getUint32(offset, littleEndian));
+        break;
+      case 9:
+        values.push(view.getInt32(offset, littleEndian));
+        break;
+      case 5:
+      case 10: {
+        const read =
+          type === 5 ? view.getUint32.bind(view) : view.getInt32.bind(view);
+        const numerator = read(offset, littleEndian);
+        const denominator = read(offset + 4, littleEndian);
+        values.push(denominator === 0 ? 0 : numerator / denominator);
+        break;
+      }
+    }
+  }
+  return values.length === 1 ? values[0] : values;
+}
+
+function readIfd(
+  view: DataView,
+  tiffStart: number,
+  ifdOffset: number,
+  littleEndian: boolean,
+  names: Record<number, string>,
+  into: Record<string, ExifValue>,
+  pointers: Record<number, number>,
+): void {
+  const start = tiffStart + ifdOffset;
+  if (start + 2 > view.byteLength) return;
+
+  const entries = view.getUint16(start, littleEndian);
+  for (let i = 0; i < entries; i++) {
+    const entryOffset = start + 2 + i * 12;
+    if (entryOffset + 12 > view.byteLength) return;
+
+    const tag = view.getUint16(entryOffset, littleEndian);
+    if (tag === EXIF_IFD_POINTER || tag === GPS_IFD_POINTER) {
+      pointers[tag] = view.getUint32(entryOffset + 8, littleEndian);
+      continue;
+    }
+
+    const value = readTagValue(view, tiffStart, entryOffset, littleEndian);
+    if (value === undefined || value === "") continue;
+    into[names[tag] ?? `0x${tag.toString(16).padStart(4, "0")}`] = value;
+  }
+}
+
+// Parses a TIFF structure (the payload of every EXIF container)
+function parseTiff(
+  view: DataView,
+  tiffStart: number,
+): Record<string, ExifValue> {
+  const byteOrder = view.getUint16(tiffStart, false);
+  if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) return {};
+  const littleEndian = byteOrder === 0x4949;
+  if (view.getUint16(tiffStart + 2, littleEndian) !== 42) return {};
+
+  const raw: Record<string, ExifValue> = {};
+  const pointers: Record<number, number> = {};
+  readIfd(
+    view,
+    tiffStart,
+    view.getUint32(tiffStart + 4, littleEndian),
+    littleEndian,
+    TAG_NAMES,
+    raw,
+    pointers,
+  );
+  if (pointers[EXIF_IFD_POINTER]) {
+    readIfd(
+      view,
+      tiffStart,
+      pointers[EXIF_IFD_POINTER],
+      littleEndian,
+      TAG_NAMES,
+      raw,
+      {},
+    );
+  }
+  if (pointers[GPS_IFD_POINTER]) {
+    readIfd(
+      view,
+      tiffStart,
+      pointers[GPS_IFD_POINTER],
+      littleEndian,
+      GPS_TAG_NAMES,
+      raw,
+      {},
+    );
+  }
+  return raw;
+}
+
+function findJpegTiff(view: DataView): number | null {
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    if (view.getUint8(offset) !== 0xff) return null;
+    const marker = view.getUint8(offset + 1);
+    const length = view.getUint16(offset + 2, false);
+    // APP1 segment starting with "Exif\0\0"
+    if (marker === 0xe1 && readAscii(view, offset + 4, 4) === "Exif") {
+      return offset + 10;
+    }
+    // Start of scan: no metadata after this point
+    if (marker === 0xda) return null;
+    offset += 2 + length;
+  }
+  return null;
+}
+
+function findWebpTiff(view: DataView): number | null {
+  let offset = 12;
+  while (offset + 8 <= view.byteLength) {
+    const chunk = readAscii(view, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    if (chunk === "EXIF") {
+      const start = offset + 8;
+      // Some encoders keep the JPEG "Exif\0\0" prefix inside the chunk
+      return readAscii(view, start, 4) === "Exif" ? start + 6 : start;
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return null;
+}
+
+interface IsoBox {
+  type: string;
+  start: number;
+  contentStart: number;
+  end: number;
+}
+
+function readBoxes(view: DataView, start: number, end: number): IsoBox[] {
+  const boxes: IsoBox[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset, false);
+    const type = readAscii(view, offset + 4, 4);
+    let headerSize = 8;
+    if (size === 1) {
+      size = Number(view.getBigUint64(offset + 8, false));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize) break;
+    boxes.push({
+      type,
+      start: offset,
+      contentStart: offset + headerSize,
+      end: Math.min(offset + size, end),
+    });
+    offset += size;
+  }
+  return boxes;
+}
+
+function readSizedUint(view: DataView, offset: number, size: number): number {
+  if (size === 0) return 0;
+  if (size === 2) return view.getUint16(offset, false);
+  if (size === 4) return view.getUint32(offset, false);
+  return Number(view.getBigUint64(offset, false));
+}
+
+// HEIC/HEIF store EXIF as an item of type "Exif" inside the meta box
+function findHeifTiff(view: DataView): number | null {
+  const meta = readBoxes(view, 0, view.byteLength).find(
+    (box) => box.type === "meta",
+  );
+  if (!meta) return null;
+
+  // meta is a full box: skip version + flags
+  const children = readBoxes(view, meta.contentStart + 4, meta.end);
+  const iinf = children.find((box) => box.type === "iinf");
+  const iloc = children.find((box) => box.type === "iloc");
+  if (!iinf || !iloc) return null;
+
+  let exifItemId: number | null = null;
+  const iinfVersion = view.getUint8(iinf.contentStart);
+  const entriesStart = iinf.contentStart + 4 + (iinfVersion === 0 ? 2 : 4);
+  for (const infe of readBoxes(view, entriesStart, iinf.end)) {
+    if (infe.type !== "infe") continue;
+    const version = view.getUint8(infe.contentStart);
+    if (version < 2) continue;
+    const itemId =
+      version === 2
+        ? view.getUint16(infe.contentStart + 4, false)
+        : view.getUint32(infe.contentStart + 4, false);
+    const typeOffset = infe.contentStart + 4 + (version === 2 ? 2 : 4) + 2;
+    if (readAscii(view, typeOffset, 4) === "Exif") {
+      exifItemId = itemId;
+      break;
+    }
+  }
+  if (exifItemId === null) return null;
+
+  const version = view.getUint8(iloc.contentStart);
+  const sizes = view.getUint8(iloc.contentStart + 4);
+  const offsetSize = sizes >> 4;
+  const lengthSize = sizes & 0x0f;
+  const sizes2 = view.getUint8(iloc.contentStart + 5);
+  const baseOffsetSize = sizes2 >> 4;
+  const indexSize = version === 1 || version === 2 ? sizes2 & 0x0f : 0;
+
+  const idSize = version < 2 ? 2 : 4;
+  let offset = iloc.contentStart + 6;
+  const itemCount = readSizedUint(view, offset, idSize);
+  offset += idSize;
+
+  for (let i = 0; i < itemCount; i++) {
+    const itemId = readSizedUint(view, offset, idSize);
+    offset += idSize;
+    if (version === 1 || version === 2) offset += 2; // construction method
+    offset += 2; // data reference index
+    const baseOffset = readSizedUint(view, offset, baseOffsetSize);
+    offset += baseOffsetSize;
+    const extentCount = view.getUint16(offset, false);
+    offset += 2;
+
+    let firstExtentOffset: number | null = null;
+    for (let e = 0; e < extentCount; e++) {
+      offset += indexSize;
+      const extentOffset = readSizedUint(view, offset, offsetSize);
+      offset += offsetSize + lengthSize;
+      if (firstExtentOffset === null) firstExtentOffset = extentOffset;
+    }
+
+    if (itemId === exifItemId && firstExtentOffset !== null) {
+      const itemStart = baseOffset + firstExtentOffset;
+      if (itemStart + 4 > view.byteLength) return null;
+      // The item starts with the offset of the TIFF header within it
+      return itemStart + 4 + view.getUint32(itemStart, false);
+    }
+  }
+  return null;
+}
+
+function findTiffStart(view: DataView): number | null {
+  if (view.byteLength < 12) return null;
+  if (view.getUint16(0, false) === 0xffd8) return findJpegTiff(view);
+  if (readAscii(view, 0, 4) === "RIFF" && readAscii(view, 8, 4) === "WEBP") {
+    return findWebpTiff(view);
+  }
+  if (readAscii(view, 4, 4) === "ftyp") return findHeifTiff(view);
+  return null;
+}
+
+function toDegrees(value: ExifValue | undefined, ref: ExifValue | undefined) {
+  if (!Array.isArray(value) || value.length < 3) return undefined;
+  const degrees = value[0] + value[1] / 60 + value[2] / 3600;
+  return ref === "S" || ref === "W" ? -degrees : degrees;
+}
+
+function toIsoDate(
+  value: ExifValue | undefined,
+  offset: ExifValue | undefined,
+): string | undefined {
+  if (typeof value !== "string") return undefined;
+  const match = /^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/.exec(
+    value,
+  );
+  if (!match) return undefined;
+  const [, year, month, day, hour, minute, second] = match;
+  const zone =
+    typeof offset === "string" && /^[+-]\d{2}:\d{2}$/.test(offset)
+      ? offset
+      : "Z";
+  const date = new Date(
+    `${year}-${month}-${day}T${hour}:${minute}:${second}${zone}`,
+  );
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function summarize(raw: Record<string, ExifValue>): ExifData {
+  const latitude = toDegrees(raw.GPSLatitude, raw.GPSLatitudeRef);
+  const longitude = toDegrees(raw.GPSLongitude, raw.GPSLongitudeRef);
+  const altitude =
+    typeof raw.GPSAltitude === "number"
+      ? raw.GPSAltitudeRef === 1
+        ? -raw.GPSAltitude
+        : raw.GPSAltitude
+      : undefined;
+
+  return {
+    takenAt:
+      toIsoDate(raw.DateTimeOriginal, raw.OffsetTimeOriginal) ??
+      toIsoDate(raw.DateTime, raw.OffsetTime),
+    // 0,0 is what many devices write when they have no fix
+    latitude: latitude || longitude ? latitude : undefined,
+    longitude: latitude || longitude ? longitude : undefined,
+    altitude,
+    orientation:
+      typeof raw.Orientation === "number" ? raw.Orientation : undefined,
+    make: typeof raw.Make === "string" ? raw.Make : undefined,
+    model: typeof raw.Model === "string" ? raw.Model : undefined,
+    lensModel: typeof raw.LensModel === "string" ? raw.LensModel : undefined,
+    raw,
+  };
+}
+
+export function parseExif(data: ArrayBuffer): ExifData | null {
+  try {
+    const view = new DataView(data);
+    const tiffStart = findTiffStart(view);
+    if (tiffStart === null) return null;
+
+    const raw = parseTiff(view, tiffStart);
+    if (Object.keys(raw).length === 0) return null;
+    return summarize(raw);
+  } catch (error) {
+    console.warn("[exif] Failed to parse metadata:", error);
+    return null;
+  }
+}
+
+// Reads EXIF in the browser, before compression re-encodes the file
+export async function readExif(file: Blob): Promise<ExifData | null> {
+  return parseExif(await file.arrayBuffer());
+}
+
+// Validates EXIF sent by a client alongside a re-encoded upload
+export function parseClientExif(value: string | null): ExifData | null {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(value) as { raw?: unknown };
+    if (!parsed || typeof parsed.raw !== "object" || parsed.raw === null) {
+      return null;
+    }
+
+    const raw: Record<string, ExifValue> = {};
+    for (const [key, entry] of Object.entries(parsed.raw)) {
+      if (
+        typeof entry === "number" ||
+        (typeof entry === "string" && entry.length <= MAX_STRING_LENGTH) ||
+        (Array.isArray(entry) &&
+          entry.length <= MAX_ARRAY_LENGTH &&
+          entry.every((item) => typeof item === "number"))
+      ) {
+        raw[key.substring(0, 64)] = entry;
+      }
+    }
+    // Derived fields are recomputed rather than trusted
+    return summarize(raw);
+  } catch {
+    return null;
+  }
+}
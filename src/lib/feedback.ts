@@ -0,0 +1,287 @@
+import { and, asc, eq, inArray, isNull, sql, type SQL } from "drizzle-orm";
+import { randomUUID } from "crypto";
+import { D1_BATCH_SIZE, type Database } from "@/db";
+import { comments, reactions, users } from "@/db/schema";
+import {
+  REACTION_EMOJIS,
+  type Comment,
+  type FeedbackCounts,
+  type FeedbackTarget,
+  type FeedbackTargetType,
+  type ReactionEmoji,
+  type ReactionSummary,
+} from "@/lib/reactions";
+
+// Comments and reactions as stored, for photos and stories alike (see
+// reactions.ts). Routes check access to the photo or story first.
+
+// Who reacts: a member, or a visitor of a share link
+export type Reactor =
+  | { userId: string }
+  | { sharedLinkId: string; guestId: string };
+
+// Who adds a reaction; visitors give a display name
+export type NewReactor =
+  | { userId: string }
+  | { sharedLinkId: string; guestId: string; displayName: string };
+
+function onCommentTarget(target: FeedbackTarget): SQL {
+  return target.type === "photo"
+    ? eq(comments.photoId, target.id)
+    : eq(comments.storyId, target.id);
+}
+
+function onReactionTarget(target: FeedbackTarget): SQL {
+  return target.type === "photo"
+    ? eq(reactions.photoId, target.id)
+    : eq(reactions.storyId, target.id);
+}
+
+function targetValues(target: FeedbackTarget) {
+  return target.type === "photo"
+    ? { photoId: target.id }
+    : { storyId: target.id };
+}
+
+function isReactor(reactor: Reactor): SQL | undefined {
+  return "userId" in reactor
+    ? eq(reactions.userId, reactor.userId)
+    : and(
+        isNull(reactions.userId),
+        eq(reactions.sharedLinkId, reactor.sharedLinkId),
+        eq(reactions.guestId, reactor.guestId),
+      );
+}
+
+const commentColumns = {
+  id: comments.id,
+  userId: comments.userId,
+  username: users.username,
+  body: comments.body,
+  createdAt: comments.createdAt,
+  updatedAt: comments.updatedAt,
+};
+
+function toComment(row: {
+  id: string;
+  userId: string;
+  username: string;
+  body: string;
+  createdAt: Date;
+  updatedAt: Date;
+}): Comment {
+  return {
+    ...row,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+// The comments on a photo or story, oldest first
+export async function listComments(
+  db: Database,
+  target: FeedbackTarget,
+): Promise<Comment[]> {
+  const rows = await db
+    .select(commentColumns)
+    .from(comments)
+    .innerJoin(users, eq(users.id, comments.userId))
+    .where(onCommentTarget(target))
+    .orderBy(asc(comments.createdAt), asc(comments.id));
+  return rows.map(toComment);
+}
+
+// The photo or story a comment is on, and who wrote it
+export async function findCommentTarget(
+  db: Database,
+  id: string,
+): Promise<{ target: FeedbackTarget; userId: string } | null> {
+  const rows = await db
+    .select({
+      photoId: comments.photoId,
+      storyId: comments.storyId,
+      userId: comments.userId,
+    })
+    .from(comments)
+    .where(eq(comments.id, id))
+    .limit(1);
+  if (rows.length === 0) return null;
+
+  const { photoId, storyId, userId } = rows[0];
+  const target: FeedbackTarget = photoId
+    ? { type: "photo", id: photoId }
+    : { type: "story", id: storyId ?? "" };
+  return { target, userId };
+}
+
+export async function getComment(
+  db: Database,
+  id: string,
+): Promise<Comment | null> {
+  const rows = await db
+    .select(commentColumns)
+    .from(comments)
+    .innerJoin(users, eq(users.id, comments.userId))
+    .where(eq(comments.id, id))
+    .limit(1);
+  return rows[0] ? toComment(rows[0]) : null;
+}
+
+export async function addComment(
+  db: Database,
+  target: FeedbackTarget,
+  userId: string,
+  body: string,
+): Promise<Comment | null> {
+  const id = randomUUID();
+  // The same time for both, so the comment does not count as edited
+  const now = new Date();
+  await db.insert(comments).values({
+    id,
+    ...targetValues(target),
+    userId,
+    body,
+    createdAt: now,
+    updatedAt: now,
+  });
+  return getComment(db, id);
+}
+
+export async function updateComment(
+  db: Database,
+  id: string,
+  body: string,
+): Promise<Comment | null> {
+  await db
+    .update(comments)
+    .set({ body, updatedAt: new Date() })
+    .where(eq(comments.id, id));
+  return getComment(db, id);
+}
+
+export async function deleteComment(db: Database, id: string) {
+  await db.delete(comments).where(eq(comments.id, id));
+}
+
+// The reactions on a photo or story, one summary per emoji in the order of
+// REACTION_EMOJIS. `reactor` decides `reacted`.
+export async function listReactions(
+  db: Database,
+  target: FeedbackTarget,
+  reactor: Reactor | null,
+): Promise<ReactionSummary[]> {
+  const rows = await db
+    .select({
+      emoji: reactions.emoji,
+      userId: reactions.userId,
+      sharedLinkId: reactions.sharedLinkId,
+      guestId: reactions.guestId,
+      name: sql<string>`coalesce(${users.username}, ${reactions.displayName})`,
+    })
+    .from(reactions)
+    .leftJoin(users, eq(users.id, reactions.userId))
+    .where(onReactionTarget(target))
+    .orderBy(asc(reactions.createdAt), asc(reactions.id));
+
+  const isMine = (row: (typeof rows)[number]) =>
+    reactor !== null &&
+    ("userId" in reactor
+      ? row.userId === reactor.userId
+      : row.userId === null &&
+        row.sharedLinkId === reactor.sharedLinkId &&
+        row.guestId === reactor.guestId);
+
+  return REACTION_EMOJIS.flatMap((emoji) => {
+    const matching = rows.filter((row) => row.emoji === emoji);
+    if (matching.length === 0) return [];
+    return [
+      {
+        emoji,
+        count: matching.length,
+        names: matching.map((row) => row.name),
+        reacted: matching.some(isMine),
+      },
+    ];
+  });
+}
+
+// Adds a reaction; reacting twice with the same emoji keeps one
+export async function addReaction(
+  db: Database,
+  target: FeedbackTarget,
+  emoji: ReactionEmoji,
+  reactor: NewReactor,
+): Promise<void> {
+  await db
+    .insert(reactions)
+    .values({
+      id: randomUUID(),
+      ...targetValues(target),
+      emoji,
+      ...reactor,
+      createdAt: new Date(),
+    })
+    .onConflictDoNothing();
+}
+
+export async function removeReaction(
+  db: Database,
+  target: FeedbackTarget,
+  emoji: ReactionEmoji,
+  reactor: Reactor,
+): Promise<void> {
+  await db
+    .delete(reactions)
+    .where(
+      and(
+        onReactionTarget(target),
+        eq(reactions.emoji, emoji),
+        isReactor(reactor),
+      ),
+    );
+}
+
+// Adds the number of comments and reactions to photos or stories
+export async function withFeedbackCounts<T extends { id: string }>(
+  db: Database,
+  type: FeedbackTargetType,
+  rows: T[],
+): Promise<(T & FeedbackCounts)[]> {
+  const commentTarget = type === "photo" ? comments.photoId : comments.storyId;
+  const reactionTarget =
+    type === "photo" ? reactions.photoId : reactions.storyId;
+  const counts = new Map<string, FeedbackCounts>();
+  const countOf = (id: string) => {
+    const found = counts.get(id) ?? { commentCount: 0, reactionCount: 0 };
+    counts.set(id, found);
+    return found;
+  };
+
+  const ids = rows.map((row) => row.id);
+  for (let i = 0; i < ids.length; i += D1_BATCH_SIZE) {
+    const batch = ids.slice(i, i + D1_BATCH_SIZE);
+    const [commentCounts, reactionCounts] = await Promise.all([
+      db
+        .select({ id: commentTarget, count: sql<number>`count(*)` })
+        .from(comments)
+        .where(inArray(commentTarget, batch))
+        .groupBy(commentTarget),
+      db
+        .select({ id: reactionTarget, count: sql<number>`count(*)` })
+        .from(reactions)
+        .where(inArray(reactionTarget, batch))
+        .groupBy(reactionTarget),
+    ]);
+    for (const { id, count } of commentCounts) {
+      if (id) countOf(id).commentCount = count;
+    }
+    for (const { id, count } of reactionCounts) {
+      if (id) countOf(id).reactionCount = count;
+    }
+  }
+
+  return rows.map((row) => ({
+    ...row,
+    ...(counts.get(row.id) ?? { commentCount: 0, reactionCount: 0 }),
+  }));
+}
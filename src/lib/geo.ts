@@ -0,0 +1,231 @@
+import { feature } from "topojson-client";
+
+// Map math for the photo map. Places are projected with Web Mercator onto a
+// square "world" of WORLD_SIZE units; a view scales and shifts that square
+// onto the screen. The basemap is the Natural Earth 1:110m country outlines
+// from world-atlas, bundled with the app so the map needs no tile server.
+
+export const WORLD_SIZE = 1024;
+
+// Web Mercator cannot show the poles; latitudes are clamped to this
+const MAX_LATITUDE = 85.05112878;
+
+// Screen pixels per world unit at the most zoomed-out and zoomed-in views
+export const MIN_SCALE = 0.25;
+export const MAX_SCALE = 4096;
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface GeoPoint {
+  latitude: number | null;
+  longitude: number | null;
+}
+
+// Center of the view in world units and its scale in pixels per unit
+export interface MapView {
+  center: Point;
+  scale: number;
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+// Items drawn as one marker because they are close together on screen
+export interface Cluster<T> {
+  // Screen position: the average of the items
+  x: number;
+  y: number;
+  items: T[];
+}
+
+export function hasCoordinates<T extends GeoPoint>(
+  item: T,
+): item is T & { latitude: number; longitude: number } {
+  return (
+    typeof item.latitude === "number" &&
+    typeof item.longitude === "number" &&
+    Math.abs(item.latitude) <= 90 &&
+    Math.abs(item.longitude) <= 180
+  );
+}
+
+// World position of a latitude and longitude
+export function project(latitude: number, longitude: number): Point {
+  const lat = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, latitude));
+  const sin = Math.sin((lat * Math.PI) / 180);
+  return {
+    x: ((longitude + 180) / 360) * WORLD_SIZE,
+    y:
+      (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * WORLD_SIZE,
+  };
+}
+
+export function clampScale(scale: number): number {
+  return Math.max(MIN_SCALE, Math.min(MAX_SCALE, scale));
+}
+
+export function toScreen(point: Point, view: MapView, size: Size): Point {
+  return {
+    x: (point.x - view.center.x) * view.scale + size.width / 2,
+    y: (point.y - view.center.y) * view.scale + size.height / 2,
+  };
+}
+
+export function toWorld(point: Point, view: MapView, size: Size): Point {
+  return {
+    x: (point.x - size.width / 2) / view.scale + view.center.x,
+    y: (point.y - size.height / 2) / view.scale + view.center.y,
+  };
+}
+
+// View scaled by `factor` around a screen point, which stays in place
+export function zoomAround(
+  view: MapView,
+  size: Size,
+  anchor: Point,
+  factor: number,
+): MapView {
+  const scale = clampScale(view.scale * factor);
+  const world = toWorld(anchor, view, size);
+  return {
+    scale,
+    center: {
+      x: world.x - (anchor.x - size.width / 2) / scale,
+      y: world.y - (anchor.y - size.height / 2) / scale,
+    },
+  };
+}
+
+// View showing every point with `padding` pixels around them, or the whole
+// world when there are none. A single place gets a city-level zoom.
+export function fitView(points: Point[], size: Size, padding = 48): MapView {
+  if (points.length === 0) {
+    return {
+      center: { x: WORLD_SIZE / 2, y: WORLD_SIZE / 2 },
+      scale: clampScale(Math.min(size.width, size.height) / WORLD_SIZE),
+    };
+  }
+  const xs = points.map((point) => point.x);
+  const ys = points.map((point) => point.y);
+  const [minX, maxX] = [Math.min(...xs), Math.max(...xs)];
+  const [minY, maxY] = [Math.min(...ys), Math.max(...ys)];
+  const width = Math.max(size.width - padding * 2, 1);
+  const height = Math.max(size.height - padding * 2, 1);
+  const scale = Math.min(
+    width / Math.max(maxX - minX, 1e-6),
+    height / Math.max(maxY - minY, 1e-6),
+    // About a city across the screen
+    WORLD_SIZE / 4,
+  );
+  return {
+    center: { x: (minX + maxX) / 2, y: (minY + maxY) / 2 },
+    scale: clampScale(scale),
+  };
+}
+
+// Groups items whose screen positions lie within `radius` pixels of a
+// cluster's first item, in order
+export function clusterPoints<T>(
+  items: T[],
+  position: (item: T) => Point,
+  radius: number,
+): Cluster<T>[] {
+  const groups: { first: Point; points: Point[]; items: T[] }[] = [];
+  for (const item of items) {
+    const point = position(item);
+    const group = groups.find(
+      ({ first }) => Math.hypot(first.x - point.x, first.y - point.y) < radius,
+    );
+    if (group) {
+      group.points.push(point);
+      group.items.push(item);
+    } else {
+      groups.push({ first: point, points: [point], items: [item] });
+    }
+  }
+  return groups.map(({ points, items }) => ({
+    x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+    y: points.reduce((sum, point) => sum + point.y, 0) / points.length,
+    items,
+  }));
+}
+
+type Ring = number[][];
+
+// Rings crossing the antimeridian jump between 180 and -180 degrees. They
+// are made continuous, running past ±180, and repeated one world over so
+// that both halves show once the map is clipped to the world. A ring that
+// goes all the way around (Antarctica) is closed along the pole.
+function unwrapRing(ring: Ring): Ring[] {
+  const unwrapped: Ring = [];
+  let shift = 0;
+  ring.forEach(([longitude, latitude], index) => {
+    if (index > 0) {
+      const step = longitude - ring[index - 1][0];
+      if (step > 180) shift -= 360;
+      else if (step < -180) shift += 360;
+    }
+    unwrapped.push([longitude + shift, latitude]);
+  });
+  if (shift !== 0) {
+    const pole = ring[0][1] < 0 ? -90 : 90;
+    unwrapped.push(
+      [unwrapped[unwrapped.length - 1][0], pole],
+      [unwrapped[0][0], pole],
+    );
+  }
+
+  const longitudes = unwrapped.map(([longitude]) => longitude);
+  const rings = [unwrapped];
+  for (const offset of [-360, 360]) {
+    const crosses =
+      offset < 0
+        ? Math.max(...longitudes) > 180
+        : Math.min(...longitudes) < -180;
+    if (crosses) {
+      rings.push(unwrapped.map(([lon, lat]) => [lon + offset, lat]));
+    }
+  }
+  return rings;
+}
+
+// SVG path data for a set of polygon rings, in world units
+function ringsToPath(rings: Ring[]): string {
+  return rings
+    .flatMap(unwrapRing)
+    .map(
+      (ring) =>
+        "M" +
+        ring
+          .map(([longitude, latitude]) => {
+            const { x, y } = project(latitude, longitude);
+            return `${x.toFixed(2)} ${y.toFixed(2)}`;
+          })
+          .join("L") +
+        "Z",
+    )
+    .join("");
+}
+
+// SVG path data of every country outline, in world units. The outlines are
+// loaded on first use so they stay out of the main bundle.
+export async function loadBasemapPaths(): Promise<string[]> {
+  const { default: data } = await import("world-atlas/countries-110m.json");
+  const topology = data as unknown as TopoJSON.Topology;
+  const countries = feature(
+    topology,
+    topology.objects.countries as TopoJSON.GeometryCollection,
+  );
+  return countries.features.map(({ geometry }) => {
+    if (geometry.type === "Polygon") return ringsToPath(geometry.coordinates);
+    if (geometry.type === "MultiPolygon") {
+      return ringsToPath(geometry.coordinates.flat());
+    }
+    return "";
+  });
+}
@@ -1,13 +1,50 @@
+import {
+  detectBlobImageFormat,
+  isAnimatedGif,
+  withExtension,
+} from "@/lib/imageFormat";
+
+// Converts formats most browsers cannot display (HEIC/HEIF, the iPhone
+// default) to JPEG before uploading. Other files are returned unchanged.
+// The converter is large, so it is only loaded when a HEIC file shows up.
+export async function toDisplayableImage(file: File): Promise<File> {
+  const format = await detectBlobImageFormat(file);
+  if (!format || format.displayable) return file;
+
+  const { default: heic2any } = await import("heic2any");
+  const converted = await heic2any({
+    blob: file,
+    toType: "image/jpeg",
+    quality: 0.92,
+  });
+  const blob = Array.isArray(converted) ? converted[0] : converted;
+  return new File([blob], withExtension(file.name, "jpg"), {
+    type: "image/jpeg",
+    lastModified: file.lastModified,
+  });
+}
+
 export async function compressImage(
   file: File,
   quality = 0.7,
   maxWidth = 1920,
 ): Promise<File> {
-  // If not an image, return original
-  if (!file.type.startsWith("image/")) {
+  // If not an image, return original. The type is sniffed from the bytes:
+  // browsers often leave it empty for HEIC or AVIF files.
+  const format = await detectBlobImageFormat(file);
+  if (!format || !format.displayable) {
     return file;
   }
 
+  // Drawing an animated GIF onto a canvas keeps only its first frame
+  if (format.format === "gif" && isAnimatedGif(await file.arrayBuffer())) {
+    return file;
+  }
+
+  // JPEGs stay JPEG; formats that may carry transparency are re-encoded as
+  // WebP so it is not flattened onto black
+  const outputType = format.format === "jpeg" ? "image/jpeg" : "image/webp";
+
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.readAsDataURL(file);
@@ -37,7 +74,8 @@ export async function compressImage(
         // Compress
         canvas.toBlob(
           (blob) => {
-            if (!blob) {
+            // Browsers without a WebP encoder silently return PNG
+            if (!blob || blob.type !== outputType) {
               resolve(file);
               return;
             }
@@ -47,13 +85,18 @@ export async function compressImage(
               return;
             }
 
-            const compressedFile = new File([blob], file.name, {
-              type: "image/jpeg",
-              lastModified: Date.now(),
-            });
+            const extension = outputType === "image/jpeg" ? "jpg" : "webp";
+            const compressedFile = new File(
+              [blob],
+              withExtension(file.name, extension),
+              {
+                type: outputType,
+                lastModified: Date.now(),
+              },
+            );
             resolve(compressedFile);
           },
-          "image/jpeg",
+          outputType,
           quality,
         );
       };
@@ -0,0 +1,215 @@
+// Identifies image formats from their leading bytes so uploads can be
+// validated regardless of the MIME type or file name the client reports.
+// Shared between the browser (to pick the upload content type and decide
+// what needs converting) and the API (to reject non-images).
+
+export type ImageFormat = "jpeg" | "png" | "gif" | "webp" | "avif" | "heic";
+
+export interface ImageFormatInfo {
+  format: ImageFormat;
+  mimeType: string;
+  extension: string;
+  // Whether common browsers can render the format in an <img> tag
+  displayable: boolean;
+}
+
+export const IMAGE_FORMATS: Record<ImageFormat, ImageFormatInfo> = {
+  jpeg: {
+    format: "jpeg",
+    mimeType: "image/jpeg",
+    extension: "jpg",
+    displayable: true,
+  },
+  png: {
+    format: "png",
+    mimeType: "image/png",
+    extension: "png",
+    displayable: true,
+  },
+  gif: {
+    format: "gif",
+    mimeType: "image/gif",
+    extension: "gif",
+    displayable: true,
+  },
+  webp: {
+    format: "webp",
+    mimeType: "image/webp",
+    extension: "webp",
+    displayable: true,
+  },
+  avif: {
+    format: "avif",
+    mimeType: "image/avif",
+    extension: "avif",
+    displayable: true,
+  },
+  // Only Safari renders HEIC/HEIF; elsewhere it has to be converted
+  heic: {
+    format: "heic",
+    mimeType: "image/heic",
+    extension: "heic",
+    displayable: false,
+  },
+};
+
+// Other MIME types browsers and clients report for the same formats
+const MIME_TYPE_ALIASES: Record<string, ImageFormat> = {
+  "image/jpg": "jpeg",
+  "image/heif": "heic",
+  "image/heic-sequence": "heic",
+  "image/heif-sequence": "heic",
+};
+
+// Error returned by the upload endpoints for anything that is not an image
+export const UNSUPPORTED_IMAGE_ERROR = {
+  error: "Only JPEG, PNG, GIF, WebP, AVIF and HEIC images can be uploaded",
+  code: "UNSUPPORTED_MEDIA_TYPE",
+};
+
+// Enough bytes to cover every signature below, including the ftyp brands
+export const IMAGE_SIGNATURE_LENGTH = 64;
+
+const AVIF_BRANDS = new Set(["avif", "avis"]);
+const HEIF_BRANDS = new Set([
+  "heic",
+  "heix",
+  "hevc",
+  "hevx",
+  "heim",
+  "heis",
+  "hevm",
+  "hevs",
+  "mif1",
+  "msf1",
+]);
+
+export function ascii(
+  bytes: Uint8Array,
+  offset: number,
+  length: number,
+): string {
+  let result = "";
+  for (let i = offset; i < offset + length && i < bytes.length; i++) {
+    result += String.fromCharCode(bytes[i]);
+  }
+  return result;
+}
+
+function startsWith(bytes: Uint8Array, signature: number[]): boolean {
+  return signature.every((byte, i) => bytes[i] === byte);
+}
+
+// AVIF and HEIF are both ISO-BMFF files; the major and compatible brands in
+// the leading ftyp box tell them apart. AVIF files usually also list mif1,
+// so AVIF brands are checked first.
+function detectIsoBmff(bytes: Uint8Array): ImageFormat | null {
+  if (ascii(bytes, 4, 4) !== "ftyp") return null;
+
+  const boxSize =
+    ((bytes[0] << 24) | (bytes[1] << 16) | (bytes[2] << 8) | bytes[3]) >>> 0;
+  const end = Math.min(boxSize, bytes.length);
+  const brands = [ascii(bytes, 8, 4)];
+  // Skip the minor version that follows the major brand
+  for (let offset = 16; offset + 4 <= end; offset += 4) {
+    brands.push(ascii(bytes, offset, 4));
+  }
+
+  if (brands.some((brand) => AVIF_BRANDS.has(brand))) return "avif";
+  if (brands.some((brand) => HEIF_BRANDS.has(brand))) return "heic";
+  return null;
+}
+
+// Returns null for anything that is not one of the supported image formats
+export function detectImageFormat(
+  data: ArrayBuffer | Uint8Array,
+): ImageFormatInfo | null {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+
+  const header = ascii(bytes, 0, 6);
+  let format: ImageFormat | null = null;
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) {
+    format = "jpeg";
+  } else if (
+    startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+  ) {
+    format = "png";
+  } else if (header === "GIF87a" || header === "GIF89a") {
+    format = "gif";
+  } else if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 4) === "WEBP") {
+    format = "webp";
+  } else {
+    format = detectIsoBmff(bytes);
+  }
+
+  return format ? IMAGE_FORMATS[format] : null;
+}
+
+// Looks up the format for a MIME type reported by a client
+export function getImageFormatByMimeType(
+  mimeType: string | null | undefined,
+): ImageFormatInfo | null {
+  const type = mimeType?.split(";")[0].trim().toLowerCase();
+  if (!type) return null;
+  const format =
+    MIME_TYPE_ALIASES[type] ??
+    Object.values(IMAGE_FORMATS).find((info) => info.mimeType === type)
+      ?.format;
+  return format ? IMAGE_FORMATS[format] : null;
+}
+
+// Sniffs the format of a Blob/File from its first bytes
+export async function detectBlobImageFormat(
+  blob: Blob,
+): Promise<ImageFormatInfo | null> {
+  return detectImageFormat(
+    await blob.slice(0, IMAGE_SIGNATURE_LENGTH).arrayBuffer(),
+  );
+}
+
+// Counts image descriptors in a GIF; more than one frame means the GIF is
+// animated and must not be re-encoded through a canvas.
+export function isAnimatedGif(data: ArrayBuffer | Uint8Array): boolean {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  if (bytes.length < 13) return false;
+
+  let offset = 13;
+  // Global color table
+  if (bytes[10] & 0x80) offset += 3 * 2 ** ((bytes[10] & 0x07) + 1);
+
+  let frames = 0;
+  while (offset < bytes.length) {
+    const block = bytes[offset];
+    if (block === 0x2c) {
+      // Image descriptor
+      if (++frames > 1) return true;
+      const packed = bytes[offset + 9];
+      offset += 10;
+      if (packed & 0x80) offset += 3 * 2 ** ((packed & 0x07) + 1);
+      // LZW minimum code size, then data sub-blocks
+      offset += 1;
+      offset = skipSubBlocks(bytes, offset);
+    } else if (block === 0x21) {
+      // Extension: introducer, label, then data sub-blocks
+      offset = skipSubBlocks(bytes, offset + 2);
+    } else {
+      // Trailer (0x3b) or corrupt data
+      break;
+    }
+  }
+  return false;
+}
+
+function skipSubBlocks(bytes: Uint8Array, offset: number): number {
+  while (offset < bytes.length && bytes[offset] !== 0) {
+    offset += bytes[offset] + 1;
+  }
+  return offset + 1;
+}
+
+// Replaces the extension of a file name, e.g. when HEIC is converted to JPEG
+export function withExtension(fileName: string, extension: string): string {
+  const dot = fileName.lastIndexOf(".");
+  const base = dot > 0 ? fileName.substring(0, dot) : fileName;
+  return `${base}.${extension}`;
+}
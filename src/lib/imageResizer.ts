@@ -0,0 +1,401 @@
+import { decode as decodeJpeg, encode as encodeJpeg } from "jpeg-js";
+import type { StorageProvider } from "@/lib/storage";
+import {
+  PHOTO_VARIANT_SIZES,
+  type PhotoVariantName,
+  type PhotoVariants,
+} from "@/lib/photoVariants";
+import { detectImageFormat } from "@/lib/imageFormat";
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+export interface ResizedImage extends ImageSize {
+  data: ArrayBuffer;
+  contentType: string;
+}
+
+export interface ImageResizer {
+  // Returns null when the resizer cannot decode the image
+  getSize(data: ArrayBuffer): Promise<ImageSize | null>;
+  // `orientation` is the EXIF orientation of the input; the output is
+  // always upright and carries no EXIF.
+  resize(
+    data: ArrayBuffer,
+    maxDimension: number,
+    orientation?: number,
+  ): Promise<ResizedImage | null>;
+}
+
+function fitWithin(size: ImageSize, maxDimension: number): ImageSize {
+  const scale = Math.min(1, maxDimension / Math.max(size.width, size.height));
+  return {
+    width: Math.max(1, Math.round(size.width * scale)),
+    height: Math.max(1, Math.round(size.height * scale)),
+  };
+}
+
+function toStream(data: ArrayBuffer): ReadableStream<Uint8Array> {
+  return new Blob([data]).stream();
+}
+
+// Uses the Cloudflare Images binding (`IMAGES` in wrangler.jsonc)
+class CloudflareImagesResizer implements ImageResizer {
+  private images: ImagesBinding;
+
+  constructor(images: ImagesBinding) {
+    this.images = images;
+  }
+
+  async getSize(data: ArrayBuffer): Promise<ImageSize | null> {
+    try {
+      const info = await this.images.info(toStream(data));
+      if (!("width" in info)) return null;
+      return { width: info.width, height: info.height };
+    } catch (error) {
+      console.warn("[ImagesResizer] Could not read image info:", error);
+      return null;
+    }
+  }
+
+  // The Images binding applies the EXIF orientation on its own
+  async resize(
+    data: ArrayBuffer,
+    maxDimension: number,
+    orientation?: number,
+  ): Promise<ResizedImage | null> {
+    const size = await this.getSize(data);
+    if (!size) return null;
+
+    const target = fitWithin(orient(size, orientation), maxDimension);
+    const result = await this.images
+      .input(toStream(data))
+      .transform({
+        width: maxDimension,
+        height: maxDimension,
+        fit: "scale-down",
+      })
+      .output({ format: "image/webp", quality: 82 });
+
+    return {
+      data: await new Response(result.image()).arrayBuffer(),
+      contentType: result.contentType(),
+      ...target,
+    };
+  }
+}
+
+// A Worker has 128 MB of memory. The decoded RGBA pixels of a 12 MP photo
+// take 48 MB, and jpeg-js needs about as much again while decoding, so the
+// JS resizer leaves larger photos alone (they keep serving the original
+// upload) and jpeg-js gives up before the Worker would run out.
+const MAX_JS_RESIZE_PIXELS = 12_000_000;
+const MAX_JS_DECODE_MEMORY_MB = 96;
+
+// Reads the dimensions from the frame header of a JPEG without decoding it
+function readJpegSize(bytes: Uint8Array): ImageSize | null {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+  let offset = 2;
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+    // Padding before a marker
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    // Start of frame: SOF0-SOF15, except DHT, JPG and DAC
+    if (
+      marker >= 0xc0 &&
+      marker <= 0xcf &&
+      marker !== 0xc4 &&
+      marker !== 0xc8 &&
+      marker !== 0xcc
+    ) {
+      return {
+        height: (bytes[offset + 5] << 8) | bytes[offset + 6],
+        width: (bytes[offset + 7] << 8) | bytes[offset + 8],
+      };
+    }
+    offset += 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+  }
+  return null;
+}
+
+type DecodedJpeg = ImageSize & { data: Uint8Array };
+
+// Pure-JS fallback for local development. Only JPEG input is supported;
+// other formats keep serving the original upload. Each original is decoded
+// once however many derivatives are made from it.
+class JsImageResizer implements ImageResizer {
+  private decoded = new WeakMap<ArrayBuffer, DecodedJpeg | null>();
+
+  private decode(data: ArrayBuffer): DecodedJpeg | null {
+    if (this.decoded.has(data)) return this.decoded.get(data) ?? null;
+
+    let image: DecodedJpeg | null = null;
+    const size = readJpegSize(new Uint8Array(data));
+    if (size && size.width * size.height <= MAX_JS_RESIZE_PIXELS) {
+      try {
+        image = decodeJpeg(new Uint8Array(data), {
+          useTArray: true,
+          formatAsRGBA: true,
+          maxResolutionInMP: MAX_JS_RESIZE_PIXELS / 1_000_000,
+          maxMemoryUsageInMB: MAX_JS_DECODE_MEMORY_MB,
+        });
+      } catch (error) {
+        console.warn("[JsImageResizer] Could not decode image:", error);
+      }
+    }
+    this.decoded.set(data, image);
+    return image;
+  }
+
+  async getSize(data: ArrayBuffer): Promise<ImageSize | null> {
+    return readJpegSize(new Uint8Array(data));
+  }
+
+  async resize(
+    data: ArrayBuffer,
+    maxDimension: number,
+    orientation?: number,
+  ): Promise<ResizedImage | null> {
+    const image = this.decode(data);
+    if (!image) return null;
+
+    const scaled = fitWithin(image, maxDimension);
+    const pixels = boxDownscale(
+      image.data,
+      image.width,
+      image.height,
+      scaled.width,
+      scaled.height,
+    );
+    const target = orient(scaled, orientation);
+    const encoded = encodeJpeg(
+      { ...target, data: applyOrientation(pixels, scaled, orientation) },
+      82,
+    );
+
+    return {
+      data: encoded.data.buffer.slice(
+        encoded.data.byteOffset,
+        encoded.data.byteOffset + encoded.data.byteLength,
+      ) as ArrayBuffer,
+      contentType: "image/jpeg",
+      ...target,
+    };
+  }
+}
+
+// Dimensions after applying an EXIF orientation (5-8 swap the axes)
+function orient(size: ImageSize, orientation?: number): ImageSize {
+  return orientation && orientation >= 5
+    ? { width: size.height, height: size.width }
+    : size;
+}
+
+// Rotates/flips an RGBA buffer so that it displays upright
+function applyOrientation(
+  source: Uint8Array,
+  size: ImageSize,
+  orientation?: number,
+): Uint8Array {
+  if (!orientation || orientation === 1 || orientation > 8) return source;
+
+  const { width: w, height: h } = size;
+  const target = orient(size, orientation);
+  const output = new Uint8Array(source.length);
+
+  for (let dy = 0; dy < target.height; dy++) {
+    for (let dx = 0; dx < target.width; dx++) {
+      let sx: number;
+      let sy: number;
+      switch (orientation) {
+        case 2:
+          [sx, sy] = [w - 1 - dx, dy];
+          break;
+        case 3:
+          [sx, sy] = [w - 1 - dx, h - 1 - dy];
+          break;
+        case 4:
+          [sx, sy] = [dx, h - 1 - dy];
+          break;
+        case 5:
+          [sx, sy] = [dy, dx];
+          break;
+        case 6:
+          [sx, sy] = [dy, h - 1 - dx];
+          break;
+        case 7:
+          [sx, sy] = [w - 1 - dy, h - 1 - dx];
+          break;
+        default:
+          [sx, sy] = [w - 1 - dy, dx];
+      }
+      const from = (sy * w + sx) * 4;
+      const to = (dy * target.width + dx) * 4;
+      output.set(source.subarray(from, from + 4), to);
+    }
+  }
+
+  return output;
+}
+
+// Area-averaging downscale of an RGBA buffer
+function boxDownscale(
+  source: Uint8Array,
+  sourceWidth: number,
+  sourceHeight: number,
+  width: number,
+  height: number,
+): Uint8Array {
+  const output = new Uint8Array(width * height * 4);
+  const xRatio = sourceWidth / width;
+  const yRatio = sourceHeight / height;
+
+  for (let y = 0; y < height; y++) {
+    const yStart = Math.floor(y * yRatio);
+    const yEnd = Math.max(yStart + 1, Math.floor((y + 1) * yRatio));
+    for (let x = 0; x < width; x++) {
+      const xStart = Math.floor(x * xRatio);
+      const xEnd = Math.max(xStart + 1, Math.floor((x + 1) * xRatio));
+
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      for (let sy = yStart; sy < yEnd; sy++) {
+        for (let sx = xStart; sx < xEnd; sx++) {
+          const idx = (sy * sourceWidth + sx) * 4;
+          r += source[idx];
+          g += source[idx + 1];
+          b += source[idx + 2];
+          a += source[idx + 3];
+        }
+      }
+
+      const count = (yEnd - yStart) * (xEnd - xStart);
+      const out = (y * width + x) * 4;
+      output[out] = r / count;
+      output[out + 1] = g / count;
+      output[out + 2] = b / count;
+      output[out + 3] = a / count;
+    }
+  }
+
+  return output;
+}
+
+// Retries with the secondary resizer when the primary throws, so a missing
+// or misconfigured Images binding in `next dev` does not break uploads.
+class FallbackResizer implements ImageResizer {
+  private primary: ImageResizer;
+  private secondary: ImageResizer;
+
+  constructor(primary: ImageResizer, secondary: ImageResizer) {
+    this.primary = primary;
+    this.secondary = secondary;
+  }
+
+  async getSize(data: ArrayBuffer): Promise<ImageSize | null> {
+    try {
+      return await this.primary.getSize(data);
+    } catch {
+      return this.secondary.getSize(data);
+    }
+  }
+
+  async resize(
+    data: ArrayBuffer,
+    maxDimension: number,
+    orientation?: number,
+  ): Promise<ResizedImage | null> {
+    try {
+      return await this.primary.resize(data, maxDimension, orientation);
+    } catch (error) {
+      console.warn("[ImageResizer] Falling back to JS resizer:", error);
+      return this.secondary.resize(data, maxDimension, orientation);
+    }
+  }
+}
+
+// The Images binding is used when it is available; IMAGE_RESIZER=js forces
+// the pure-JS resizer (e.g. when running without Cloudflare bindings).
+export function getImageResizer(env: {
+  IMAGES?: ImagesBinding;
+  IMAGE_RESIZER?: string;
+}): ImageResizer {
+  const preferred = process.env.IMAGE_RESIZER || env.IMAGE_RESIZER;
+  if (env.IMAGES && preferred !== "js") {
+    return new FallbackResizer(
+      new CloudflareImagesResizer(env.IMAGES),
+      new JsImageResizer(),
+    );
+  }
+  return new JsImageResizer();
+}
+
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "image/png": "png",
+  "image/avif": "avif",
+};
+
+// Generates the thumbnail/medium/full derivatives of an uploaded image and
+// stores them as `<keyPrefix>-<size>.<ext>`. Sizes the original already fits
+// within point at the original object instead of storing a copy, unless
+// browsers cannot display the original (HEIC), in which case every size is
+// converted.
+export async function generatePhotoVariants(
+  storage: StorageProvider,
+  resizer: ImageResizer,
+  original: { key: string; data: ArrayBuffer; orientation?: number },
+  keyPrefix: string,
+): Promise<PhotoVariants> {
+  const variants: PhotoVariants = {};
+
+  const rawSize = await resizer.getSize(original.data);
+  if (!rawSize) return variants;
+  const size = orient(rawSize, original.orientation);
+  const displayable = detectImageFormat(original.data)?.displayable ?? true;
+
+  const names = Object.keys(PHOTO_VARIANT_SIZES) as PhotoVariantName[];
+  for (const name of names) {
+    const maxDimension = PHOTO_VARIANT_SIZES[name];
+
+    if (displayable && Math.max(size.width, size.height) <= maxDimension) {
+      variants[name] = {
+        key: original.key,
+        url: storage.getPublicUrl(original.key),
+        ...size,
+      };
+      continue;
+    }
+
+    const resized = await resizer.resize(
+      original.data,
+      maxDimension,
+      original.orientation,
+    );
+    if (!resized) continue;
+
+    const extension = EXTENSIONS[resized.contentType] ?? "img";
+    const key = `${keyPrefix}-${name}.${extension}`;
+    await storage.put(key, resized.data, {
+      httpMetadata: { contentType: resized.contentType },
+    });
+    variants[name] = {
+      key,
+      url: storage.getPublicUrl(key),
+      width: resized.width,
+      height: resized.height,
+      size: resized.data.byteLength,
+    };
+  }
+
+  return variants;
+}
@@ -0,0 +1,166 @@
+import { ascii } from "@/lib/imageFormat";
+
+// Media kinds a photos row can hold. Every row has a still image in `url`
+// (for videos a poster frame captured by the client); videos and Live
+// Photos also link a motion clip through `motionKey`/`motionUrl`.
+
+export const MEDIA_TYPES = ["image", "video", "live"] as const;
+
+export type MediaType = (typeof MEDIA_TYPES)[number];
+
+export function isMediaType(value: unknown): value is MediaType {
+  return MEDIA_TYPES.includes(value as MediaType);
+}
+
+// Clips above this size are rejected. Keeps a clip within a single signed
+// PUT.
+export const MAX_VIDEO_SIZE = 100 * 1024 * 1024; // 100MB
+
+// The fallback upload through POST /api/photos sends the clip through the
+// Worker, which caps request bodies at 100MB and holds the clip in memory,
+// so it takes smaller clips.
+export const MAX_FALLBACK_VIDEO_SIZE = 50 * 1024 * 1024; // 50MB
+
+export type VideoFormat = "mp4" | "mov" | "webm";
+
+export interface VideoFormatInfo {
+  format: VideoFormat;
+  mimeType: string;
+  extension: string;
+}
+
+export const VIDEO_FORMATS: Record<VideoFormat, VideoFormatInfo> = {
+  mp4: { format: "mp4", mimeType: "video/mp4", extension: "mp4" },
+  mov: { format: "mov", mimeType: "video/quicktime", extension: "mov" },
+  webm: { format: "webm", mimeType: "video/webm", extension: "webm" },
+};
+
+export const UNSUPPORTED_VIDEO_ERROR = {
+  error: "Only MP4, MOV and WebM clips can be uploaded",
+  code: "UNSUPPORTED_MEDIA_TYPE",
+};
+
+export const VIDEO_TOO_LARGE_ERROR = {
+  error: `Clips are limited to ${MAX_VIDEO_SIZE / 1024 / 1024}MB`,
+  code: "VIDEO_TOO_LARGE",
+};
+
+export const FALLBACK_VIDEO_TOO_LARGE_ERROR = {
+  error: `Clips uploaded through the server are limited to ${MAX_FALLBACK_VIDEO_SIZE / 1024 / 1024}MB`,
+  code: "VIDEO_TOO_LARGE",
+};
+
+// Enough bytes for the EBML magic or the ftyp box with a few brands
+export const VIDEO_SIGNATURE_LENGTH = 64;
+
+// ISO-BMFF brands of MP4 and QuickTime files. HEIF/AVIF stills use the
+// same container with image brands, which are not listed here.
+const MP4_BRANDS = new Set([
+  "isom",
+  "iso2",
+  "iso4",
+  "iso5",
+  "iso6",
+  "mp41",
+  "mp42",
+  "avc1",
+  "M4V ",
+  "M4VP",
+  "dash",
+  "3gp4",
+  "3gp5",
+  "3g2a",
+]);
+
+// Returns null for anything that is not one of the supported clip formats
+export function detectVideoFormat(
+  data: ArrayBuffer | Uint8Array,
+): VideoFormatInfo | null {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+
+  if (
+    bytes[0] === 0x1a &&
+    bytes[1] === 0x45 &&
+    bytes[2] === 0xdf &&
+    bytes[3] === 0xa3
+  ) {
+    return VIDEO_FORMATS.webm;
+  }
+
+  if (ascii(bytes, 4, 4) !== "ftyp") return null;
+  const major = ascii(bytes, 8, 4);
+  if (major === "qt  ") return VIDEO_FORMATS.mov;
+  return MP4_BRANDS.has(major) ? VIDEO_FORMATS.mp4 : null;
+}
+
+export async function detectBlobVideoFormat(
+  blob: Blob,
+): Promise<VideoFormatInfo | null> {
+  return detectVideoFormat(
+    await blob.slice(0, VIDEO_SIGNATURE_LENGTH).arrayBuffer(),
+  );
+}
+
+// Looks up the format for a MIME type reported by a client
+export function getVideoFormatByMimeType(
+  mimeType: string | null | undefined,
+): VideoFormatInfo | null {
+  const type = mimeType?.split(";")[0].trim().toLowerCase();
+  if (!type) return null;
+  return (
+    Object.values(VIDEO_FORMATS).find((info) => info.mimeType === type) ??
+    null
+  );
+}
+
+// `accept` value for file inputs that take photos and clips
+export const MEDIA_INPUT_ACCEPT = "image/*,video/*,.heic,.heif,.mov";
+
+// Cheap pre-filter for picked or dropped files, before their bytes are
+// checked. HEIC files often come without a MIME type.
+export function looksLikeMediaFile(file: File): boolean {
+  return (
+    file.type.startsWith("image/") ||
+    file.type.startsWith("video/") ||
+    /\.(heic|heif|mov)$/i.test(file.name)
+  );
+}
+
+function baseName(fileName: string): string {
+  const dot = fileName.lastIndexOf(".");
+  return (dot > 0 ? fileName.substring(0, dot) : fileName).toLowerCase();
+}
+
+function isClipName(file: File): boolean {
+  return file.type.startsWith("video/") || /\.mov$/i.test(file.name);
+}
+
+// Live Photos are exported as a still and a clip with the same base name
+// (IMG_0001.HEIC + IMG_0001.MOV). Pairs them up so the clip travels with
+// its still; every other file stays on its own.
+export function pairLivePhotos(
+  files: File[],
+): { file: File; motion?: File }[] {
+  const clips = new Map<string, File>();
+  for (const file of files) {
+    const name = baseName(file.name);
+    if (isClipName(file) && !clips.has(name)) clips.set(name, file);
+  }
+
+  const paired = new Set<File>();
+  const entries: { file: File; motion?: File }[] = [];
+  for (const file of files) {
+    if (isClipName(file)) continue;
+    const motion = clips.get(baseName(file.name));
+    if (motion && !paired.has(motion)) {
+      paired.add(motion);
+      entries.push({ file, motion });
+    } else {
+      entries.push({ file });
+    }
+  }
+  for (const file of files) {
+    if (isClipName(file) && !paired.has(file)) entries.push({ file });
+  }
+  return entries;
+}
@@ -0,0 +1,132 @@
+import {
+  and,
+  desc,
+  eq,
+  getTableColumns,
+  isNull,
+  sql,
+  type SQL,
+} from "drizzle-orm";
+import type { Database } from "@/db";
+import { albums, photos, stories } from "@/db/schema";
+import { isAlbumMember } from "@/lib/albumAccess";
+import {
+  formatCalendarDate,
+  parseCalendarDate,
+  startOfDay,
+  type CalendarDate,
+} from "@/lib/calendar";
+import { onTimeline, photoTime } from "@/lib/timeline";
+import { inActiveAlbum } from "@/lib/trash";
+
+// "On this day" finds photos (by capture date, else upload time) and
+// stories (by creation time) from the same calendar day in earlier years.
+// The day is taken in the viewer's IANA time zone: the bounds of that day
+// are worked out in JavaScript for every past year, so daylight saving
+// time is accounted for, and the rows are matched against those ranges.
+
+// Years looked back
+const MAX_YEARS_BACK = 50;
+
+const MAX_MEMORY_PHOTOS = 60;
+const MAX_MEMORY_STORIES = 20;
+
+// A past day's bounds in seconds since the epoch, end exclusive
+interface DayRange {
+  yearsAgo: number;
+  start: number;
+  end: number;
+}
+
+// The same day in each earlier year. Years where that day does not exist
+// (29 February) are skipped.
+function pastDayRanges(date: CalendarDate, timeZone: string): DayRange[] {
+  const ranges: DayRange[] = [];
+  for (let yearsAgo = 1; yearsAgo <= MAX_YEARS_BACK; yearsAgo++) {
+    const year = date.year - yearsAgo;
+    const day = parseCalendarDate(
+      formatCalendarDate({ year, month: date.month, day: date.day }),
+    );
+    if (!day) continue;
+    const start = startOfDay(year, day.month, day.day, timeZone);
+    const end = startOfDay(year, day.month, day.day + 1, timeZone);
+    ranges.push({ yearsAgo, start: start / 1000, end: end / 1000 });
+  }
+  return ranges;
+}
+
+// The ranges go in as one JSON parameter, which keeps the query short
+function inRanges(time: SQL<number>, ranges: DayRange[]): SQL {
+  const bounds = JSON.stringify(ranges.map(({ start, end }) => [start, end]));
+  return sql`exists (
+    select 1 from json_each(${bounds}) as day
+    where ${time} >= day.value ->> 0 and ${time} < day.value ->> 1
+  )`;
+}
+
+function yearsAgoOf(seconds: number, ranges: DayRange[]): number {
+  return (
+    ranges.find(({ start, end }) => seconds >= start && seconds < end)
+      ?.yearsAgo ?? 0
+  );
+}
+
+// Photos and stories of the user's albums from `date` in earlier years,
+// most recent year first
+export async function findOnThisDay(
+  db: Database,
+  userId: string,
+  date: CalendarDate,
+  timeZone: string,
+) {
+  const ranges = pastDayRanges(date, timeZone);
+  // In seconds, where selecting the column would give a Date
+  const storyTime = sql<number>`${stories.createdAt}`;
+
+  const [photoRows, storyRows] = await Promise.all([
+    db
+      .select({
+        ...getTableColumns(photos),
+        albumTitle: albums.title,
+        time: photoTime,
+      })
+      .from(photos)
+      .innerJoin(albums, eq(albums.id, photos.albumId))
+      .where(and(onTimeline(userId), inRanges(photoTime, ranges)))
+      .orderBy(desc(photoTime))
+      .limit(MAX_MEMORY_PHOTOS),
+    db
+      .select({
+        id: stories.id,
+        albumId: stories.albumId,
+        albumTitle: albums.title,
+        title: stories.title,
+        content: stories.content,
+        time: storyTime,
+      })
+      .from(stories)
+      .innerJoin(albums, eq(albums.id, stories.albumId))
+      .where(
+        and(
+          isAlbumMember(userId, stories.albumId),
+          isNull(stories.deletedAt),
+          inActiveAlbum(stories.albumId),
+          inRanges(storyTime, ranges),
+        ),
+      )
+      .orderBy(desc(storyTime))
+      .limit(MAX_MEMORY_STORIES),
+  ]);
+
+  return {
+    photos: photoRows.map(({ time, ...photo }) => ({
+      ...photo,
+      yearsAgo: yearsAgoOf(time, ranges),
+    })),
+    stories: storyRows.map(({ time, ...story }) => ({
+      ...story,
+      createdAt: new Date(time * 1000),
+      yearsAgo: yearsAgoOf(time, ranges),
+    })),
+  };
+}
@@ -0,0 +1,186 @@
+// The schema imports this file, so it only uses relative imports
+import {
+  formatCalendarDate,
+  parseCalendarDate,
+  type CalendarDate,
+} from "./calendar";
+
+// Milestones are the couple's significant dates: the day they met, their
+// anniversary, 520... A milestone is a calendar date that can come round
+// every year or every month. Recurring dates a month lacks (the 31st,
+// 29 February) fall on the last day of that month.
+
+export const MILESTONE_RECURRENCES = ["none", "yearly", "monthly"] as const;
+
+export type MilestoneRecurrence = (typeof MILESTONE_RECURRENCES)[number];
+
+export function isMilestoneRecurrence(
+  value: unknown,
+): value is MilestoneRecurrence {
+  return MILESTONE_RECURRENCES.includes(value as MilestoneRecurrence);
+}
+
+// Longest milestone title accepted, in characters
+export const MAX_MILESTONE_TITLE_LENGTH = 100;
+
+// A milestone as the API returns it
+export interface Milestone {
+  id: string;
+  title: string;
+  // YYYY-MM-DD
+  date: string;
+  recurrence: MilestoneRecurrence;
+  albumId: string | null;
+  albumTitle: string | null;
+}
+
+export interface MilestoneInput {
+  title: string;
+  date: string;
+  recurrence: MilestoneRecurrence;
+  albumId: string | null;
+}
+
+// Reads the fields of a create request, or with `partial` the fields
+// present in an update
+export function parseMilestoneInput(
+  body: Record<string, unknown>,
+  partial: boolean,
+): Partial<MilestoneInput> | { error: string } {
+  const input: Partial<MilestoneInput> = {};
+
+  if (!partial || body.title !== undefined) {
+    const title =
+      typeof body.title === "string" ? body.title.trim() : undefined;
+    if (!title || title.length > MAX_MILESTONE_TITLE_LENGTH) {
+      return {
+        error: `title must be 1 to ${MAX_MILESTONE_TITLE_LENGTH} characters`,
+      };
+    }
+    input.title = title;
+  }
+
+  if (!partial || body.date !== undefined) {
+    const date =
+      typeof body.date === "string" ? parseCalendarDate(body.date) : null;
+    if (!date) {
+      return { error: "date must be given as YYYY-MM-DD" };
+    }
+    input.date = formatCalendarDate(date);
+  }
+
+  if (body.recurrence !== undefined) {
+    if (!isMilestoneRecurrence(body.recurrence)) {
+      return {
+        error: `recurrence must be one of: ${MILESTONE_RECURRENCES.join(", ")}`,
+      };
+    }
+    input.recurrence = body.recurrence;
+  } else if (!partial) {
+    input.recurrence = "none";
+  }
+
+  if (body.albumId !== undefined) {
+    if (body.albumId !== null && typeof body.albumId !== "string") {
+      return { error: "albumId must be an album id or null" };
+    }
+    input.albumId = body.albumId || null;
+  } else if (!partial) {
+    input.albumId = null;
+  }
+
+  return input;
+}
+
+// Days from one date to another, negative when `to` comes first
+export function daysBetween(from: CalendarDate, to: CalendarDate): number {
+  return Math.round(
+    (Date.UTC(to.year, to.month - 1, to.day) -
+      Date.UTC(from.year, from.month - 1, from.day)) /
+      86_400_000,
+  );
+}
+
+// The milestone's day in a given month, moved back to the month's last day
+// when the month is shorter
+function dayInMonth(date: CalendarDate, year: number, month: number) {
+  const monthLength = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return { year, month, day: Math.min(date.day, monthLength) };
+}
+
+// The first time the milestone falls on or after `today`, or null for a
+// one-off milestone that has passed
+export function nextOccurrence(
+  date: CalendarDate,
+  recurrence: MilestoneRecurrence,
+  today: CalendarDate,
+): CalendarDate | null {
+  if (daysBetween(today, date) >= 0) return date;
+  if (recurrence === "none") return null;
+
+  const candidates =
+    recurrence === "yearly"
+      ? [
+          dayInMonth(date, today.year, date.month),
+          dayInMonth(date, today.year + 1, date.month),
+        ]
+      : [
+          dayInMonth(date, today.year, today.month),
+          today.month === 12
+            ? dayInMonth(date, today.year + 1, 1)
+            : dayInMonth(date, today.year, today.month + 1),
+        ];
+  return candidates.find((day) => daysBetween(today, day) >= 0) ?? null;
+}
+
+// Which anniversary an occurrence is: the years or months since the date
+export function occurrenceNumber(
+  date: CalendarDate,
+  recurrence: MilestoneRecurrence,
+  occurrence: CalendarDate,
+): number {
+  if (recurrence === "yearly") return occurrence.year - date.year;
+  if (recurrence === "monthly") {
+    return (occurrence.year - date.year) * 12 + occurrence.month - date.month;
+  }
+  return 0;
+}
+
+export interface UpcomingMilestone<T> {
+  milestone: T;
+  occurrence: CalendarDate;
+  // 0 when it is today
+  daysUntil: number;
+}
+
+// The milestones still to come, soonest first
+export function upcomingMilestones<
+  T extends Pick<Milestone, "date" | "recurrence">,
+>(milestones: T[], today: CalendarDate): UpcomingMilestone<T>[] {
+  return milestones
+    .flatMap((milestone) => {
+      const date = parseCalendarDate(milestone.date);
+      const occurrence =
+        date && nextOccurrence(date, milestone.recurrence, today);
+      if (!occurrence) return [];
+      return [
+        { milestone, occurrence, daysUntil: daysBetween(today, occurrence) },
+      ];
+    })
+    .sort((a, b) => a.daysUntil - b.daysUntil);
+}
+
+// Days the couple has been together, counting from the earliest milestone
+// (usually the day they met) as day 1. Null when every milestone is still
+// to come.
+export function daysTogether(
+  milestones: Pick<Milestone, "date">[],
+  today: CalendarDate,
+): number | null {
+  const elapsed = milestones
+    .map(({ date }) => parseCalendarDate(date))
+    .filter((date): date is CalendarDate => date !== null)
+    .map((date) => daysBetween(date, today))
+    .filter((days) => days >= 0);
+  return elapsed.length > 0 ? Math.max(...elapsed) + 1 : null;
+}
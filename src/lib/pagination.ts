@@ -0,0 +1,115 @@
+import { sql, type SQL } from "drizzle-orm";
+import type { SQLiteColumn } from "drizzle-orm/sqlite-core";
+
+// Keyset pagination for list endpoints. Every listing sorts by a fixed list
+// of keys that ends in a unique column; the cursor holds the raw key values
+// of the last row of a page, and the next page continues strictly after
+// them. Unlike offsets, pages stay stable while rows are added or removed.
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+export interface Page<T> {
+  items: T[];
+  // Pass as `cursor` to get the next page; null on the last page
+  nextCursor: string | null;
+}
+
+type CursorValue = string | number | null;
+
+export interface PageParams {
+  limit: number;
+  cursor: CursorValue[] | null;
+}
+
+// Sort keys must not be NULL (wrap nullable columns in coalesce) so that
+// the row value comparison below never yields NULL
+export type SortKey = SQL | SQLiteColumn;
+
+function encodeCursor(values: string): string {
+  return Buffer.from(values).toString("base64url");
+}
+
+function decodeCursor(cursor: string): CursorValue[] | null {
+  try {
+    const values: unknown = JSON.parse(
+      Buffer.from(cursor, "base64url").toString(),
+    );
+    if (
+      Array.isArray(values) &&
+      values.every(
+        (value) =>
+          value === null ||
+          typeof value === "string" ||
+          typeof value === "number",
+      )
+    ) {
+      return values;
+    }
+  } catch {
+    // Fall through to the invalid cursor result
+  }
+  return null;
+}
+
+// Reads `limit` and `cursor` from the query string. Returns null when
+// either is invalid.
+export function parsePageParams(
+  searchParams: URLSearchParams,
+): PageParams | null {
+  const limitParam = searchParams.get("limit");
+  const limit = limitParam === null ? DEFAULT_PAGE_SIZE : Number(limitParam);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return null;
+  }
+
+  const cursorParam = searchParams.get("cursor");
+  if (!cursorParam) return { limit, cursor: null };
+  const cursor = decodeCursor(cursorParam);
+  return cursor ? { limit, cursor } : null;
+}
+
+export const INVALID_PAGE_ERROR = {
+  error: `limit must be between 1 and ${MAX_PAGE_SIZE} and cursor must come from a previous page`,
+};
+
+// Selection holding a row's sort key values, to be passed to toPage
+export function cursorColumn(keys: SortKey[]): SQL<string> {
+  return sql<string>`json_array(${sql.join(keys, sql`, `)})`;
+}
+
+// Condition for rows after the cursor in the given sort direction, or
+// undefined for the first page. Cursors built for other keys match nothing.
+export function afterCursor(
+  keys: SortKey[],
+  cursor: CursorValue[] | null,
+  direction: "asc" | "desc" = "asc",
+): SQL | undefined {
+  if (!cursor) return undefined;
+  if (cursor.length !== keys.length) return sql`0`;
+  const values = sql.join(
+    cursor.map((value) => sql`${value}`),
+    sql`, `,
+  );
+  return direction === "asc"
+    ? sql`(${sql.join(keys, sql`, `)}) > (${values})`
+    : sql`(${sql.join(keys, sql`, `)}) < (${values})`;
+}
+
+// Turns rows fetched with `limit + 1` into a page, dropping the cursor
+// column from the items
+export function toPage<T extends { cursor: string }>(
+  rows: T[],
+  limit: number,
+): Page<Omit<T, "cursor">> {
+  const items = rows.slice(0, limit).map((row) => {
+    const { cursor, ...item } = row;
+    void cursor;
+    return item;
+  });
+  const last = rows.length > limit ? rows[limit - 1] : null;
+  return {
+    items,
+    nextCursor: last ? encodeCursor(last.cursor) : null,
+  };
+}
@@ -0,0 +1,69 @@
+// Query parameters that sort and narrow a photo listing. GET /api/photos and
+// the share API accept them, and the gallery and share pages pass on the ones
+// found in their own URL, so a link can cover just part of an album.
+
+export const PHOTO_SORTS = ["order", "takenAt", "uploadedAt"] as const;
+
+export type PhotoSort = (typeof PHOTO_SORTS)[number];
+
+export function isPhotoSort(value: unknown): value is PhotoSort {
+  return PHOTO_SORTS.includes(value as PhotoSort);
+}
+
+export const PHOTO_FILTER_PARAMS = [
+  "sort",
+  "direction",
+  "from",
+  "to",
+  "hasLocation",
+  "caption",
+  "tag",
+] as const;
+
+export type PhotoFilterParam = (typeof PHOTO_FILTER_PARAMS)[number];
+
+// Raw parameter values; the API validates them
+export type PhotoFilters = Partial<Record<PhotoFilterParam, string>>;
+
+export function isPhotoFilterParam(name: string): name is PhotoFilterParam {
+  return PHOTO_FILTER_PARAMS.includes(name as PhotoFilterParam);
+}
+
+// Picks the photo filters out of a page's query string, ignoring anything
+// else in it
+export function pickPhotoFilters(searchParams: URLSearchParams): PhotoFilters {
+  const filters: PhotoFilters = {};
+  for (const name of PHOTO_FILTER_PARAMS) {
+    const value = searchParams.get(name);
+    if (value) filters[name] = value;
+  }
+  return filters;
+}
+
+// Whether the filters show anything other than the whole album in its
+// saved order
+export function isFilteredView(filters: PhotoFilters): boolean {
+  return Object.entries(filters).some(
+    ([name, value]) =>
+      value &&
+      !(name === "sort" && value === "order") &&
+      !(name === "direction" && value === "asc"),
+  );
+}
+
+// Query string of a page with one filter set, or removed when `value` is
+// null, keeping the rest of it
+export function withPhotoFilter(
+  searchParams: URLSearchParams,
+  name: PhotoFilterParam,
+  value: string | null,
+): string {
+  const next = new URLSearchParams(searchParams);
+  if (value) {
+    next.set(name, value);
+  } else {
+    next.delete(name);
+  }
+  const query = next.toString();
+  return query ? `?${query}` : "";
+}
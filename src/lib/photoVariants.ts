@@ -0,0 +1,56 @@
+export type PhotoVariantName = "thumbnail" | "medium" | "full";
+
+export interface PhotoVariant {
+  key: string;
+  url: string;
+  width: number;
+  height: number;
+  // Bytes stored for a generated derivative; absent when the variant
+  // reuses the original
+  size?: number;
+}
+
+export type PhotoVariants = Partial<Record<PhotoVariantName, PhotoVariant>>;
+
+// Longest edge, in pixels, of each generated derivative
+export const PHOTO_VARIANT_SIZES: Record<PhotoVariantName, number> = {
+  thumbnail: 400,
+  medium: 1280,
+  full: 2560,
+};
+
+interface PhotoWithVariants {
+  url: string;
+  thumbnailUrl?: string | null;
+  variants?: PhotoVariants | null;
+}
+
+// Picks the smallest stored derivative that is at least as large as the
+// requested size, falling back to the original upload.
+export function getPhotoUrl(
+  photo: PhotoWithVariants,
+  size: PhotoVariantName,
+): string {
+  const order: PhotoVariantName[] = ["thumbnail", "medium", "full"];
+  for (const name of order.slice(order.indexOf(size))) {
+    const variant = photo.variants?.[name];
+    if (variant) return variant.url;
+  }
+  if (size === "thumbnail" && photo.thumbnailUrl) return photo.thumbnailUrl;
+  return photo.url;
+}
+
+// Every storage key belonging to a photo, without duplicates
+export function getPhotoStorageKeys(
+  originalKey: string | null,
+  variants?: PhotoVariants | null,
+  motionKey?: string | null,
+): string[] {
+  const keys = new Set<string>();
+  if (originalKey) keys.add(originalKey);
+  if (motionKey) keys.add(motionKey);
+  for (const variant of Object.values(variants ?? {})) {
+    if (variant) keys.add(variant.key);
+  }
+  return [...keys];
+}
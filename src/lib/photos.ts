@@ -0,0 +1,811 @@
+import {
+  and,
+  asc,
+  desc,
+  eq,
+  gte,
+  inArray,
+  isNotNull,
+  isNull,
+  lt,
+  lte,
+  or,
+  sql,
+  type SQL,
+} from "drizzle-orm";
+import type { BatchItem } from "drizzle-orm/batch";
+import { randomUUID } from "crypto";
+import { D1_BATCH_SIZE, type Database } from "@/db";
+import { albums, photos, photoTags, stories } from "@/db/schema";
+import type { StorageProvider } from "@/lib/storage";
+import { generatePhotoVariants, type ImageResizer } from "@/lib/imageResizer";
+import {
+  getPhotoStorageKeys,
+  type PhotoVariants,
+} from "@/lib/photoVariants";
+import { parseClientExif, parseExif } from "@/lib/exif";
+import type { DuplicateStrategy } from "@/lib/contentHash";
+import type { MediaType } from "@/lib/media";
+import type { SortKey } from "@/lib/pagination";
+import {
+  isPhotoFilterParam,
+  isPhotoSort,
+  PHOTO_SORTS,
+  type PhotoSort,
+} from "@/lib/photoFilters";
+import { getTrashCutoff, inActiveAlbum } from "@/lib/trash";
+import { isAlbumMember } from "@/lib/albumAccess";
+import {
+  MAX_TAG_NAME_LENGTH,
+  normalizeTagName,
+  photoHasTag,
+} from "@/lib/tags";
+
+// Display order of photos: the order set by the user, then capture date
+// (undated photos last), then upload time. Albums that were never
+// reordered have every order at 0 and so read chronologically. NULLs are
+// folded into plain values so the keys also work as pagination cursors.
+export const PHOTO_SORT_KEYS: SortKey[] = [
+  sql`coalesce(${photos.order}, 0)`,
+  sql`${photos.takenAt} is null`,
+  sql`coalesce(${photos.takenAt}, 0)`,
+  photos.uploadedAt,
+  photos.id,
+];
+
+export const PHOTO_DISPLAY_ORDER = PHOTO_SORT_KEYS.map((key) => asc(key));
+
+// Longest caption search accepted, in characters
+const MAX_CAPTION_QUERY_LENGTH = 500;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PhotoQuery {
+  sortKeys: SortKey[];
+  direction: "asc" | "desc";
+  orderBy: SQL[];
+  // Extra condition for the filters, undefined when none are set
+  where: SQL | undefined;
+}
+
+function photoSortKeys(sort: PhotoSort, direction: "asc" | "desc") {
+  switch (sort) {
+    case "takenAt":
+      return [
+        // Undated photos come last in both directions
+        direction === "asc"
+          ? sql`${photos.takenAt} is null`
+          : sql`${photos.takenAt} is not null`,
+        sql`coalesce(${photos.takenAt}, 0)`,
+        photos.uploadedAt,
+        photos.id,
+      ];
+    case "uploadedAt":
+      return [photos.uploadedAt, photos.id];
+    default:
+      return PHOTO_SORT_KEYS;
+  }
+}
+
+// Parses an ISO 8601 date or date-time. A bare date covers the whole day
+// (UTC), so `end` picks its last moment.
+function parseDateParam(value: string, end: boolean): Date | null {
+  if (!/^\d{4}-\d{2}-\d{2}(T.+)?$/.test(value)) return null;
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) return null;
+  return new Date(end && !value.includes("T") ? time + DAY_MS - 1 : time);
+}
+
+// Reads the sort and filter parameters of a photo listing (see
+// photoFilters.ts). Parameters other than those and `allowed` are rejected
+// so that typos do not silently return the whole album. The tag filter
+// matches the tags of `tagUserId`.
+export function parsePhotoQuery(
+  searchParams: URLSearchParams,
+  tagUserId: string,
+  allowed: readonly string[] = [],
+): PhotoQuery | { error: string } {
+  for (const name of searchParams.keys()) {
+    if (!isPhotoFilterParam(name) && !allowed.includes(name)) {
+      return { error: `Unknown query parameter: ${name}` };
+    }
+  }
+
+  const sort = searchParams.get("sort") ?? "order";
+  if (!isPhotoSort(sort)) {
+    return { error: `sort must be one of: ${PHOTO_SORTS.join(", ")}` };
+  }
+  const direction = searchParams.get("direction") ?? "asc";
+  if (direction !== "asc" && direction !== "desc") {
+    return { error: "direction must be one of: asc, desc" };
+  }
+
+  const conditions: SQL[] = [];
+
+  const fromParam = searchParams.get("from");
+  const toParam = searchParams.get("to");
+  const from = fromParam === null ? null : parseDateParam(fromParam, false);
+  const to = toParam === null ? null : parseDateParam(toParam, true);
+  if ((fromParam !== null && !from) || (toParam !== null && !to)) {
+    return { error: "from and to must be ISO 8601 dates" };
+  }
+  if (from && to && from > to) {
+    return { error: "from must not be after to" };
+  }
+  // Date filters use the capture date, so undated photos drop out
+  if (from) conditions.push(gte(photos.takenAt, from));
+  if (to) conditions.push(lte(photos.takenAt, to));
+
+  const hasLocation = searchParams.get("hasLocation");
+  if (hasLocation === "true") {
+    conditions.push(isNotNull(photos.latitude), isNotNull(photos.longitude));
+  } else if (hasLocation === "false") {
+    conditions.push(
+      sql`(${isNull(photos.latitude)} or ${isNull(photos.longitude)})`,
+    );
+  } else if (hasLocation !== null) {
+    return { error: "hasLocation must be true or false" };
+  }
+
+  const caption = searchParams.get("caption")?.trim();
+  if (caption && caption.length > MAX_CAPTION_QUERY_LENGTH) {
+    return {
+      error: `caption must be at most ${MAX_CAPTION_QUERY_LENGTH} characters`,
+    };
+  }
+  if (caption) {
+    // Case-insensitive substring match; instr avoids escaping LIKE wildcards
+    conditions.push(
+      sql`instr(lower(${photos.caption}), lower(${caption})) > 0`,
+    );
+  }
+
+  const tagParam = searchParams.get("tag");
+  if (tagParam !== null) {
+    const tag = normalizeTagName(tagParam);
+    if (!tag) {
+      return { error: `tag must be 1 to ${MAX_TAG_NAME_LENGTH} characters` };
+    }
+    conditions.push(photoHasTag(tagUserId, tag));
+  }
+
+  const sortKeys = photoSortKeys(sort, direction);
+  return {
+    sortKeys,
+    direction,
+    orderBy: sortKeys.map((key) =>
+      direction === "asc" ? asc(key) : desc(key),
+    ),
+    where: conditions.length > 0 ? and(...conditions) : undefined,
+  };
+}
+
+// Order of a photo added to an album. Once the user has arranged an album,
+// new photos go to the end instead of jumping to the front.
+function nextPhotoOrder(albumId: string) {
+  return sql<number>`(
+    select case when max(${photos.order}) > 0
+      then max(${photos.order}) + 1 else 0 end
+    from ${photos} where ${photos.albumId} = ${albumId}
+  )`;
+}
+
+// Storage key of an original upload: userId/albumId/photoId-fileName
+export function getPhotoUploadKey(
+  userId: string,
+  albumId: string,
+  photoId: string,
+  fileName: string,
+): string {
+  // Keep the file name inside a single path segment
+  const safeName = fileName.replace(/[/\\]/g, "_") || "photo";
+  return `${userId}/${albumId}/${photoId}-${safeName}`;
+}
+
+// Checks that a client-supplied key was issued for this user, album and
+// photo, so finalize cannot claim objects belonging to someone else.
+export function isPhotoUploadKey(
+  key: string,
+  userId: string,
+  albumId: string,
+  photoId: string,
+): boolean {
+  const prefix = `${userId}/${albumId}/${photoId}-`;
+  return (
+    key.startsWith(prefix) &&
+    key.length > prefix.length &&
+    !key.substring(prefix.length).includes("/")
+  );
+}
+
+export interface StoredPhotoUpload {
+  photoId: string;
+  userId: string;
+  album: typeof albums.$inferSelect;
+  // Storage key of the original, already written to the bucket
+  key: string;
+  // Bytes of the original. Null when the file was too large to load into
+  // the Worker; EXIF and derivatives are then skipped.
+  data: ArrayBuffer | null;
+  // Size of the original in bytes
+  size: number;
+  caption?: string | null;
+  latitude?: number;
+  longitude?: number;
+  // EXIF read by the client before compression stripped it from the file
+  clientExif?: string | null;
+  contentHash?: string | null;
+  // Defaults to "image". Videos and Live Photos also carry their clip,
+  // already written to the bucket.
+  mediaType?: MediaType;
+  motion?: { key: string; size: number } | null;
+  duration?: number;
+}
+
+// Turns an object that already sits in storage into a photos row: reads
+// EXIF, generates derivatives, inserts the row and fills in the album cover.
+export async function saveUploadedPhoto(
+  db: Database,
+  storage: StorageProvider,
+  resizer: ImageResizer,
+  upload: StoredPhotoUpload,
+): Promise<typeof photos.$inferSelect> {
+  const { photoId, userId, album, key, data } = upload;
+  const photoUrl = storage.getPublicUrl(key);
+
+  // Prefer metadata still embedded in the uploaded bytes. Orientation is
+  // only trusted from the file itself: re-encoded uploads are upright.
+  const fileExif = data ? parseExif(data) : null;
+  const exif = fileExif ?? parseClientExif(upload.clientExif ?? null);
+
+  // Generate thumbnail/medium/full derivatives. A failure here should not
+  // lose the upload; clients fall back to the original URL.
+  let variants: PhotoVariants = {};
+  if (data) {
+    try {
+      variants = await generatePhotoVariants(
+        storage,
+        resizer,
+        { key, data, orientation: fileExif?.orientation },
+        `${userId}/${album.id}/${photoId}`,
+      );
+    } catch (err) {
+      console.error("Failed to generate photo variants:", err);
+    }
+  }
+
+  const sizeBytes = Object.values(variants).reduce(
+    (total, variant) => total + (variant?.size ?? 0),
+    upload.size + (upload.motion?.size ?? 0),
+  );
+
+  await db.insert(photos).values({
+    id: photoId,
+    albumId: album.id,
+    userId,
+    url: photoUrl,
+    storageKey: key,
+    thumbnailUrl: variants.thumbnail?.url,
+    variants,
+    caption: upload.caption,
+    latitude: upload.latitude ?? exif?.latitude,
+    longitude: upload.longitude ?? exif?.longitude,
+    takenAt: exif?.takenAt ? new Date(exif.takenAt) : undefined,
+    exif,
+    contentHash: upload.contentHash,
+    sizeBytes,
+    uploadedAt: new Date(),
+    mediaType: upload.mediaType ?? "image",
+    motionKey: upload.motion?.key,
+    motionUrl: upload.motion ? storage.getPublicUrl(upload.motion.key) : null,
+    duration: upload.duration,
+    order: nextPhotoOrder(album.id),
+  });
+
+  return afterPhotoInsert(db, album, photoId, photoUrl);
+}
+
+// Fills in the album cover if it has none and returns the inserted row
+async function afterPhotoInsert(
+  db: Database,
+  album: typeof albums.$inferSelect,
+  photoId: string,
+  photoUrl: string,
+): Promise<typeof photos.$inferSelect> {
+  // Update album cover photo if it doesn't have one
+  if (!album.coverPhotoUrl) {
+    await db
+      .update(albums)
+      .set({ coverPhotoUrl: photoUrl })
+      .where(eq(albums.id, album.id));
+  }
+
+  const newPhoto = await db
+    .select()
+    .from(photos)
+    .where(eq(photos.id, photoId))
+    .limit(1);
+
+  return newPhoto[0];
+}
+
+// Oldest photo in the user's library with the given content hash. Trashed
+// photos do not count, so their content can be uploaded again.
+export async function findDuplicatePhoto(
+  db: Database,
+  userId: string,
+  contentHash: string,
+): Promise<typeof photos.$inferSelect | null> {
+  const duplicate = await db
+    .select()
+    .from(photos)
+    .where(
+      and(
+        eq(photos.userId, userId),
+        eq(photos.contentHash, contentHash),
+        isNull(photos.deletedAt),
+        inActiveAlbum(photos.albumId),
+      ),
+    )
+    .orderBy(asc(photos.uploadedAt))
+    .limit(1);
+
+  return duplicate[0] ?? null;
+}
+
+export interface DuplicateUpload {
+  userId: string;
+  album: typeof albums.$inferSelect;
+  contentHash: string;
+  strategy: DuplicateStrategy;
+  caption?: string | null;
+  latitude?: number;
+  longitude?: number;
+}
+
+// Applies the duplicate strategy to an upload. Returns null when the upload
+// should go ahead, otherwise the photo to respond with: the existing one
+// for "skip", or a new row in the album sharing its files for "link".
+export async function resolveDuplicateUpload(
+  db: Database,
+  upload: DuplicateUpload,
+): Promise<{ photo: typeof photos.$inferSelect; created: boolean } | null> {
+  if (upload.strategy === "allow") return null;
+
+  const existing = await findDuplicatePhoto(
+    db,
+    upload.userId,
+    upload.contentHash,
+  );
+  if (!existing) return null;
+
+  if (upload.strategy === "skip") {
+    return { photo: existing, created: false };
+  }
+
+  const photo = await insertLinkedPhoto(db, existing, upload.album, {
+    caption: upload.caption || existing.caption,
+    latitude: upload.latitude ?? existing.latitude,
+    longitude: upload.longitude ?? existing.longitude,
+  });
+  return { photo, created: true };
+}
+
+// Values for a new row in an album that shares the stored files of
+// `source`, so no bytes are copied. Deleting either row keeps the files
+// while the other still references them (see deletePhotoObjects).
+function linkedPhotoValues(
+  source: typeof photos.$inferSelect,
+  albumId: string,
+): typeof photos.$inferInsert {
+  return {
+    id: randomUUID(),
+    albumId,
+    userId: source.userId,
+    url: source.url,
+    storageKey: source.storageKey,
+    thumbnailUrl: source.thumbnailUrl,
+    variants: source.variants,
+    caption: source.caption,
+    altText: source.altText,
+    latitude: source.latitude,
+    longitude: source.longitude,
+    takenAt: source.takenAt,
+    exif: source.exif,
+    contentHash: source.contentHash,
+    sizeBytes: source.sizeBytes,
+    uploadedAt: new Date(),
+    mediaType: source.mediaType,
+    motionKey: source.motionKey,
+    motionUrl: source.motionUrl,
+    duration: source.duration,
+  };
+}
+
+// Gives a copied photo the tags of the original
+function copyPhotoTags(db: Database, sourceId: string, copyId: string) {
+  return db.insert(photoTags).select(
+    db
+      .select({
+        photoId: sql<string>`${copyId}`.as("photo_id"),
+        tagId: photoTags.tagId,
+        createdAt: photoTags.createdAt,
+      })
+      .from(photoTags)
+      .where(eq(photoTags.photoId, sourceId)),
+  );
+}
+
+// Adds a row to the end of an album that shares the stored files of
+// `source`, with the same tags
+async function insertLinkedPhoto(
+  db: Database,
+  source: typeof photos.$inferSelect,
+  album: typeof albums.$inferSelect,
+  overrides: Partial<
+    Pick<typeof photos.$inferInsert, "caption" | "latitude" | "longitude">
+  > = {},
+): Promise<typeof photos.$inferSelect> {
+  const values = {
+    ...linkedPhotoValues(source, album.id),
+    order: nextPhotoOrder(album.id),
+    ...overrides,
+  };
+  await db.batch([
+    db.insert(photos).values(values),
+    copyPhotoTags(db, source.id, values.id),
+  ]);
+
+  return afterPhotoInsert(db, album, values.id, source.url);
+}
+
+type PhotoFiles = Pick<
+  typeof photos.$inferSelect,
+  "url" | "storageKey" | "variants" | "motionKey"
+>;
+
+// Storage key of a photo's original. Rows from before storage keys were
+// persisted fall back to parsing the public URL.
+export function getPhotoStorageKey(
+  storage: StorageProvider,
+  photo: PhotoFiles,
+): string | null {
+  return photo.storageKey ?? storage.getKeyFromUrl(photo.url);
+}
+
+// Deletes the stored original and derivatives of photos whose rows are
+// already gone. Linked duplicates share files, so anything another row
+// still points at is kept.
+export async function deletePhotoObjects(
+  db: Database,
+  storage: StorageProvider,
+  deleted: PhotoFiles[],
+): Promise<void> {
+  const referencedKeys = new Set<string>();
+  const referencedUrls = new Set<string>();
+  for (let i = 0; i < deleted.length; i += D1_BATCH_SIZE) {
+    const batch = deleted.slice(i, i + D1_BATCH_SIZE);
+    const keys = batch
+      .map((photo) => getPhotoStorageKey(storage, photo))
+      .filter((key): key is string => !!key);
+    const rows = await db
+      .select({ storageKey: photos.storageKey, url: photos.url })
+      .from(photos)
+      .where(
+        or(
+          inArray(photos.url, batch.map((photo) => photo.url)),
+          keys.length > 0 ? inArray(photos.storageKey, keys) : undefined,
+        ),
+      );
+    for (const row of rows) {
+      if (row.storageKey) referencedKeys.add(row.storageKey);
+      referencedUrls.add(row.url);
+    }
+  }
+
+  const keys = new Set<string>();
+  for (const photo of deleted) {
+    const key = getPhotoStorageKey(storage, photo);
+    if (!key) {
+      console.warn("Could not extract storage key from photo URL:", photo.url);
+    }
+    if ((key && referencedKeys.has(key)) || referencedUrls.has(photo.url)) {
+      continue;
+    }
+    for (const objectKey of getPhotoStorageKeys(
+      key,
+      photo.variants,
+      photo.motionKey,
+    )) {
+      keys.add(objectKey);
+    }
+  }
+
+  await Promise.all(Array.from(keys, (key) => storage.delete(key)));
+}
+
+// Most photos a single move or copy request may take
+export const MAX_TRANSFER_PHOTOS = 200;
+
+export interface PhotoTransfer {
+  photos: (typeof photos.$inferSelect)[];
+  target: typeof albums.$inferSelect;
+}
+
+// Loads the photos and the target album of a move or copy. Returns null
+// unless the user is an editor of the target album and of the albums of
+// every photo.
+export async function loadPhotoTransfer(
+  db: Database,
+  userId: string,
+  photoIds: string[],
+  targetAlbumId: string,
+): Promise<PhotoTransfer | null> {
+  const target = await db
+    .select()
+    .from(albums)
+    .where(
+      and(
+        eq(albums.id, targetAlbumId),
+        isAlbumMember(userId, albums.id, "editor"),
+        isNull(albums.deletedAt),
+      ),
+    )
+    .limit(1);
+  if (target.length === 0) return null;
+
+  const found: (typeof photos.$inferSelect)[] = [];
+  for (let i = 0; i < photoIds.length; i += D1_BATCH_SIZE) {
+    found.push(
+      ...(await db
+        .select()
+        .from(photos)
+        .where(
+          and(
+            isAlbumMember(userId, photos.albumId, "editor"),
+            inArray(photos.id, photoIds.slice(i, i + D1_BATCH_SIZE)),
+            isNull(photos.deletedAt),
+          ),
+        )),
+    );
+  }
+  if (found.length !== new Set(photoIds).size) return null;
+
+  // Keep the order the photos were picked in
+  const byId = new Map(found.map((photo) => [photo.id, photo]));
+  const picked = Array.from(new Set(photoIds), (id) => byId.get(id));
+  return {
+    photos: picked.filter((photo) => photo !== undefined),
+    target: target[0],
+  };
+}
+
+// Moves photos to the end of the target album. Photos already there are
+// left alone. Returns the moved photos as they are now.
+export async function movePhotos(
+  db: Database,
+  { photos: picked, target }: PhotoTransfer,
+): Promise<(typeof photos.$inferSelect)[]> {
+  const moving = picked.filter((photo) => photo.albumId !== target.id);
+  const [first, ...rest] = moving.map((photo) =>
+    db
+      .update(photos)
+      .set({ albumId: target.id, order: nextPhotoOrder(target.id) })
+      .where(eq(photos.id, photo.id)),
+  );
+  if (!first) return [];
+  await db.batch([first, ...rest]);
+
+  if (!target.coverPhotoUrl) {
+    await db
+      .update(albums)
+      .set({ coverPhotoUrl: moving[0].url })
+      .where(eq(albums.id, target.id));
+  }
+  await repairAlbumCovers(db, moving);
+
+  return moving.map((photo) => ({ ...photo, albumId: target.id }));
+}
+
+// Copies photos into the target album as rows sharing the stored files.
+// Photos already in the target album are skipped. Returns the new rows.
+export async function copyPhotos(
+  db: Database,
+  { photos: picked, target }: PhotoTransfer,
+): Promise<(typeof photos.$inferSelect)[]> {
+  let album = target;
+  const copies: (typeof photos.$inferSelect)[] = [];
+  for (const photo of picked) {
+    if (photo.albumId === target.id) continue;
+    const copy = await insertLinkedPhoto(db, photo, album);
+    copies.push(copy);
+    // The first copy may have become the cover
+    album = { ...album, coverPhotoUrl: album.coverPhotoUrl ?? copy.url };
+  }
+  return copies;
+}
+
+// Statements moving every photo of an album, trashed ones included, to the
+// end of another. They keep their order relative to each other. Run them in
+// the batch that merges the albums.
+export async function appendAlbumPhotos(
+  db: Database,
+  sourceAlbumId: string,
+  targetAlbumId: string,
+): Promise<BatchItem<"sqlite">[]> {
+  const [last] = await db
+    .select({ order: sql<number>`coalesce(max(${photos.order}), 0)` })
+    .from(photos)
+    .where(eq(photos.albumId, targetAlbumId));
+  const moving = await db
+    .select({ id: photos.id, order: photos.order })
+    .from(photos)
+    .where(eq(photos.albumId, sourceAlbumId))
+    .orderBy(...PHOTO_DISPLAY_ORDER);
+
+  if (!last.order && moving.every((photo) => !photo.order)) {
+    // Neither album was arranged, so the result reads chronologically too
+    return [
+      db
+        .update(photos)
+        .set({ albumId: targetAlbumId })
+        .where(eq(photos.albumId, sourceAlbumId)),
+    ];
+  }
+
+  return moving.map((photo, index) =>
+    db
+      .update(photos)
+      .set({ albumId: targetAlbumId, order: last.order + 1 + index })
+      .where(eq(photos.id, photo.id)),
+  );
+}
+
+// Statements copying the photos of an album that are not in the trash into
+// another as rows sharing the stored files, keeping their order, upload
+// times and tags. Run them in the batch that creates the other album.
+export async function copyAlbumPhotos(
+  db: Database,
+  sourceAlbumId: string,
+  targetAlbumId: string,
+): Promise<BatchItem<"sqlite">[]> {
+  const sourcePhotos = await db
+    .select()
+    .from(photos)
+    .where(and(eq(photos.albumId, sourceAlbumId), isNull(photos.deletedAt)));
+
+  return sourcePhotos.flatMap((photo) => {
+    const values = {
+      ...linkedPhotoValues(photo, targetAlbumId),
+      order: photo.order,
+      uploadedAt: photo.uploadedAt,
+    };
+    return [
+      db.insert(photos).values(values),
+      copyPhotoTags(db, photo.id, values.id),
+    ];
+  });
+}
+
+// Moves photos to the trash. Albums whose cover was one of them get a new
+// cover.
+export async function trashPhotos(
+  db: Database,
+  trashed: (typeof photos.$inferSelect)[],
+): Promise<void> {
+  const deletedAt = new Date();
+  for (let i = 0; i < trashed.length; i += D1_BATCH_SIZE) {
+    const batch = trashed.slice(i, i + D1_BATCH_SIZE);
+    await db
+      .update(photos)
+      .set({ deletedAt })
+      .where(inArray(photos.id, batch.map((photo) => photo.id)));
+  }
+  await repairAlbumCovers(db, trashed);
+}
+
+// Permanently deletes the albums the user owns, and the photos and stories
+// of albums they edit, that have been in the trash for longer than the
+// retention period, along with the stored files nothing else uses any more
+export async function purgeExpiredTrash(
+  db: Database,
+  storage: StorageProvider,
+  userId: string,
+  retentionDays: number,
+): Promise<void> {
+  const cutoff = getTrashCutoff(retentionDays);
+  const removed: (typeof photos.$inferSelect)[] = [];
+
+  const expiredAlbums = await db
+    .select({ id: albums.id })
+    .from(albums)
+    .where(and(eq(albums.userId, userId), lt(albums.deletedAt, cutoff)));
+  const albumIds = expiredAlbums.map((album) => album.id);
+  for (let i = 0; i < albumIds.length; i += D1_BATCH_SIZE) {
+    const batch = albumIds.slice(i, i + D1_BATCH_SIZE);
+    removed.push(
+      ...(await db
+        .select()
+        .from(photos)
+        .where(inArray(photos.albumId, batch))),
+    );
+    // Photos, stories and share links cascade with the album
+    await db.delete(albums).where(inArray(albums.id, batch));
+  }
+
+  const expiredPhotos = await db
+    .select()
+    .from(photos)
+    .where(
+      and(
+        isAlbumMember(userId, photos.albumId, "editor"),
+        lt(photos.deletedAt, cutoff),
+      ),
+    );
+  for (let i = 0; i < expiredPhotos.length; i += D1_BATCH_SIZE) {
+    const batch = expiredPhotos.slice(i, i + D1_BATCH_SIZE);
+    await db.delete(photos).where(
+      inArray(photos.id, batch.map((photo) => photo.id)),
+    );
+  }
+  removed.push(...expiredPhotos);
+
+  await db
+    .delete(stories)
+    .where(
+      and(
+        isAlbumMember(userId, stories.albumId, "editor"),
+        lt(stories.deletedAt, cutoff),
+      ),
+    );
+
+  try {
+    await deletePhotoObjects(db, storage, removed);
+  } catch (err) {
+    // The reconciliation job picks up whatever is left behind
+    console.error("Failed to delete purged files from storage:", err);
+  }
+}
+
+// Points the cover of albums that photos were taken out of at a photo they
+// still contain, or clears it when they are empty now
+async function repairAlbumCovers(
+  db: Database,
+  removed: (typeof photos.$inferSelect)[],
+): Promise<void> {
+  const albumIds = Array.from(new Set(removed.map((photo) => photo.albumId)));
+  for (const albumId of albumIds) {
+    const album = await db
+      .select({ coverPhotoUrl: albums.coverPhotoUrl })
+      .from(albums)
+      .where(eq(albums.id, albumId))
+      .limit(1);
+    const cover = album[0]?.coverPhotoUrl;
+    if (!cover || !removed.some((photo) => photo.url === cover)) continue;
+
+    // A linked copy left in the album still shows the same cover
+    const stillThere = await db
+      .select({ id: photos.id })
+      .from(photos)
+      .where(
+        and(
+          eq(photos.albumId, albumId),
+          eq(photos.url, cover),
+          isNull(photos.deletedAt),
+        ),
+      )
+      .limit(1);
+    if (stillThere.length > 0) continue;
+
+    const next = await db
+      .select({ url: photos.url })
+      .from(photos)
+      .where(and(eq(photos.albumId, albumId), isNull(photos.deletedAt)))
+      .orderBy(...PHOTO_DISPLAY_ORDER)
+      .limit(1);
+    await db
+      .update(albums)
+      .set({ coverPhotoUrl: next[0]?.url ?? null })
+      .where(eq(albums.id, albumId));
+  }
+}
@@ -0,0 +1,98 @@
+import { and, eq, sql } from "drizzle-orm";
+import type { Database } from "@/db";
+import { photos } from "@/db/schema";
+
+// Per-user storage limit in bytes from STORAGE_QUOTA_BYTES; null when the
+// variable is unset or not a positive number, meaning no limit.
+export function getStorageQuota(env: {
+  STORAGE_QUOTA_BYTES?: string;
+}): number | null {
+  const quota = Number(
+    process.env.STORAGE_QUOTA_BYTES || env.STORAGE_QUOTA_BYTES,
+  );
+  return Number.isFinite(quota) && quota > 0 ? quota : null;
+}
+
+// Bytes stored for the user. Linked duplicates share files, so each
+// storage key is counted once.
+export async function getUserStorageUsage(
+  db: Database,
+  userId: string,
+): Promise<number> {
+  const perKey = db
+    .select({
+      sizeBytes: sql<number>`max(coalesce(${photos.sizeBytes}, 0))`.as(
+        "size_bytes",
+      ),
+    })
+    .from(photos)
+    .where(eq(photos.userId, userId))
+    .groupBy(sql`coalesce(${photos.storageKey}, ${photos.url})`)
+    .as("per_key");
+
+  const result = await db
+    .select({ usedBytes: sql<number>`coalesce(sum(${perKey.sizeBytes}), 0)` })
+    .from(perKey);
+
+  return Number(result[0]?.usedBytes ?? 0);
+}
+
+// Bytes and photo count per album, including the files of linked
+// duplicates each album shows
+export async function getAlbumStorageUsage(
+  db: Database,
+  userId: string,
+  albumId?: string,
+): Promise<{ albumId: string; usedBytes: number; photoCount: number }[]> {
+  const rows = await db
+    .select({
+      albumId: photos.albumId,
+      usedBytes: sql<number>`coalesce(sum(${photos.sizeBytes}), 0)`,
+      photoCount: sql<number>`count(*)`,
+    })
+    .from(photos)
+    .where(
+      and(
+        eq(photos.userId, userId),
+        albumId ? eq(photos.albumId, albumId) : undefined,
+      ),
+    )
+    .groupBy(photos.albumId);
+
+  return rows.map((row) => ({
+    albumId: row.albumId,
+    usedBytes: Number(row.usedBytes),
+    photoCount: Number(row.photoCount),
+  }));
+}
+
+export interface QuotaCheck {
+  usedBytes: number;
+  quotaBytes: number;
+}
+
+// Returns the usage figures when storing `additionalBytes` more would go
+// over the quota, or null when the upload fits (or there is no quota).
+export async function checkStorageQuota(
+  db: Database,
+  env: { STORAGE_QUOTA_BYTES?: string },
+  userId: string,
+  additionalBytes: number,
+): Promise<QuotaCheck | null> {
+  const quotaBytes = getStorageQuota(env);
+  if (quotaBytes === null) return null;
+
+  const usedBytes = await getUserStorageUsage(db, userId);
+  return usedBytes + additionalBytes > quotaBytes
+    ? { usedBytes, quotaBytes }
+    : null;
+}
+
+export function quotaExceededBody(check: QuotaCheck) {
+  return {
+    error: "Storage quota exceeded",
+    code: "QUOTA_EXCEEDED",
+    usedBytes: check.usedBytes,
+    quotaBytes: check.quotaBytes,
+  };
+}
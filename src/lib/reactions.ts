@@ -0,0 +1,69 @@
+// Comments and emoji reactions on photos and stories. Members of an album
+// comment on and react to its photos and stories; visitors of a share link
+// that allows it can react too, under a display name they choose. Kept
+// apart from feedback.ts because the schema and the browser import it.
+
+export const REACTION_EMOJIS = ["❤️", "😍", "😂", "😮", "😢", "👍"] as const;
+
+export type ReactionEmoji = (typeof REACTION_EMOJIS)[number];
+
+export function isReactionEmoji(value: unknown): value is ReactionEmoji {
+  return REACTION_EMOJIS.includes(value as ReactionEmoji);
+}
+
+// Longest comment accepted, in characters
+export const MAX_COMMENT_LENGTH = 1000;
+
+// Longest display name of a share link visitor, in characters
+export const MAX_DISPLAY_NAME_LENGTH = 40;
+
+// Trims a comment. Returns null unless the result is 1 to
+// MAX_COMMENT_LENGTH characters.
+export function normalizeCommentBody(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const body = value.trim();
+  return body && body.length <= MAX_COMMENT_LENGTH ? body : null;
+}
+
+// Trims a visitor's display name and collapses inner whitespace. Returns
+// null unless the result is 1 to MAX_DISPLAY_NAME_LENGTH characters.
+export function normalizeDisplayName(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const name = value.trim().replace(/\s+/g, " ");
+  return name && name.length <= MAX_DISPLAY_NAME_LENGTH ? name : null;
+}
+
+export type FeedbackTargetType = "photo" | "story";
+
+// The photo or story a comment or reaction is on
+export interface FeedbackTarget {
+  type: FeedbackTargetType;
+  id: string;
+}
+
+// A comment as the API returns it
+export interface Comment {
+  id: string;
+  userId: string;
+  username: string;
+  body: string;
+  createdAt: string;
+  // Later than createdAt once the comment has been edited
+  updatedAt: string;
+}
+
+// The reactions with one emoji on a photo or story
+export interface ReactionSummary {
+  emoji: ReactionEmoji;
+  count: number;
+  // Usernames of members and display names of visitors, oldest first
+  names: string[];
+  // Whether the one asking is among them
+  reacted: boolean;
+}
+
+// Added to photos and stories in listings
+export interface FeedbackCounts {
+  commentCount: number;
+  reactionCount: number;
+}
@@ -0,0 +1,148 @@
+import { eq } from "drizzle-orm";
+import type { Database } from "@/db";
+import { photos } from "@/db/schema";
+import type { ListedObject, StorageProvider } from "@/lib/storage";
+import { getPhotoStorageKeys } from "@/lib/photoVariants";
+import { getPhotoStorageKey, trashPhotos } from "@/lib/photos";
+
+// Objects younger than this may belong to an upload that has not been
+// finalized yet, so they are never treated as orphans. Neither are objects
+// whose driver does not report when they were written.
+const ORPHAN_GRACE_PERIOD_MS = 24 * 60 * 60 * 1000;
+
+export interface ReconcileReport {
+  dryRun: boolean;
+  scannedObjects: number;
+  scannedPhotos: number;
+  // Objects under the user's prefix that no photo row references
+  orphanObjects: ListedObject[];
+  // Photo rows whose original is missing from storage
+  missingObjects: { photoId: string; albumId: string; key: string }[];
+  // Photo rows whose storage key cannot be worked out, such as external
+  // URLs. Only reported, since whether their original exists is unknown.
+  unresolvedPhotos: { photoId: string; albumId: string; url: string }[];
+  // Rows that had no storage key or size persisted yet
+  backfilledKeys: number;
+  backfilledSizes: number;
+  deletedObjects: number;
+  trashedPhotos: number;
+}
+
+// Compares the objects stored under `userId/` with the user's photo rows.
+// In dry-run mode only reports; otherwise deletes orphaned objects, moves
+// rows whose original is gone to the trash and persists missing storage
+// keys and sizes.
+export async function reconcileStorage(
+  db: Database,
+  storage: StorageProvider,
+  userId: string,
+  dryRun: boolean,
+): Promise<ReconcileReport> {
+  const objects: ListedObject[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await storage.list(`${userId}/`, cursor);
+    objects.push(...page.objects);
+    cursor = page.cursor;
+  } while (cursor);
+  const storedSizes = new Map(
+    objects.map((object) => [object.key, object.size]),
+  );
+
+  const userPhotos = await db
+    .select()
+    .from(photos)
+    .where(eq(photos.userId, userId));
+
+  const referencedKeys = new Set<string>();
+  const missingObjects: ReconcileReport["missingObjects"] = [];
+  const unresolvedPhotos: ReconcileReport["unresolvedPhotos"] = [];
+  const keysToBackfill: { photoId: string; key: string }[] = [];
+  const sizesToBackfill: { photoId: string; sizeBytes: number }[] = [];
+
+  for (const photo of userPhotos) {
+    const key = getPhotoStorageKey(storage, photo);
+    const objectKeys = getPhotoStorageKeys(
+      key,
+      photo.variants,
+      photo.motionKey,
+    );
+    for (const objectKey of objectKeys) {
+      referencedKeys.add(objectKey);
+    }
+    if (!key) {
+      unresolvedPhotos.push({
+        photoId: photo.id,
+        albumId: photo.albumId,
+        url: photo.url,
+      });
+      continue;
+    }
+    if (!storedSizes.has(key)) {
+      missingObjects.push({ photoId: photo.id, albumId: photo.albumId, key });
+      continue;
+    }
+    if (!photo.storageKey) {
+      keysToBackfill.push({ photoId: photo.id, key });
+    }
+    if (photo.sizeBytes === null) {
+      sizesToBackfill.push({
+        photoId: photo.id,
+        sizeBytes: objectKeys.reduce(
+          (total, objectKey) => total + (storedSizes.get(objectKey) ?? 0),
+          0,
+        ),
+      });
+    }
+  }
+
+  const cutoff = Date.now() - ORPHAN_GRACE_PERIOD_MS;
+  const orphanObjects = objects.filter(
+    (object) =>
+      !referencedKeys.has(object.key) &&
+      object.lastModified !== undefined &&
+      object.lastModified.getTime() < cutoff,
+  );
+
+  const report: ReconcileReport = {
+    dryRun,
+    scannedObjects: objects.length,
+    scannedPhotos: userPhotos.length,
+    orphanObjects,
+    missingObjects,
+    unresolvedPhotos,
+    backfilledKeys: 0,
+    backfilledSizes: 0,
+    deletedObjects: 0,
+    trashedPhotos: 0,
+  };
+  if (dryRun) return report;
+
+  for (const { photoId, key } of keysToBackfill) {
+    await db
+      .update(photos)
+      .set({ storageKey: key })
+      .where(eq(photos.id, photoId));
+    report.backfilledKeys++;
+  }
+
+  for (const { photoId, sizeBytes } of sizesToBackfill) {
+    await db.update(photos).set({ sizeBytes }).where(eq(photos.id, photoId));
+    report.backfilledSizes++;
+  }
+
+  for (const object of orphanObjects) {
+    await storage.delete(object.key);
+    report.deletedObjects++;
+  }
+
+  // Photos already in the trash stay there until they are purged
+  const missingIds = new Set(missingObjects.map((missing) => missing.photoId));
+  const trashed = userPhotos.filter(
+    (photo) => missingIds.has(photo.id) && !photo.deletedAt,
+  );
+  await trashPhotos(db, trashed);
+  report.trashedPhotos = trashed.length;
+
+  return report;
+}
@@ -0,0 +1,229 @@
+import { inArray, sql, type SQL } from "drizzle-orm";
+import type { Database } from "@/db";
+import { albums, photos, stories } from "@/db/schema";
+import { getPhotoUrl } from "@/lib/photoVariants";
+import { inActiveAlbum } from "@/lib/trash";
+import { isAlbumMember } from "@/lib/albumAccess";
+
+// Search runs on the search_index FTS5 table (migrations 0011 and 0016),
+// which triggers keep in step with albums, photos and stories. It is not
+// part of the drizzle schema, so it is queried with raw SQL here.
+
+export type SearchResultType = "album" | "photo" | "story";
+
+// Part of a snippet; `highlight` marks text that matched the query
+export interface SnippetPart {
+  text: string;
+  highlight: boolean;
+}
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: string;
+  albumId: string;
+  // Album or story title, or the caption of a photo
+  title: string;
+  snippet: SnippetPart[];
+  thumbnailUrl: string | null;
+}
+
+// Longest query accepted, in characters
+export const MAX_SEARCH_QUERY_LENGTH = 200;
+
+const MAX_SEARCH_TERMS = 8;
+const MAX_SEARCH_RESULTS = 30;
+
+// The trigram tokenizer only matches terms of at least three characters.
+// Shorter ones (common in Chinese, e.g. "长城") fall back to a substring
+// scan of the user's rows.
+const MIN_MATCH_TERM_LENGTH = 3;
+
+// Characters FTS5 wraps around matches; they do not occur in user text
+const HIGHLIGHT_START = "\u0002";
+const HIGHLIGHT_END = "\u0003";
+
+// Characters of context around the first match of a fallback snippet
+const SNIPPET_CONTEXT = 24;
+
+interface IndexRow {
+  kind: SearchResultType;
+  item_id: string;
+  title: string | null;
+  body: string | null;
+  snippet: string | null;
+}
+
+// Words of a query, without duplicates. Every one has to be found.
+export function parseSearchTerms(q: string): string[] {
+  const terms = new Set(q.trim().split(/\s+/).filter(Boolean));
+  return Array.from(terms).slice(0, MAX_SEARCH_TERMS);
+}
+
+function isMatchTerm(term: string) {
+  return Array.from(term).length >= MIN_MATCH_TERM_LENGTH;
+}
+
+// Quotes a term so FTS5 reads it as plain text, not query syntax
+function quoteTerm(term: string) {
+  return `"${term.replaceAll('"', '""')}"`;
+}
+
+// Splits text marked with HIGHLIGHT_START/END into snippet parts
+function toSnippetParts(marked: string): SnippetPart[] {
+  const parts: SnippetPart[] = [];
+  for (const [index, piece] of marked.split(HIGHLIGHT_START).entries()) {
+    const [inside, after] =
+      index === 0 ? [null, piece] : piece.split(HIGHLIGHT_END);
+    if (inside) parts.push({ text: inside, highlight: true });
+    if (after) parts.push({ text: after, highlight: false });
+  }
+  return parts;
+}
+
+// Snippet around the first occurrence of any (lower-case) term in the body
+// or title, for rows found without FTS5 matching, which produces snippets
+// otherwise
+function markTerms(row: IndexRow, terms: string[]): string {
+  const contains = (text: string | null) =>
+    !!text && terms.some((term) => text.toLowerCase().includes(term));
+  const text = [row.body, row.title].find(contains) ?? row.body ?? "";
+  const lower = text.toLowerCase();
+  const found = terms
+    .map((term) => lower.indexOf(term))
+    .filter((index) => index >= 0);
+  const start =
+    found.length > 0 ? Math.max(0, Math.min(...found) - SNIPPET_CONTEXT) : 0;
+  const end = Math.min(text.length, start + SNIPPET_CONTEXT * 3);
+  let window = text.slice(start, end);
+  for (const term of terms) {
+    window = window.replace(
+      new RegExp(term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "gi"),
+      (match) => HIGHLIGHT_START + match + HIGHLIGHT_END,
+    );
+  }
+  return (start > 0 ? "…" : "") + window + (end < text.length ? "…" : "");
+}
+
+// Rows of albums the user is a member of that are not in the trash and
+// not in a trashed album
+function isVisibleTo(userId: string): SQL {
+  return sql`case search_index.kind
+    when 'album' then exists (
+      select 1 from ${albums}
+      where ${albums.id} = search_index.item_id
+        and ${albums.deletedAt} is null
+        and ${isAlbumMember(userId, albums.id)}
+    )
+    when 'photo' then exists (
+      select 1 from ${photos}
+      where ${photos.id} = search_index.item_id
+        and ${photos.deletedAt} is null and ${inActiveAlbum(photos.albumId)}
+        and ${isAlbumMember(userId, photos.albumId)}
+    )
+    else exists (
+      select 1 from ${stories}
+      where ${stories.id} = search_index.item_id
+        and ${stories.deletedAt} is null and ${inActiveAlbum(stories.albumId)}
+        and ${isAlbumMember(userId, stories.albumId)}
+    )
+  end`;
+}
+
+// Albums, photo captions and stories of the user's albums containing every
+// term, best matches first
+export async function searchLibrary(
+  db: Database,
+  userId: string,
+  terms: string[],
+): Promise<SearchResult[]> {
+  const lowerTerms = terms.map((term) => term.toLowerCase());
+  const matchTerms = lowerTerms.filter(isMatchTerm);
+  const shortTerms = lowerTerms.filter((term) => !isMatchTerm(term));
+
+  const conditions: SQL[] = [isVisibleTo(userId)];
+  if (matchTerms.length > 0) {
+    conditions.push(
+      sql`search_index match ${matchTerms.map(quoteTerm).join(" ")}`,
+    );
+  }
+  for (const term of shortTerms) {
+    conditions.push(sql`(
+      instr(lower(coalesce(search_index.title, '')), ${term}) > 0
+      or instr(lower(coalesce(search_index.body, '')), ${term}) > 0
+    )`);
+  }
+
+  const rows = await db.all<IndexRow>(sql`
+    select kind, item_id, title, body, ${
+      matchTerms.length > 0
+        ? sql`snippet(search_index, -1, char(2), char(3), '…', 16)`
+        : sql`null`
+    } as snippet
+    from search_index
+    where ${sql.join(conditions, sql` and `)}
+    ${matchTerms.length > 0 ? sql`order by rank` : sql``}
+    limit ${MAX_SEARCH_RESULTS}
+  `);
+
+  const idsOf = (kind: SearchResultType) =>
+    rows.filter((row) => row.kind === kind).map((row) => row.item_id);
+  const albumIds = idsOf("album");
+  const photoIds = idsOf("photo");
+  const storyIds = idsOf("story");
+  const [albumRows, photoRows, storyRows] = await Promise.all([
+    albumIds.length > 0
+      ? db.select().from(albums).where(inArray(albums.id, albumIds))
+      : [],
+    photoIds.length > 0
+      ? db.select().from(photos).where(inArray(photos.id, photoIds))
+      : [],
+    storyIds.length > 0
+      ? db.select().from(stories).where(inArray(stories.id, storyIds))
+      : [],
+  ]);
+  const albumsById = new Map(albumRows.map((album) => [album.id, album]));
+  const photosById = new Map(photoRows.map((photo) => [photo.id, photo]));
+  const storiesById = new Map(storyRows.map((story) => [story.id, story]));
+
+  const results: SearchResult[] = [];
+  for (const row of rows) {
+    const snippet = toSnippetParts(
+      row.snippet ?? markTerms(row, lowerTerms),
+    );
+    if (row.kind === "album") {
+      const album = albumsById.get(row.item_id);
+      if (!album) continue;
+      results.push({
+        type: "album",
+        id: album.id,
+        albumId: album.id,
+        title: album.title,
+        snippet,
+        thumbnailUrl: album.coverPhotoUrl,
+      });
+    } else if (row.kind === "photo") {
+      const photo = photosById.get(row.item_id);
+      if (!photo) continue;
+      results.push({
+        type: "photo",
+        id: photo.id,
+        albumId: photo.albumId,
+        title: photo.caption ?? "",
+        snippet,
+        thumbnailUrl: getPhotoUrl(photo, "thumbnail"),
+      });
+    } else {
+      const story = storiesById.get(row.item_id);
+      if (!story) continue;
+      results.push({
+        type: "story",
+        id: story.id,
+        albumId: story.albumId,
+        title: story.title,
+        snippet,
+        thumbnailUrl: null,
+      });
+    }
+  }
+  return results;
+}
@@ -2,46 +2,332 @@ import {
   S3Client,
   PutObjectCommand,
   DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+  ListObjectsV2Command,
 } from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { promises as fs } from "fs";
+import path from "path";
 
-export interface StorageProvider {
-  put(
+export type StorageDriver = "r2" | "s3" | "fs" | "memory";
+
+export interface PutOptions {
+  httpMetadata?: { contentType?: string };
+}
+
+export interface StoredObject {
+  body: ArrayBuffer;
+  contentType?: string;
+}
+
+// Part of an object to read, e.g. the leading bytes of a large upload
+export interface ByteRange {
+  offset: number;
+  length: number;
+}
+
+export interface StoredObjectInfo {
+  size: number;
+  contentType?: string;
+}
+
+export interface ListedObject {
+  key: string;
+  size: number;
+  lastModified?: Date;
+}
+
+export interface ListResult {
+  objects: ListedObject[];
+  // Pass back to list() for the next page; undefined on the last page
+  cursor?: string;
+}
+
+export interface UploadedPart {
+  partNumber: number;
+  etag: string;
+}
+
+// Multipart uploads straight from the browser to the bucket
+export interface MultipartUploads {
+  create(key: string, contentType: string): Promise<string>;
+  getPartUrl(
     key: string,
-    data: ArrayBuffer,
-    options?: { httpMetadata?: { contentType?: string } },
-  ): Promise<void>;
+    uploadId: string,
+    partNumber: number,
+    expiresIn: number,
+  ): Promise<string>;
+  complete(key: string, uploadId: string, parts: UploadedPart[]): Promise<void>;
+  abort(key: string, uploadId: string): Promise<void>;
+}
+
+// Short-lived signed URLs that let the browser PUT an object without
+// streaming it through the Worker
+export interface DirectUploads {
+  createUploadUrl(
+    key: string,
+    contentType: string,
+    expiresIn: number,
+  ): Promise<string>;
+  multipart: MultipartUploads | null;
+}
+
+export interface StorageProvider {
+  put(key: string, data: ArrayBuffer, options?: PutOptions): Promise<void>;
+  get(key: string, range?: ByteRange): Promise<StoredObject | null>;
+  head(key: string): Promise<StoredObjectInfo | null>;
+  list(prefix: string, cursor?: string): Promise<ListResult>;
   delete(key: string): Promise<void>;
   getPublicUrl(key: string): string;
+  getKeyFromUrl(url: string): string | null;
+  // null when the driver cannot hand out upload URLs
+  directUploads: DirectUploads | null;
+}
+
+// Route that serves objects for the local drivers (see /api/storage/[...key])
+export const LOCAL_STORAGE_ROUTE = "/api/storage";
+
+function trimTrailingSlash(url: string): string {
+  return url.endsWith("/") ? url.slice(0, -1) : url;
+}
+
+// Strips the public base URL from an object URL, leaving the storage key
+function keyFromPublicUrl(baseUrl: string, url: string): string | null {
+  const prefix = `${trimTrailingSlash(baseUrl)}/`;
+  if (!url.startsWith(prefix)) return null;
+  return decodeURIComponent(url.substring(prefix.length).split("?")[0]);
+}
+
+// Rejects keys that could escape the storage root when mapped onto a path
+function assertSafeKey(key: string): void {
+  if (
+    !key ||
+    key.startsWith("/") ||
+    key.includes("\\") ||
+    key.split("/").some((segment) => segment === ".." || segment === "")
+  ) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+}
+
+interface R2Credentials {
+  accountId: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  bucketName: string;
+}
+
+function getR2Credentials(): R2Credentials | null {
+  const accountId = process.env.R2_ACCOUNT_ID;
+  const accessKeyId = process.env.R2_ACCESS_KEY_ID;
+  const secretAccessKey = process.env.R2_SECRET_ACCESS_KEY;
+  if (!accountId || !accessKeyId || !secretAccessKey) return null;
+  return {
+    accountId,
+    accessKeyId,
+    secretAccessKey,
+    bucketName: process.env.R2_BUCKET_NAME || "love-you-photos",
+  };
+}
+
+function createR2Client(credentials: R2Credentials): S3Client {
+  return new S3Client({
+    region: "auto",
+    endpoint: `https://${credentials.accountId}.r2.cloudflarestorage.com`,
+    credentials: {
+      accessKeyId: credentials.accessKeyId,
+      secretAccessKey: credentials.secretAccessKey,
+    },
+    // Presigned URLs must not carry checksum parameters the browser
+    // cannot compute for the body it sends
+    requestChecksumCalculation: "WHEN_REQUIRED",
+  });
+}
+
+// Signs single-PUT and multipart upload URLs against the S3 API
+class S3UploadSigner implements DirectUploads, MultipartUploads {
+  private client: S3Client;
+  private bucketName: string;
+  multipart: MultipartUploads;
+
+  constructor(client: S3Client, bucketName: string) {
+    this.client = client;
+    this.bucketName = bucketName;
+    this.multipart = this;
+  }
+
+  async createUploadUrl(
+    key: string,
+    contentType: string,
+    expiresIn: number,
+  ): Promise<string> {
+    const command = new PutObjectCommand({
+      Bucket: this.bucketName,
+      Key: key,
+      ContentType: contentType,
+    });
+    return getSignedUrl(this.client, command, { expiresIn });
+  }
+
+  async create(key: string, contentType: string): Promise<string> {
+    const response = await this.client.send(
+      new CreateMultipartUploadCommand({
+        Bucket: this.bucketName,
+        Key: key,
+        ContentType: contentType,
+      }),
+    );
+    if (!response.UploadId) {
+      throw new Error(`No upload id returned for multipart upload: ${key}`);
+    }
+    return response.UploadId;
+  }
+
+  async getPartUrl(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    expiresIn: number,
+  ): Promise<string> {
+    const command = new UploadPartCommand({
+      Bucket: this.bucketName,
+      Key: key,
+      UploadId: uploadId,
+      PartNumber: partNumber,
+    });
+    return getSignedUrl(this.client, command, { expiresIn });
+  }
+
+  async complete(
+    key: string,
+    uploadId: string,
+    parts: UploadedPart[],
+  ): Promise<void> {
+    await this.client.send(
+      new CompleteMultipartUploadCommand({
+        Bucket: this.bucketName,
+        Key: key,
+        UploadId: uploadId,
+        MultipartUpload: {
+          Parts: [...parts]
+            .sort((a, b) => a.partNumber - b.partNumber)
+            .map((part) => ({ PartNumber: part.partNumber, ETag: part.etag })),
+        },
+      }),
+    );
+  }
+
+  async abort(key: string, uploadId: string): Promise<void> {
+    await this.client.send(
+      new AbortMultipartUploadCommand({
+        Bucket: this.bucketName,
+        Key: key,
+        UploadId: uploadId,
+      }),
+    );
+  }
+}
+
+// Signs uploads for the local drivers. The URL points at the PUT handler
+// of /api/storage/[...key], which checks the HMAC before writing.
+class LocalUploadSigner implements DirectUploads {
+  private secret: string;
+  multipart = null;
+
+  constructor(secret: string) {
+    this.secret = secret;
+  }
+
+  async createUploadUrl(
+    key: string,
+    contentType: string,
+    expiresIn: number,
+  ): Promise<string> {
+    assertSafeKey(key);
+    const expires = Math.floor(Date.now() / 1000) + expiresIn;
+    const signature = await signLocalUpload(
+      this.secret,
+      key,
+      contentType,
+      expires,
+    );
+    const query = new URLSearchParams({
+      expires: String(expires),
+      signature,
+    });
+    return `${LOCAL_STORAGE_ROUTE}/${key
+      .split("/")
+      .map(encodeURIComponent)
+      .join("/")}?${query}`;
+  }
+}
+
+async function signLocalUpload(
+  secret: string,
+  key: string,
+  contentType: string,
+  expires: number,
+): Promise<string> {
+  const encoder = new TextEncoder();
+  const cryptoKey = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    cryptoKey,
+    encoder.encode(`PUT\n${key}\n${contentType}\n${expires}`),
+  );
+  return Array.from(new Uint8Array(signature))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export async function verifyLocalUpload(
+  secret: string,
+  key: string,
+  contentType: string,
+  expires: number,
+  signature: string,
+): Promise<boolean> {
+  if (!Number.isFinite(expires) || expires < Date.now() / 1000) return false;
+  const expected = await signLocalUpload(secret, key, contentType, expires);
+  if (expected.length !== signature.length) return false;
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  }
+  return diff === 0;
 }
 
 class S3StorageProvider implements StorageProvider {
   private client: S3Client;
   private bucketName: string;
   private publicUrl: string;
+  directUploads: DirectUploads;
 
-  constructor(
-    accountId: string,
-    accessKeyId: string,
-    secretAccessKey: string,
-    bucketName: string,
-    publicUrl: string,
-  ) {
-    this.client = new S3Client({
-      region: "auto",
-      endpoint: `https://${accountId}.r2.cloudflarestorage.com`,
-      credentials: {
-        accessKeyId,
-        secretAccessKey,
-      },
-    });
-    this.bucketName = bucketName;
+  constructor(credentials: R2Credentials, publicUrl: string) {
+    this.client = createR2Client(credentials);
+    this.bucketName = credentials.bucketName;
     this.publicUrl = publicUrl;
+    this.directUploads = new S3UploadSigner(
+      this.client,
+      credentials.bucketName,
+    );
   }
 
   async put(
     key: string,
     data: ArrayBuffer,
-    options?: { httpMetadata?: { contentType?: string } },
+    options?: PutOptions,
   ): Promise<void> {
     const command = new PutObjectCommand({
       Bucket: this.bucketName,
@@ -58,6 +344,68 @@ class S3StorageProvider implements StorageProvider {
     }
   }
 
+  async get(key: string, range?: ByteRange): Promise<StoredObject | null> {
+    const command = new GetObjectCommand({
+      Bucket: this.bucketName,
+      Key: key,
+      Range: range
+        ? `bytes=${range.offset}-${range.offset + range.length - 1}`
+        : undefined,
+    });
+    try {
+      const response = await this.client.send(command);
+      if (!response.Body) return null;
+      const bytes = await response.Body.transformToByteArray();
+      return {
+        body: bytes.buffer.slice(
+          bytes.byteOffset,
+          bytes.byteOffset + bytes.byteLength,
+        ) as ArrayBuffer,
+        contentType: response.ContentType,
+      };
+    } catch (error) {
+      if ((error as { name?: string }).name === "NoSuchKey") return null;
+      console.error(`[S3Storage] Error reading file:`, error);
+      throw error;
+    }
+  }
+
+  async head(key: string): Promise<StoredObjectInfo | null> {
+    const command = new HeadObjectCommand({
+      Bucket: this.bucketName,
+      Key: key,
+    });
+    try {
+      const response = await this.client.send(command);
+      return {
+        size: response.ContentLength ?? 0,
+        contentType: response.ContentType,
+      };
+    } catch (error) {
+      if ((error as { name?: string }).name === "NotFound") return null;
+      console.error(`[S3Storage] Error reading file metadata:`, error);
+      throw error;
+    }
+  }
+
+  async list(prefix: string, cursor?: string): Promise<ListResult> {
+    const response = await this.client.send(
+      new ListObjectsV2Command({
+        Bucket: this.bucketName,
+        Prefix: prefix,
+        ContinuationToken: cursor,
+      }),
+    );
+    return {
+      objects: (response.Contents ?? []).map((object) => ({
+        key: object.Key as string,
+        size: object.Size ?? 0,
+        lastModified: object.LastModified,
+      })),
+      cursor: response.IsTruncated ? response.NextContinuationToken : undefined,
+    };
+  }
+
   async delete(key: string): Promise<void> {
     const command = new DeleteObjectCommand({
       Bucket: this.bucketName,
@@ -73,30 +421,69 @@ class S3StorageProvider implements StorageProvider {
   }
 
   getPublicUrl(key: string): string {
-    const baseUrl = this.publicUrl.endsWith("/")
-      ? this.publicUrl.slice(0, -1)
-      : this.publicUrl;
-    return `${baseUrl}/${key}`;
+    return `${trimTrailingSlash(this.publicUrl)}/${key}`;
+  }
+
+  getKeyFromUrl(url: string): string | null {
+    return keyFromPublicUrl(this.publicUrl, url);
   }
 }
 
+// The R2 binding cannot sign URLs, so direct uploads are only available
+// when S3 API credentials are configured alongside it.
 class R2StorageProvider implements StorageProvider {
   private bucket: R2Bucket;
   private baseUrl: string;
+  directUploads: DirectUploads | null;
 
-  constructor(bucket: R2Bucket, baseUrl: string) {
+  constructor(
+    bucket: R2Bucket,
+    baseUrl: string,
+    directUploads: DirectUploads | null,
+  ) {
     this.bucket = bucket;
     this.baseUrl = baseUrl;
+    this.directUploads = directUploads;
   }
 
   async put(
     key: string,
     data: ArrayBuffer,
-    options?: { httpMetadata?: { contentType?: string } },
+    options?: PutOptions,
   ): Promise<void> {
     await this.bucket.put(key, data, options);
   }
 
+  async get(key: string, range?: ByteRange): Promise<StoredObject | null> {
+    const object = await this.bucket.get(key, range ? { range } : undefined);
+    if (!object) return null;
+    return {
+      body: await object.arrayBuffer(),
+      contentType: object.httpMetadata?.contentType,
+    };
+  }
+
+  async head(key: string): Promise<StoredObjectInfo | null> {
+    const object = await this.bucket.head(key);
+    if (!object) return null;
+    return {
+      size: object.size,
+      contentType: object.httpMetadata?.contentType,
+    };
+  }
+
+  async list(prefix: string, cursor?: string): Promise<ListResult> {
+    const result = await this.bucket.list({ prefix, cursor });
+    return {
+      objects: result.objects.map((object) => ({
+        key: object.key,
+        size: object.size,
+        lastModified: object.uploaded,
+      })),
+      cursor: result.truncated ? result.cursor : undefined,
+    };
+  }
+
   async delete(key: string): Promise<void> {
     await this.bucket.delete(key);
   }
@@ -104,26 +491,289 @@ class R2StorageProvider implements StorageProvider {
   getPublicUrl(key: string): string {
     return `${this.baseUrl}/${key}`;
   }
+
+  getKeyFromUrl(url: string): string | null {
+    return keyFromPublicUrl(this.baseUrl, url);
+  }
+}
+
+async function readFileRange(
+  filePath: string,
+  range: ByteRange,
+): Promise<Buffer> {
+  const handle = await fs.open(filePath, "r");
+  try {
+    const buffer = Buffer.alloc(range.length);
+    const { bytesRead } = await handle.read(
+      buffer,
+      0,
+      range.length,
+      range.offset,
+    );
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+// Stores objects on the local disk. Each object gets a sidecar
+// `.meta.json` file holding its content type.
+export class FileSystemStorageProvider implements StorageProvider {
+  private rootDir: string;
+  private publicUrl: string;
+  directUploads: DirectUploads | null;
+
+  constructor(
+    rootDir: string,
+    publicUrl: string,
+    directUploads: DirectUploads | null = null,
+  ) {
+    this.rootDir = path.resolve(rootDir);
+    this.publicUrl = publicUrl;
+    this.directUploads = directUploads;
+  }
+
+  private resolvePath(key: string): string {
+    assertSafeKey(key);
+    return path.join(this.rootDir, ...key.split("/"));
+  }
+
+  async put(
+    key: string,
+    data: ArrayBuffer,
+    options?: PutOptions,
+  ): Promise<void> {
+    const filePath = this.resolvePath(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, new Uint8Array(data));
+    await fs.writeFile(
+      `${filePath}.meta.json`,
+      JSON.stringify({ contentType: options?.httpMetadata?.contentType }),
+    );
+  }
+
+  async get(key: string, range?: ByteRange): Promise<StoredObject | null> {
+    const filePath = this.resolvePath(key);
+    try {
+      const bytes = range
+        ? await readFileRange(filePath, range)
+        : await fs.readFile(filePath);
+      const meta = await fs
+        .readFile(`${filePath}.meta.json`, "utf8")
+        .then((raw) => JSON.parse(raw) as { contentType?: string })
+        .catch(() => ({}) as { contentType?: string });
+      return {
+        body: bytes.buffer.slice(
+          bytes.byteOffset,
+          bytes.byteOffset + bytes.byteLength,
+        ) as ArrayBuffer,
+        contentType: meta.contentType,
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async head(key: string): Promise<StoredObjectInfo | null> {
+    const filePath = this.resolvePath(key);
+    try {
+      const stats = await fs.stat(filePath);
+      const meta = await fs
+        .readFile(`${filePath}.meta.json`, "utf8")
+        .then((raw) => JSON.parse(raw) as { contentType?: string })
+        .catch(() => ({}) as { contentType?: string });
+      return { size: stats.size, contentType: meta.contentType };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  // Returns every object under the prefix in one page
+  async list(prefix: string): Promise<ListResult> {
+    const objects: ListedObject[] = [];
+    const walk = async (dir: string, keyPrefix: string) => {
+      const entries = await fs
+        .readdir(dir, { withFileTypes: true })
+        .catch((error: NodeJS.ErrnoException) => {
+          if (error.code === "ENOENT") return [];
+          throw error;
+        });
+      for (const entry of entries) {
+        const key = `${keyPrefix}${entry.name}`;
+        if (entry.isDirectory()) {
+          await walk(path.join(dir, entry.name), `${key}/`);
+        } else if (
+          !entry.name.endsWith(".meta.json") &&
+          key.startsWith(prefix)
+        ) {
+          const stats = await fs.stat(path.join(dir, entry.name));
+          objects.push({ key, size: stats.size, lastModified: stats.mtime });
+        }
+      }
+    };
+    // Start from the deepest directory the prefix names
+    const dirPrefix = prefix.substring(0, prefix.lastIndexOf("/") + 1);
+    if (dirPrefix) assertSafeKey(dirPrefix.slice(0, -1));
+    await walk(
+      path.join(this.rootDir, ...dirPrefix.split("/").filter(Boolean)),
+      dirPrefix,
+    );
+    return { objects };
+  }
+
+  async delete(key: string): Promise<void> {
+    const filePath = this.resolvePath(key);
+    await fs.rm(filePath, { force: true });
+    await fs.rm(`${filePath}.meta.json`, { force: true });
+  }
+
+  getPublicUrl(key: string): string {
+    return `${trimTrailingSlash(this.publicUrl)}/${key}`;
+  }
+
+  getKeyFromUrl(url: string): string | null {
+    return keyFromPublicUrl(this.publicUrl, url);
+  }
 }
 
-export function getStorageProvider(
-  env: {
-    PHOTOS_BUCKET?: R2Bucket;
-    PHOTOS_BUCKET_URL?: string;
-  },
-  isDevelopment: boolean,
-): StorageProvider {
-  if (isDevelopment) {
-    // Try to use S3/R2 remote upload using env vars
-    const accountId = process.env.R2_ACCOUNT_ID;
-    const accessKeyId = process.env.R2_ACCESS_KEY_ID;
-    const secretAccessKey = process.env.R2_SECRET_ACCESS_KEY;
-    const bucketName = process.env.R2_BUCKET_NAME || "love-you-photos";
+// Keeps objects in process memory. The map lives on globalThis so that
+// every route module in the same process sees the same objects.
+type MemoryObject = StoredObject & { uploaded: Date };
+
+const globalForMemoryStorage = globalThis as unknown as {
+  __memoryStorage?: Map<string, MemoryObject>;
+};
+
+export class MemoryStorageProvider implements StorageProvider {
+  private objects: Map<string, MemoryObject>;
+  private publicUrl: string;
+  directUploads: DirectUploads | null;
+
+  constructor(publicUrl: string, directUploads: DirectUploads | null = null) {
+    globalForMemoryStorage.__memoryStorage ??= new Map();
+    this.objects = globalForMemoryStorage.__memoryStorage;
+    this.publicUrl = publicUrl;
+    this.directUploads = directUploads;
+  }
+
+  async put(
+    key: string,
+    data: ArrayBuffer,
+    options?: PutOptions,
+  ): Promise<void> {
+    assertSafeKey(key);
+    this.objects.set(key, {
+      body: data.slice(0),
+      contentType: options?.httpMetadata?.contentType,
+      uploaded: new Date(),
+    });
+  }
+
+  async get(key: string, range?: ByteRange): Promise<StoredObject | null> {
+    const object = this.objects.get(key);
+    if (!object) return null;
+    if (!range) {
+      return { body: object.body, contentType: object.contentType };
+    }
+    return {
+      body: object.body.slice(range.offset, range.offset + range.length),
+      contentType: object.contentType,
+    };
+  }
+
+  async head(key: string): Promise<StoredObjectInfo | null> {
+    const object = this.objects.get(key);
+    if (!object) return null;
+    return { size: object.body.byteLength, contentType: object.contentType };
+  }
+
+  async list(prefix: string): Promise<ListResult> {
+    const objects: ListedObject[] = [];
+    for (const [key, object] of this.objects) {
+      if (key.startsWith(prefix)) {
+        objects.push({
+          key,
+          size: object.body.byteLength,
+          lastModified: object.uploaded,
+        });
+      }
+    }
+    return { objects };
+  }
+
+  async delete(key: string): Promise<void> {
+    this.objects.delete(key);
+  }
+
+  getPublicUrl(key: string): string {
+    return `${trimTrailingSlash(this.publicUrl)}/${key}`;
+  }
+
+  getKeyFromUrl(url: string): string | null {
+    return keyFromPublicUrl(this.publicUrl, url);
+  }
+
+  clear(): void {
+    this.objects.clear();
+  }
+}
+
+export function getStorageDriver(env: {
+  STORAGE_DRIVER?: string;
+}): StorageDriver {
+  const driver = process.env.STORAGE_DRIVER || env.STORAGE_DRIVER || "r2";
+  if (
+    driver !== "r2" &&
+    driver !== "s3" &&
+    driver !== "fs" &&
+    driver !== "memory"
+  ) {
+    throw new Error(
+      `Unknown STORAGE_DRIVER "${driver}". Expected one of: r2, s3, fs, memory.`,
+    );
+  }
+  return driver;
+}
+
+// Secret used to sign local upload URLs (shared with next-auth)
+export function getLocalUploadSecret(env: {
+  AUTH_SECRET?: string;
+}): string | null {
+  return process.env.AUTH_SECRET || env.AUTH_SECRET || null;
+}
+
+export function getStorageProvider(env: {
+  PHOTOS_BUCKET?: R2Bucket;
+  PHOTOS_BUCKET_URL?: string;
+  STORAGE_DRIVER?: string;
+  AUTH_SECRET?: string;
+}): StorageProvider {
+  const driver = getStorageDriver(env);
+
+  if (driver === "memory" || driver === "fs") {
+    const secret = getLocalUploadSecret(env);
+    const directUploads = secret ? new LocalUploadSigner(secret) : null;
+    const publicUrl = process.env.STORAGE_PUBLIC_URL || LOCAL_STORAGE_ROUTE;
+    if (driver === "memory") {
+      return new MemoryStorageProvider(publicUrl, directUploads);
+    }
+    return new FileSystemStorageProvider(
+      process.env.STORAGE_LOCAL_DIR || ".storage",
+      publicUrl,
+      directUploads,
+    );
+  }
+
+  if (driver === "s3") {
+    // Use S3/R2 remote upload using env vars
+    const credentials = getR2Credentials();
     const publicUrl = process.env.PHOTOS_BUCKET_URL || env.PHOTOS_BUCKET_URL;
 
-    if (!accountId || !accessKeyId || !secretAccessKey) {
+    if (!credentials) {
       throw new Error(
-        "Missing R2 credentials for development (R2_ACCOUNT_ID, R2_ACCESS_KEY_ID, R2_SECRET_ACCESS_KEY). Please set them in your .env file.",
+        "Missing R2 credentials for the s3 storage driver (R2_ACCOUNT_ID, R2_ACCESS_KEY_ID, R2_SECRET_ACCESS_KEY). Please set them in your .env file.",
       );
     }
 
@@ -143,21 +793,22 @@ export function getStorageProvider(
       );
     }
 
-    return new S3StorageProvider(
-      accountId,
-      accessKeyId,
-      secretAccessKey,
-      bucketName,
-      publicUrl,
-    );
-  } else {
-    // Use R2 in production
-    if (!env.PHOTOS_BUCKET) {
-      throw new Error("PHOTOS_BUCKET is not configured");
-    }
-    if (!env.PHOTOS_BUCKET_URL) {
-      throw new Error("PHOTOS_BUCKET_URL is not configured");
-    }
-    return new R2StorageProvider(env.PHOTOS_BUCKET, env.PHOTOS_BUCKET_URL);
+    return new S3StorageProvider(credentials, publicUrl);
+  }
+
+  // Use the R2 binding (production)
+  if (!env.PHOTOS_BUCKET) {
+    throw new Error("PHOTOS_BUCKET is not configured");
+  }
+  if (!env.PHOTOS_BUCKET_URL) {
+    throw new Error("PHOTOS_BUCKET_URL is not configured");
   }
+  const credentials = getR2Credentials();
+  return new R2StorageProvider(
+    env.PHOTOS_BUCKET,
+    env.PHOTOS_BUCKET_URL,
+    credentials
+      ? new S3UploadSigner(createR2Client(credentials), credentials.bucketName)
+      : null,
+  );
 }
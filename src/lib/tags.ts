@@ -0,0 +1,181 @@
+import { and, asc, desc, eq, inArray, or, sql, type SQL } from "drizzle-orm";
+import { randomUUID } from "crypto";
+import { D1_BATCH_SIZE, type Database } from "@/db";
+import { photos, photoTags, tags } from "@/db/schema";
+import { inActiveAlbum } from "@/lib/trash";
+
+// Longest tag name accepted, in characters
+export const MAX_TAG_NAME_LENGTH = 50;
+
+// Most tags a single photo may carry
+export const MAX_PHOTO_TAGS = 30;
+
+// A tag as it appears on photos in API responses
+export interface PhotoTag {
+  id: string;
+  name: string;
+}
+
+// Trims a tag name and collapses inner whitespace. Returns null unless the
+// result is 1 to MAX_TAG_NAME_LENGTH characters.
+export function normalizeTagName(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const name = value.trim().replace(/\s+/g, " ");
+  return name && name.length <= MAX_TAG_NAME_LENGTH ? name : null;
+}
+
+// Tag names are compared regardless of case, like the unique index does
+function tagNameIs(name: string): SQL {
+  return sql`lower(${tags.name}) = lower(${name})`;
+}
+
+// Condition for photos that carry the user's tag with the given name
+export function photoHasTag(userId: string, name: string): SQL {
+  return sql`exists (
+    select 1 from ${photoTags}
+    inner join ${tags} on ${tags.id} = ${photoTags.tagId}
+    where ${photoTags.photoId} = ${photos.id}
+      and ${tags.userId} = ${userId} and ${tagNameIs(name)}
+  )`;
+}
+
+// Number of photos carrying a tag, leaving out trashed ones
+const photoCount = sql<number>`(
+  select count(*) from ${photoTags}
+  inner join ${photos} on ${photos.id} = ${photoTags.photoId}
+  where ${photoTags.tagId} = ${tags.id}
+    and ${photos.deletedAt} is null and ${inActiveAlbum(photos.albumId)}
+)`;
+
+// The user's tags with their photo counts, most used first. With `q`, only
+// tags containing it, those starting with it first (for autocomplete).
+export async function listTags(
+  db: Database,
+  userId: string,
+  q: string | null,
+  limit: number,
+) {
+  const position = sql`instr(lower(${tags.name}), lower(${q}))`;
+  return db
+    .select({ id: tags.id, name: tags.name, photoCount })
+    .from(tags)
+    .where(and(eq(tags.userId, userId), q ? sql`${position} > 0` : undefined))
+    .orderBy(
+      ...(q ? [desc(sql`${position} = 1`)] : []),
+      desc(photoCount),
+      asc(tags.name),
+    )
+    .limit(limit);
+}
+
+// The user's tag with the given name, if any
+export async function findTag(
+  db: Database,
+  userId: string,
+  name: string,
+): Promise<PhotoTag | null> {
+  const tag = await db
+    .select({ id: tags.id, name: tags.name })
+    .from(tags)
+    .where(and(eq(tags.userId, userId), tagNameIs(name)))
+    .limit(1);
+  return tag[0] ?? null;
+}
+
+async function findTags(db: Database, userId: string, names: string[]) {
+  if (names.length === 0) return [];
+  return db
+    .select({ id: tags.id, name: tags.name })
+    .from(tags)
+    .where(and(eq(tags.userId, userId), or(...names.map(tagNameIs))));
+}
+
+// The user's tags with the given (normalized) names, in the same order,
+// creating the ones that do not exist yet
+export async function findOrCreateTags(
+  db: Database,
+  userId: string,
+  names: string[],
+): Promise<PhotoTag[]> {
+  const sameName = (a: string, b: string) =>
+    a.toLowerCase() === b.toLowerCase();
+  const unique = names.filter(
+    (name, index) =>
+      names.findIndex((other) => sameName(name, other)) === index,
+  );
+
+  const found = await findTags(db, userId, unique);
+  const missing = unique.filter(
+    (name) => !found.some((tag) => sameName(tag.name, name)),
+  );
+  if (missing.length > 0) {
+    const createdAt = new Date();
+    await db
+      .insert(tags)
+      .values(
+        missing.map((name) => ({ id: randomUUID(), userId, name, createdAt })),
+      )
+      // Another request may have created the same tag meanwhile
+      .onConflictDoNothing();
+    found.push(...(await findTags(db, userId, missing)));
+  }
+
+  return unique
+    .map((name) => found.find((tag) => sameName(tag.name, name)))
+    .filter((tag) => tag !== undefined);
+}
+
+// Replaces the user's tags on a photo. Tags other members of the album put
+// on it stay.
+export async function setPhotoTags(
+  db: Database,
+  userId: string,
+  photoId: string,
+  tagIds: string[],
+): Promise<void> {
+  const ownTags = db
+    .select({ id: tags.id })
+    .from(tags)
+    .where(eq(tags.userId, userId));
+  const createdAt = new Date();
+  await db.batch([
+    db
+      .delete(photoTags)
+      .where(
+        and(
+          eq(photoTags.photoId, photoId),
+          inArray(photoTags.tagId, ownTags),
+        ),
+      ),
+    ...tagIds.map((tagId) =>
+      db.insert(photoTags).values({ photoId, tagId, createdAt }),
+    ),
+  ]);
+}
+
+// Adds the user's tags of each photo to it, sorted by name
+export async function withPhotoTags<T extends { id: string }>(
+  db: Database,
+  userId: string,
+  rows: T[],
+): Promise<(T & { tags: PhotoTag[] })[]> {
+  const byPhoto = new Map<string, PhotoTag[]>();
+  const ids = rows.map((row) => row.id);
+  for (let i = 0; i < ids.length; i += D1_BATCH_SIZE) {
+    const found = await db
+      .select({ photoId: photoTags.photoId, id: tags.id, name: tags.name })
+      .from(photoTags)
+      .innerJoin(tags, eq(tags.id, photoTags.tagId))
+      .where(
+        and(
+          eq(tags.userId, userId),
+          inArray(photoTags.photoId, ids.slice(i, i + D1_BATCH_SIZE)),
+        ),
+      )
+      .orderBy(asc(tags.name));
+    for (const { photoId, ...tag } of found) {
+      byPhoto.set(photoId, [...(byPhoto.get(photoId) ?? []), tag]);
+    }
+  }
+  return rows.map((row) => ({ ...row, tags: byPhoto.get(row.id) ?? [] }));
+}
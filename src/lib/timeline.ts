@@ -0,0 +1,141 @@
+import { and, desc, isNull, sql, type SQL } from "drizzle-orm";
+import type { Database } from "@/db";
+import { photos } from "@/db/schema";
+import { isAlbumMember } from "@/lib/albumAccess";
+import { zoneOffsetMinutes } from "@/lib/calendar";
+import type { SortKey } from "@/lib/pagination";
+import { inActiveAlbum } from "@/lib/trash";
+
+// The timeline places each photo at its capture date, or its upload time
+// when it has none, on the calendar of the viewer's IANA time zone. SQLite
+// has no time zone database, so the UTC offsets the zone used over the
+// photos' time span are worked out in JavaScript and each photo is shifted
+// by the offset in effect at its time, daylight saving included.
+
+// Offset changes are found by sampling at this interval (seconds). Zones
+// keep an offset for months, even around the Ramadan pauses of some.
+const OFFSET_SAMPLE_INTERVAL = 7 * 24 * 60 * 60;
+
+// Seconds since the epoch from which a time zone is `offset` seconds ahead
+// of UTC, until the next period starts
+export interface OffsetPeriod {
+  start: number;
+  offset: number;
+}
+
+function offsetAt(seconds: number, timeZone: string): number {
+  return zoneOffsetMinutes(seconds * 1000, timeZone) * 60;
+}
+
+// The offsets of a time zone between two moments (seconds since the epoch)
+export function offsetPeriods(
+  timeZone: string,
+  from: number,
+  to: number,
+): OffsetPeriod[] {
+  const periods = [{ start: from, offset: offsetAt(from, timeZone) }];
+  for (let time = from; time < to; time += OFFSET_SAMPLE_INTERVAL) {
+    const next = Math.min(time + OFFSET_SAMPLE_INTERVAL, to);
+    const offset = offsetAt(next, timeZone);
+    if (offset === periods[periods.length - 1].offset) continue;
+
+    // Narrow down the second the offset changed at
+    let before = time;
+    let after = next;
+    while (after - before > 1) {
+      const middle = Math.floor((before + after) / 2);
+      if (offsetAt(middle, timeZone) === offset) {
+        after = middle;
+      } else {
+        before = middle;
+      }
+    }
+    periods.push({ start: after, offset });
+  }
+  return periods;
+}
+
+// Time of a photo in seconds: its capture date, or its upload time when it
+// has none
+export const photoTime = sql<number>`coalesce(
+  ${photos.takenAt},
+  ${photos.uploadedAt}
+)`;
+
+// Local calendar day of a photo, as YYYY-MM-DD. Photos outside the periods
+// are placed by the nearest one.
+export function photoDay(periods: OffsetPeriod[]): SQL<string> {
+  const offsets = JSON.stringify(
+    periods.map(({ start, offset }) => [start, offset]),
+  );
+  return sql<string>`date(${photoTime} + coalesce(
+    (
+      select period.value ->> 1 from json_each(${offsets}) as period
+      where period.value ->> 0 <= ${photoTime}
+      order by period.key desc limit 1
+    ),
+    ${periods[0].offset}
+  ), 'unixepoch')`;
+}
+
+// Newest first, like the buckets
+export const TIMELINE_SORT_KEYS: SortKey[] = [photoTime, photos.id];
+
+// Photos of the albums the user is a member of that show on the timeline
+export function onTimeline(userId: string): SQL | undefined {
+  return and(
+    isAlbumMember(userId, photos.albumId),
+    isNull(photos.deletedAt),
+    inActiveAlbum(photos.albumId),
+  );
+}
+
+export interface TimelineDay {
+  // YYYY-MM-DD
+  date: string;
+  count: number;
+}
+
+export interface TimelineMonth {
+  // YYYY-MM
+  month: string;
+  count: number;
+  days: TimelineDay[];
+}
+
+// Photo counts of every day with photos, grouped by month, newest first
+export async function listTimelineBuckets(
+  db: Database,
+  userId: string,
+  timeZone: string,
+): Promise<TimelineMonth[]> {
+  const [span] = await db
+    .select({
+      first: sql<number | null>`min(${photoTime})`,
+      last: sql<number | null>`max(${photoTime})`,
+    })
+    .from(photos)
+    .where(onTimeline(userId));
+  if (span.first === null || span.last === null) return [];
+
+  const day = photoDay(offsetPeriods(timeZone, span.first, span.last));
+  const days = await db
+    .select({ date: day, count: sql<number>`count(*)` })
+    .from(photos)
+    .where(onTimeline(userId))
+    .groupBy(day)
+    .orderBy(desc(day));
+
+  const months: TimelineMonth[] = [];
+  for (const { date, count } of days) {
+    const month = date.slice(0, 7);
+    const last = months[months.length - 1];
+    if (last?.month === month) {
+      last.count += count;
+      last.days.push({ date, count });
+    } else {
+      months.push({ month, count, days: [{ date, count }] });
+    }
+  }
+  return months;
+}
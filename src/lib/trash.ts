@@ -0,0 +1,172 @@
+import { and, desc, eq, isNotNull, isNull, sql, type SQL } from "drizzle-orm";
+import type { SQLiteColumn } from "drizzle-orm/sqlite-core";
+import type { Database } from "@/db";
+import { albums, photos, stories } from "@/db/schema";
+import { isAlbumMember } from "@/lib/albumAccess";
+
+// Deleting an album, photo or story moves it to the trash: the row gets a
+// deletedAt time, drops out of every listing and can be restored until the
+// retention period is over (see purgeExpiredTrash in photos.ts). Photos and
+// stories of a trashed album keep their own state; they are hidden along
+// with the album and come back with it.
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days an item stays in the trash, from TRASH_RETENTION_DAYS
+export function getTrashRetentionDays(env: {
+  TRASH_RETENTION_DAYS?: string;
+}): number {
+  const days = Number(
+    process.env.TRASH_RETENTION_DAYS || env.TRASH_RETENTION_DAYS,
+  );
+  return Number.isFinite(days) && days > 0
+    ? days
+    : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+// Items trashed before this moment are due to be purged
+export function getTrashCutoff(retentionDays: number): Date {
+  return new Date(Date.now() - retentionDays * DAY_MS);
+}
+
+export const TRASH_ITEM_TYPES = ["album", "photo", "story"] as const;
+
+export type TrashItemType = (typeof TRASH_ITEM_TYPES)[number];
+
+export function isTrashItemType(value: unknown): value is TrashItemType {
+  return TRASH_ITEM_TYPES.includes(value as TrashItemType);
+}
+
+// Condition for photos or stories whose album is not in the trash, for
+// listings that are not already limited to one (checked) album
+export function inActiveAlbum(albumId: SQLiteColumn): SQL {
+  return sql`exists (
+    select 1 from ${albums}
+    where ${albums.id} = ${albumId} and ${albums.deletedAt} is null
+  )`;
+}
+
+// The user's trashed albums, and the trashed photos and stories of albums
+// they edit that are not trashed themselves, most recently deleted first
+export async function listTrash(db: Database, userId: string) {
+  const [trashedAlbums, trashedPhotos, trashedStories] = await Promise.all([
+    db
+      .select()
+      .from(albums)
+      .where(and(eq(albums.userId, userId), isNotNull(albums.deletedAt)))
+      .orderBy(desc(albums.deletedAt)),
+    db
+      .select()
+      .from(photos)
+      .where(
+        and(
+          isAlbumMember(userId, photos.albumId, "editor"),
+          isNotNull(photos.deletedAt),
+          inActiveAlbum(photos.albumId),
+        ),
+      )
+      .orderBy(desc(photos.deletedAt)),
+    db
+      .select()
+      .from(stories)
+      .where(
+        and(
+          isAlbumMember(userId, stories.albumId, "editor"),
+          isNotNull(stories.deletedAt),
+          inActiveAlbum(stories.albumId),
+        ),
+      )
+      .orderBy(desc(stories.deletedAt)),
+  ]);
+
+  return {
+    albums: trashedAlbums,
+    photos: trashedPhotos,
+    stories: trashedStories,
+  };
+}
+
+// "albumTrashed" means the item lives in an album that has to be restored
+// first
+export type RestoreResult = "restored" | "notFound" | "albumTrashed";
+
+async function isAlbumTrashed(db: Database, albumId: string) {
+  const album = await db
+    .select({ deletedAt: albums.deletedAt })
+    .from(albums)
+    .where(eq(albums.id, albumId))
+    .limit(1);
+  return !album[0] || album[0].deletedAt !== null;
+}
+
+// Takes an album the user owns, or a photo or story of an album they edit,
+// out of the trash
+export async function restoreTrashItem(
+  db: Database,
+  userId: string,
+  type: TrashItemType,
+  id: string,
+): Promise<RestoreResult> {
+  if (type === "album") {
+    const album = await db
+      .select({ id: albums.id })
+      .from(albums)
+      .where(
+        and(
+          eq(albums.id, id),
+          eq(albums.userId, userId),
+          isNotNull(albums.deletedAt),
+        ),
+      )
+      .limit(1);
+    if (album.length === 0) return "notFound";
+
+    await db.update(albums).set({ deletedAt: null }).where(eq(albums.id, id));
+    return "restored";
+  }
+
+  if (type === "photo") {
+    const photo = await db
+      .select()
+      .from(photos)
+      .where(
+        and(
+          eq(photos.id, id),
+          isAlbumMember(userId, photos.albumId, "editor"),
+          isNotNull(photos.deletedAt),
+        ),
+      )
+      .limit(1);
+    if (photo.length === 0) return "notFound";
+    if (await isAlbumTrashed(db, photo[0].albumId)) return "albumTrashed";
+
+    await db.update(photos).set({ deletedAt: null }).where(eq(photos.id, id));
+    // An album emptied by the trash gets its cover back
+    await db
+      .update(albums)
+      .set({ coverPhotoUrl: photo[0].url })
+      .where(
+        and(eq(albums.id, photo[0].albumId), isNull(albums.coverPhotoUrl)),
+      );
+    return "restored";
+  }
+
+  const story = await db
+    .select({ albumId: stories.albumId })
+    .from(stories)
+    .where(
+      and(
+        eq(stories.id, id),
+        isAlbumMember(userId, stories.albumId, "editor"),
+        isNotNull(stories.deletedAt),
+      ),
+    )
+    .limit(1);
+  if (story.length === 0) return "notFound";
+  if (await isAlbumTrashed(db, story[0].albumId)) return "albumTrashed";
+
+  await db.update(stories).set({ deletedAt: null }).where(eq(stories.id, id));
+  return "restored";
+}
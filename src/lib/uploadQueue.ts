@@ -0,0 +1,282 @@
+export type UploadStatus =
+  | "queued"
+  | "uploading"
+  | "retrying"
+  | "done"
+  | "error"
+  | "cancelled";
+
+export interface UploadItem<T = unknown> {
+  id: string;
+  file: File;
+  status: UploadStatus;
+  loaded: number;
+  total: number;
+  attempts: number;
+  error?: string;
+  result?: T;
+}
+
+export interface UploadTaskOptions {
+  onProgress: (loaded: number, total: number) => void;
+  signal: AbortSignal;
+}
+
+export type UploadTask<T> = (
+  file: File,
+  options: UploadTaskOptions,
+) => Promise<T>;
+
+export interface UploadQueueOptions<T> {
+  upload: UploadTask<T>;
+  concurrency?: number;
+  maxRetries?: number;
+  // Delay before the first retry; doubles with every further attempt
+  retryDelay?: number;
+}
+
+export interface UploadQueueSnapshot<T = unknown> {
+  items: UploadItem<T>[];
+  paused: boolean;
+  // Totals over items that have not been cancelled
+  loaded: number;
+  total: number;
+  // True while items are queued, uploading or waiting to retry
+  active: boolean;
+}
+
+const DEFAULT_CONCURRENCY = 3;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_DELAY = 1000;
+
+function isAbortError(error: unknown): boolean {
+  return (error as { name?: string })?.name === "AbortError";
+}
+
+// Client errors (bad request, quota exceeded...) fail the same way again;
+// timeouts, rate limits, server and network errors are worth a retry
+function isRetryable(error: unknown): boolean {
+  const status = (error as { status?: number })?.status;
+  if (typeof status !== "number") return true;
+  return status === 408 || status === 429 || status >= 500;
+}
+
+// Client-side upload queue. Runs a limited number of uploads at once,
+// retries failures with exponential backoff and supports pause, resume
+// and cancel. Framework agnostic; see useUploadQueue for the React binding.
+export class UploadQueue<T = unknown> {
+  private options: Required<UploadQueueOptions<T>>;
+  private items: UploadItem<T>[] = [];
+  private controllers = new Map<string, AbortController>();
+  private retryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private listeners = new Set<() => void>();
+  private paused = false;
+  private snapshot: UploadQueueSnapshot<T>;
+  private nextId = 0;
+
+  constructor(options: UploadQueueOptions<T>) {
+    this.options = {
+      upload: options.upload,
+      concurrency: options.concurrency ?? DEFAULT_CONCURRENCY,
+      maxRetries: options.maxRetries ?? DEFAULT_MAX_RETRIES,
+      retryDelay: options.retryDelay ?? DEFAULT_RETRY_DELAY,
+    };
+    this.snapshot = this.buildSnapshot();
+  }
+
+  add(files: Iterable<File>): void {
+    for (const file of files) {
+      this.items.push({
+        id: `${Date.now()}-${this.nextId++}`,
+        file,
+        status: "queued",
+        loaded: 0,
+        total: file.size,
+        attempts: 0,
+      });
+    }
+    this.emit();
+    this.pump();
+  }
+
+  // Stops starting new uploads and interrupts running ones; interrupted
+  // uploads go back to the queue and start over on resume.
+  pause(): void {
+    if (this.paused) return;
+    this.paused = true;
+    for (const [id, controller] of this.controllers) {
+      // An interrupted attempt does not count against the retry budget
+      const attempts = this.items.find((item) => item.id === id)?.attempts;
+      this.update(id, {
+        status: "queued",
+        loaded: 0,
+        attempts: Math.max(0, (attempts ?? 0) - 1),
+      });
+      controller.abort();
+    }
+    this.controllers.clear();
+    this.emit();
+  }
+
+  resume(): void {
+    if (!this.paused) return;
+    this.paused = false;
+    this.emit();
+    this.pump();
+  }
+
+  cancel(id: string): void {
+    const item = this.items.find((entry) => entry.id === id);
+    if (!item || item.status === "done" || item.status === "cancelled") {
+      return;
+    }
+    this.controllers.get(id)?.abort();
+    this.controllers.delete(id);
+    clearTimeout(this.retryTimers.get(id));
+    this.retryTimers.delete(id);
+    this.update(id, { status: "cancelled" });
+    this.emit();
+    this.pump();
+  }
+
+  cancelAll(): void {
+    for (const item of this.items) this.cancel(item.id);
+  }
+
+  // Puts a failed upload back into the queue with a fresh retry budget
+  retry(id: string): void {
+    const item = this.items.find((entry) => entry.id === id);
+    if (!item || item.status !== "error") return;
+    this.update(id, {
+      status: "queued",
+      loaded: 0,
+      attempts: 0,
+      error: undefined,
+    });
+    this.emit();
+    this.pump();
+  }
+
+  // Drops finished, failed and cancelled items from the list
+  clearFinished(): void {
+    this.items = this.items.filter(
+      (item) =>
+        item.status !== "done" &&
+        item.status !== "error" &&
+        item.status !== "cancelled",
+    );
+    this.emit();
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getSnapshot(): UploadQueueSnapshot<T> {
+    return this.snapshot;
+  }
+
+  private pump(): void {
+    if (this.paused) return;
+    let running = this.controllers.size;
+    for (const item of this.items) {
+      if (running >= this.options.concurrency) break;
+      if (item.status !== "queued") continue;
+      running++;
+      void this.run(item.id);
+    }
+  }
+
+  private async run(id: string): Promise<void> {
+    const item = this.items.find((entry) => entry.id === id);
+    if (!item) return;
+
+    const controller = new AbortController();
+    this.controllers.set(id, controller);
+    this.update(id, {
+      status: "uploading",
+      loaded: 0,
+      attempts: item.attempts + 1,
+    });
+    this.emit();
+
+    try {
+      const result = await this.options.upload(item.file, {
+        signal: controller.signal,
+        onProgress: (loaded, total) => {
+          if (controller.signal.aborted) return;
+          this.update(id, { loaded, total });
+          this.emit();
+        },
+      });
+      if (controller.signal.aborted) return;
+      this.controllers.delete(id);
+      const current = this.items.find((entry) => entry.id === id);
+      this.update(id, {
+        status: "done",
+        loaded: current?.total,
+        error: undefined,
+        result,
+      });
+    } catch (error) {
+      // Paused or cancelled: whoever aborted has already updated the item
+      if (controller.signal.aborted || isAbortError(error)) return;
+      this.controllers.delete(id);
+      const attempts = this.items.find((entry) => entry.id === id)?.attempts;
+      const message = error instanceof Error ? error.message : String(error);
+
+      if (isRetryable(error) && (attempts ?? 0) <= this.options.maxRetries) {
+        const delay =
+          this.options.retryDelay * 2 ** ((attempts ?? 1) - 1) +
+          Math.random() * this.options.retryDelay;
+        this.update(id, { status: "retrying", error: message });
+        this.retryTimers.set(
+          id,
+          setTimeout(() => {
+            this.retryTimers.delete(id);
+            const current = this.items.find((entry) => entry.id === id);
+            if (current?.status !== "retrying") return;
+            this.update(id, { status: "queued" });
+            this.emit();
+            this.pump();
+          }, delay),
+        );
+      } else {
+        this.update(id, { status: "error", error: message });
+      }
+    }
+
+    this.emit();
+    this.pump();
+  }
+
+  private update(id: string, changes: Partial<UploadItem<T>>): void {
+    this.items = this.items.map((item) =>
+      item.id === id ? { ...item, ...changes } : item,
+    );
+  }
+
+  private buildSnapshot(): UploadQueueSnapshot<T> {
+    const counted = this.items.filter((item) => item.status !== "cancelled");
+    return {
+      items: this.items,
+      paused: this.paused,
+      loaded: counted.reduce((sum, item) => sum + item.loaded, 0),
+      total: counted.reduce((sum, item) => sum + item.total, 0),
+      active: this.items.some(
+        (item) =>
+          item.status === "queued" ||
+          item.status === "uploading" ||
+          item.status === "retrying",
+      ),
+    };
+  }
+
+  private emit(): void {
+    this.snapshot = this.buildSnapshot();
+    for (const listener of this.listeners) listener();
+  }
+}
@@ -0,0 +1,88 @@
+import { withExtension } from "@/lib/imageFormat";
+
+export interface VideoPoster {
+  // JPEG still used for thumbnails, covers and the 3D views
+  poster: File;
+  // Clip length in seconds
+  duration: number;
+}
+
+// Frame to grab, in seconds. The very first frame is often black.
+const POSTER_TIME = 0.5;
+
+// Captures a poster frame of a video clip in the browser. Workers cannot
+// decode video, so the still of a video row always comes from the client.
+export async function captureVideoPoster(
+  file: File,
+  maxWidth = 1920,
+  quality = 0.85,
+): Promise<VideoPoster> {
+  const objectUrl = URL.createObjectURL(file);
+  const video = document.createElement("video");
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = "auto";
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      video.onloadeddata = () => resolve();
+      video.onerror = () => reject(new Error("Could not read video"));
+      video.src = objectUrl;
+    });
+
+    const duration = Number.isFinite(video.duration) ? video.duration : 0;
+    await new Promise<void>((resolve) => {
+      video.onseeked = () => resolve();
+      video.currentTime = Math.min(POSTER_TIME, duration / 2);
+    });
+
+    let width = video.videoWidth;
+    let height = video.videoHeight;
+    if (width > maxWidth) {
+      height = Math.round((height * maxWidth) / width);
+      width = maxWidth;
+    }
+
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Could not capture video poster");
+    ctx.drawImage(video, 0, 0, width, height);
+
+    const blob = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, "image/jpeg", quality),
+    );
+    if (!blob) throw new Error("Could not capture video poster");
+
+    return {
+      poster: new File([blob], withExtension(file.name, "jpg"), {
+        type: "image/jpeg",
+        lastModified: file.lastModified,
+      }),
+      duration,
+    };
+  } finally {
+    video.removeAttribute("src");
+    video.load();
+    URL.revokeObjectURL(objectUrl);
+  }
+}
+
+// Reads the length of a clip, e.g. the motion part of a Live Photo
+export async function readVideoDuration(file: File): Promise<number> {
+  const objectUrl = URL.createObjectURL(file);
+  const video = document.createElement("video");
+  video.preload = "metadata";
+  try {
+    return await new Promise<number>((resolve) => {
+      video.onloadedmetadata = () =>
+        resolve(Number.isFinite(video.duration) ? video.duration : 0);
+      // Browsers that cannot decode the clip (e.g. HEVC) still store it
+      video.onerror = () => resolve(0);
+      video.src = objectUrl;
+    });
+  } finally {
+    URL.revokeObjectURL(objectUrl);
+  }
+}